@@ -0,0 +1,187 @@
+import { Command } from 'commander';
+import { spawn } from 'child_process';
+import { openSync, closeSync, readFileSync, existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { startDaemonServer } from '../daemon/server.js';
+import { getDaemonInfo, isDaemonCompatible, requestDaemon } from '../daemon/client.js';
+import { getDaemonSocketPath, getDaemonLogPath } from '../daemon/protocol.js';
+import { configExists } from '../utils/config.js';
+import type { DaemonInfo } from '../daemon/protocol.js';
+import type { DaemonServer } from '../daemon/server.js';
+import type { CliResponse } from '../types.js';
+
+// Model download on first start can take a while
+const START_TIMEOUT_MS = 120_000;
+const STOP_TIMEOUT_MS = 10_000;
+const POLL_INTERVAL_MS = 200;
+
+function readVersion(): string {
+  const packageJson = JSON.parse(readFileSync(join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'package.json'), 'utf-8'));
+  return packageJson.version;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function lastLogLines(path: string, count = 5): string {
+  if (!existsSync(path)) return '';
+  return readFileSync(path, 'utf-8').trim().split('\n').slice(-count).join('\n');
+}
+
+export const daemonCommand = new Command('daemon')
+  .description('Keep the embedding model and database connection warm for CLI calls');
+
+// Start subcommand
+daemonCommand
+  .command('start')
+  .description('Start the daemon for this workspace in the background')
+  .option('--foreground', 'Run in this process until stopped (logs to stderr)')
+  .action(async (options) => {
+    try {
+      if (!configExists()) {
+        const response: CliResponse = {
+          success: false,
+          error: 'Failed to start daemon: Turso config not found. Run `superintent init` first',
+        };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+
+      const running = await getDaemonInfo();
+      if (running) {
+        const response: CliResponse = {
+          success: false,
+          error: `Failed to start daemon: already running (pid ${running.pid})`,
+        };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+
+      if (options.foreground) {
+        // Same shutdown rules as the dashboard: release handles and let Node exit on its own
+        // (process.exit() while onnxruntime threads hold locks aborts the process)
+        let server: DaemonServer | null = null;
+        let stopping = false;
+        const shutdown = () => {
+          if (stopping) return;
+          stopping = true;
+          process.stderr.write('* Daemon stopping\n');
+          server?.close();
+        };
+        process.on('SIGINT', shutdown);
+        process.on('SIGTERM', shutdown);
+        server = await startDaemonServer(readVersion(), shutdown);
+        process.stderr.write(`* Daemon ready on ${getDaemonSocketPath()} (pid ${process.pid})\n`);
+        return;
+      }
+
+      const logPath = getDaemonLogPath();
+      const log = openSync(logPath, 'a');
+      const child = spawn(process.execPath, [process.argv[1], 'daemon', 'start', '--foreground'], {
+        cwd: process.cwd(),
+        detached: true,
+        stdio: ['ignore', log, log],
+      });
+      closeSync(log);
+      let exitCode: number | null = null;
+      child.on('exit', (code) => { exitCode = code ?? 1; });
+      child.unref();
+
+      const deadline = Date.now() + START_TIMEOUT_MS;
+      let info: DaemonInfo | null = null;
+      while (!info && exitCode === null && Date.now() < deadline) {
+        await sleep(POLL_INTERVAL_MS);
+        info = await getDaemonInfo();
+      }
+      if (!info) {
+        const details = lastLogLines(logPath);
+        const response: CliResponse = {
+          success: false,
+          error: `Failed to start daemon: ${exitCode !== null ? `exited with code ${exitCode}` : 'timed out waiting for it to load'}${details ? `\n${details}` : ''}`,
+        };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+
+      const response: CliResponse<DaemonInfo & { socket: string; log: string }> = {
+        success: true,
+        data: { ...info, socket: getDaemonSocketPath(), log: logPath },
+      };
+      console.log(JSON.stringify(response));
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Failed to start daemon: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Stop subcommand
+daemonCommand
+  .command('stop')
+  .description('Stop the daemon for this workspace')
+  .action(async () => {
+    try {
+      const info = await getDaemonInfo();
+      if (!info) {
+        const response: CliResponse<{ stopped: boolean }> = { success: true, data: { stopped: false } };
+        console.log(JSON.stringify(response));
+        return;
+      }
+
+      await requestDaemon('shutdown');
+      const deadline = Date.now() + STOP_TIMEOUT_MS;
+      while (await getDaemonInfo()) {
+        if (Date.now() > deadline) {
+          const response: CliResponse = {
+            success: false,
+            error: `Failed to stop daemon: pid ${info.pid} is still running`,
+          };
+          console.log(JSON.stringify(response));
+          process.exit(1);
+        }
+        await sleep(POLL_INTERVAL_MS);
+      }
+
+      const response: CliResponse<{ stopped: boolean; pid: number }> = {
+        success: true,
+        data: { stopped: true, pid: info.pid },
+      };
+      console.log(JSON.stringify(response));
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Failed to stop daemon: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Status subcommand
+daemonCommand
+  .command('status')
+  .description('Show whether the daemon is running and whether CLI calls use it')
+  .action(async () => {
+    try {
+      const info = await getDaemonInfo();
+      const response: CliResponse<{ running: false } | (DaemonInfo & { running: true; compatible: boolean; socket: string })> = {
+        success: true,
+        data: info
+          ? { running: true, ...info, compatible: isDaemonCompatible(info), socket: getDaemonSocketPath() }
+          : { running: false },
+      };
+      console.log(JSON.stringify(response));
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Failed to get daemon status: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
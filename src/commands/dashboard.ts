@@ -3,20 +3,54 @@ import { Command } from 'commander';
 import { serve } from '@hono/node-server';
 import open from 'open';
 import { getClient, closeClient } from '../db/client.js';
-import { loadConfig, getProjectNamespace } from '../utils/config.js';
+import { loadConfig, loadDashboardAuthConfig, loadWebhookConfig, getProjectNamespace } from '../utils/config.js';
 import { disposeEmbedder } from '../embed/model.js';
 import { closeAllSSEClients, startChangeWatcher } from '../ui/sse.js';
 import { createApp } from '../ui/server.js';
+import { onChange } from '../services/events.js';
+import { startWebhookDispatcher } from '../webhooks/dispatcher.js';
+import type { WebhookDispatcher } from '../webhooks/dispatcher.js';
+import type { DashboardAuthConfig, WebhookConfig } from '../utils/config.js';
+
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+function describeAuth(auth: DashboardAuthConfig | null): string {
+  if (!auth) return 'none (local only)';
+  return [auth.token && 'token', auth.basic && `basic (${auth.basic.username})`].filter(Boolean).join(' + ');
+}
 
 export const dashboardCommand = new Command('dashboard')
   .aliases(['dash'])
   .description('Start the Superintent dashboard')
   .option('-p, --port <port>', 'Server port', '3456')
   .option('-o, --open', 'Auto-open browser')
+  .option('--host <host>', 'Address to bind; anything but loopback requires DASHBOARD_TOKEN or DASHBOARD_USERNAME/PASSWORD', '127.0.0.1')
+  .option('--read-only', 'Reject every request that changes data')
   .action(async (options) => {
     const port = parseInt(options.port, 10);
+    const host: string = options.host;
+    const readOnly = Boolean(options.readOnly);
+
+    let auth: DashboardAuthConfig | null;
+    let webhooks: WebhookConfig[];
+    try {
+      auth = loadDashboardAuthConfig();
+      webhooks = loadWebhookConfig();
+    } catch (error) {
+      console.error(`\x1b[31mFailed to start dashboard: ${(error as Error).message}\x1b[0m`);
+      process.exit(1);
+    }
+    if (!auth && !isLoopbackHost(host)) {
+      console.error(`\x1b[31mFailed to start dashboard: binding to ${host} requires DASHBOARD_TOKEN or DASHBOARD_USERNAME/DASHBOARD_PASSWORD in .superintent/.env\x1b[0m`);
+      process.exit(1);
+    }
+
     const namespace = getProjectNamespace();
-    const { app, version } = createApp(namespace);
+    const { app, version } = createApp(namespace, { auth, readOnly });
+    const displayHost = isLoopbackHost(host) ? 'localhost' : host;
+    const url = `http://${displayHost.includes(':') ? `[${displayHost}]` : displayHost}:${port}`;
 
     const config = loadConfig();
     const isLocal = config.url.startsWith('file:');
@@ -29,8 +63,10 @@ export const dashboardCommand = new Command('dashboard')
 
   \x1b[1mSuperintent\x1b[0m \x1b[90mv${version}\x1b[0m
 
-  \x1b[38;2;79;248;210m*\x1b[0m Ready at \x1b[1mhttp://localhost:${port}\x1b[0m
+  \x1b[38;2;79;248;210m*\x1b[0m Ready at \x1b[1m${url}\x1b[0m
   \x1b[90m>\x1b[0m Using \x1b[38;2;79;248;210mTurso ${dbMode}\x1b[0m
+  \x1b[90m>\x1b[0m Auth: ${describeAuth(auth)}${readOnly ? ', \x1b[33mread-only\x1b[0m' : ''}${webhooks.length > 0 ? `
+  \x1b[90m>\x1b[0m Webhooks: ${webhooks.map(w => w.id).join(', ')}` : ''}
 
   \x1b[90mPress Ctrl+C to stop\x1b[0m
 `;
@@ -39,15 +75,26 @@ export const dashboardCommand = new Command('dashboard')
     const server = serve({
       fetch: app.fetch,
       port,
-      hostname: '127.0.0.1',
+      hostname: host,
     });
 
     // Start DB change watcher for external mutations (CLI, other clients)
-    getClient().then(client => startChangeWatcher(client));
+    let webhookDispatcher: WebhookDispatcher | null = null;
+    getClient().then(client => {
+      startChangeWatcher(client);
+      if (webhooks.length > 0) {
+        webhookDispatcher = startWebhookDispatcher(client, webhooks, {
+          onError: (error) => console.error(`\x1b[33mWebhook dispatch failed: ${error.message}\x1b[0m`),
+        });
+      }
+    });
+    // Send right away for changes made through the dashboard
+    onChange(() => webhookDispatcher?.check());
 
     if (options.open) {
       setTimeout(() => {
-        open(`http://localhost:${port}`);
+        // The token is swapped for a cookie on the first request, so the browser is signed in
+        open(auth?.token ? `${url}/?token=${encodeURIComponent(auth.token)}` : url);
       }, 500);
     }
 
@@ -62,6 +109,7 @@ export const dashboardCommand = new Command('dashboard')
       shuttingDown = true;
       console.log('\n\x1b[90m  See ya!\x1b[0m\n');
       closeAllSSEClients();
+      webhookDispatcher?.stop();
       // closeAllConnections forces immediate shutdown instead of waiting for drain
       if ('closeAllConnections' in server) {
         (server as http.Server).closeAllConnections();
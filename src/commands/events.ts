@@ -0,0 +1,166 @@
+import { Command } from 'commander';
+import type { Client } from '@libsql/client';
+import { getClient, closeClient } from '../db/client.js';
+import { getChangesSince, getSeqBefore } from '../db/change-log.js';
+import { followChanges, followWikiChanges } from '../ui/sse.js';
+import { parseSince, toSqliteDatetime } from '../utils/time.js';
+import type { ChangeFollower, WikiIndexState } from '../ui/sse.js';
+import type { CliResponse, ChangeLogEntry } from '../types.js';
+
+const EVENT_TYPES = ['ticket', 'knowledge', 'spec', 'comment', 'wiki'] as const;
+type EventType = typeof EVENT_TYPES[number];
+
+const PAGE_SIZE = 500;
+
+interface EventFilter {
+  types: Set<EventType>;
+  namespace?: string;
+}
+
+function parseTypes(value: string | undefined): Set<EventType> {
+  if (!value) return new Set(EVENT_TYPES);
+  const types = value.split(',').map(t => t.trim()).filter(Boolean);
+  for (const type of types) {
+    if (!EVENT_TYPES.includes(type as EventType)) {
+      throw new Error(`Invalid --type '${type}'. Must be one of: ${EVENT_TYPES.join(', ')}`);
+    }
+  }
+  return new Set(types as EventType[]);
+}
+
+/**
+ * A change seq ("120") or a time (30d, 12h, 4w, ISO date), as the seq to start after.
+ */
+async function resolveSince(client: Client, value: string): Promise<number> {
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10);
+  return getSeqBefore(client, toSqliteDatetime(parseSince(value)));
+}
+
+/**
+ * Namespace of the knowledge entry a change belongs to (the entry itself or the entry
+ * a comment is on). Revisions keep it for entries that no longer exist.
+ */
+function createNamespaceLookup(client: Client) {
+  const cache = new Map<string, string | null>();
+
+  return async (entry: ChangeLogEntry): Promise<string | null> => {
+    const knowledgeId = entry.entity === 'knowledge'
+      ? entry.entity_id
+      : entry.parent_type === 'knowledge' ? entry.parent_id : undefined;
+    if (!knowledgeId) return null;
+
+    // Entries can move namespace, so updates always look again
+    if (entry.op !== 'update' && cache.has(knowledgeId)) return cache.get(knowledgeId) ?? null;
+
+    const result = await client.execute({
+      sql: `SELECT namespace FROM knowledge WHERE id = ?
+            UNION ALL
+            SELECT namespace FROM (
+              SELECT namespace FROM knowledge_revisions WHERE knowledge_id = ? ORDER BY revision DESC LIMIT 1
+            )
+            LIMIT 1`,
+      args: [knowledgeId, knowledgeId],
+    });
+    const namespace = (result.rows[0]?.namespace as string | null | undefined) ?? null;
+    cache.set(knowledgeId, namespace);
+    return namespace;
+  };
+}
+
+function printLine(event: object): void {
+  process.stdout.write(JSON.stringify(event) + '\n');
+}
+
+export const eventsCommand = new Command('events')
+  .description('Print database changes as JSON lines (tickets, knowledge, specs, comments, wiki)')
+  .option('-f, --follow', 'Keep running and print changes as they happen')
+  .option('--since <since>', 'Start from a change seq or a time: 30d, 12h, 4w or an ISO date (default: 24h, or now with --follow)')
+  .option('--type <types>', `Comma-separated event types: ${EVENT_TYPES.join(', ')}`)
+  .option('--namespace <namespace>', 'Only knowledge in this namespace and comments on it')
+  .action(async (options) => {
+    let client: Client;
+    let filter: EventFilter;
+    let afterSeq: number | undefined;
+    try {
+      filter = { types: parseTypes(options.type), namespace: options.namespace };
+      // Wiki changes are not kept in change_log, only seen while following
+      if (options.type && filter.types.has('wiki') && !options.follow) {
+        throw new Error('--type wiki requires --follow (earlier wiki changes are not recorded)');
+      }
+      client = await getClient();
+      const since = options.since ?? (options.follow ? undefined : '24h');
+      afterSeq = since !== undefined ? await resolveSince(client, since) : undefined;
+    } catch (error) {
+      closeClient();
+      const response: CliResponse = {
+        success: false,
+        error: `Failed to read events: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+
+    const namespaceOf = createNamespaceLookup(client);
+
+    const printChange = async (entry: ChangeLogEntry): Promise<void> => {
+      if (!filter.types.has(entry.entity)) return;
+      const namespace = await namespaceOf(entry);
+      if (filter.namespace && namespace !== filter.namespace) return;
+      printLine(namespace ? { ...entry, namespace } : entry);
+    };
+
+    // Wiki pages belong to the project, not to a knowledge namespace
+    const printWiki = (state: WikiIndexState): void => {
+      if (!filter.types.has('wiki') || filter.namespace) return;
+      printLine({ entity: 'wiki', op: 'update', pages: state.pages, citations: state.citations, created_at: state.updated_at });
+    };
+
+    // Stop reading and let the event loop drain (also when the reader of a pipe goes away)
+    const followers: ChangeFollower[] = [];
+    let stopped = false;
+    const stop = () => {
+      if (stopped) return;
+      stopped = true;
+      for (const follower of followers) follower.stop();
+      closeClient();
+    };
+    process.stdout.on('error', stop);
+
+    if (!options.follow) {
+      try {
+        let position = afterSeq ?? 0;
+        while (!stopped) {
+          const entries = await getChangesSince(client, position, PAGE_SIZE);
+          for (const entry of entries) {
+            if (stopped) break;
+            position = entry.seq;
+            await printChange(entry);
+          }
+          if (entries.length < PAGE_SIZE) break;
+        }
+      } catch (error) {
+        if (stopped) return;
+        const response: CliResponse = {
+          success: false,
+          error: `Failed to read events: ${(error as Error).message}`,
+        };
+        console.log(JSON.stringify(response));
+        process.exitCode = 1;
+      } finally {
+        closeClient();
+      }
+      return;
+    }
+
+    // stdout carries the events, so failures go to stderr
+    const printError = (error: Error, failures: number): void => {
+      if (stopped) return;
+      console.error(`Warning: reading events failed${failures > 1 ? ` (${failures} times in a row)` : ''}: ${error.message}`);
+    };
+    followers.push(
+      followChanges(client, { afterSeq, onChange: printChange, onError: printError }),
+      followWikiChanges(client, { onChange: printWiki, onError: printError }),
+    );
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
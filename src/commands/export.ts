@@ -0,0 +1,58 @@
+import { Command } from 'commander';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { getClient, closeClient } from '../db/client.js';
+import { exportBundle } from '../db/bundle.js';
+import { parseSince } from '../utils/time.js';
+import type { CliResponse } from '../types.js';
+
+export const exportCommand = new Command('export')
+  .description('Export all data to a portable JSON bundle')
+  .option('--out <file>', 'Bundle file to write', 'superintent-bundle.json')
+  .option('--namespace <namespace>', 'Only knowledge in this namespace (plus its revisions, comments and citations)')
+  .option('--since <duration>', 'Only rows changed since: 30d, 12h, 4w or an ISO date')
+  .option('--no-embeddings', 'Leave out knowledge vectors (re-embedded on import)')
+  .action(async (options) => {
+    try {
+      const since = options.since ? parseSince(options.since) : undefined;
+
+      const client = await getClient();
+      try {
+        const bundle = await exportBundle(client, {
+          namespace: options.namespace,
+          since,
+          embeddings: options.embeddings,
+        });
+
+        const out = resolve(options.out);
+        writeFileSync(out, JSON.stringify(bundle));
+
+        const response: CliResponse<{
+          out: string;
+          schemaVersion: number;
+          embeddingModel: string | null;
+          filters: typeof bundle.filters;
+          counts: Record<string, number>;
+        }> = {
+          success: true,
+          data: {
+            out,
+            schemaVersion: bundle.schemaVersion,
+            embeddingModel: bundle.embeddingModel,
+            filters: bundle.filters,
+            counts: Object.fromEntries(Object.entries(bundle.tables).map(([table, rows]) => [table, rows.length])),
+          },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Export failed: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,61 @@
+import { Command } from 'commander';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { getClient, closeClient } from '../db/client.js';
+import { importBundle, validateBundle } from '../db/bundle.js';
+import type { ImportReport } from '../db/bundle.js';
+import type { CliResponse } from '../types.js';
+
+export const importCommand = new Command('import')
+  .description('Import a JSON bundle created by export')
+  .argument('<bundle>', 'Bundle file')
+  .option('--merge', 'Keep existing data; newer bundle rows update matching IDs (default)')
+  .option('--replace', 'Empty the bundle\'s tables first, then load the bundle (unfiltered bundles only)')
+  .option('--remap', 'With --merge, import colliding IDs under new IDs instead of updating or skipping')
+  .option('--dry-run', 'Report what would be created, updated and skipped without writing')
+  .action(async (file, options) => {
+    try {
+      if (options.merge && options.replace) {
+        const response: CliResponse = {
+          success: false,
+          error: 'Use either --merge or --replace, not both',
+        };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+      if (options.replace && options.remap) {
+        const response: CliResponse = {
+          success: false,
+          error: '--remap only applies to --merge',
+        };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+
+      const bundle = validateBundle(JSON.parse(readFileSync(resolve(file), 'utf-8')));
+
+      const client = await getClient();
+      try {
+        const report = await importBundle(client, bundle, {
+          mode: options.replace ? 'replace' : 'merge',
+          remap: options.remap,
+          dryRun: options.dryRun,
+        });
+
+        const response: CliResponse<ImportReport> = {
+          success: true,
+          data: report,
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Import failed: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
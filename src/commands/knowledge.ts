@@ -1,165 +1,28 @@
 import { Command } from 'commander';
-import { getClient, closeClient } from '../db/client.js';
-import { parseKnowledgeRow, parseTicketRow } from '../db/parsers.js';
-import { performVectorSearch } from '../db/search.js';
-import { embed } from '../embed/model.js';
-
-import { generateId } from '../utils/id.js';
-import { getProjectNamespace } from '../utils/config.js';
-import { getGitUsername, getGitBranch } from '../utils/git.js';
-import { validateCitation, computeContentHash } from '../utils/hash.js';
-import { readFileSync } from 'fs';
 import { resolve } from 'path';
-import { generateExtractProposals } from './ticket.js';
-import type { Knowledge, SearchResult, KnowledgeInput, CliResponse, KnowledgeCategory, DecisionScope, KnowledgeSource, TicketType, TicketPlan, Citation } from '../types.js';
-
-function clampConfidence(value: number): number {
-  if (isNaN(value)) return 0.8;
-  return Math.max(0.1, Math.min(1.0, value));
-}
-
-const VALID_CATEGORIES: KnowledgeCategory[] = ['pattern', 'truth', 'principle', 'architecture', 'gotcha'];
-const VALID_SOURCES: KnowledgeSource[] = ['ticket', 'discovery', 'manual'];
-const VALID_SCOPES: DecisionScope[] = ['new-only', 'backward-compatible', 'global', 'legacy-frozen'];
-const VALID_TICKET_TYPES: TicketType[] = ['feature', 'bugfix', 'refactor', 'docs', 'chore', 'test'];
-
-interface KnowledgeJsonInput {
-  title?: string;
-  namespace?: string;
-  content?: string;
-  category?: string;
-  source?: string;
-  originTicketId?: string;
-  originTicketType?: string;
-  confidence?: number;
-  scope?: string;
-  tags?: string[];
-  citations?: Citation[];
-  author?: string;
-  branch?: string;
-}
-
-/**
- * Parse JSON knowledge input.
- * Expected format: {"title": "...", "namespace": "...", "content": "...", ...}
- */
-function parseJsonKnowledge(raw: string): KnowledgeJsonInput {
-  try {
-    const parsed = JSON.parse(raw);
-    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-      throw new Error('Expected a JSON object');
-    }
-    const result: KnowledgeJsonInput = {};
-
-    if (parsed.title !== undefined) {
-      if (typeof parsed.title !== 'string') throw new Error('title must be a string');
-      result.title = parsed.title.trim();
-    }
-    if (parsed.namespace !== undefined) {
-      if (typeof parsed.namespace !== 'string') throw new Error('namespace must be a string');
-      result.namespace = parsed.namespace.trim();
-    }
-    if (parsed.content !== undefined) {
-      if (typeof parsed.content !== 'string') throw new Error('content must be a string');
-      result.content = parsed.content.trim();
-    }
-    if (parsed.category !== undefined) {
-      if (typeof parsed.category !== 'string') throw new Error('category must be a string');
-      result.category = parsed.category.trim();
-    }
-    if (parsed.source !== undefined) {
-      if (typeof parsed.source !== 'string') throw new Error('source must be a string');
-      result.source = parsed.source.trim();
-    }
-    if (parsed.originTicketId !== undefined) {
-      if (typeof parsed.originTicketId !== 'string') throw new Error('originTicketId must be a string');
-      result.originTicketId = parsed.originTicketId.trim();
-    }
-    if (parsed.originTicketType !== undefined) {
-      if (typeof parsed.originTicketType !== 'string') throw new Error('originTicketType must be a string');
-      result.originTicketType = parsed.originTicketType.trim().toLowerCase();
-    }
-    if (parsed.confidence !== undefined) {
-      if (typeof parsed.confidence !== 'number') throw new Error('confidence must be a number');
-      result.confidence = parsed.confidence;
-    }
-    if (parsed.scope !== undefined) {
-      if (typeof parsed.scope !== 'string') throw new Error('scope must be a string');
-      result.scope = parsed.scope.trim();
-    }
-    if (parsed.tags !== undefined) {
-      if (!Array.isArray(parsed.tags) || !parsed.tags.every((t: unknown) => typeof t === 'string')) {
-        throw new Error('tags must be an array of strings');
-      }
-      result.tags = parsed.tags.map((t: string) => t.trim()).filter(Boolean);
-    }
-    if (parsed.citations !== undefined) {
-      if (!Array.isArray(parsed.citations)) {
-        throw new Error('citations must be an array');
-      }
-      const fileHashCache = new Map<string, string>();
-      const cwd = process.cwd();
-      result.citations = parsed.citations.map((c: unknown, i: number) => {
-        if (typeof c !== 'object' || c === null) {
-          throw new Error(`citations[${i}] must be an object`);
-        }
-        const citation = c as Record<string, unknown>;
-        if (typeof citation.path !== 'string' || !citation.path.trim()) {
-          throw new Error(`citations[${i}].path must be a non-empty string`);
-        }
-        const citationPath = (citation.path as string).trim();
-
-        // Auto-compute fileHash from file path if omitted
-        let fileHash: string;
-        if (typeof citation.fileHash === 'string' && citation.fileHash.trim()) {
-          fileHash = citation.fileHash.trim();
-        } else {
-          // Validate line number as navigation hint
-          const colonIdx = citationPath.lastIndexOf(':');
-          if (colonIdx === -1) {
-            throw new Error(`citations[${i}].path must be file:line format`);
-          }
-          const filePath = citationPath.slice(0, colonIdx);
-          const lineNum = parseInt(citationPath.slice(colonIdx + 1), 10);
-          if (isNaN(lineNum) || lineNum < 1) {
-            throw new Error(`citations[${i}].path has invalid line number`);
-          }
-
-          // Hash entire file (cached per file path)
-          let cached = fileHashCache.get(filePath);
-          if (cached === undefined) {
-            try {
-              const absPath = resolve(cwd, filePath);
-              const content = readFileSync(absPath, 'utf-8');
-              cached = computeContentHash(content);
-              fileHashCache.set(filePath, cached);
-            } catch {
-              throw new Error(`citations[${i}]: file not found: ${filePath}`);
-            }
-          }
-          fileHash = cached;
-        }
-
-        return { path: citationPath, fileHash };
-      });
-    }
-    if (parsed.author !== undefined) {
-      if (typeof parsed.author !== 'string') throw new Error('author must be a string');
-      result.author = parsed.author.trim();
-    }
-    if (parsed.branch !== undefined) {
-      if (typeof parsed.branch !== 'string') throw new Error('branch must be a string');
-      result.branch = parsed.branch.trim();
-    }
-
-    return result;
-  } catch (error) {
-    if (error instanceof SyntaxError) {
-      throw new Error(`Invalid JSON: ${error.message}`, { cause: error });
-    }
-    throw error;
-  }
-}
+import { getClient, closeClient } from '../db/client.js';
+import { getKnowledgeRevisions } from '../db/revisions.js';
+import { syncKnowledgeToFiles, syncKnowledgeFromFiles } from '../services/knowledge-files.js';
+import { reembedKnowledge } from '../db/reembed.js';
+import {
+  createKnowledge, getKnowledge, listKnowledge, updateKnowledge, setKnowledgeActive, promoteKnowledge,
+  getKnowledgeHistory, revertKnowledge, validateCitations, recalculateConfidence, searchKnowledge,
+  validateKnowledgeFields, findDuplicateKnowledge, mergeKnowledge, linkKnowledge, unlinkKnowledge, getKnowledgeLinks,
+} from '../services/knowledge.js';
+import { extractKnowledge } from '../services/extract.js';
+import { parseJsonInput } from '../services/input.js';
+import { diffLines, formatDiff } from '../utils/diff.js';
+import { NotFoundError } from '../errors.js';
+import type {
+  KnowledgeFields, KnowledgeSearchPage, CitationCheckReport, ConfidenceReport, KnowledgeMergeResult,
+} from '../services/knowledge.js';
+import type { DuplicateCluster } from '../db/duplicates.js';
+import type { ExtractProposal } from '../services/extract.js';
+import type { KnowledgeSyncReport } from '../services/knowledge-files.js';
+import type { ReembedScope, ReembedReport } from '../db/reembed.js';
+import type {
+  Knowledge, KnowledgeRevision, SearchMode, CliResponse, KnowledgeSource, KnowledgeLinkType, KnowledgeLinks,
+} from '../types.js';
 
 export const knowledgeCommand = new Command('knowledge')
   .description('Manage knowledge entries');
@@ -180,78 +43,10 @@ knowledgeCommand
   .option('--scope <scope>', 'Decision scope: new-only|backward-compatible|global|legacy-frozen (required)')
   .action(async (options) => {
     try {
-      let id: string;
-      let title: string;
-      let content: string;
-      let namespace: string;
-      let category: string | null;
-      let tags: string[] | null;
-      let citations: Citation[] | null;
-      let source: KnowledgeSource;
-      let originTicketId: string | null;
-      let originTicketType: TicketType | null;
-      let confidence: number;
-      let scope: string;
-      let author: string;
-      let branch: string;
-
+      let fields: KnowledgeFields;
       if (options.json) {
-        const raw = options.json;
-        const parsed = parseJsonKnowledge(raw);
-
-        // Field-level validation
-        const missing: string[] = [];
-        if (!parsed.title) missing.push('title: Missing or empty title');
-        if (!parsed.namespace) missing.push('namespace: Missing or empty namespace');
-        if (!parsed.content) missing.push('content: Missing or empty content');
-
-        // Scope: required and must be valid enum
-        if (!parsed.scope) {
-          missing.push('scope: Missing scope (new-only|backward-compatible|global|legacy-frozen)');
-        } else if (!VALID_SCOPES.includes(parsed.scope as DecisionScope)) {
-          missing.push(`scope: Invalid scope '${parsed.scope}'. Must be one of: ${VALID_SCOPES.join(', ')}`);
-        }
-
-        // Category: optional, but if provided must be valid
-        if (parsed.category !== undefined && !VALID_CATEGORIES.includes(parsed.category as KnowledgeCategory)) {
-          missing.push(`category: Invalid category '${parsed.category}'. Must be one of: ${VALID_CATEGORIES.join(', ')}`);
-        }
-
-        // Source: optional, but if provided must be valid
-        if (parsed.source !== undefined && !VALID_SOURCES.includes(parsed.source as KnowledgeSource)) {
-          missing.push(`source: Invalid source '${parsed.source}'. Must be one of: ${VALID_SOURCES.join(', ')}`);
-        }
-
-        // Origin ticket type: optional, but if provided must be valid
-        if (parsed.originTicketType !== undefined && !VALID_TICKET_TYPES.includes(parsed.originTicketType as TicketType)) {
-          missing.push(`originTicketType: Invalid type '${parsed.originTicketType}'. Must be one of: ${VALID_TICKET_TYPES.join(', ')}`);
-        }
-
-        if (missing.length > 0) {
-          const response: CliResponse = {
-            success: false,
-            error: missing.join('; '),
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        id = generateId('KNOWLEDGE');
-        title = parsed.title!;
-        content = parsed.content!;
-        namespace = parsed.namespace!;
-        category = parsed.category || null;
-        tags = parsed.tags || null;
-        citations = parsed.citations?.length ? parsed.citations : null;
-        source = parsed.originTicketId ? 'ticket' : (parsed.source as KnowledgeSource) || 'manual';
-        originTicketId = parsed.originTicketId || null;
-        originTicketType = (parsed.originTicketType as TicketType) || null;
-        confidence = parsed.confidence !== undefined ? clampConfidence(parsed.confidence) : 0.8;
-        scope = parsed.scope!;
-        author = parsed.author || getGitUsername();
-        branch = parsed.branch || getGitBranch();
+        fields = validateKnowledgeFields(parseJsonInput(options.json));
       } else {
-        // Use CLI options
         if (!options.title || !options.namespace || !options.content || !options.scope) {
           const response: CliResponse = {
             success: false,
@@ -260,75 +55,25 @@ knowledgeCommand
           console.log(JSON.stringify(response));
           process.exit(1);
         }
-
-        id = generateId('KNOWLEDGE');
-        title = options.title;
-        content = options.content;
-        namespace = options.namespace;
-        category = options.category || null;
-        tags = options.tags || null;
-        citations = null;
-        source = options.origin ? 'ticket' : options.source;
-        originTicketId = options.origin || null;
-        originTicketType = null;
-        confidence = clampConfidence(parseFloat(options.confidence));
-        scope = options.scope;
-        author = getGitUsername();
-        branch = getGitBranch();
+        fields = {
+          title: options.title,
+          content: options.content,
+          namespace: options.namespace,
+          category: options.category,
+          tags: options.tags,
+          source: options.source as KnowledgeSource,
+          originTicketId: options.origin,
+          confidence: parseFloat(options.confidence),
+          scope: options.scope,
+        };
       }
 
       const client = await getClient();
       try {
-        // Generate embedding from title + content + tags
-        const tagsText = tags?.length ? ' ' + tags.join(' ') : '';
-        const textToEmbed = `${title} ${content}${tagsText}`;
-        const embedding = await embed(textToEmbed);
-
-        await client.execute({
-          sql: `INSERT INTO knowledge (
-            id, namespace, chunk_index, title, content, embedding,
-            category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
-            author, branch
-          ) VALUES (?, ?, 0, ?, ?, vector32(?), ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)`,
-          args: [
-            id,
-            namespace,
-            title,
-            content,
-            JSON.stringify(embedding),
-            category,
-            tags ? JSON.stringify(tags) : null,
-            citations ? JSON.stringify(citations) : null,
-            source,
-            originTicketId,
-            originTicketType,
-            confidence,
-            scope,
-            author,
-            branch,
-          ],
-        });
-
-        // Bidirectional linking: update ticket's derived_knowledge
-        if (originTicketId) {
-          const ticketResult = await client.execute({
-            sql: 'SELECT derived_knowledge FROM tickets WHERE id = ?',
-            args: [originTicketId],
-          });
-          if (ticketResult.rows.length > 0) {
-            const row = ticketResult.rows[0] as Record<string, unknown>;
-            const existing = row.derived_knowledge ? JSON.parse(row.derived_knowledge as string) : [];
-            existing.push(id);
-            await client.execute({
-              sql: 'UPDATE tickets SET derived_knowledge = ? WHERE id = ?',
-              args: [JSON.stringify(existing), originTicketId],
-            });
-          }
-        }
-
+        const knowledge = await createKnowledge(client, fields);
         const response: CliResponse<{ id: string; namespace: string; source: string; status: string }> = {
           success: true,
-          data: { id, namespace, source, status: 'created' },
+          data: { id: knowledge.id, namespace: knowledge.namespace, source: knowledge.source, status: 'created' },
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -352,39 +97,19 @@ knowledgeCommand
   .action(async (id) => {
     try {
       const client = await getClient();
-      let result;
       try {
-        result = await client.execute({
-          sql: `SELECT id, namespace, chunk_index, title, content,
-                category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
-                usage_count, last_used_at, author, branch, created_at
-                FROM knowledge WHERE id = ?`,
-          args: [id],
-        });
-      } finally {
-        closeClient();
-      }
-
-      if (result.rows.length === 0) {
-        const response: CliResponse = {
-          success: false,
-          error: `Knowledge ${id} not found`,
+        const response: CliResponse<Knowledge> = {
+          success: true,
+          data: await getKnowledge(client, id),
         };
         console.log(JSON.stringify(response));
-        process.exit(1);
+      } finally {
+        closeClient();
       }
-
-      const knowledge = parseKnowledgeRow(result.rows[0] as Record<string, unknown>);
-
-      const response: CliResponse<Knowledge> = {
-        success: true,
-        data: knowledge,
-      };
-      console.log(JSON.stringify(response));
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to get knowledge: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to get knowledge: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -400,24 +125,7 @@ knowledgeCommand
     try {
       const client = await getClient();
       try {
-        const result = await client.execute({
-          sql: `SELECT id, namespace, chunk_index, title, content,
-                category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
-                usage_count, last_used_at, author, branch, created_at
-                FROM knowledge WHERE id = ?`,
-          args: [id],
-        });
-
-        if (result.rows.length === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Knowledge ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        const k = parseKnowledgeRow(result.rows[0] as Record<string, unknown>);
+        const k = await getKnowledge(client, id);
 
         const lines: string[] = [
           `# ${k.title}`,
@@ -436,7 +144,7 @@ knowledgeCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to preview knowledge: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to preview knowledge: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -461,75 +169,13 @@ knowledgeCommand
     try {
       const client = await getClient();
       try {
-        const conditions: string[] = [];
-        const args: (string | number)[] = [];
-
-        if (options.status === 'active') {
-          conditions.push('active = 1');
-        } else if (options.status === 'inactive') {
-          conditions.push('active = 0');
-        }
-        // 'all' = no filter on active
-
-        if (options.namespace) {
-          conditions.push('namespace = ?');
-          args.push(options.namespace);
-        }
-
-        if (options.category) {
-          conditions.push('category = ?');
-          args.push(options.category);
-        }
-
-        if (options.scope) {
-          conditions.push('decision_scope = ?');
-          args.push(options.scope);
-        }
-
-        if (options.source) {
-          conditions.push('source = ?');
-          args.push(options.source);
-        }
-
-        if (options.author) {
-          conditions.push('author = ?');
-          args.push(options.author);
-        }
-
-        if (options.branchAuto) {
-          const current = getGitBranch();
-          if (current === 'main') {
-            conditions.push('branch = ?');
-            args.push('main');
-          } else {
-            conditions.push('branch IN (?, ?)');
-            args.push('main', current);
-          }
-        } else if (options.branch) {
-          conditions.push('branch = ?');
-          args.push(options.branch);
-        }
-
-        let sql = `SELECT id, namespace, chunk_index, title, content,
-                   category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
-                   usage_count, last_used_at, author, branch, created_at
-                   FROM knowledge`;
-        if (conditions.length > 0) {
-          sql += ` WHERE ${conditions.join(' AND ')}`;
-        }
-        sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
-        args.push(parseInt(options.limit, 10));
-        args.push(parseInt(options.offset, 10));
-
-        const result = await client.execute({ sql, args });
-
-        const knowledge = result.rows.map((row) =>
-          parseKnowledgeRow(row as Record<string, unknown>)
-        );
-
         const response: CliResponse<Knowledge[]> = {
           success: true,
-          data: knowledge,
+          data: await listKnowledge(client, {
+            ...options,
+            limit: parseInt(options.limit, 10),
+            offset: parseInt(options.offset, 10),
+          }),
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -562,136 +208,27 @@ knowledgeCommand
   .option('--author <author>', 'Comment author (default: git user.name)')
   .action(async (id, options) => {
     try {
+      // CLI flags take priority over JSON fields
+      const fields = options.json ? validateKnowledgeFields(parseJsonInput(options.json)) : {};
+
       const client = await getClient();
       try {
-        // Read JSON from --json flag
-        let jsonParsed: KnowledgeJsonInput | undefined;
-        if (options.json) {
-          const raw = options.json;
-          jsonParsed = parseJsonKnowledge(raw);
-        }
-
-        // Build dynamic update — CLI flags take priority over JSON fields
-        const updates: string[] = [];
-        const args: (string | number | null)[] = [];
-        let contentChanged = false;
-
-        if (options.title || jsonParsed?.title) {
-          updates.push('title = ?');
-          args.push(options.title || jsonParsed!.title!);
-          contentChanged = true;
-        }
-        if (jsonParsed?.content) {
-          updates.push('content = ?');
-          args.push(jsonParsed.content);
-          contentChanged = true;
-        }
-        if (options.namespace || jsonParsed?.namespace) {
-          updates.push('namespace = ?');
-          args.push(options.namespace || jsonParsed!.namespace!);
-        }
-        if (options.category || jsonParsed?.category) {
-          updates.push('category = ?');
-          args.push(options.category || jsonParsed!.category!);
-        }
-        if (options.tags || jsonParsed?.tags?.length) {
-          updates.push('tags = ?');
-          args.push(JSON.stringify(options.tags || jsonParsed!.tags));
-          contentChanged = true;
-        }
-        if (jsonParsed?.citations !== undefined) {
-          updates.push('citations = ?');
-          args.push(jsonParsed.citations.length > 0 ? JSON.stringify(jsonParsed.citations) : null);
-        }
-        if (options.origin || jsonParsed?.originTicketId) {
-          updates.push('origin_ticket_id = ?');
-          args.push(options.origin || jsonParsed!.originTicketId!);
-        }
-        if (options.confidence || jsonParsed?.confidence !== undefined) {
-          updates.push('confidence = ?');
-          const conf = options.confidence
-            ? clampConfidence(parseFloat(options.confidence))
-            : clampConfidence(jsonParsed!.confidence!);
-          args.push(conf);
-        }
-        if (options.scope || jsonParsed?.scope) {
-          const scopeValue = options.scope || jsonParsed!.scope!;
-          if (!VALID_SCOPES.includes(scopeValue as DecisionScope)) {
-            const response: CliResponse = {
-              success: false,
-              error: `Invalid scope '${scopeValue}'. Must be one of: ${VALID_SCOPES.join(', ')}`,
-            };
-            console.log(JSON.stringify(response));
-            process.exit(1);
-          }
-          updates.push('decision_scope = ?');
-          args.push(scopeValue);
-        }
-
-        // Add comment if provided
-        if (options.comment) {
-          const commentId = generateId('COMMENT');
-          const author = options.author || jsonParsed?.author || getGitUsername();
-          await client.execute({
-            sql: `INSERT INTO comments (id, parent_type, parent_id, author, text) VALUES (?, ?, ?, ?, ?)`,
-            args: [commentId, 'knowledge', id, author, options.comment],
-          });
-        }
-
-        if (updates.length === 0 && !options.comment) {
-          const response: CliResponse = {
-            success: false,
-            error: 'No fields to update',
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        if (updates.length === 0) {
-          // Only a comment was added, no field updates needed
-          const response: CliResponse<{ id: string; status: string }> = {
-            success: true,
-            data: { id, status: 'updated' },
-          };
-          console.log(JSON.stringify(response));
-          return;
-        }
-
-        // Re-generate embedding if title, content, or tags changed
-        if (contentChanged) {
-          const current = await client.execute({
-            sql: 'SELECT title, content, tags FROM knowledge WHERE id = ?',
-            args: [id],
-          });
-          if (current.rows.length > 0) {
-            const row = current.rows[0] as Record<string, unknown>;
-            const newTitle = options.title || jsonParsed?.title || row.title;
-            const newContent = jsonParsed?.content || row.content;
-            const newTags: string[] = options.tags || jsonParsed?.tags || (row.tags ? JSON.parse(row.tags as string) : []);
-            const tagsText = newTags?.length ? ' ' + newTags.join(' ') : '';
-            const embedding = await embed(`${newTitle} ${newContent}${tagsText}`);
-            updates.push('embedding = vector32(?)');
-            args.push(JSON.stringify(embedding));
-          }
-        }
-
-        updates.push("updated_at = datetime('now')");
-        args.push(id);
-        const sql = `UPDATE knowledge SET ${updates.join(', ')} WHERE id = ?`;
-        const result = await client.execute({ sql, args });
-
-        if (result.rowsAffected === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Knowledge ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
+        const { revision } = await updateKnowledge(client, id, {
+          ...fields,
+          title: options.title || fields.title,
+          namespace: options.namespace || fields.namespace,
+          category: options.category || fields.category,
+          tags: options.tags || fields.tags,
+          originTicketId: options.origin || fields.originTicketId,
+          confidence: options.confidence ? parseFloat(options.confidence) : fields.confidence,
+          scope: options.scope || fields.scope,
+          author: options.author || fields.author,
+          comment: options.comment,
+        });
 
-        const response: CliResponse<{ id: string; status: string }> = {
+        const response: CliResponse<{ id: string; status: string; revision?: number | null }> = {
           success: true,
-          data: { id, status: 'updated' },
+          data: { id, status: 'updated', ...(revision !== null && { revision }) },
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -700,7 +237,7 @@ knowledgeCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to update knowledge: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to update knowledge: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -716,19 +253,7 @@ knowledgeCommand
     try {
       const client = await getClient();
       try {
-        const result = await client.execute({
-          sql: 'UPDATE knowledge SET active = 0 WHERE id = ?',
-          args: [id],
-        });
-
-        if (result.rowsAffected === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Knowledge ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
+        await setKnowledgeActive(client, id, false);
 
         const response: CliResponse<{ id: string; status: string }> = {
           success: true,
@@ -741,7 +266,7 @@ knowledgeCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to deactivate knowledge: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to deactivate knowledge: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -757,19 +282,7 @@ knowledgeCommand
     try {
       const client = await getClient();
       try {
-        const result = await client.execute({
-          sql: 'UPDATE knowledge SET active = 1 WHERE id = ?',
-          args: [id],
-        });
-
-        if (result.rowsAffected === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Knowledge ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
+        await setKnowledgeActive(client, id, true);
 
         const response: CliResponse<{ id: string; status: string }> = {
           success: true,
@@ -782,7 +295,7 @@ knowledgeCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to activate knowledge: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to activate knowledge: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -798,23 +311,283 @@ knowledgeCommand
     try {
       const client = await getClient();
       try {
-        const result = await client.execute({
-          sql: "UPDATE knowledge SET branch = 'main', updated_at = datetime('now') WHERE id = ?",
-          args: [id],
+        await promoteKnowledge(client, id);
+
+        const response: CliResponse<{ id: string; status: string }> = {
+          success: true,
+          data: { id, status: 'promoted to main' },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to promote knowledge: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Dedupe subcommand — cluster near-duplicate entries for review
+knowledgeCommand
+  .command('dedupe')
+  .description('Find clusters of near-duplicate active entries by embedding similarity')
+  .option('--threshold <n>', 'Minimum cosine similarity 0-1', '0.85')
+  .option('--namespace <namespace>', 'Only entries in this namespace')
+  .action(async (options) => {
+    try {
+      const client = await getClient();
+      try {
+        const clusters = await findDuplicateKnowledge(client, {
+          threshold: parseFloat(options.threshold),
+          namespace: options.namespace,
         });
 
-        if (result.rowsAffected === 0) {
+        const response: CliResponse<{ threshold: number; clusters: DuplicateCluster[] }> = {
+          success: true,
+          data: { threshold: parseFloat(options.threshold), clusters },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Failed to find duplicates: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Merge subcommand — fold duplicates into one surviving entry
+knowledgeCommand
+  .command('merge')
+  .description('Merge entries into a surviving entry and deactivate them')
+  .argument('<keep-id>', 'Knowledge ID to keep')
+  .argument('<drop-ids...>', 'Knowledge IDs to merge into it')
+  .option('--author <author>', 'Author of the merge (default: git user.name)')
+  .action(async (keepId: string, dropIds: string[], options: { author?: string }) => {
+    try {
+      const client = await getClient();
+      try {
+        const result = await mergeKnowledge(client, keepId, dropIds, { author: options.author });
+
+        const response: CliResponse<KnowledgeMergeResult> = {
+          success: true,
+          data: result,
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to merge knowledge: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Link subcommand — typed relation between two entries
+knowledgeCommand
+  .command('link')
+  .description('Link a knowledge entry to another one (superseded entries are deactivated)')
+  .argument('<from>', 'Knowledge ID')
+  .argument('<to>', 'Linked knowledge ID')
+  .option('--type <type>', '<from> supersedes|contradicts|refines|depends-on <to>')
+  .option('--author <author>', 'Link author (default: git user.name)')
+  .action(async (from, to, options) => {
+    try {
+      if (!options.type) {
+        const response: CliResponse = {
+          success: false,
+          error: 'Missing --type (supersedes|contradicts|refines|depends-on)',
+        };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+
+      const client = await getClient();
+      try {
+        const links = await linkKnowledge(client, from, to, options.type, options.author);
+
+        const response: CliResponse<{ id: string; type: KnowledgeLinkType; other: string; links: KnowledgeLinks }> = {
+          success: true,
+          data: { id: from, type: options.type, other: to, links },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to link knowledge: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Unlink subcommand
+knowledgeCommand
+  .command('unlink')
+  .description('Remove links between two knowledge entries (all types unless one is given)')
+  .argument('<from>', 'Knowledge ID')
+  .argument('<to>', 'Linked knowledge ID')
+  .option('--type <type>', 'Only remove this relation: supersedes|contradicts|refines|depends-on')
+  .action(async (from, to, options) => {
+    try {
+      const client = await getClient();
+      try {
+        const removed = await unlinkKnowledge(client, from, to, options.type);
+
+        const response: CliResponse<{ id: string; other: string; removed: number }> = {
+          success: true,
+          data: { id: from, other: to, removed },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to unlink knowledge: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Links subcommand
+knowledgeCommand
+  .command('links')
+  .description('Show the typed relations of a knowledge entry')
+  .argument('<id>', 'Knowledge ID')
+  .action(async (id) => {
+    try {
+      const client = await getClient();
+      try {
+        const links = await getKnowledgeLinks(client, id);
+        const response: CliResponse<{ id: string } & KnowledgeLinks> = {
+          success: true,
+          data: { id, ...links },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to get knowledge links: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// History subcommand — list recorded revisions
+knowledgeCommand
+  .command('history')
+  .description('List revision history for a knowledge entry')
+  .argument('<id>', 'Knowledge ID')
+  .action(async (id) => {
+    try {
+      const client = await getClient();
+      try {
+        const response: CliResponse<{ id: string; revisions: KnowledgeRevision[] }> = {
+          success: true,
+          data: { id, revisions: await getKnowledgeHistory(client, id) },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to get knowledge history: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Diff subcommand — line diff of content between two revisions
+knowledgeCommand
+  .command('diff')
+  .description('Show a line diff of content between two revisions')
+  .argument('<id>', 'Knowledge ID')
+  .option('--from <rev>', 'Base revision (default: previous to --to)')
+  .option('--to <rev>', 'Target revision (default: latest)')
+  .action(async (id, options) => {
+    try {
+      const client = await getClient();
+      try {
+        const revisions = await getKnowledgeRevisions(client, id);
+        if (revisions.length === 0) {
           const response: CliResponse = {
             success: false,
-            error: `Knowledge ${id} not found`,
+            error: `No revisions recorded for knowledge ${id}`,
           };
           console.log(JSON.stringify(response));
           process.exit(1);
         }
 
-        const response: CliResponse<{ id: string; status: string }> = {
+        const latest = revisions[revisions.length - 1].revision;
+        const to = options.to !== undefined ? parseInt(options.to, 10) : latest;
+        const from = options.from !== undefined ? parseInt(options.from, 10) : Math.max(1, to - 1);
+        const fromRev = revisions.find((r) => r.revision === from);
+        const toRev = revisions.find((r) => r.revision === to);
+
+        if (!fromRev || !toRev) {
+          const response: CliResponse = {
+            success: false,
+            error: `Revision ${!fromRev ? options.from ?? from : options.to ?? to} not found for knowledge ${id}`,
+          };
+          console.log(JSON.stringify(response));
+          process.exit(1);
+        }
+
+        const lines = diffLines(fromRev.content, toRev.content);
+
+        // Field-level changes besides content
+        const changes: Record<string, { from: unknown; to: unknown }> = {};
+        const fields = ['title', 'namespace', 'category', 'tags', 'citations', 'confidence', 'active', 'decision_scope'] as const;
+        for (const field of fields) {
+          if (JSON.stringify(fromRev[field]) !== JSON.stringify(toRev[field])) {
+            changes[field] = { from: fromRev[field] ?? null, to: toRev[field] ?? null };
+          }
+        }
+
+        const response: CliResponse<{
+          id: string;
+          from: number;
+          to: number;
+          changes: typeof changes;
+          added: number;
+          removed: number;
+          diff: string;
+        }> = {
           success: true,
-          data: { id, status: 'promoted to main' },
+          data: {
+            id,
+            from,
+            to,
+            changes,
+            added: lines.filter((l) => l.type === 'add').length,
+            removed: lines.filter((l) => l.type === 'remove').length,
+            diff: formatDiff(lines),
+          },
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -823,7 +596,47 @@ knowledgeCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to promote knowledge: ${(error as Error).message}`,
+        error: `Failed to diff knowledge: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Revert subcommand — restore a revision and re-embed
+knowledgeCommand
+  .command('revert')
+  .description('Restore a knowledge entry to a previous revision')
+  .argument('<id>', 'Knowledge ID')
+  .argument('<rev>', 'Revision number to restore')
+  .action(async (id, rev) => {
+    try {
+      const revision = parseInt(rev, 10);
+      if (isNaN(revision) || revision < 1) {
+        const response: CliResponse = {
+          success: false,
+          error: `Invalid revision '${rev}'`,
+        };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+
+      const client = await getClient();
+      try {
+        const newRevision = await revertKnowledge(client, id, revision);
+
+        const response: CliResponse<{ id: string; status: string; revertedTo: number; revision: number }> = {
+          success: true,
+          data: { id, status: 'reverted', revertedTo: revision, revision: newRevision },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to revert knowledge: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -839,7 +652,7 @@ knowledgeCommand
   .option('--main', 'Validate main branch entries with citations')
   .option('--dry-run', 'Preview only, no side effects')
   .option('--heal', 'Auto-fix changed citation hashes (entries with no missing citations)')
-  .action(async (id: string | undefined, options: Record<string, unknown>) => {
+  .action(async (id: string | undefined, options: { all?: boolean; main?: boolean; dryRun?: boolean; heal?: boolean }) => {
     try {
       if (!id && !options.all && !options.main) {
         const response: CliResponse = {
@@ -852,123 +665,14 @@ knowledgeCommand
 
       const client = await getClient();
       try {
-        let rows;
-        if (id) {
-          const ids = id.split(',').map((s) => s.trim()).filter(Boolean);
-          const placeholders = ids.map(() => '?').join(', ');
-          const result = await client.execute({
-            sql: `SELECT id, title, citations FROM knowledge WHERE id IN (${placeholders})`,
-            args: ids,
-          });
-          if (result.rows.length === 0) {
-            const response: CliResponse = {
-              success: false,
-              error: `Knowledge not found: ${ids.join(', ')}`,
-            };
-            console.log(JSON.stringify(response));
-            process.exit(1);
-          }
-          const foundIds = new Set(result.rows.map((r) => r.id as string));
-          const notFound = ids.filter((i) => !foundIds.has(i));
-          if (notFound.length > 0) {
-            const response: CliResponse = {
-              success: false,
-              error: `Knowledge not found: ${notFound.join(', ')}`,
-            };
-            console.log(JSON.stringify(response));
-            process.exit(1);
-          }
-          rows = result.rows;
-        } else {
-          const sql = options.main
-            ? "SELECT id, title, citations FROM knowledge WHERE active = 1 AND citations IS NOT NULL AND branch = 'main'"
-            : 'SELECT id, title, citations FROM knowledge WHERE active = 1 AND citations IS NOT NULL';
-          const result = await client.execute({ sql, args: [] });
-          rows = result.rows;
-        }
-
-        const cwd = process.cwd();
-        const fileHashCache = new Map<string, string | null>();
-        const entries: {
-          id: string;
-          title: string;
-          total: number;
-          valid: number;
-          changed: number;
-          missing: number;
-          healed: boolean;
-          details: { path: string; status: string; currentFileHash?: string }[];
-        }[] = [];
-        let uncited = 0;
-
-        for (const row of rows) {
-          const entryId = row.id as string;
-          const title = row.title as string;
-          const citationsRaw = row.citations as string | null;
-
-          if (!citationsRaw) {
-            uncited++;
-            continue;
-          }
-
-          const citations: Citation[] = JSON.parse(citationsRaw);
-          if (citations.length === 0) {
-            uncited++;
-            continue;
-          }
-
-          const details = citations.map((c) => validateCitation(c, cwd, fileHashCache));
-          const valid = details.filter((d) => d.status === 'valid').length;
-          const changed = details.filter((d) => d.status === 'changed').length;
-          const missing = details.filter((d) => d.status === 'missing').length;
-
-          entries.push({
-            id: entryId,
-            title: title.slice(0, 60),
-            total: citations.length,
-            valid,
-            changed,
-            missing,
-            healed: false,
-            details,
-          });
-        }
-
-        // --heal: auto-fix changed citation hashes (no missing citations)
-        let healed = 0;
-        if (options.heal && !options.dryRun) {
-          for (const entry of entries) {
-            if (entry.changed > 0 && entry.missing === 0) {
-              const updatedCitations = entry.details.map((d) => ({
-                path: d.path,
-                fileHash: d.currentFileHash!,
-              }));
-              await client.execute({
-                sql: 'UPDATE knowledge SET citations = ?, updated_at = datetime(?) WHERE id = ?',
-                args: [JSON.stringify(updatedCitations), new Date().toISOString(), entry.id],
-              });
-              healed++;
-              entry.healed = true;
-              // Update entry counts to reflect healed state
-              entry.valid += entry.changed;
-              entry.changed = 0;
-            }
-          }
-        }
-
-        const response: CliResponse<{
-          validated: number;
-          uncited: number;
-          healed: number;
-          entries: typeof entries;
-        }> = {
+        const response: CliResponse<CitationCheckReport> = {
           success: true,
-          data: {
-            validated: entries.length,
-            uncited,
-            healed,
-            entries,
-          },
+          data: await validateCitations(client, {
+            ids: id?.split(',').map((s) => s.trim()).filter(Boolean),
+            main: options.main,
+            heal: options.heal,
+            dryRun: options.dryRun,
+          }),
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -977,7 +681,7 @@ knowledgeCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to validate citations: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to validate citations: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -993,119 +697,9 @@ knowledgeCommand
     try {
       const client = await getClient();
       try {
-        // Fetch all active knowledge with usage data and citations
-        const result = await client.execute({
-          sql: `SELECT id, title, category, confidence, usage_count, last_used_at, citations, created_at
-                FROM knowledge WHERE active = 1`,
-          args: [],
-        });
-
-        const cwd = process.cwd();
-        const fileHashCache = new Map<string, string | null>();
-
-        const now = new Date();
-        const adjustments: {
-          id: string;
-          title: string;
-          oldConfidence: number;
-          newConfidence: number;
-          reason: string;
-        }[] = [];
-
-        for (const row of result.rows) {
-          const id = row.id as string;
-          const title = row.title as string;
-          const currentConfidence = row.confidence as number;
-          const usageCount = (row.usage_count as number) || 0;
-          const lastUsedAt = row.last_used_at as string | null;
-          const category = row.category as string;
-          const createdAt = row.created_at as string;
-
-          let adjustment = 0;
-          const reasons: string[] = [];
-
-          // Usage-based growth
-          if (usageCount > 10) {
-            adjustment += 0.10;
-            reasons.push(`high usage (${usageCount}): +0.10`);
-          } else if (usageCount > 5) {
-            adjustment += 0.05;
-            reasons.push(`good usage (${usageCount}): +0.05`);
-          }
-
-          // Staleness-based decay — reduced for stable categories
-          const slowDecay = category === 'truth' || category === 'architecture';
-          const referenceDate = lastUsedAt || createdAt;
-          if (referenceDate) {
-            const daysSince = Math.floor(
-              (now.getTime() - new Date(referenceDate).getTime()) / (1000 * 60 * 60 * 24)
-            );
-
-            if (daysSince > 180) {
-              const penalty = slowDecay ? 0.05 : 0.20;
-              adjustment -= penalty;
-              reasons.push(`very stale (${daysSince}d): -${penalty.toFixed(2)}`);
-            } else if (daysSince > 90) {
-              const penalty = slowDecay ? 0.02 : 0.10;
-              adjustment -= penalty;
-              reasons.push(`stale (${daysSince}d): -${penalty.toFixed(2)}`);
-            }
-          }
-
-          // Citation penalty — only missing files (deleted source) affect confidence
-          const citationsRaw = row.citations as string | null;
-          if (citationsRaw) {
-            const citations: Citation[] = JSON.parse(citationsRaw);
-            if (citations.length > 0) {
-              const results = citations.map((c) => validateCitation(c, cwd, fileHashCache));
-              const missingCount = results.filter((r) => r.status === 'missing').length;
-              if (missingCount > 0) {
-                const citationPenalty = -(missingCount / citations.length) * 0.15;
-                adjustment += citationPenalty;
-                reasons.push(`citations ${missingCount}/${citations.length} missing: ${citationPenalty.toFixed(2)}`);
-              }
-            }
-          }
-
-          // Skip if no adjustment needed
-          if (adjustment === 0) continue;
-
-          // Calculate new confidence, clamped between 0.1 and 1.0
-          const newConfidence = Math.max(0.1, Math.min(1.0, currentConfidence + adjustment));
-
-          // Skip if no actual change (already at bounds)
-          if (Math.abs(newConfidence - currentConfidence) < 0.001) continue;
-
-          adjustments.push({
-            id,
-            title: title.slice(0, 50),
-            oldConfidence: currentConfidence,
-            newConfidence: Math.round(newConfidence * 100) / 100,
-            reason: reasons.join(', '),
-          });
-
-          // Apply update unless dry-run
-          if (!options.dryRun) {
-            await client.execute({
-              sql: 'UPDATE knowledge SET confidence = ? WHERE id = ?',
-              args: [newConfidence, id],
-            });
-          }
-        }
-
-        const response: CliResponse<{
-          dryRun: boolean;
-          total: number;
-          adjusted: number;
-          adjustments: typeof adjustments;
-        }> = {
+        const response: CliResponse<ConfidenceReport> = {
           success: true,
-          data: {
-            dryRun: !!options.dryRun,
-            total: result.rows.length,
-            adjusted: adjustments.length,
-            adjustments,
-          },
+          data: await recalculateConfidence(client, { dryRun: options.dryRun }),
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -1133,35 +727,24 @@ knowledgeCommand
   .option('--author <author>', 'Filter by author')
   .option('--branch <branch>', 'Filter by branch')
   .option('--branch-auto', 'Search main + current git branch together')
-  .option('--min-score <n>', 'Minimum similarity score 0-1', '0')
+  .option('--mode <mode>', 'Ranking: vector (cosine) | lexical (full-text) | hybrid (rank fusion of both)', 'vector')
+  .option('--min-score <n>', 'Minimum score 0-1 (cosine in vector mode, normalized fusion score otherwise)', '0')
   .option('--limit <n>', 'Max results', '5')
-  .action(async (query: string, options: Record<string, string | string[]>) => {
+  .option('--include-superseded', 'Also return deactivated entries that another entry supersedes')
+  .option('--cursor <cursor>', 'Continue from the nextCursor of a previous search')
+  .action(async (query: string, options) => {
     try {
       const client = await getClient();
       try {
-        const queryEmbedding = await embed(query, true);
-
-        let branches: string[] | undefined;
-        if (options.branchAuto) {
-          const current = getGitBranch();
-          branches = current === 'main' ? ['main'] : ['main', current];
-        }
-
-        const results = await performVectorSearch(client, queryEmbedding, {
-          namespace: options.namespace as string | undefined,
-          category: options.category as string | undefined,
-          ticketType: options.ticketType as string | undefined,
-          tags: options.tags as string[] | undefined,
-          author: options.author as string | undefined,
-          branch: options.branchAuto ? undefined : options.branch as string | undefined,
-          branches,
-          minScore: parseFloat(options.minScore as string),
-          limit: parseInt(options.limit as string, 10),
-        });
-
-        const response: CliResponse<{ query: string; results: SearchResult[] }> = {
+        const response: CliResponse<KnowledgeSearchPage> = {
           success: true,
-          data: { query, results },
+          data: await searchKnowledge(client, query, {
+            ...options,
+            mode: options.mode as SearchMode,
+            minScore: parseFloat(options.minScore),
+            limit: parseInt(options.limit, 10),
+            useDaemon: true,
+          }),
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -1178,85 +761,132 @@ knowledgeCommand
   });
 
 // Extract subcommand
-interface ExtractProposal {
-  action: 'propose';
-  ticketId: string;
-  namespace: string;
-  ticket: {
-    intent: string;
-    context: string | null;
-    assumptions: string[] | null;
-    constraints_use: string[] | null;
-    constraints_avoid: string[] | null;
-    plan: TicketPlan | null;
-  };
-  suggestedKnowledge: KnowledgeInput[];
-}
-
 knowledgeCommand
   .command('extract')
   .description('Extract knowledge from a completed ticket')
   .argument('<ticket-id>', 'Ticket ID to extract knowledge from')
   .option('--namespace <namespace>', 'Override namespace (default: derived from ticket)')
-  .action(async (ticketId: string, options: Record<string, string>) => {
+  .action(async (ticketId: string, options: { namespace?: string }) => {
     try {
       const client = await getClient();
       try {
-      const result = await client.execute({
-        sql: 'SELECT * FROM tickets WHERE id = ?',
-        args: [ticketId],
-      });
+        const response: CliResponse<ExtractProposal> = {
+          success: true,
+          data: await extractKnowledge(client, ticketId, options.namespace),
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to extract knowledge: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
 
-      if (result.rows.length === 0) {
+// Reembed subcommand
+knowledgeCommand
+  .command('reembed')
+  .description('Recompute knowledge embeddings with the configured model (resumable)')
+  .option('--all', 'Re-embed every entry (required when switching models)')
+  .option('--namespace <namespace>', 'Re-embed entries in this namespace')
+  .option('--ids <ids...>', 'Re-embed these entries')
+  .option('--batch-size <n>', 'Entries per batch (one transaction and checkpoint each)', '32')
+  .action(async (options: { all?: boolean; namespace?: string; ids?: string[]; batchSize: string }) => {
+    try {
+      const scopes = [options.all, options.namespace, options.ids].filter(Boolean);
+      if (scopes.length !== 1) {
         const response: CliResponse = {
           success: false,
-          error: `Ticket ${ticketId} not found`,
+          error: 'Specify exactly one of --all, --namespace <namespace> or --ids <ids...>',
         };
         console.log(JSON.stringify(response));
         process.exit(1);
       }
-
-      const ticket = parseTicketRow(result.rows[0] as Record<string, unknown>);
-
-      if (ticket.status !== 'Done') {
+      const batchSize = parseInt(options.batchSize, 10);
+      if (!Number.isInteger(batchSize) || batchSize < 1) {
         const response: CliResponse = {
           success: false,
-          error: `Ticket ${ticketId} is not Done (status: ${ticket.status}). Only completed tickets can have knowledge extracted.`,
+          error: `Invalid --batch-size '${options.batchSize}'`,
         };
         console.log(JSON.stringify(response));
         process.exit(1);
       }
 
-      const namespace = options.namespace || getProjectNamespace();
-      const suggestions: KnowledgeInput[] = await generateExtractProposals(ticket, namespace, client);
+      const scope: ReembedScope = options.all
+        ? { all: true }
+        : options.namespace ? { namespace: options.namespace } : { ids: options.ids! };
 
-      const proposal: ExtractProposal = {
-        action: 'propose',
-        ticketId,
-        namespace,
-        ticket: {
-          intent: ticket.intent,
-          context: ticket.context || null,
-          assumptions: ticket.assumptions || null,
-          constraints_use: ticket.constraints_use || null,
-          constraints_avoid: ticket.constraints_avoid || null,
-          plan: ticket.plan || null,
-        },
-        suggestedKnowledge: suggestions,
-      };
+      const client = await getClient();
+      try {
+        const report = await reembedKnowledge(client, {
+          scope,
+          batchSize,
+          onProgress: (done, total) => process.stderr.write(`\r* Re-embedding ${done}/${total}`),
+        });
+        process.stderr.write('\n');
 
-      const response: CliResponse<ExtractProposal> = {
-        success: true,
-        data: proposal,
+        const response: CliResponse<ReembedReport> = {
+          success: true,
+          data: report,
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Failed to re-embed knowledge: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Sync subcommand — Markdown mirror of knowledge entries
+knowledgeCommand
+  .command('sync')
+  .description('Mirror knowledge entries to Markdown files, or upsert edited files back')
+  .option('--to-files <dir>', 'Write one <id>.md file per entry into <dir>')
+  .option('--from-files <dir>', 'Upsert changed files from <dir> and re-embed them')
+  .option('--namespace <namespace>', 'Only sync entries in this namespace')
+  .option('--force', 'Overwrite on updated_at conflicts instead of skipping them')
+  .option('--dry-run', 'Report what would change without writing')
+  .action(async (options: { toFiles?: string; fromFiles?: string; namespace?: string; force?: boolean; dryRun?: boolean }) => {
+    try {
+      if (Boolean(options.toFiles) === Boolean(options.fromFiles)) {
+        const response: CliResponse = {
+          success: false,
+          error: 'Specify exactly one of --to-files <dir> or --from-files <dir>',
+        };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+
+      const client = await getClient();
+      try {
+        const syncOptions = { namespace: options.namespace, force: options.force, dryRun: options.dryRun };
+        const report = options.toFiles
+          ? await syncKnowledgeToFiles(client, resolve(options.toFiles), syncOptions)
+          : await syncKnowledgeFromFiles(client, resolve(options.fromFiles!), syncOptions);
+
+        const response: CliResponse<KnowledgeSyncReport> = {
+          success: true,
+          data: report,
+        };
+        console.log(JSON.stringify(response));
       } finally {
         closeClient();
       }
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to extract knowledge: ${(error as Error).message}`,
+        error: `Failed to sync knowledge: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
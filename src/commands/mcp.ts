@@ -0,0 +1,29 @@
+import { Command } from 'commander';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { runMcpServer } from '../mcp/server.js';
+import { configExists } from '../utils/config.js';
+import type { CliResponse } from '../types.js';
+
+function readVersion(): string {
+  const packageJson = JSON.parse(readFileSync(join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'package.json'), 'utf-8'));
+  return packageJson.version;
+}
+
+export const mcpCommand = new Command('mcp')
+  .description('Run a Model Context Protocol server over stdio')
+  .action(async () => {
+    if (!configExists()) {
+      const response: CliResponse = {
+        success: false,
+        error: 'Failed to start MCP server: Turso config not found. Run `superintent init` first',
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+
+    // stdout carries the protocol; anything else printed goes to stderr
+    console.log = console.error;
+    await runMcpServer(readVersion());
+  });
@@ -0,0 +1,71 @@
+import { Command } from 'commander';
+import { createClientWithConfig } from '../db/client.js';
+import { getMigrationStatus, runMigrations } from '../db/migrations.js';
+import { loadConfig } from '../utils/config.js';
+import type { CliResponse } from '../types.js';
+import type { MigrationInfo, MigrationStatus } from '../db/migrations.js';
+
+export const migrateCommand = new Command('migrate')
+  .description('Apply pending schema migrations')
+  .option('--status', 'Show applied and pending migrations without running them')
+  .option('--to <version>', 'Migrate up to a specific version (default: latest)')
+  .option('--dry-run', 'List migrations that would run, without applying them')
+  .action(async (options) => {
+    try {
+      let to: number | undefined;
+      if (options.to !== undefined) {
+        to = parseInt(options.to, 10);
+        if (isNaN(to) || to < 1) {
+          const response: CliResponse = {
+            success: false,
+            error: `Invalid --to version '${options.to}'`,
+          };
+          console.log(JSON.stringify(response));
+          process.exit(1);
+        }
+      }
+
+      // Bypass getClient() so a too-new database can still report its status
+      const config = loadConfig();
+      const client = await createClientWithConfig(config.url, config.authToken);
+      try {
+        if (options.status) {
+          const status = await getMigrationStatus(client);
+          const response: CliResponse<MigrationStatus> = {
+            success: true,
+            data: status,
+          };
+          console.log(JSON.stringify(response));
+          return;
+        }
+
+        const migrations = await runMigrations(client, { to, dryRun: options.dryRun });
+        const status = await getMigrationStatus(client);
+
+        const response: CliResponse<{
+          dryRun: boolean;
+          migrations: MigrationInfo[];
+          currentVersion: number;
+          latestVersion: number;
+        }> = {
+          success: true,
+          data: {
+            dryRun: !!options.dryRun,
+            migrations,
+            currentVersion: status.currentVersion,
+            latestVersion: status.latestVersion,
+          },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        client.close();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Migration failed: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
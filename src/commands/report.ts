@@ -0,0 +1,38 @@
+import { Command } from 'commander';
+import { getClient, closeClient } from '../db/client.js';
+import { computeTicketAnalytics } from '../db/ticket-analytics.js';
+import { parseSince } from '../utils/time.js';
+import type { CliResponse, TicketAnalytics } from '../types.js';
+
+export const reportCommand = new Command('report')
+  .description('Reports for retros and reviews');
+
+// Tickets subcommand
+reportCommand
+  .command('tickets')
+  .description('Lead time, cycle time, weekly throughput and WIP age for tickets')
+  .option('--since <duration>', 'Window of completed tickets: 30d, 12w, 48h or an ISO date', '30d')
+  .action(async (options) => {
+    try {
+      const since = parseSince(options.since);
+
+      const client = await getClient();
+      try {
+        const analytics = await computeTicketAnalytics(client, since);
+        const response: CliResponse<TicketAnalytics> = {
+          success: true,
+          data: analytics,
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: `Failed to build ticket report: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
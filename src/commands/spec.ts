@@ -1,49 +1,11 @@
 import { Command } from 'commander';
 import { getClient, closeClient } from '../db/client.js';
-import { parseSpecRow } from '../db/parsers.js';
-
-import { generateId } from '../utils/id.js';
-import { getGitUsername } from '../utils/git.js';
+import { createSpec, getSpec, listSpecs, updateSpec, deleteSpec, validateSpecFields } from '../services/specs.js';
+import { parseJsonInput } from '../services/input.js';
+import { NotFoundError } from '../errors.js';
+import type { SpecFields } from '../services/specs.js';
 import type { Spec, CliResponse } from '../types.js';
 
-interface SpecInput {
-  title?: string;
-  content?: string;
-  author?: string;
-}
-
-/**
- * Parse JSON spec input.
- * Expected format: {"title": "...", "content": "...", "author": "..."}
- */
-function parseJsonSpec(raw: string): SpecInput {
-  try {
-    const parsed = JSON.parse(raw);
-    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-      throw new Error('Expected a JSON object');
-    }
-    const result: SpecInput = {};
-    if (parsed.title !== undefined) {
-      if (typeof parsed.title !== 'string') throw new Error('title must be a string');
-      result.title = parsed.title.trim();
-    }
-    if (parsed.content !== undefined) {
-      if (typeof parsed.content !== 'string') throw new Error('content must be a string');
-      result.content = parsed.content.trim();
-    }
-    if (parsed.author !== undefined) {
-      if (typeof parsed.author !== 'string') throw new Error('author must be a string');
-      result.author = parsed.author.trim();
-    }
-    return result;
-  } catch (error) {
-    if (error instanceof SyntaxError) {
-      throw new Error(`Invalid JSON: ${error.message}`, { cause: error });
-    }
-    throw error;
-  }
-}
-
 export const specCommand = new Command('spec')
   .description('Manage specs');
 
@@ -57,32 +19,10 @@ specCommand
   .option('--author <author>', 'Author (default: git user.name)')
   .action(async (options) => {
     try {
-      let id: string;
-      let title: string;
-      let content: string;
-      let author: string | undefined;
-
+      let fields: SpecFields;
       if (options.json) {
-        const raw = options.json;
-        const parsed = parseJsonSpec(raw);
-
-        // Field-level validation
-        const missing: string[] = [];
-        if (!parsed.title) missing.push('title: Missing or empty title');
-        if (!parsed.content) missing.push('content: Missing or empty content');
-        if (missing.length > 0) {
-          const response: CliResponse = {
-            success: false,
-            error: missing.join('; '),
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        id = generateId('SPEC');
-        title = parsed.title!;
-        content = parsed.content!;
-        author = parsed.author;
+        fields = validateSpecFields(parseJsonInput(options.json));
+        fields.author = fields.author || options.author;
       } else {
         if (!options.title) {
           const response: CliResponse = {
@@ -92,23 +32,15 @@ specCommand
           console.log(JSON.stringify(response));
           process.exit(1);
         }
-
-        id = generateId('SPEC');
-        title = options.title;
-        content = options.content || '';
+        fields = { title: options.title, content: options.content, author: options.author };
       }
 
-      const finalAuthor = author || options.author || getGitUsername();
       const client = await getClient();
       try {
-        await client.execute({
-          sql: `INSERT INTO specs (id, title, content, author) VALUES (?, ?, ?, ?)`,
-          args: [id, title, content, finalAuthor],
-        });
-
+        const spec = await createSpec(client, fields);
         const response: CliResponse<{ id: string; status: string }> = {
           success: true,
-          data: { id, status: 'created' },
+          data: { id: spec.id, status: 'created' },
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -132,36 +64,19 @@ specCommand
   .action(async (id) => {
     try {
       const client = await getClient();
-      let result;
       try {
-        result = await client.execute({
-          sql: 'SELECT * FROM specs WHERE id = ?',
-          args: [id],
-        });
-      } finally {
-        closeClient();
-      }
-
-      if (result.rows.length === 0) {
-        const response: CliResponse = {
-          success: false,
-          error: `Spec ${id} not found`,
+        const response: CliResponse<Spec> = {
+          success: true,
+          data: await getSpec(client, id),
         };
         console.log(JSON.stringify(response));
-        process.exit(1);
+      } finally {
+        closeClient();
       }
-
-      const spec = parseSpecRow(result.rows[0] as Record<string, unknown>);
-
-      const response: CliResponse<Spec> = {
-        success: true,
-        data: spec,
-      };
-      console.log(JSON.stringify(response));
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to get spec: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to get spec: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -177,21 +92,7 @@ specCommand
     try {
       const client = await getClient();
       try {
-        const result = await client.execute({
-          sql: 'SELECT * FROM specs WHERE id = ?',
-          args: [id],
-        });
-
-        if (result.rows.length === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Spec ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        const spec = parseSpecRow(result.rows[0] as Record<string, unknown>);
+        const spec = await getSpec(client, id);
 
         const lines: string[] = [
           `# ${spec.title}`,
@@ -210,7 +111,7 @@ specCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to preview spec: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to preview spec: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -227,18 +128,12 @@ specCommand
     try {
       const client = await getClient();
       try {
-        const result = await client.execute({
-          sql: 'SELECT * FROM specs ORDER BY created_at DESC LIMIT ? OFFSET ?',
-          args: [parseInt(options.limit, 10), parseInt(options.offset, 10)],
-        });
-
-        const specs = result.rows.map((row) =>
-          parseSpecRow(row as Record<string, unknown>)
-        );
-
         const response: CliResponse<Spec[]> = {
           success: true,
-          data: specs,
+          data: await listSpecs(client, {
+            limit: parseInt(options.limit, 10),
+            offset: parseInt(options.offset, 10),
+          }),
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -265,73 +160,18 @@ specCommand
   .option('--author <author>', 'Comment author (default: git user.name)')
   .action(async (id, options) => {
     try {
+      // CLI flags take priority over JSON fields
+      const fields = options.json ? validateSpecFields(parseJsonInput(options.json)) : {};
+
       const client = await getClient();
       try {
-        const updates: string[] = [];
-        const args: (string | number)[] = [];
-
-        // Read JSON from --json flag
-        let jsonParsed: SpecInput | undefined;
-        if (options.json) {
-          const raw = options.json;
-          jsonParsed = parseJsonSpec(raw);
-        }
-
-        if (options.title || jsonParsed?.title) {
-          updates.push('title = ?');
-          args.push(options.title || jsonParsed!.title!);
-        }
-        if (jsonParsed?.content) {
-          updates.push('content = ?');
-          args.push(jsonParsed.content);
-        }
-
-        // Add comment if provided
-        if (options.comment) {
-          const commentId = generateId('COMMENT');
-          const author = options.author || jsonParsed?.author || getGitUsername();
-          await client.execute({
-            sql: `INSERT INTO comments (id, parent_type, parent_id, author, text) VALUES (?, ?, ?, ?, ?)`,
-            args: [commentId, 'spec', id, author, options.comment],
-          });
-        }
-
-        if (updates.length === 0 && !options.comment) {
-          const response: CliResponse = {
-            success: false,
-            error: 'No updates provided. Use --json, --title, or --comment',
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        if (updates.length === 0) {
-          // Only a comment was added
-          const response: CliResponse<{ id: string; status: string }> = {
-            success: true,
-            data: { id, status: 'updated' },
-          };
-          console.log(JSON.stringify(response));
-          return;
-        }
-
-        updates.push("updated_at = datetime('now')");
-        args.push(id);
-
-        const result = await client.execute({
-          sql: `UPDATE specs SET ${updates.join(', ')} WHERE id = ?`,
-          args,
+        await updateSpec(client, id, {
+          ...fields,
+          title: options.title || fields.title,
+          author: options.author || fields.author,
+          comment: options.comment,
         });
 
-        if (result.rowsAffected === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Spec ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
         const response: CliResponse<{ id: string; status: string }> = {
           success: true,
           data: { id, status: 'updated' },
@@ -343,7 +183,7 @@ specCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to update spec: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to update spec: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -359,24 +199,7 @@ specCommand
     try {
       const client = await getClient();
       try {
-        const existing = await client.execute({
-          sql: 'SELECT id FROM specs WHERE id = ?',
-          args: [id],
-        });
-
-        if (existing.rows.length === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Spec ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        await client.execute({
-          sql: 'DELETE FROM specs WHERE id = ?',
-          args: [id],
-        });
+        await deleteSpec(client, id);
 
         const response: CliResponse<{ id: string; status: string }> = {
           success: true,
@@ -389,7 +212,7 @@ specCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to delete spec: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to delete spec: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
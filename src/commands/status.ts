@@ -1,6 +1,8 @@
 import { Command } from 'commander';
-import { loadConfig, configExists } from '../utils/config.js';
+import { loadConfig, configExists, loadEmbeddingConfig, getEmbeddingCachePath } from '../utils/config.js';
 import { getClient, closeClient } from '../db/client.js';
+import { getStoredEmbeddingModel } from '../db/embedding-meta.js';
+import { getEmbeddingProvider } from '../embed/model.js';
 import type { CliResponse } from '../types.js';
 
 export const statusCommand = new Command('status')
@@ -26,6 +28,11 @@ export const statusCommand = new Command('status')
         const ticketCount = await client.execute('SELECT COUNT(*) as count FROM tickets');
         const knowledgeCount = await client.execute('SELECT COUNT(*) as count FROM knowledge');
 
+        // Configured embedding model vs. the one that produced the stored vectors
+        const embedding = loadEmbeddingConfig();
+        const provider = getEmbeddingProvider();
+        const stored = await getStoredEmbeddingModel(client);
+
         const response: CliResponse = {
           success: true,
           data: {
@@ -33,6 +40,14 @@ export const statusCommand = new Command('status')
             url: config.url.replace(/\/\/.*:.*@/, '//***@'), // Hide token in URL if present
             tickets: ticketCount.rows[0].count,
             knowledge: knowledgeCount.rows[0].count,
+            embedding: {
+              provider: embedding.provider,
+              model: embedding.model,
+              dimension: embedding.dimension,
+              stored,
+              compatible: !stored || (stored.model === provider.id && stored.dimension === provider.dimension),
+              cache: getEmbeddingCachePath(),
+            },
           },
         };
         console.log(JSON.stringify(response));
@@ -1,461 +1,15 @@
 import { Command } from 'commander';
-import type { InValue } from '@libsql/client';
 import { getClient, closeClient } from '../db/client.js';
-import { parseTicketRow } from '../db/parsers.js';
-import { getProjectNamespace } from '../utils/config.js';
-
-import { generateId } from '../utils/id.js';
-import { getGitUsername } from '../utils/git.js';
-import { readFileSync } from 'fs';
-import { resolve } from 'path';
-import { computeContentHash } from '../utils/hash.js';
-import type { Client } from '@libsql/client';
-import { embed } from '../embed/model.js';
-import { performVectorSearch } from '../db/search.js';
-import type { Ticket, CliResponse, KnowledgeInput, TicketPlan, TicketType, Citation } from '../types.js';
-
-/**
- * Infer ticket type from intent keywords
- */
-function inferTicketType(intent: string): TicketType {
-  const lower = intent.toLowerCase();
-
-  // Bugfix patterns
-  if (/\b(fix|bug|issue|error|broken|crash|fail|wrong|incorrect)\b/.test(lower)) {
-    return 'bugfix';
-  }
-
-  // Refactor patterns
-  if (/\b(refactor|restructure|reorganize|clean\s?up|simplify|improve\s+code|optimize)\b/.test(lower)) {
-    return 'refactor';
-  }
-
-  // Docs patterns
-  if (/\b(document|docs?|readme|comment|explain|guide)\b/.test(lower)) {
-    return 'docs';
-  }
-
-  // Test patterns
-  if (/\b(test|spec|coverage|unit\s+test|e2e|integration\s+test)\b/.test(lower)) {
-    return 'test';
-  }
-
-  // Chore patterns
-  if (/\b(chore|update\s+dep|upgrade|migrate|config|setup|ci|cd|build)\b/.test(lower)) {
-    return 'chore';
-  }
-
-  // Default to feature
-  return 'feature';
-}
-
-const VALID_TICKET_TYPES: TicketType[] = ['feature', 'bugfix', 'refactor', 'docs', 'chore', 'test'];
-const VALID_CHANGE_CLASSES = ['A', 'B', 'C'];
-
-interface TicketJsonInput {
-  title?: string;
-  type?: string;
-  intent?: string;
-  context?: string;
-  constraints?: {
-    use?: string[];
-    avoid?: string[];
-  };
-  assumptions?: string[];
-  changeClass?: string;
-  changeClassReason?: string;
-  plan?: TicketPlan;
-  spec?: string;
-  author?: string;
-}
-
-/**
- * Parse JSON ticket input.
- */
-function parseJsonTicket(raw: string): TicketJsonInput {
-  try {
-    const parsed = JSON.parse(raw);
-    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-      throw new Error('Expected a JSON object');
-    }
-    const result: TicketJsonInput = {};
-
-    if (parsed.title !== undefined) {
-      if (typeof parsed.title !== 'string') throw new Error('title must be a string');
-      result.title = parsed.title.trim();
-    }
-    if (parsed.type !== undefined) {
-      if (typeof parsed.type !== 'string') throw new Error('type must be a string');
-      result.type = parsed.type.trim().toLowerCase();
-    }
-    if (parsed.intent !== undefined) {
-      if (typeof parsed.intent !== 'string') throw new Error('intent must be a string');
-      result.intent = parsed.intent.trim();
-    }
-    if (parsed.context !== undefined) {
-      if (typeof parsed.context !== 'string') throw new Error('context must be a string');
-      result.context = parsed.context.trim();
-    }
-    if (parsed.constraints !== undefined) {
-      if (typeof parsed.constraints !== 'object' || parsed.constraints === null || Array.isArray(parsed.constraints)) {
-        throw new Error('constraints must be an object with optional use/avoid arrays');
-      }
-      result.constraints = {};
-      if (parsed.constraints.use !== undefined) {
-        if (!Array.isArray(parsed.constraints.use) || !parsed.constraints.use.every((s: unknown) => typeof s === 'string')) {
-          throw new Error('constraints.use must be an array of strings');
-        }
-        result.constraints.use = parsed.constraints.use.map((s: string) => s.trim()).filter(Boolean);
-      }
-      if (parsed.constraints.avoid !== undefined) {
-        if (!Array.isArray(parsed.constraints.avoid) || !parsed.constraints.avoid.every((s: unknown) => typeof s === 'string')) {
-          throw new Error('constraints.avoid must be an array of strings');
-        }
-        result.constraints.avoid = parsed.constraints.avoid.map((s: string) => s.trim()).filter(Boolean);
-      }
-    }
-    if (parsed.assumptions !== undefined) {
-      if (!Array.isArray(parsed.assumptions) || !parsed.assumptions.every((s: unknown) => typeof s === 'string')) {
-        throw new Error('assumptions must be an array of strings');
-      }
-      result.assumptions = parsed.assumptions.map((s: string) => s.trim()).filter(Boolean);
-    }
-    if (parsed.changeClass !== undefined) {
-      if (typeof parsed.changeClass !== 'string') throw new Error('changeClass must be a string');
-      result.changeClass = parsed.changeClass.trim().toUpperCase();
-    }
-    if (parsed.changeClassReason !== undefined) {
-      if (typeof parsed.changeClassReason !== 'string') throw new Error('changeClassReason must be a string');
-      result.changeClassReason = parsed.changeClassReason.trim();
-    }
-    if (parsed.plan !== undefined) {
-      result.plan = validatePlanJson(parsed.plan);
-    }
-    if (parsed.spec !== undefined) {
-      if (typeof parsed.spec !== 'string') throw new Error('spec must be a string');
-      result.spec = parsed.spec.trim();
-    }
-    if (parsed.author !== undefined) {
-      if (typeof parsed.author !== 'string') throw new Error('author must be a string');
-      result.author = parsed.author.trim();
-    }
-
-    return result;
-  } catch (error) {
-    if (error instanceof SyntaxError) {
-      throw new Error(`Invalid JSON: ${error.message}`, { cause: error });
-    }
-    throw error;
-  }
-}
-
-/**
- * Validate and normalize a plan JSON object into TicketPlan.
- * Defaults `done` to false for taskSteps and dodVerification if not provided.
- */
-function validatePlanJson(plan: unknown): TicketPlan {
-  if (typeof plan !== 'object' || plan === null || Array.isArray(plan)) {
-    throw new Error('plan must be an object');
-  }
-  const p = plan as Record<string, unknown>;
-  const result: TicketPlan = {
-    files: [],
-    taskSteps: [],
-    dodVerification: [],
-    decisions: [],
-    tradeOffs: [],
-    rollback: undefined,
-    irreversibleActions: [],
-    edgeCases: [],
-  };
-
-  if (p.files !== undefined) {
-    if (!Array.isArray(p.files) || !p.files.every((f: unknown) => typeof f === 'string')) {
-      throw new Error('plan.files must be an array of strings');
-    }
-    result.files = p.files as string[];
-  }
-
-  if (p.taskSteps !== undefined) {
-    if (!Array.isArray(p.taskSteps)) throw new Error('plan.taskSteps must be an array');
-    for (let i = 0; i < p.taskSteps.length; i++) {
-      const ts = p.taskSteps[i] as Record<string, unknown>;
-      if (typeof ts !== 'object' || ts === null) throw new Error(`plan.taskSteps[${i}] must be an object`);
-      if (typeof ts.task !== 'string') throw new Error(`plan.taskSteps[${i}].task must be a string`);
-      if (ts.steps !== undefined && (!Array.isArray(ts.steps) || !ts.steps.every((s: unknown) => typeof s === 'string'))) {
-        throw new Error(`plan.taskSteps[${i}].steps must be an array of strings`);
-      }
-      result.taskSteps.push({
-        task: ts.task as string,
-        steps: (ts.steps as string[]) || [],
-        done: typeof ts.done === 'boolean' ? ts.done : false,
-      });
-    }
-  }
-
-  if (p.dodVerification !== undefined) {
-    if (!Array.isArray(p.dodVerification)) throw new Error('plan.dodVerification must be an array');
-    for (let i = 0; i < p.dodVerification.length; i++) {
-      const dv = p.dodVerification[i] as Record<string, unknown>;
-      if (typeof dv !== 'object' || dv === null) throw new Error(`plan.dodVerification[${i}] must be an object`);
-      if (typeof dv.dod !== 'string') throw new Error(`plan.dodVerification[${i}].dod must be a string`);
-      result.dodVerification.push({
-        dod: dv.dod as string,
-        verify: typeof dv.verify === 'string' ? dv.verify : '',
-        done: typeof dv.done === 'boolean' ? dv.done : false,
-      });
-    }
-  }
-
-  if (p.decisions !== undefined) {
-    if (!Array.isArray(p.decisions)) throw new Error('plan.decisions must be an array');
-    for (let i = 0; i < p.decisions.length; i++) {
-      const d = p.decisions[i] as Record<string, unknown>;
-      if (typeof d !== 'object' || d === null) throw new Error(`plan.decisions[${i}] must be an object`);
-      if (typeof d.choice !== 'string') throw new Error(`plan.decisions[${i}].choice must be a string`);
-      result.decisions.push({
-        choice: d.choice as string,
-        reason: typeof d.reason === 'string' ? d.reason : '',
-      });
-    }
-  }
-
-  if (p.tradeOffs !== undefined) {
-    if (!Array.isArray(p.tradeOffs)) throw new Error('plan.tradeOffs must be an array');
-    for (let i = 0; i < p.tradeOffs.length; i++) {
-      const t = p.tradeOffs[i] as Record<string, unknown>;
-      if (typeof t !== 'object' || t === null) throw new Error(`plan.tradeOffs[${i}] must be an object`);
-      if (typeof t.considered !== 'string') throw new Error(`plan.tradeOffs[${i}].considered must be a string`);
-      result.tradeOffs.push({
-        considered: t.considered as string,
-        rejected: typeof t.rejected === 'string' ? t.rejected : '',
-      });
-    }
-  }
-
-  if (p.rollback !== undefined) {
-    if (typeof p.rollback !== 'object' || p.rollback === null || Array.isArray(p.rollback)) {
-      throw new Error('plan.rollback must be an object');
-    }
-    const rb = p.rollback as Record<string, unknown>;
-    const rev = typeof rb.reversibility === 'string' ? rb.reversibility : 'full';
-    if (!['full', 'partial', 'none'].includes(rev)) throw new Error("plan.rollback.reversibility must be 'full', 'partial', or 'none'");
-    result.rollback = {
-      steps: Array.isArray(rb.steps) ? (rb.steps as string[]) : [],
-      reversibility: rev as 'full' | 'partial' | 'none',
-    };
-  }
-
-  if (p.irreversibleActions !== undefined) {
-    if (!Array.isArray(p.irreversibleActions) || !p.irreversibleActions.every((s: unknown) => typeof s === 'string')) {
-      throw new Error('plan.irreversibleActions must be an array of strings');
-    }
-    result.irreversibleActions = p.irreversibleActions as string[];
-  }
-
-  if (p.edgeCases !== undefined) {
-    if (!Array.isArray(p.edgeCases) || !p.edgeCases.every((s: unknown) => typeof s === 'string')) {
-      throw new Error('plan.edgeCases must be an array of strings');
-    }
-    result.edgeCases = p.edgeCases as string[];
-  }
-
-  return result;
-}
-
-/**
- * Extract file:line references from text and compute file hashes.
- * Returns Citation[] for files that exist on disk. Line numbers are navigation hints.
- */
-function extractFileReferences(text: string, cwd: string): Citation[] {
-  // Match patterns like src/foo.ts:14, ./bar/baz.js:100
-  // Avoid matching URLs (http://..., https://...)
-  const pattern = /(?<!\w:\/\/)(?:^|[\s,(])([a-zA-Z0-9_./-]+\.[a-zA-Z0-9]+):(\d+)/g;
-  const citations: Citation[] = [];
-  const seen = new Set<string>();
-  const fileHashCache = new Map<string, string>();
-  let match: RegExpExecArray | null;
-
-  while ((match = pattern.exec(text)) !== null) {
-    const filePath = match[1];
-    const lineNum = parseInt(match[2], 10);
-    const key = `${filePath}:${lineNum}`;
-    if (seen.has(key) || lineNum < 1) continue;
-    seen.add(key);
-
-    try {
-      let fileHash = fileHashCache.get(filePath);
-      if (fileHash === undefined) {
-        const absPath = resolve(cwd, filePath);
-        const content = readFileSync(absPath, 'utf-8');
-        fileHash = computeContentHash(content);
-        fileHashCache.set(filePath, fileHash);
-      }
-      citations.push({
-        path: key,
-        fileHash,
-      });
-    } catch {
-      // File doesn't exist or can't be read — skip
-    }
-  }
-
-  return citations;
-}
-
-/**
- * Collect citations from ticket plan.files (line 1 of each file) and
- * any file:line references found in ticket context/intent.
- */
-function collectTicketCitations(ticket: Ticket, cwd: string): Citation[] {
-  const citations: Citation[] = [];
-  const seen = new Set<string>();
-
-  // Citations from plan.files — cite line 1 of each listed file (file-level hash)
-  const fileHashCache = new Map<string, string>();
-  if (ticket.plan?.files) {
-    for (const filePath of ticket.plan.files) {
-      const key = `${filePath}:1`;
-      if (seen.has(key)) continue;
-      seen.add(key);
-      try {
-        const absPath = resolve(cwd, filePath);
-        const content = readFileSync(absPath, 'utf-8');
-        const fileHash = computeContentHash(content);
-        fileHashCache.set(filePath, fileHash);
-        citations.push({
-          path: key,
-          fileHash,
-        });
-      } catch {
-        // File doesn't exist — skip
-      }
-    }
-  }
-
-  // Citations from text references in context and intent
-  const textSources = [ticket.context, ticket.intent].filter(Boolean).join('\n');
-  if (textSources) {
-    for (const c of extractFileReferences(textSources, cwd)) {
-      if (!seen.has(c.path)) {
-        seen.add(c.path);
-        citations.push(c);
-      }
-    }
-  }
-
-  return citations;
-}
-
-// Generate knowledge extraction proposals from a completed ticket
-export async function generateExtractProposals(ticket: Ticket, namespace: string, client?: Client): Promise<KnowledgeInput[]> {
-  const suggestions: KnowledgeInput[] = [];
-  const ticketType = ticket.type;
-  const cwd = process.cwd();
-  const citations = collectTicketCitations(ticket, cwd);
-
-  // Decisions from plan (high-value knowledge)
-  if (ticket.plan?.decisions && ticket.plan.decisions.length > 0) {
-    for (const decision of ticket.plan.decisions) {
-      if (!decision.choice) continue;
-      suggestions.push({
-        namespace,
-        title: `Decision: ${decision.choice.slice(0, 70)}`,
-        content: `Rule:\n${decision.choice}\n\nWhy:\n${decision.reason || '[AI: Explain rationale]'}\n\nApplies:\nSimilar contexts`,
-        category: 'principle',
-        source: 'ticket',
-        originTicketId: ticket.id,
-        originTicketType: ticketType,
-        confidence: 0.85,
-        decisionScope: 'new-only',
-      });
-    }
-  }
-
-  // Trade-offs from plan (what we didn't choose and why)
-  if (ticket.plan?.tradeOffs && ticket.plan.tradeOffs.length > 0) {
-    for (const tradeOff of ticket.plan.tradeOffs) {
-      if (!tradeOff.considered) continue;
-      suggestions.push({
-        namespace,
-        title: `Avoid: ${tradeOff.considered.slice(0, 70)}`,
-        content: `Avoid:\n${tradeOff.considered}\n\nWhy rejected:\n${tradeOff.rejected || '[AI: Explain why this was rejected]'}\n\nContext:\nTicket ${ticket.id}`,
-        category: 'principle',
-        source: 'ticket',
-        originTicketId: ticket.id,
-        originTicketType: ticketType,
-        confidence: 0.8,
-        decisionScope: 'new-only',
-      });
-    }
-  }
-
-  // Edge cases from plan → gotcha (pitfalls discovered during work)
-  if (ticket.plan?.edgeCases && ticket.plan.edgeCases.length > 0) {
-    for (const edgeCase of ticket.plan.edgeCases) {
-      suggestions.push({
-        namespace,
-        title: `Edge case: ${edgeCase.slice(0, 70)}`,
-        content: `Attempted:\n[AI: What was being done when this edge case was found]\n\nFailed Because:\n${edgeCase}\n\nInstead:\n[AI: How to handle this edge case]\n\nSymptoms:\n[AI: How this manifests if not handled]`,
-        category: 'gotcha',
-        source: 'ticket',
-        originTicketId: ticket.id,
-        originTicketType: ticketType,
-        confidence: 0.85,
-        decisionScope: 'new-only',
-      });
-    }
-  }
-
-  // Irreversible actions from plan → gotcha (warnings for dangerous operations)
-  if (ticket.plan?.irreversibleActions && ticket.plan.irreversibleActions.length > 0) {
-    for (const action of ticket.plan.irreversibleActions) {
-      suggestions.push({
-        namespace,
-        title: `Warning: ${action.slice(0, 70)}`,
-        content: `Attempted:\n${action}\n\nFailed Because:\nThis action cannot be undone\n\nInstead:\n[AI: What precautions to take before performing this action]\n\nSymptoms:\nData loss or irreversible state change if performed without preparation`,
-        category: 'gotcha',
-        source: 'ticket',
-        originTicketId: ticket.id,
-        originTicketType: ticketType,
-        confidence: 0.85,
-        decisionScope: 'global',
-      });
-    }
-  }
-
-  // Attach collected citations to all suggestions
-  if (citations.length > 0) {
-    for (const suggestion of suggestions) {
-      suggestion.citations = citations;
-    }
-  }
-
-  // Vector dedup: filter out proposals that are similar to existing knowledge
-  if (client && suggestions.length > 0) {
-    const novel: KnowledgeInput[] = [];
-    for (const suggestion of suggestions) {
-      try {
-        const queryEmbedding = await embed(suggestion.title, true);
-        const duplicates = await performVectorSearch(client, queryEmbedding, {
-          namespace,
-          limit: 1,
-          minScore: 0.7,
-          trackUsage: false,
-        });
-        if (duplicates.length === 0) {
-          novel.push(suggestion);
-        }
-      } catch {
-        // If dedup fails, keep the proposal
-        novel.push(suggestion);
-      }
-    }
-    return novel;
-  }
-
-  return suggestions;
-}
+import {
+  createTicket, getTicket, listTickets, updateTicket, deleteTicket, getTicketHistory,
+  linkTickets, unlinkTickets, getTicketLinks, validateTicketFields,
+} from '../services/tickets.js';
+import { parseJsonInput } from '../services/input.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+import type { TicketFields, TicketHistory } from '../services/tickets.js';
+import type {
+  Ticket, CliResponse, KnowledgeInput, TicketLinkType, TicketLinkRef, TicketDependencies, TicketStatus,
+} from '../types.js';
 
 export const ticketCommand = new Command('ticket')
   .description('Manage tickets');
@@ -475,113 +29,31 @@ ticketCommand
   .option('--spec <spec-id>', 'Origin spec ID')
   .action(async (options) => {
     try {
-      let id: string;
-      let type: TicketType | null = null;
-      let title: string | null = null;
-      let intent: string;
-      let context: string | null = null;
-      let constraintsUse: string[] | null = null;
-      let constraintsAvoid: string[] | null = null;
-      let assumptions: string[] | null = null;
-      let changeClass: string | null = null;
-      let changeClassReason: string | null = null;
-      let originSpecId: string | null = null;
-      let plan: TicketPlan | null = null;
-
+      let fields: TicketFields;
       if (options.json) {
-        const raw = options.json;
-        const parsed = parseJsonTicket(raw);
-
-        // Field-level validation
-        const errors: string[] = [];
-        if (!parsed.intent) errors.push('intent: Missing or empty intent');
-
-        // Type: optional (auto-inferred), but if provided must be valid
-        if (parsed.type !== undefined && !VALID_TICKET_TYPES.includes(parsed.type as TicketType)) {
-          errors.push(`type: Invalid type '${parsed.type}'. Must be one of: ${VALID_TICKET_TYPES.join(', ')}`);
-        }
-
-        // Change class: optional, but if provided must be A, B, or C
-        if (parsed.changeClass !== undefined && !VALID_CHANGE_CLASSES.includes(parsed.changeClass)) {
-          errors.push(`changeClass: Invalid change class '${parsed.changeClass}'. Must be A, B, or C`);
-        }
-
-        // Plan-level validation
-        if (parsed.plan) {
-          for (let i = 0; i < parsed.plan.taskSteps.length; i++) {
-            if (!parsed.plan.taskSteps[i].task || !parsed.plan.taskSteps[i].task.trim()) {
-              errors.push(`plan.taskSteps[${i}]: Empty task description`);
-            }
-          }
-          for (let i = 0; i < parsed.plan.dodVerification.length; i++) {
-            if (!parsed.plan.dodVerification[i].dod || !parsed.plan.dodVerification[i].dod.trim()) {
-              errors.push(`plan.dodVerification[${i}]: Empty DoD criterion`);
-            }
-          }
-        }
-
-        if (errors.length > 0) {
-          throw new Error(errors.join('; '));
-        }
-
-        id = generateId('TICKET');
-        title = parsed.title || null;
-        intent = parsed.intent!;
-        type = (parsed.type as TicketType) || inferTicketType(intent);
-        context = parsed.context || null;
-        constraintsUse = parsed.constraints?.use || null;
-        constraintsAvoid = parsed.constraints?.avoid || null;
-        assumptions = parsed.assumptions || null;
-        changeClass = parsed.changeClass || null;
-        changeClassReason = parsed.changeClassReason || null;
-        plan = parsed.plan || null;
-        originSpecId = parsed.spec || options.spec || null;
+        fields = validateTicketFields(parseJsonInput(options.json));
+        fields.spec = fields.spec || options.spec;
       } else {
-        // Use CLI options
         if (!options.intent) {
-          throw new Error('--json or --intent is required');
-        }
-
-        id = generateId('TICKET');
-        intent = options.intent;
-        type = inferTicketType(intent);
-        context = options.context || null;
-        constraintsUse = options.use || null;
-        constraintsAvoid = options.avoid || null;
-        assumptions = options.assumptions || null;
-        changeClass = options.class || null;
-        changeClassReason = options.classReason || null;
-        originSpecId = options.spec || null;
+          throw new ValidationError('--json or --intent is required');
+        }
+        fields = {
+          intent: options.intent,
+          context: options.context,
+          constraints: { use: options.use, avoid: options.avoid },
+          assumptions: options.assumptions,
+          changeClass: options.class,
+          changeClassReason: options.classReason,
+          spec: options.spec,
+        };
       }
 
       const client = await getClient();
       try {
-        await client.execute({
-          sql: `INSERT INTO tickets (
-            id, type, title, status, intent, context,
-            constraints_use, constraints_avoid, assumptions,
-            change_class, change_class_reason, plan, origin_spec_id, author
-          ) VALUES (?, ?, ?, 'Backlog', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          args: [
-            id,
-            type,
-            title,
-            intent,
-            context,
-            constraintsUse ? JSON.stringify(constraintsUse) : null,
-            constraintsAvoid ? JSON.stringify(constraintsAvoid) : null,
-            assumptions ? JSON.stringify(assumptions) : null,
-            changeClass,
-            changeClassReason,
-            plan ? JSON.stringify(plan) : null,
-            originSpecId,
-            getGitUsername(),
-          ],
-        });
-
+        const ticket = await createTicket(client, fields);
         const response: CliResponse<{ id: string; status: string }> = {
           success: true,
-          data: { id, status: 'created' },
+          data: { id: ticket.id, status: 'created' },
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -605,36 +77,19 @@ ticketCommand
   .action(async (id) => {
     try {
       const client = await getClient();
-      let result;
       try {
-        result = await client.execute({
-          sql: 'SELECT * FROM tickets WHERE id = ?',
-          args: [id],
-        });
-      } finally {
-        closeClient();
-      }
-
-      if (result.rows.length === 0) {
-        const response: CliResponse = {
-          success: false,
-          error: `Ticket ${id} not found`,
+        const response: CliResponse<Ticket> = {
+          success: true,
+          data: await getTicket(client, id),
         };
         console.log(JSON.stringify(response));
-        process.exit(1);
+      } finally {
+        closeClient();
       }
-
-      const ticket = parseTicketRow(result.rows[0] as Record<string, unknown>);
-
-      const response: CliResponse<Ticket> = {
-        success: true,
-        data: ticket,
-      };
-      console.log(JSON.stringify(response));
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to get ticket: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to get ticket: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -650,21 +105,7 @@ ticketCommand
     try {
       const client = await getClient();
       try {
-        const result = await client.execute({
-          sql: 'SELECT * FROM tickets WHERE id = ?',
-          args: [id],
-        });
-
-        if (result.rows.length === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Ticket ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        const t = parseTicketRow(result.rows[0] as Record<string, unknown>);
+        const t = await getTicket(client, id);
         const lines: string[] = [];
 
         if (t.title) lines.push(`# ${t.title}`, '');
@@ -746,20 +187,29 @@ ticketCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to preview ticket: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to preview ticket: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
     }
   });
 
+/**
+ * Parse comma-separated plan indices, e.g. "0,1,2".
+ */
+function parseIndices(value: string | undefined): number[] | undefined {
+  return value === undefined ? undefined : String(value).split(',').map(s => parseInt(s.trim(), 10));
+}
+
 // Update subcommand
 ticketCommand
   .command('update')
   .description('Update a ticket')
   .argument('<id>', 'Ticket ID')
   .option('--json <data>', 'JSON input')
-  .option('--status <status>', 'New status (Backlog|In Progress|In Review|Done)')
+  .option('--status <status>', 'New status (Backlog|In Progress|In Review|Done|Blocked|Abandoned|Superseded)')
+  .option('--replaced-by <ticket-id>', 'Replacement ticket (required with --status Superseded)')
+  .option('--force', 'Allow a status change outside the transition table')
   .option('--context <context>', 'Update context')
   .option('--comment <comment>', 'Add a comment')
   .option('--author <author>', 'Comment author (default: git user.name)')
@@ -769,198 +219,37 @@ ticketCommand
   .option('--spec <spec-id>', 'Set origin spec ID')
   .action(async (id, options) => {
     try {
+      // CLI flags take priority over JSON fields
+      const fields = options.json ? validateTicketFields(parseJsonInput(options.json)) : {};
+
       const client = await getClient();
       try {
-        // Check ticket exists
-        const existing = await client.execute({
-          sql: 'SELECT * FROM tickets WHERE id = ?',
-          args: [id],
+        const { extractProposals, unblocked } = await updateTicket(client, id, {
+          ...fields,
+          context: options.context || fields.context,
+          spec: options.spec || fields.spec,
+          author: options.author || fields.author,
+          status: options.status as TicketStatus | undefined,
+          replacedBy: options.replacedBy,
+          force: options.force,
+          comment: options.comment,
+          completeTasks: parseIndices(options.completeTask),
+          completeDod: parseIndices(options.completeDod),
+          completeAll: options.completeAll,
         });
 
-        if (existing.rows.length === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Ticket ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        const currentTicket = parseTicketRow(existing.rows[0] as Record<string, unknown>);
-        const updates: string[] = [];
-        const args: InValue[] = [];
-
-        // Parse JSON field updates
-        let jsonParsed: TicketJsonInput | undefined;
-        if (options.json) {
-          const raw = options.json;
-          jsonParsed = parseJsonTicket(raw);
-        }
-
-        // Plan is single source of truth for tasks and DoD completion
-        let plan = currentTicket.plan ? { ...currentTicket.plan } : null;
-        let planModified = false;
-
-        // JSON can replace the entire plan
-        if (jsonParsed?.plan) {
-          plan = jsonParsed.plan;
-          planModified = true;
-        }
-
-        // Handle --complete-all flag (highest priority for completion)
-        if (options.completeAll && plan) {
-          if (plan.taskSteps.length > 0) {
-            plan.taskSteps = plan.taskSteps.map(ts => ({ ...ts, done: true }));
-            planModified = true;
-          }
-          if (plan.dodVerification.length > 0) {
-            plan.dodVerification = plan.dodVerification.map(dv => ({ ...dv, done: true }));
-            planModified = true;
-          }
-        }
-
-        // Handle --complete-task with comma-separated indices
-        if (options.completeTask !== undefined && !options.completeAll && plan) {
-          const indices = String(options.completeTask).split(',').map(s => parseInt(s.trim(), 10));
-          for (const idx of indices) {
-            if (plan.taskSteps[idx]) {
-              plan.taskSteps[idx] = { ...plan.taskSteps[idx], done: true };
-              planModified = true;
-            }
-          }
-        }
-
-        // Handle --complete-dod with comma-separated indices
-        if (options.completeDod !== undefined && !options.completeAll && plan) {
-          const indices = String(options.completeDod).split(',').map(s => parseInt(s.trim(), 10));
-          for (const idx of indices) {
-            if (plan.dodVerification[idx]) {
-              plan.dodVerification[idx] = { ...plan.dodVerification[idx], done: true };
-              planModified = true;
-            }
-          }
-        }
-
-        if (options.status) {
-          updates.push('status = ?');
-          args.push(options.status);
-
-          // Auto-complete all tasks and DoD when status is "Done"
-          if (options.status === 'Done' && !options.completeAll && plan) {
-            if (plan.taskSteps.length > 0) {
-              plan.taskSteps = plan.taskSteps.map(ts => ({ ...ts, done: true }));
-              planModified = true;
-            }
-            if (plan.dodVerification.length > 0) {
-              plan.dodVerification = plan.dodVerification.map(dv => ({ ...dv, done: true }));
-              planModified = true;
-            }
-          }
-        }
-
-        // Apply JSON field updates
-        if (jsonParsed?.title) {
-          updates.push('title = ?');
-          args.push(jsonParsed.title);
-        }
-        if (jsonParsed?.intent) {
-          updates.push('intent = ?');
-          args.push(jsonParsed.intent);
-        }
-        if (jsonParsed?.type && VALID_TICKET_TYPES.includes(jsonParsed.type as TicketType)) {
-          updates.push('type = ?');
-          args.push(jsonParsed.type);
-        }
-        if (jsonParsed?.constraints?.use) {
-          updates.push('constraints_use = ?');
-          args.push(JSON.stringify(jsonParsed.constraints.use));
-        }
-        if (jsonParsed?.constraints?.avoid) {
-          updates.push('constraints_avoid = ?');
-          args.push(JSON.stringify(jsonParsed.constraints.avoid));
-        }
-        if (jsonParsed?.assumptions) {
-          updates.push('assumptions = ?');
-          args.push(JSON.stringify(jsonParsed.assumptions));
-        }
-        if (jsonParsed?.changeClass && VALID_CHANGE_CLASSES.includes(jsonParsed.changeClass)) {
-          updates.push('change_class = ?');
-          args.push(jsonParsed.changeClass);
-        }
-        if (jsonParsed?.changeClassReason) {
-          updates.push('change_class_reason = ?');
-          args.push(jsonParsed.changeClassReason);
-        }
-
-        if (options.context || jsonParsed?.context) {
-          updates.push('context = ?');
-          args.push(options.context || jsonParsed!.context!);
-        }
-
-        if (options.comment) {
-          const commentId = generateId('COMMENT');
-          const author = options.author || jsonParsed?.author || getGitUsername();
-          await client.execute({
-            sql: `INSERT INTO comments (id, parent_type, parent_id, author, text) VALUES (?, ?, ?, ?, ?)`,
-            args: [commentId, 'ticket', id, author, options.comment],
-          });
-        }
-
-        if (options.spec) {
-          updates.push('origin_spec_id = ?');
-          args.push(options.spec);
-        }
-
-        // Apply plan modifications
-        if (planModified && plan) {
-          updates.push('plan = ?');
-          args.push(JSON.stringify(plan));
-        }
-
-        if (updates.length === 0 && !options.comment) {
-          const response: CliResponse = {
-            success: false,
-            error: 'No updates provided',
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        if (updates.length > 0) {
-          updates.push("updated_at = datetime('now')");
-          args.push(id);
-
-          await client.execute({
-            sql: `UPDATE tickets SET ${updates.join(', ')} WHERE id = ?`,
-            args,
-          });
-        }
-
-        // Auto-extract: generate knowledge proposals when status is "Done"
-        let extractProposals: KnowledgeInput[] | undefined;
-        if (options.status === 'Done') {
-          // Fetch updated ticket for extraction
-          const updatedResult = await client.execute({
-            sql: 'SELECT * FROM tickets WHERE id = ?',
-            args: [id],
-          });
-          if (updatedResult.rows.length > 0) {
-            const updatedTicket = parseTicketRow(updatedResult.rows[0] as Record<string, unknown>);
-            const namespace = getProjectNamespace();
-            extractProposals = await generateExtractProposals(updatedTicket, namespace, client);
-          }
-        }
-
         const response: CliResponse<{
           id: string;
           status: string;
           extractProposals?: KnowledgeInput[];
+          unblocked?: TicketLinkRef[];
         }> = {
           success: true,
           data: {
             id,
             status: 'updated',
             ...(extractProposals && extractProposals.length > 0 && { extractProposals }),
+            ...(unblocked && unblocked.length > 0 && { unblocked }),
           },
         };
         console.log(JSON.stringify(response));
@@ -970,7 +259,34 @@ ticketCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to update ticket: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to update ticket: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// History subcommand
+ticketCommand
+  .command('history')
+  .description('Show status transitions of a ticket')
+  .argument('<id>', 'Ticket ID')
+  .action(async (id) => {
+    try {
+      const client = await getClient();
+      try {
+        const response: CliResponse<TicketHistory> = {
+          success: true,
+          data: await getTicketHistory(client, id),
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to get ticket history: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -988,27 +304,13 @@ ticketCommand
     try {
       const client = await getClient();
       try {
-        let sql = 'SELECT * FROM tickets';
-        const args: InValue[] = [];
-
-        if (options.status) {
-          sql += ' WHERE status = ?';
-          args.push(options.status);
-        }
-
-        sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
-        args.push(parseInt(options.limit, 10));
-        args.push(parseInt(options.offset, 10));
-
-        const result = await client.execute({ sql, args });
-
-        const tickets = result.rows.map((row) =>
-          parseTicketRow(row as Record<string, unknown>)
-        );
-
         const response: CliResponse<Ticket[]> = {
           success: true,
-          data: tickets,
+          data: await listTickets(client, {
+            status: options.status,
+            limit: parseInt(options.limit, 10),
+            offset: parseInt(options.offset, 10),
+          }),
         };
         console.log(JSON.stringify(response));
       } finally {
@@ -1033,25 +335,7 @@ ticketCommand
     try {
       const client = await getClient();
       try {
-        // Check ticket exists
-        const existing = await client.execute({
-          sql: 'SELECT id FROM tickets WHERE id = ?',
-          args: [id],
-        });
-
-        if (existing.rows.length === 0) {
-          const response: CliResponse = {
-            success: false,
-            error: `Ticket ${id} not found`,
-          };
-          console.log(JSON.stringify(response));
-          process.exit(1);
-        }
-
-        await client.execute({
-          sql: 'DELETE FROM tickets WHERE id = ?',
-          args: [id],
-        });
+        await deleteTicket(client, id);
 
         const response: CliResponse<{ id: string; status: string }> = {
           success: true,
@@ -1064,7 +348,126 @@ ticketCommand
     } catch (error) {
       const response: CliResponse = {
         success: false,
-        error: `Failed to delete ticket: ${(error as Error).message}`,
+        error: error instanceof NotFoundError ? error.message : `Failed to delete ticket: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Resolve the single relation flag given to link/unlink.
+ * Returns the link type and other ticket ID, or an error message.
+ */
+function parseLinkOption(options: Record<string, string | undefined>): { type: TicketLinkType; otherId: string } | { error: string } {
+  const flags: [TicketLinkType, string | undefined][] = [
+    ['blocks', options.blocks],
+    ['blocked_by', options.blockedBy],
+    ['relates_to', options.relatesTo],
+    ['duplicates', options.duplicates],
+  ];
+  const given = flags.filter(([, value]) => value !== undefined);
+  if (given.length !== 1) {
+    return { error: 'Specify exactly one of --blocks, --blocked-by, --relates-to, --duplicates' };
+  }
+  const [type, otherId] = given[0];
+  return { type, otherId: otherId! };
+}
+
+// Link subcommand
+ticketCommand
+  .command('link')
+  .description('Link a ticket to another ticket')
+  .argument('<id>', 'Ticket ID')
+  .option('--blocks <other>', 'This ticket blocks <other>')
+  .option('--blocked-by <other>', 'This ticket is blocked by <other>')
+  .option('--relates-to <other>', 'This ticket relates to <other>')
+  .option('--duplicates <other>', 'This ticket duplicates <other>')
+  .option('--author <author>', 'Link author (default: git user.name)')
+  .action(async (id, options) => {
+    try {
+      const parsed = parseLinkOption(options);
+      if ('error' in parsed) {
+        const response: CliResponse = { success: false, error: parsed.error };
+        console.log(JSON.stringify(response));
+        process.exit(1);
+      }
+
+      const client = await getClient();
+      try {
+        const dependencies = await linkTickets(client, id, parsed.otherId, parsed.type, options.author);
+
+        const response: CliResponse<{ id: string; type: TicketLinkType; other: string; dependencies: TicketDependencies }> = {
+          success: true,
+          data: { id, type: parsed.type, other: parsed.otherId, dependencies },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to link ticket: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Unlink subcommand
+ticketCommand
+  .command('unlink')
+  .description('Remove links between two tickets (all types unless one is given)')
+  .argument('<id>', 'Ticket ID')
+  .argument('<other>', 'Linked ticket ID')
+  .option('--type <type>', 'Only remove this relation: blocks|blocked_by|relates_to|duplicates')
+  .action(async (id, other, options) => {
+    try {
+      const client = await getClient();
+      try {
+        const removed = await unlinkTickets(client, id, other, options.type);
+
+        const response: CliResponse<{ id: string; other: string; removed: number }> = {
+          success: true,
+          data: { id, other, removed },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to unlink ticket: ${(error as Error).message}`,
+      };
+      console.log(JSON.stringify(response));
+      process.exit(1);
+    }
+  });
+
+// Links subcommand
+ticketCommand
+  .command('links')
+  .description('Show a ticket\'s dependencies and related tickets')
+  .argument('<id>', 'Ticket ID')
+  .action(async (id) => {
+    try {
+      const client = await getClient();
+      try {
+        const dependencies = await getTicketLinks(client, id);
+        const response: CliResponse<{ id: string } & TicketDependencies> = {
+          success: true,
+          data: { id, ...dependencies },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      const response: CliResponse = {
+        success: false,
+        error: error instanceof NotFoundError ? error.message : `Failed to get ticket links: ${(error as Error).message}`,
       };
       console.log(JSON.stringify(response));
       process.exit(1);
@@ -0,0 +1,164 @@
+import { Command } from 'commander';
+import type { Client } from '@libsql/client';
+import { getClient, closeClient } from '../db/client.js';
+import { createWebhookDelivery, getWebhookDelivery, listWebhookDeliveries } from '../db/webhooks.js';
+import { attemptDelivery, buildPingPayload } from '../webhooks/delivery.js';
+import { getWebhookDispatcherStatus } from '../webhooks/dispatcher.js';
+import { loadWebhookConfig } from '../utils/config.js';
+import type { WebhookConfig } from '../utils/config.js';
+import type { WebhookDispatcherStatus } from '../webhooks/dispatcher.js';
+import type { CliResponse, WebhookDelivery, WebhookDeliveryStatus } from '../types.js';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+function fail(message: string): never {
+  const response: CliResponse = {
+    success: false,
+    error: message,
+  };
+  console.log(JSON.stringify(response));
+  process.exit(1);
+}
+
+function findWebhook(webhooks: WebhookConfig[], id: string): WebhookConfig {
+  const webhook = webhooks.find(w => w.id === id);
+  if (!webhook) {
+    throw new Error(`Webhook '${id}' is not configured in .superintent/webhooks.json`);
+  }
+  return webhook;
+}
+
+/**
+ * Events are only delivered by a running dashboard or daemon; say so on stderr
+ * (stdout carries the JSON response) when neither has polled recently.
+ */
+async function checkDispatcher(client: Client): Promise<WebhookDispatcherStatus> {
+  const status = await getWebhookDispatcherStatus(client);
+  if (!status.running) {
+    console.error(
+      'Warning: no dashboard or daemon is sending webhooks, so event deliveries stay queued until one runs ' +
+      '(`superintent daemon start` or `superintent dashboard`).'
+    );
+  }
+  return status;
+}
+
+function reportAttempt(delivery: WebhookDelivery | null): void {
+  if (!delivery) {
+    fail('Delivery was taken by another dispatcher, try again');
+  }
+  if (delivery.status !== 'delivered') {
+    fail(`Delivery ${delivery.id} failed: ${delivery.last_error ?? 'unknown error'}`);
+  }
+  const response: CliResponse<WebhookDelivery> = {
+    success: true,
+    data: delivery,
+  };
+  console.log(JSON.stringify(response));
+}
+
+export const webhooksCommand = new Command('webhooks')
+  .description('Inspect and test webhook subscriptions (.superintent/webhooks.json)');
+
+// List subcommand
+webhooksCommand
+  .command('list')
+  .description('List configured webhooks and recent deliveries')
+  .option('--webhook <id>', 'Only deliveries for this webhook')
+  .option('--status <status>', `Only deliveries with this status: ${DELIVERY_STATUSES.join(', ')}`)
+  .option('--limit <n>', 'Max deliveries', '20')
+  .action(async (options) => {
+    if (options.status && !DELIVERY_STATUSES.includes(options.status)) {
+      fail(`Invalid --status '${options.status}'. Must be one of: ${DELIVERY_STATUSES.join(', ')}`);
+    }
+    const limit = parseInt(options.limit, 10);
+    if (isNaN(limit) || limit < 1) {
+      fail(`Invalid --limit '${options.limit}'`);
+    }
+
+    try {
+      const webhooks = loadWebhookConfig();
+      const client = await getClient();
+      try {
+        const deliveries = await listWebhookDeliveries(client, {
+          webhookId: options.webhook,
+          status: options.status,
+          limit,
+        });
+        const dispatcher = webhooks.length > 0
+          ? await checkDispatcher(client)
+          : await getWebhookDispatcherStatus(client);
+        // Secrets stay out of the output
+        const response: CliResponse<{
+          webhooks: Omit<WebhookConfig, 'secret'>[];
+          dispatcher: WebhookDispatcherStatus;
+          deliveries: WebhookDelivery[];
+        }> = {
+          success: true,
+          data: {
+            webhooks: webhooks.map(({ id, url, events }) => ({ id, url, events })),
+            dispatcher,
+            deliveries,
+          },
+        };
+        console.log(JSON.stringify(response));
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      fail(`Failed to list webhooks: ${(error as Error).message}`);
+    }
+  });
+
+// Test subcommand
+webhooksCommand
+  .command('test')
+  .description('Send a signed ping to a webhook now and record it in the delivery log')
+  .argument('<id>', 'Webhook ID from .superintent/webhooks.json')
+  .action(async (id) => {
+    let delivery: WebhookDelivery | null;
+    try {
+      const webhook = findWebhook(loadWebhookConfig(), id);
+      const client = await getClient();
+      try {
+        const queued = await createWebhookDelivery(client, {
+          webhookId: webhook.id,
+          eventType: 'ping',
+          url: webhook.url,
+          payload: buildPingPayload(webhook),
+        });
+        delivery = queued && await attemptDelivery(client, queued, webhook, false);
+        await checkDispatcher(client);
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      fail(`Failed to test webhook: ${(error as Error).message}`);
+    }
+    reportAttempt(delivery);
+  });
+
+// Redeliver subcommand
+webhooksCommand
+  .command('redeliver')
+  .description("Send a logged delivery again now, to the webhook's current URL")
+  .argument('<delivery-id>', 'Delivery ID from `webhooks list`')
+  .action(async (deliveryId) => {
+    let delivery: WebhookDelivery | null;
+    try {
+      const webhooks = loadWebhookConfig();
+      const client = await getClient();
+      try {
+        const existing = await getWebhookDelivery(client, deliveryId);
+        if (!existing) {
+          throw new Error(`Delivery ${deliveryId} not found`);
+        }
+        delivery = await attemptDelivery(client, existing, findWebhook(webhooks, existing.webhook_id), false);
+      } finally {
+        closeClient();
+      }
+    } catch (error) {
+      fail(`Failed to redeliver: ${(error as Error).message}`);
+    }
+    reportAttempt(delivery);
+  });
@@ -0,0 +1,117 @@
+/**
+ * CLI side of the daemon. Embedding and search calls go to a running daemon
+ * for this workspace and fall back to in-process work when there is none, or
+ * when it was started with different embedding or database settings.
+ */
+
+import { createConnection } from 'net';
+import { getDaemonSocketPath } from './protocol.js';
+import { loadConfig, loadEmbeddingConfig, embeddingScope } from '../utils/config.js';
+import type { DaemonMethod, DaemonRequest, DaemonResponse, DaemonInfo, EmbedParams, SearchParams } from './protocol.js';
+import type { SearchPage } from '../db/search.js';
+
+const CONNECT_TIMEOUT_MS = 1000;
+
+// Routing decision, made once per process
+let routing: Promise<boolean> | null = null;
+
+/**
+ * Stop routing calls to a daemon (used by the daemon itself).
+ */
+export function disableDaemonRouting(): void {
+  routing = Promise.resolve(false);
+}
+
+/**
+ * Send one request and wait for its response. Rejects only when the daemon
+ * cannot be reached; errors raised by the daemon come back in `response.error`.
+ */
+export function requestDaemon(method: DaemonMethod, params?: unknown): Promise<DaemonResponse> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(getDaemonSocketPath());
+    const request: DaemonRequest = { id: 1, method, params };
+    let buffer = '';
+    let settled = false;
+
+    const finish = (error: Error | null, response?: DaemonResponse) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(response!);
+    };
+
+    socket.setTimeout(CONNECT_TIMEOUT_MS, () => finish(new Error('Daemon did not respond')));
+    socket.on('connect', () => {
+      // Connected: the request itself may take as long as embedding does
+      socket.setTimeout(0);
+      socket.write(JSON.stringify(request) + '\n');
+    });
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      const newline = buffer.indexOf('\n');
+      if (newline === -1) return;
+      try {
+        finish(null, JSON.parse(buffer.slice(0, newline)) as DaemonResponse);
+      } catch {
+        finish(new Error('Invalid response from daemon'));
+      }
+    });
+    socket.on('error', (error) => finish(error));
+    socket.on('close', () => finish(new Error('Daemon closed the connection')));
+  });
+}
+
+/**
+ * Info of the daemon serving this workspace, or null when none is running.
+ */
+export async function getDaemonInfo(): Promise<DaemonInfo | null> {
+  try {
+    const response = await requestDaemon('ping');
+    return (response.result as DaemonInfo | undefined) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the daemon would produce the same results as this process.
+ */
+export function isDaemonCompatible(info: DaemonInfo): boolean {
+  try {
+    return info.embeddingScope === embeddingScope(loadEmbeddingConfig()) && info.database === loadConfig().url;
+  } catch {
+    return false;
+  }
+}
+
+async function shouldRoute(): Promise<boolean> {
+  routing ??= getDaemonInfo().then(info => info !== null && isDaemonCompatible(info), () => false);
+  return routing;
+}
+
+/**
+ * Run a request on the daemon, or return null so the caller does the work in-process.
+ * A daemon that disappears mid-call is dropped for the rest of the process.
+ */
+async function routed<T>(method: DaemonMethod, params: unknown): Promise<T | null> {
+  if (!(await shouldRoute())) return null;
+  let response: DaemonResponse;
+  try {
+    response = await requestDaemon(method, params);
+  } catch {
+    disableDaemonRouting();
+    return null;
+  }
+  if (response.error !== undefined) throw new Error(response.error);
+  return response.result as T;
+}
+
+export function daemonEmbedBatch(texts: string[], isQuery: boolean): Promise<number[][] | null> {
+  const params: EmbedParams = { texts, isQuery };
+  return routed<number[][]>('embed', params);
+}
+
+export function daemonSearch(params: SearchParams): Promise<SearchPage | null> {
+  return routed<SearchPage>('search', params);
+}
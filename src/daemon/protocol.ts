@@ -0,0 +1,61 @@
+/**
+ * Wire format between the CLI and the local daemon: one JSON object per line
+ * over a Unix socket (a named pipe on Windows), one socket per workspace.
+ */
+
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SearchMode } from '../types.js';
+import type { VectorSearchOptions } from '../db/search.js';
+
+export type DaemonMethod = 'ping' | 'embed' | 'search' | 'shutdown';
+
+export interface DaemonRequest {
+  id: number;
+  method: DaemonMethod;
+  params?: unknown;
+}
+
+export interface DaemonResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+export interface DaemonInfo {
+  pid: number;
+  cwd: string;
+  version: string;
+  startedAt: string;
+  requests: number;
+  embeddingScope: string; // see embeddingScope(); CLI calls only route here when it matches
+  database: string; // database URL the daemon is connected to
+}
+
+export interface EmbedParams {
+  texts: string[];
+  isQuery: boolean;
+}
+
+export interface SearchParams {
+  query: string;
+  options: VectorSearchOptions & { mode?: SearchMode };
+}
+
+function workspaceHash(cwd: string): string {
+  return createHash('sha256').update(cwd).digest('hex').slice(0, 12);
+}
+
+/**
+ * Socket of the daemon serving the workspace in `cwd`. Kept in the temp directory
+ * because Unix socket paths are limited to ~100 characters.
+ */
+export function getDaemonSocketPath(cwd = process.cwd()): string {
+  const name = `superintent-${workspaceHash(cwd)}`;
+  return process.platform === 'win32' ? `\\\\.\\pipe\\${name}` : join(tmpdir(), `${name}.sock`);
+}
+
+export function getDaemonLogPath(cwd = process.cwd()): string {
+  return join(tmpdir(), `superintent-${workspaceHash(cwd)}.log`);
+}
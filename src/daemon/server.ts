@@ -0,0 +1,137 @@
+/**
+ * The daemon process: keeps the embedding model and database client loaded and
+ * serves embed/search requests from CLI calls in the same workspace.
+ */
+
+import { createServer } from 'net';
+import type { Socket } from 'net';
+import { chmodSync, existsSync, unlinkSync } from 'fs';
+import { getDaemonSocketPath } from './protocol.js';
+import { disableDaemonRouting, getDaemonInfo } from './client.js';
+import { getClient, closeClient } from '../db/client.js';
+import { embedQuery, performSearchPage } from '../db/search.js';
+import { embedBatch, preloadModel, disposeEmbedder } from '../embed/model.js';
+import { startWebhookDispatcher } from '../webhooks/dispatcher.js';
+import { loadConfig, loadEmbeddingConfig, loadWebhookConfig, embeddingScope } from '../utils/config.js';
+import type { WebhookDispatcher } from '../webhooks/dispatcher.js';
+import type { DaemonRequest, DaemonResponse, DaemonInfo, EmbedParams, SearchParams } from './protocol.js';
+
+export interface DaemonServer {
+  info: DaemonInfo;
+  close(): Promise<void>;
+}
+
+/**
+ * Load the model, connect to the database, then listen on the workspace socket.
+ * Resolves once the daemon accepts requests; `onShutdown` runs after a `shutdown` request.
+ */
+export async function startDaemonServer(version: string, onShutdown: () => void): Promise<DaemonServer> {
+  // The daemon does the work itself
+  disableDaemonRouting();
+
+  const socketPath = getDaemonSocketPath();
+  if (await getDaemonInfo()) {
+    throw new Error('A daemon is already running for this workspace');
+  }
+  // Left behind by a daemon that did not shut down cleanly
+  if (process.platform !== 'win32' && existsSync(socketPath)) {
+    unlinkSync(socketPath);
+  }
+
+  const webhooks = loadWebhookConfig();
+  await preloadModel();
+  const client = await getClient();
+
+  const info: DaemonInfo = {
+    pid: process.pid,
+    cwd: process.cwd(),
+    version,
+    startedAt: new Date().toISOString(),
+    requests: 0,
+    embeddingScope: embeddingScope(loadEmbeddingConfig()),
+    database: loadConfig().url,
+  };
+
+  let webhookDispatcher: WebhookDispatcher | null = null;
+  const sockets = new Set<Socket>();
+
+  const handle = async (request: DaemonRequest): Promise<unknown> => {
+    switch (request.method) {
+      case 'ping':
+        return info;
+      case 'embed': {
+        const { texts, isQuery } = request.params as EmbedParams;
+        return embedBatch(texts, isQuery);
+      }
+      case 'search': {
+        const { query, options } = request.params as SearchParams;
+        const client = await getClient();
+        const queryEmbedding = options.mode === 'lexical' ? null : await embedQuery(client, query);
+        return performSearchPage(client, query, queryEmbedding, options);
+      }
+      case 'shutdown':
+        setImmediate(onShutdown);
+        return { stopped: true, pid: process.pid };
+      default:
+        throw new Error(`Unknown method '${request.method}'`);
+    }
+  };
+
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+
+        let request: DaemonRequest;
+        try {
+          request = JSON.parse(line);
+        } catch {
+          socket.end(JSON.stringify({ id: 0, error: 'Invalid request' }) + '\n');
+          return;
+        }
+        info.requests++;
+        handle(request).then(
+          (result) => ({ id: request.id, result }),
+          (error) => ({ id: request.id, error: (error as Error).message }),
+        ).then((response: DaemonResponse) => {
+          if (!socket.destroyed) socket.write(JSON.stringify(response) + '\n');
+        });
+      }
+    });
+  });
+
+  const close = async () => {
+    webhookDispatcher?.stop();
+    for (const socket of sockets) socket.end();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await disposeEmbedder();
+    closeClient();
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  // Only the current user may talk to the daemon
+  if (process.platform !== 'win32') chmodSync(socketPath, 0o600);
+
+  // Webhooks are sent while the daemon runs, whichever command made the change
+  if (webhooks.length > 0) {
+    webhookDispatcher = startWebhookDispatcher(client, webhooks, {
+      onError: (error) => process.stderr.write(`Webhook dispatch failed: ${error.message}\n`),
+    });
+  }
+
+  return { info, close };
+}
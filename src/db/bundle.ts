@@ -0,0 +1,480 @@
+/**
+ * Portable JSON bundles of the whole database, for moving data between
+ * local file: databases and Turso Cloud.
+ * Rows are stored as raw column values; knowledge embeddings as number arrays.
+ */
+
+import type { Client, InStatement, InValue } from '@libsql/client';
+import { getSchemaVersion } from './migrations.js';
+import { generateId, type IdPrefix } from '../utils/id.js';
+import { toSqliteDatetime } from '../utils/time.js';
+import { getStoredEmbeddingModel, assertEmbeddingModel } from './embedding-meta.js';
+import { writeKnowledgeChunks, pruneKnowledgeChunks } from './chunks.js';
+import { embedBatch, getEmbeddingProvider } from '../embed/model.js';
+
+export const BUNDLE_FORMAT = 'superintent-bundle';
+export const BUNDLE_VERSION = 1;
+
+// Latest webhook_events seq before an import's writes (see importBundle)
+const IMPORT_MARK_KEY = 'import_mark';
+
+type Row = Record<string, unknown>;
+
+interface RefSpec {
+  column: string;
+  // Referenced table, or a function picking it per row (polymorphic comments)
+  table: string | ((row: Row) => string | null);
+  // Column holds a JSON array of IDs
+  json?: boolean;
+}
+
+interface TableSpec {
+  name: string;
+  key: string[];
+  // Prefix for fresh IDs when a colliding row is remapped
+  idPrefix?: IdPrefix;
+  // Remapped only when this ref column's target was remapped (history rows follow their parent)
+  parent?: string;
+  // Unique column besides the key; a match maps the bundle row onto the existing row
+  naturalKey?: string;
+  // Used for --since filtering and newer-wins merging
+  changedAt: string;
+  refs: RefSpec[];
+  // WHERE fragment restricting rows to a knowledge namespace (one ? placeholder)
+  namespaceFilter?: string;
+}
+
+const COMMENT_PARENT_TABLES: Record<string, string> = { ticket: 'tickets', knowledge: 'knowledge', spec: 'specs' };
+const IN_NAMESPACE = 'IN (SELECT id FROM knowledge WHERE namespace = ?)';
+
+// Every data table, parents before children
+const TABLES: TableSpec[] = [
+  { name: 'specs', key: ['id'], idPrefix: 'SPEC', changedAt: 'updated_at', refs: [] },
+  {
+    name: 'tickets', key: ['id'], idPrefix: 'TICKET', changedAt: 'updated_at',
+    refs: [
+      { column: 'origin_spec_id', table: 'specs' },
+      { column: 'derived_knowledge', table: 'knowledge', json: true },
+    ],
+  },
+  {
+    name: 'knowledge', key: ['id'], idPrefix: 'KNOWLEDGE', changedAt: 'updated_at',
+    refs: [
+      { column: 'origin_ticket_id', table: 'tickets' },
+      { column: 'merged_into', table: 'knowledge' },
+    ],
+    namespaceFilter: 'namespace = ?',
+  },
+  {
+    name: 'knowledge_revisions', key: ['id'], idPrefix: 'KREV', parent: 'knowledge_id', changedAt: 'created_at',
+    refs: [{ column: 'knowledge_id', table: 'knowledge' }],
+    namespaceFilter: `knowledge_id ${IN_NAMESPACE}`,
+  },
+  {
+    name: 'comments', key: ['id'], idPrefix: 'COMMENT', changedAt: 'updated_at',
+    refs: [{ column: 'parent_id', table: (row) => COMMENT_PARENT_TABLES[row.parent_type as string] ?? null }],
+    namespaceFilter: `(parent_type != 'knowledge' OR parent_id ${IN_NAMESPACE})`,
+  },
+  { name: 'wiki_pages', key: ['id'], naturalKey: 'path', changedAt: 'updated_at', refs: [] },
+  {
+    name: 'wiki_citations', key: ['id'], idPrefix: 'WCITE', parent: 'knowledge_id', changedAt: 'created_at',
+    refs: [
+      { column: 'wiki_page_id', table: 'wiki_pages' },
+      { column: 'knowledge_id', table: 'knowledge' },
+    ],
+    namespaceFilter: `knowledge_id ${IN_NAMESPACE}`,
+  },
+  {
+    name: 'ticket_links', key: ['from_id', 'to_id', 'type'], changedAt: 'created_at',
+    refs: [
+      { column: 'from_id', table: 'tickets' },
+      { column: 'to_id', table: 'tickets' },
+    ],
+  },
+  {
+    name: 'knowledge_links', key: ['from_id', 'to_id', 'type'], changedAt: 'created_at',
+    refs: [
+      { column: 'from_id', table: 'knowledge' },
+      { column: 'to_id', table: 'knowledge' },
+    ],
+    // Both ends in the namespace, with a single placeholder
+    namespaceFilter: `from_id ${IN_NAMESPACE} AND to_id IN (SELECT id FROM knowledge WHERE namespace =
+      (SELECT namespace FROM knowledge WHERE id = from_id))`,
+  },
+  {
+    name: 'ticket_status_events', key: ['id'], idPrefix: 'TSEV', parent: 'ticket_id', changedAt: 'created_at',
+    refs: [
+      { column: 'ticket_id', table: 'tickets' },
+      { column: 'replaced_by', table: 'tickets' },
+    ],
+  },
+];
+
+export interface Bundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  embeddingModel: string | null;
+  filters: { namespace?: string; since?: string };
+  tables: Record<string, Row[]>;
+}
+
+export interface ExportOptions {
+  namespace?: string;
+  since?: Date;
+  embeddings?: boolean;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  remap?: boolean;
+  dryRun?: boolean;
+}
+
+export interface TableImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  remapped: number;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  reembedded: number;
+  tables: Record<string, TableImportResult>;
+  totals: TableImportResult;
+}
+
+async function tableColumns(client: Client, table: string): Promise<string[]> {
+  const result = await client.execute(`PRAGMA table_info(${table})`);
+  return result.rows.map(row => row.name as string);
+}
+
+function refTable(spec: TableSpec, column: string, row: Row): string | null {
+  const ref = spec.refs.find(r => r.column === column);
+  if (!ref) return null;
+  return typeof ref.table === 'string' ? ref.table : ref.table(row);
+}
+
+function tableOrder(name: string): number {
+  return TABLES.findIndex(spec => spec.name === name);
+}
+
+/**
+ * Point a row's references at remapped IDs, for referenced tables accepted by `include`.
+ */
+function rewriteRefs(
+  spec: TableSpec,
+  row: Row,
+  idMaps: Map<string, Map<string, string>>,
+  include: (table: string) => boolean,
+): void {
+  for (const ref of spec.refs) {
+    const value = row[ref.column];
+    if (value === null || value === undefined) continue;
+    const target = typeof ref.table === 'string' ? ref.table : ref.table(row);
+    const map = target && include(target) ? idMaps.get(target) : undefined;
+    if (!map || map.size === 0) continue;
+
+    if (ref.json) {
+      const ids: string[] = typeof value === 'string' ? JSON.parse(value) : [];
+      row[ref.column] = JSON.stringify(ids.map(id => map.get(id) ?? id));
+    } else {
+      row[ref.column] = map.get(String(value)) ?? value;
+    }
+  }
+}
+
+function keyOf(spec: TableSpec, row: Row): string {
+  return spec.key.map(k => String(row[k] ?? '')).join('\u0000');
+}
+
+// ── Export ──────────────────────────────────────────────────────────
+
+export async function exportBundle(client: Client, options: ExportOptions = {}): Promise<Bundle> {
+  const includeEmbeddings = options.embeddings !== false;
+  const tables: Record<string, Row[]> = {};
+
+  for (const spec of TABLES) {
+    const columns = await tableColumns(client, spec.name);
+    // Table not created yet on this database (older schema)
+    if (columns.length === 0) continue;
+
+    const select = columns
+      .filter(c => c !== 'embedding' || includeEmbeddings)
+      .map(c => c === 'embedding' ? 'vector_extract(embedding) AS embedding' : c);
+    const conditions: string[] = [];
+    const args: InValue[] = [];
+
+    if (options.namespace && spec.namespaceFilter) {
+      conditions.push(spec.namespaceFilter);
+      args.push(options.namespace);
+    }
+    if (options.since) {
+      conditions.push(`${spec.changedAt} >= ?`);
+      args.push(toSqliteDatetime(options.since));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await client.execute({
+      sql: `SELECT ${select.join(', ')} FROM ${spec.name} ${where} ORDER BY ${spec.changedAt} ASC`,
+      args,
+    });
+
+    tables[spec.name] = result.rows.map(row => {
+      const r: Row = { ...(row as Row) };
+      if (typeof r.embedding === 'string') {
+        r.embedding = JSON.parse(r.embedding);
+      }
+      return r;
+    });
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    schemaVersion: await getSchemaVersion(client),
+    exportedAt: new Date().toISOString(),
+    embeddingModel: includeEmbeddings ? (await getStoredEmbeddingModel(client))?.model ?? null : null,
+    filters: {
+      ...(options.namespace && { namespace: options.namespace }),
+      ...(options.since && { since: options.since.toISOString() }),
+    },
+    tables,
+  };
+}
+
+// ── Import ──────────────────────────────────────────────────────────
+
+/**
+ * Check a parsed JSON value is a bundle this CLI can read.
+ */
+export function validateBundle(value: unknown): Bundle {
+  const bundle = value as Bundle;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a superintent bundle (missing format marker)');
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${bundle.version} is newer than this CLI supports (${BUNDLE_VERSION})`);
+  }
+  if (!bundle.tables || typeof bundle.tables !== 'object') {
+    throw new Error('Bundle has no tables');
+  }
+  return bundle;
+}
+
+interface PlannedRow {
+  action: 'create' | 'update' | 'skip';
+  row: Row;
+  // Key of the existing row to update
+  targetKey?: Row;
+}
+
+function knowledgeEmbeddingText(row: Row): string {
+  const tags: string[] = row.tags ? JSON.parse(row.tags as string) : [];
+  const tagsText = tags.length ? ' ' + tags.join(' ') : '';
+  return `${row.title} ${row.content}${tagsText}`;
+}
+
+/**
+ * Import a bundle.
+ * merge: new IDs are created; existing IDs are updated when the bundle row is newer, otherwise skipped.
+ *        With remap, colliding IDs are created under fresh IDs instead and references follow.
+ * replace: the bundle's tables are emptied first, then every row is created. Refused for
+ *          filtered bundles, which would wipe every row outside the filter.
+ * Knowledge without a usable embedding (none in the bundle, or another model) is re-embedded.
+ */
+export async function importBundle(client: Client, bundle: Bundle, options: ImportOptions): Promise<ImportReport> {
+  const filters = Object.entries(bundle.filters ?? {}).map(([name, value]) => `--${name} ${value}`);
+  if (options.mode === 'replace' && filters.length > 0) {
+    throw new Error(`--replace would delete every row outside this bundle's filter (${filters.join(', ')}). Use --merge`);
+  }
+
+  const specs = TABLES.filter(spec => Array.isArray(bundle.tables[spec.name]));
+  const idMaps = new Map<string, Map<string, string>>(TABLES.map(spec => [spec.name, new Map()]));
+  const remappedIds = new Map<string, Set<string>>(TABLES.map(spec => [spec.name, new Set()]));
+  const columnsByTable = new Map<string, string[]>();
+  const plans = new Map<string, PlannedRow[]>();
+  const tables: Record<string, TableImportResult> = {};
+
+  for (const spec of specs) {
+    const columns = await tableColumns(client, spec.name);
+    if (columns.length === 0) {
+      throw new Error(`Table ${spec.name} does not exist. Run: superintent migrate`);
+    }
+    columnsByTable.set(spec.name, columns);
+  }
+
+  // Pass 1: decide create/update/skip/remap for every row against existing data
+  for (const spec of specs) {
+    const existing = new Map<string, { changedAt: string | null; row: Row }>();
+    const existingByNatural = new Map<string, Row>();
+    if (options.mode === 'merge') {
+      const keyColumns = [...new Set([...spec.key, spec.changedAt, ...(spec.naturalKey ? [spec.naturalKey] : [])])];
+      const result = await client.execute(`SELECT ${keyColumns.join(', ')} FROM ${spec.name}`);
+      for (const r of result.rows) {
+        const row = r as Row;
+        existing.set(keyOf(spec, row), { changedAt: row[spec.changedAt] as string | null, row });
+        if (spec.naturalKey) existingByNatural.set(String(row[spec.naturalKey]), row);
+      }
+    }
+
+    const idMap = idMaps.get(spec.name)!;
+    const stats: TableImportResult = { created: 0, updated: 0, skipped: 0, remapped: 0 };
+    const planned: PlannedRow[] = [];
+
+    for (const original of bundle.tables[spec.name]) {
+      const row: Row = { ...original };
+      // Parents are already planned, so their remapped IDs are known
+      rewriteRefs(spec, row, idMaps, (target) => tableOrder(target) < tableOrder(spec.name));
+      const bundleId = spec.key.length === 1 ? String(row[spec.key[0]]) : null;
+
+      // A row with a different ID but the same natural key is the same row
+      let match = existing.get(keyOf(spec, row));
+      if (!match && spec.naturalKey && bundleId) {
+        const natural = existingByNatural.get(String(row[spec.naturalKey]));
+        if (natural) {
+          idMap.set(bundleId, String(natural[spec.key[0]]));
+          row[spec.key[0]] = natural[spec.key[0]];
+          match = existing.get(keyOf(spec, row));
+        }
+      }
+
+      if (!match) {
+        planned.push({ action: 'create', row });
+        stats.created++;
+        continue;
+      }
+
+      const parentRemapped = spec.parent !== undefined
+        && remappedIds.get(refTable(spec, spec.parent, row) ?? '')?.has(String(row[spec.parent]));
+      if (bundleId && spec.idPrefix && !spec.naturalKey && (spec.parent ? parentRemapped : options.remap)) {
+        const newId = generateId(spec.idPrefix);
+        idMap.set(bundleId, newId);
+        remappedIds.get(spec.name)!.add(newId);
+        row[spec.key[0]] = newId;
+        planned.push({ action: 'create', row });
+        stats.created++;
+        stats.remapped++;
+        continue;
+      }
+
+      const incoming = row[spec.changedAt] as string | null;
+      if (incoming && (!match.changedAt || incoming > match.changedAt)) {
+        planned.push({ action: 'update', row, targetKey: match.row });
+        stats.updated++;
+      } else {
+        planned.push({ action: 'skip', row });
+        stats.skipped++;
+      }
+    }
+
+    plans.set(spec.name, planned);
+    tables[spec.name] = stats;
+  }
+
+  // Pass 2: references to the same table (knowledge.merged_into) or to tables imported later
+  // (tickets.derived_knowledge) are only known now
+  for (const spec of specs) {
+    for (const { row } of plans.get(spec.name)!) {
+      rewriteRefs(spec, row, idMaps, (target) => tableOrder(target) >= tableOrder(spec.name));
+    }
+  }
+
+  // Re-embed knowledge rows that will be written without a usable vector
+  const knowledgePlans = (plans.get('knowledge') ?? []).filter(plan => plan.action !== 'skip');
+  if (knowledgePlans.length > 0 && !options.dryRun) {
+    await assertEmbeddingModel(client);
+  }
+  const sameModel = bundle.embeddingModel === getEmbeddingProvider().id;
+  const embeddings = new Map<Row, number[]>();
+  const toEmbed: Row[] = [];
+  for (const plan of knowledgePlans) {
+    if (sameModel && Array.isArray(plan.row.embedding)) {
+      embeddings.set(plan.row, plan.row.embedding as number[]);
+    } else {
+      toEmbed.push(plan.row);
+    }
+  }
+  const reembedded = toEmbed.length;
+  if (reembedded > 0 && !options.dryRun) {
+    const vectors = await embedBatch(toEmbed.map(knowledgeEmbeddingText));
+    toEmbed.forEach((row, i) => embeddings.set(row, vectors[i]));
+  }
+
+  const totals: TableImportResult = { created: 0, updated: 0, skipped: 0, remapped: 0 };
+  for (const stats of Object.values(tables)) {
+    totals.created += stats.created;
+    totals.updated += stats.updated;
+    totals.skipped += stats.skipped;
+    totals.remapped += stats.remapped;
+  }
+  const report: ImportReport = { mode: options.mode, dryRun: !!options.dryRun, reembedded, tables, totals };
+  if (options.dryRun) return report;
+
+  // Pass 3: write everything in one transaction.
+  // Imported rows stay in change_log so SSE listeners and `events` see them, but they are
+  // not lifecycle events: the webhook events the triggers queue are removed before commit.
+  const statements: InStatement[] = [{
+    sql: `INSERT INTO metadata (key, value) VALUES (?, (SELECT COALESCE(MAX(seq), 0) FROM webhook_events))
+          ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`,
+    args: [IMPORT_MARK_KEY],
+  }];
+  if (options.mode === 'replace') {
+    for (const spec of [...specs].reverse()) {
+      statements.push(`DELETE FROM ${spec.name}`);
+    }
+  }
+
+  for (const spec of specs) {
+    const columns = columnsByTable.get(spec.name)!;
+    for (const plan of plans.get(spec.name)!) {
+      if (plan.action === 'skip') continue;
+
+      const writeColumns = columns.filter(c => c in plan.row && c !== 'embedding');
+      const values = writeColumns.map(c => (plan.row[c] ?? null) as InValue);
+      const placeholders = writeColumns.map(() => '?');
+      const embedding = embeddings.get(plan.row);
+      if (embedding && columns.includes('embedding')) {
+        writeColumns.push('embedding');
+        placeholders.push('vector32(?)');
+        values.push(JSON.stringify(embedding));
+      }
+
+      if (plan.action === 'create') {
+        statements.push({
+          sql: `INSERT INTO ${spec.name} (${writeColumns.join(', ')}) VALUES (${placeholders.join(', ')})`,
+          args: values,
+        });
+      } else {
+        statements.push({
+          sql: `UPDATE ${spec.name} SET ${writeColumns.map((c, i) => `${c} = ${placeholders[i]}`).join(', ')}
+                WHERE ${spec.key.map(k => `${k} = ?`).join(' AND ')}`,
+          args: [...values, ...spec.key.map(k => plan.targetKey![k] as InValue)],
+        });
+      }
+    }
+  }
+
+  statements.push(
+    `DELETE FROM webhook_events WHERE seq > (SELECT CAST(value AS INTEGER) FROM metadata WHERE key = '${IMPORT_MARK_KEY}')`,
+    { sql: 'DELETE FROM metadata WHERE key = ?', args: [IMPORT_MARK_KEY] },
+  );
+  await client.batch(statements, 'write');
+
+  // Chunks are derived from content: rebuild them for written entries, drop those of removed ones
+  for (const plan of knowledgePlans) {
+    await writeKnowledgeChunks(client, {
+      id: plan.row.id as string,
+      title: String(plan.row.title ?? ''),
+      content: String(plan.row.content ?? ''),
+    });
+  }
+  await pruneKnowledgeChunks(client);
+
+  return report;
+}
@@ -0,0 +1,44 @@
+/**
+ * Reads of change_log, the trigger-written record of row changes (see schema.ts).
+ */
+
+import type { Client } from '@libsql/client';
+import { parseChangeLogRow } from './parsers.js';
+import type { ChangeLogEntry } from '../types.js';
+
+/**
+ * First and last retained seq, both 0 when the log is empty.
+ */
+export async function getChangeLogBounds(client: Client): Promise<{ oldest: number; latest: number }> {
+  const result = await client.execute('SELECT MIN(seq) AS oldest, MAX(seq) AS latest FROM change_log');
+  const row = result.rows[0] as Record<string, unknown> | undefined;
+  return { oldest: Number(row?.oldest ?? 0), latest: Number(row?.latest ?? 0) };
+}
+
+/**
+ * Changes after `afterSeq`, oldest first.
+ */
+export async function getChangesSince(client: Client, afterSeq: number, limit: number): Promise<ChangeLogEntry[]> {
+  const result = await client.execute({
+    sql: `SELECT seq, entity, entity_id, op, parent_type, parent_id, actor, created_at
+          FROM change_log WHERE seq > ? ORDER BY seq ASC LIMIT ?`,
+    args: [afterSeq, limit],
+  });
+  return result.rows.map(row => parseChangeLogRow(row as Record<string, unknown>));
+}
+
+/**
+ * The seq to resume after so that changes made at or after `since` (SQLite
+ * datetime format) are included.
+ */
+export async function getSeqBefore(client: Client, since: string): Promise<number> {
+  const result = await client.execute({
+    sql: `SELECT COALESCE(
+            (SELECT MIN(seq) FROM change_log WHERE created_at >= ?),
+            (SELECT MAX(seq) FROM change_log) + 1,
+            1
+          ) - 1 AS seq`,
+    args: [since],
+  });
+  return Number((result.rows[0] as Record<string, unknown>).seq);
+}
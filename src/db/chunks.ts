@@ -0,0 +1,69 @@
+/**
+ * Embedded section chunks of long knowledge entries (knowledge_chunks).
+ * Rewritten whenever an entry's vector is, so they always match its current text.
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { chunkContent, chunkEmbeddingText } from '../embed/chunker.js';
+import { embedBatch } from '../embed/model.js';
+
+export interface ChunkSource {
+  id: string;
+  title: string;
+  content: string;
+}
+
+// Databases from before migration 8 have no chunk table; entries then keep a single vector
+const chunkTableCache = new WeakMap<Client, boolean>();
+
+export async function chunksTableExists(client: Client): Promise<boolean> {
+  let exists = chunkTableCache.get(client);
+  if (exists === undefined) {
+    const result = await client.execute(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'knowledge_chunks'"
+    );
+    exists = result.rows.length > 0;
+    chunkTableCache.set(client, exists);
+  }
+  return exists;
+}
+
+/**
+ * Embed an entry's chunks and return the statements that replace its stored chunks.
+ * Callers can add them to a larger batch so vectors and chunks commit together.
+ */
+export async function buildChunkStatements(client: Client, entry: ChunkSource): Promise<InStatement[]> {
+  if (!(await chunksTableExists(client))) return [];
+
+  const statements: InStatement[] = [
+    { sql: 'DELETE FROM knowledge_chunks WHERE knowledge_id = ?', args: [entry.id] },
+  ];
+  const chunks = chunkContent(entry.content);
+  const embeddings = await embedBatch(chunks.map(chunk => chunkEmbeddingText(entry.title, chunk)));
+  for (const [i, chunk] of chunks.entries()) {
+    statements.push({
+      sql: `INSERT INTO knowledge_chunks (knowledge_id, chunk_index, section, content, embedding)
+            VALUES (?, ?, ?, ?, vector32(?))`,
+      args: [entry.id, i + 1, chunk.section, chunk.text, JSON.stringify(embeddings[i])],
+    });
+  }
+  return statements;
+}
+
+/**
+ * Replace an entry's chunks. Returns the number of chunks written.
+ */
+export async function writeKnowledgeChunks(client: Client, entry: ChunkSource): Promise<number> {
+  const statements = await buildChunkStatements(client, entry);
+  if (statements.length === 0) return 0;
+  await client.batch(statements, 'write');
+  return statements.length - 1;
+}
+
+/**
+ * Remove chunks whose entry no longer exists.
+ */
+export async function pruneKnowledgeChunks(client: Client): Promise<void> {
+  if (!(await chunksTableExists(client))) return;
+  await client.execute('DELETE FROM knowledge_chunks WHERE knowledge_id NOT IN (SELECT id FROM knowledge)');
+}
@@ -1,5 +1,6 @@
 import { createClient, Client } from '@libsql/client';
 import { loadConfig } from '../utils/config.js';
+import { assertSchemaCompatible } from './migrations.js';
 
 let client: Client | null = null;
 
@@ -19,6 +20,14 @@ export async function getClient(): Promise<Client> {
     await client.execute('PRAGMA journal_mode=WAL');
   }
 
+  // Refuse to touch a database migrated by a newer CLI version
+  try {
+    await assertSchemaCompatible(client);
+  } catch (error) {
+    closeClient();
+    throw error;
+  }
+
   return client;
 }
 
@@ -0,0 +1,178 @@
+/**
+ * Near-duplicate detection for active knowledge entries.
+ * Entries whose entry vectors are at least `threshold` cosine-similar are linked,
+ * and linked entries form a cluster (connected components, so A~B and B~C group A, B, C).
+ * Only entries in the same namespace are compared.
+ */
+
+import type { Client } from '@libsql/client';
+import { isMissingVectorIndex } from './search.js';
+
+// Neighbours looked up per entry; larger groups are still joined through their members
+const NEIGHBOUR_WINDOW = 20;
+
+export interface DuplicateFilter {
+  // Minimum cosine similarity (0-1) for two entries to count as duplicates
+  threshold: number;
+  namespace?: string;
+}
+
+export interface DuplicateEntry {
+  id: string;
+  title: string;
+  namespace: string;
+  category?: string;
+  confidence: number;
+  usage_count: number;
+  created_at: string;
+  // Cosine similarity to the suggested survivor (1 for the survivor itself)
+  similarity: number;
+}
+
+export interface DuplicateCluster {
+  // Suggested survivor: most used, then most confident, then oldest
+  keep: string;
+  // Highest similarity between two entries of the cluster
+  maxSimilarity: number;
+  // Survivor first, then by similarity to it
+  entries: DuplicateEntry[];
+}
+
+interface Pair {
+  a: string;
+  b: string;
+  similarity: number;
+}
+
+type Candidate = Omit<DuplicateEntry, 'similarity'>;
+
+async function loadCandidates(client: Client, namespace?: string): Promise<Map<string, Candidate>> {
+  const result = await client.execute({
+    sql: `SELECT id, title, namespace, category, confidence, usage_count, created_at
+          FROM knowledge WHERE active = 1 AND embedding IS NOT NULL ${namespace ? 'AND namespace = ?' : ''}`,
+    args: namespace ? [namespace] : [],
+  });
+  return new Map(result.rows.map((row) => [row.id as string, {
+    id: row.id as string,
+    title: row.title as string,
+    namespace: row.namespace as string,
+    category: (row.category as string | null) || undefined,
+    confidence: Number(row.confidence ?? 0),
+    usage_count: Number(row.usage_count ?? 0),
+    created_at: row.created_at as string,
+  }]));
+}
+
+/**
+ * Every pair at or above the threshold, by scanning all pairs. Used without a vector index.
+ */
+async function exactPairs(client: Client, filter: DuplicateFilter): Promise<Pair[]> {
+  const result = await client.execute({
+    sql: `SELECT a.id AS a, b.id AS b, vector_distance_cos(a.embedding, b.embedding) AS distance
+          FROM knowledge a JOIN knowledge b ON b.namespace = a.namespace AND b.id > a.id
+          WHERE a.active = 1 AND b.active = 1 AND a.embedding IS NOT NULL AND b.embedding IS NOT NULL
+            ${filter.namespace ? 'AND a.namespace = ?' : ''}
+            AND distance <= ?`,
+    args: [...(filter.namespace ? [filter.namespace] : []), 1 - filter.threshold],
+  });
+  return result.rows.map((row) => ({ a: row.a as string, b: row.b as string, similarity: 1 - (row.distance as number) }));
+}
+
+/**
+ * Pairs found through the vector index: the nearest neighbours of each candidate.
+ */
+async function indexedPairs(client: Client, candidates: Map<string, Candidate>, filter: DuplicateFilter): Promise<Pair[]> {
+  // Both directions of a pair can turn up; grouping does not mind
+  const pairs: Pair[] = [];
+  for (const entry of candidates.values()) {
+    const result = await client.execute({
+      sql: `SELECT k.id, vector_distance_cos(k.embedding, (SELECT embedding FROM knowledge WHERE id = ?)) AS distance
+            FROM vector_top_k('knowledge_embedding_idx', (SELECT embedding FROM knowledge WHERE id = ?), ${NEIGHBOUR_WINDOW}) AS v
+            JOIN knowledge k ON k.rowid = v.id
+            WHERE k.id != ? AND k.active = 1 AND k.namespace = ?`,
+      args: [entry.id, entry.id, entry.id, entry.namespace],
+    });
+    for (const row of result.rows) {
+      const similarity = 1 - (row.distance as number);
+      if (similarity >= filter.threshold) pairs.push({ a: entry.id, b: row.id as string, similarity });
+    }
+  }
+  return pairs;
+}
+
+function groupPairs(pairs: Pair[]): string[][] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  for (const { a, b } of pairs) {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    parent.set(find(a), find(b));
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  }
+  return [...groups.values()];
+}
+
+function pickSurvivor(entries: Candidate[]): Candidate {
+  return [...entries].sort((x, y) =>
+    y.usage_count - x.usage_count
+    || y.confidence - x.confidence
+    || x.created_at.localeCompare(y.created_at)
+  )[0];
+}
+
+async function similaritiesTo(client: Client, keepId: string, ids: string[]): Promise<Map<string, number>> {
+  const result = await client.execute({
+    sql: `SELECT id, vector_distance_cos(embedding, (SELECT embedding FROM knowledge WHERE id = ?)) AS distance
+          FROM knowledge WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    args: [keepId, ...ids],
+  });
+  return new Map(result.rows.map((row) => [row.id as string, 1 - (row.distance as number)]));
+}
+
+/**
+ * Clusters of near-duplicate active entries, most similar clusters first.
+ */
+export async function findDuplicateClusters(client: Client, filter: DuplicateFilter): Promise<DuplicateCluster[]> {
+  const candidates = await loadCandidates(client, filter.namespace);
+  if (candidates.size < 2) return [];
+
+  let pairs: Pair[];
+  try {
+    pairs = await indexedPairs(client, candidates, filter);
+  } catch (error) {
+    if (!isMissingVectorIndex(error)) throw error;
+    pairs = await exactPairs(client, filter);
+  }
+
+  const maxByEntry = new Map<string, number>();
+  for (const { a, b, similarity } of pairs) {
+    maxByEntry.set(a, Math.max(maxByEntry.get(a) ?? 0, similarity));
+    maxByEntry.set(b, Math.max(maxByEntry.get(b) ?? 0, similarity));
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  for (const ids of groupPairs(pairs)) {
+    const members = ids.map(id => candidates.get(id)).filter((e): e is Candidate => e !== undefined);
+    if (members.length < 2) continue;
+
+    const keep = pickSurvivor(members);
+    const similarity = await similaritiesTo(client, keep.id, members.map(m => m.id));
+    const entries = members
+      .map(m => ({ ...m, similarity: m.id === keep.id ? 1 : Math.round((similarity.get(m.id) ?? 0) * 1000) / 1000 }))
+      .sort((x, y) => (y.id === keep.id ? 1 : 0) - (x.id === keep.id ? 1 : 0) || y.similarity - x.similarity);
+    const maxSimilarity = Math.max(...members.map(m => maxByEntry.get(m.id) ?? 0));
+    clusters.push({ keep: keep.id, maxSimilarity: Math.round(maxSimilarity * 1000) / 1000, entries });
+  }
+
+  return clusters.sort((x, y) => y.maxSimilarity - x.maxSimilarity || y.entries.length - x.entries.length);
+}
@@ -0,0 +1,178 @@
+/**
+ * Which embedding model produced the vectors in this database.
+ * Stored in the metadata table on first vector write; every later write or
+ * vector search must use the same model and settings (embeddingScope()), since
+ * vectors from different models or settings are not comparable.
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { CREATE_VECTOR_INDEX, CREATE_KNOWLEDGE_CHUNKS_VECTOR_INDEX } from './schema.js';
+import { chunksTableExists } from './chunks.js';
+import { getEmbeddingProvider } from '../embed/model.js';
+import { loadEmbeddingConfig, embeddingScope } from '../utils/config.js';
+import type { EmbeddingProvider } from '../embed/provider.js';
+
+export interface EmbeddingModelInfo {
+  model: string;
+  dimension: number;
+  // embeddingScope() of the settings; missing for databases recorded before it was stored
+  scope?: string;
+}
+
+// Checkpoint of an unfinished `knowledge reembed` run (see reembed.ts)
+export const REEMBED_PROGRESS_KEY = 'reembed_progress';
+
+const LEGACY_EMBEDDING_MODEL: EmbeddingModelInfo = { model: 'transformers:Xenova/bge-small-en-v1.5', dimension: 384 };
+
+// Clients already checked against the configured provider (checked once per connection)
+const verified = new WeakSet<Client>();
+
+export async function metadataTableExists(client: Client): Promise<boolean> {
+  const result = await client.execute(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'metadata'"
+  );
+  return result.rows.length > 0;
+}
+
+export async function getMetadata(client: Client, key: string): Promise<string | null> {
+  const result = await client.execute({ sql: 'SELECT value FROM metadata WHERE key = ?', args: [key] });
+  return result.rows.length > 0 ? (result.rows[0].value as string) : null;
+}
+
+export async function setMetadata(client: Client, key: string, value: string): Promise<void> {
+  await client.execute({
+    sql: `INSERT INTO metadata (key, value) VALUES (?, ?)
+          ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`,
+    args: [key, value],
+  });
+}
+
+/**
+ * Model recorded for this database, or null when no vectors were written yet.
+ * Databases from before the metadata table are assumed to hold bge-small vectors.
+ */
+export async function getStoredEmbeddingModel(client: Client): Promise<EmbeddingModelInfo | null> {
+  if (!(await metadataTableExists(client))) {
+    const vectors = await client.execute('SELECT 1 FROM knowledge WHERE embedding IS NOT NULL LIMIT 1');
+    return vectors.rows.length > 0 ? LEGACY_EMBEDDING_MODEL : null;
+  }
+  const model = await getMetadata(client, 'embedding_model');
+  if (!model) return null;
+  return {
+    model,
+    dimension: Number(await getMetadata(client, 'embedding_dimension')),
+    scope: await getMetadata(client, 'embedding_scope') ?? undefined,
+  };
+}
+
+export function currentEmbeddingScope(): string {
+  return embeddingScope(loadEmbeddingConfig());
+}
+
+export async function recordEmbeddingModel(client: Client, provider: EmbeddingProvider): Promise<void> {
+  await setMetadata(client, 'embedding_model', provider.id);
+  await setMetadata(client, 'embedding_dimension', String(provider.dimension));
+  await setMetadata(client, 'embedding_scope', currentEmbeddingScope());
+}
+
+/**
+ * Dimension of the knowledge.embedding column (F32_BLOB(N)); the vector index rejects any other size.
+ */
+export async function getVectorColumnDimension(client: Client): Promise<number | null> {
+  const result = await client.execute('PRAGMA table_info(knowledge)');
+  const column = result.rows.find(row => row.name === 'embedding');
+  const match = String(column?.type ?? '').match(/F32_BLOB\((\d+)\)/i);
+  return match ? Number(match[1]) : null;
+}
+
+export async function assertVectorDimension(client: Client, provider: EmbeddingProvider): Promise<void> {
+  const columnDimension = await getVectorColumnDimension(client);
+  if (columnDimension !== null && columnDimension !== provider.dimension) {
+    throw new Error(
+      `Embedding model ${provider.id} produces ${provider.dimension}-dimension vectors, but this database stores ${columnDimension}-dimension vectors. ` +
+      'Run `superintent knowledge reembed --all` to rebuild the vector columns and re-embed every entry'
+    );
+  }
+}
+
+async function hasVectors(client: Client): Promise<boolean> {
+  const result = await client.execute('SELECT 1 FROM knowledge WHERE embedding IS NOT NULL LIMIT 1');
+  return result.rows.length > 0;
+}
+
+/**
+ * Recreate the vector columns (knowledge.embedding and knowledge_chunks.embedding) as
+ * F32_BLOB(dimension), since SQLite cannot change a column's type. Stored vectors and
+ * chunks are dropped; the caller re-embeds. Vector indexes are rebuilt when supported.
+ */
+export async function resizeVectorColumns(client: Client, dimension: number): Promise<void> {
+  const chunks = await chunksTableExists(client);
+  const statements: InStatement[] = [
+    // An indexed column cannot be dropped
+    'DROP INDEX IF EXISTS knowledge_embedding_idx',
+    'ALTER TABLE knowledge DROP COLUMN embedding',
+    `ALTER TABLE knowledge ADD COLUMN embedding F32_BLOB(${dimension})`,
+  ];
+  if (chunks) {
+    statements.push(
+      'DROP INDEX IF EXISTS knowledge_chunks_embedding_idx',
+      'DELETE FROM knowledge_chunks',
+      'ALTER TABLE knowledge_chunks DROP COLUMN embedding',
+      `ALTER TABLE knowledge_chunks ADD COLUMN embedding F32_BLOB(${dimension})`,
+    );
+  }
+  await client.batch(statements, 'write');
+
+  try {
+    await client.execute(CREATE_VECTOR_INDEX);
+    if (chunks) await client.execute(CREATE_KNOWLEDGE_CHUNKS_VECTOR_INDEX);
+  } catch {
+    // Vector index unsupported on this server; search falls back to a full scan
+  }
+}
+
+/**
+ * Refuse to write or search vectors with a provider or settings other than the
+ * ones that produced the vectors already stored. Records them on first use.
+ */
+export async function assertEmbeddingModel(client: Client, provider: EmbeddingProvider = getEmbeddingProvider()): Promise<void> {
+  if (verified.has(client)) return;
+
+  // A database without vectors takes the configured dimension as is
+  const columnDimension = await getVectorColumnDimension(client);
+  if (columnDimension !== null && columnDimension !== provider.dimension && !(await hasVectors(client))) {
+    await resizeVectorColumns(client, provider.dimension);
+  }
+  await assertVectorDimension(client, provider);
+
+  const scope = currentEmbeddingScope();
+  const stored = await getStoredEmbeddingModel(client);
+  const reembedding = stored && await metadataTableExists(client) ? await getMetadata(client, REEMBED_PROGRESS_KEY) : null;
+  if (reembedding) {
+    const { model, embeddingScope: progressScope } = JSON.parse(reembedding) as { model: string; embeddingScope?: string };
+    if (model !== stored!.model || (progressScope && stored!.scope && progressScope !== stored!.scope)) {
+      throw new Error(`Re-embedding from ${stored!.model} to ${model} was interrupted. Run \`superintent knowledge reembed --all\` to finish it`);
+    }
+  }
+
+  if (!stored) {
+    if (await metadataTableExists(client)) {
+      await recordEmbeddingModel(client, provider);
+    }
+  } else if (stored.model !== provider.id || stored.dimension !== provider.dimension) {
+    throw new Error(
+      `This database holds vectors from ${stored.model} (${stored.dimension} dimensions), but the configured embedding model is ${provider.id} (${provider.dimension} dimensions). ` +
+      'Run `superintent knowledge reembed --all` to re-embed with the new model, or restore the previous EMBEDDING_* settings in .superintent/.env.'
+    );
+  } else if (stored.scope && stored.scope !== scope) {
+    throw new Error(
+      `This database holds vectors from ${stored.model} with different EMBEDDING_* settings (pooling or query prefix) than configured now. ` +
+      'Run `superintent knowledge reembed --all` to re-embed with the current settings, or restore the previous ones in .superintent/.env.'
+    );
+  } else if (!stored.scope && await metadataTableExists(client)) {
+    // Recorded before settings were stored: adopt the current ones
+    await setMetadata(client, 'embedding_scope', scope);
+  }
+
+  verified.add(client);
+}
@@ -1,81 +1,10 @@
 import { Client } from '@libsql/client';
-import {
-  CREATE_TICKETS_TABLE,
-  CREATE_TICKETS_INDEXES,
-  CREATE_KNOWLEDGE_TABLE,
-  CREATE_KNOWLEDGE_INDEXES,
-  CREATE_VECTOR_INDEX,
-  CREATE_SPECS_TABLE,
-  CREATE_SPECS_INDEXES,
-  CREATE_COMMENTS_TABLE,
-  CREATE_COMMENTS_INDEXES,
-  CREATE_WIKI_PAGES_TABLE,
-  CREATE_WIKI_PAGES_INDEXES,
-  CREATE_WIKI_CITATIONS_TABLE,
-  CREATE_WIKI_CITATIONS_INDEXES,
-} from './schema.js';
+import { runMigrations } from './migrations.js';
 
+/**
+ * Bring the database up to the latest schema version.
+ * Table definitions and column changes live in migrations.ts.
+ */
 export async function initSchema(client: Client): Promise<void> {
-  // Create tickets table
-  await client.execute(CREATE_TICKETS_TABLE);
-
-  const ticketIndexes = CREATE_TICKETS_INDEXES.split(';').filter(s => s.trim());
-  for (const stmt of ticketIndexes) {
-    await client.execute(stmt);
-  }
-
-  // Create knowledge table
-  await client.execute(CREATE_KNOWLEDGE_TABLE);
-
-  const knowledgeIndexes = CREATE_KNOWLEDGE_INDEXES.split(';').filter(s => s.trim());
-  for (const stmt of knowledgeIndexes) {
-    await client.execute(stmt);
-  }
-
-  // Vector index
-  try {
-    await client.execute(CREATE_VECTOR_INDEX);
-  } catch {
-    console.warn('Warning: Could not create vector index.');
-  }
-
-  // Create specs table
-  await client.execute(CREATE_SPECS_TABLE);
-
-  const specIndexes = CREATE_SPECS_INDEXES.split(';').filter(s => s.trim());
-  for (const stmt of specIndexes) {
-    await client.execute(stmt);
-  }
-
-  // Create comments table
-  await client.execute(CREATE_COMMENTS_TABLE);
-
-  const commentIndexes = CREATE_COMMENTS_INDEXES.split(';').filter(s => s.trim());
-  for (const stmt of commentIndexes) {
-    await client.execute(stmt);
-  }
-
-  // Create wiki pages table
-  await client.execute(CREATE_WIKI_PAGES_TABLE);
-
-  // Migration: add mtime column if missing (backward compat)
-  try {
-    await client.execute(`ALTER TABLE wiki_pages ADD COLUMN mtime INTEGER`);
-  } catch {
-    // Column already exists
-  }
-
-  const wikiPagesIndexes = CREATE_WIKI_PAGES_INDEXES.split(';').filter(s => s.trim());
-  for (const stmt of wikiPagesIndexes) {
-    await client.execute(stmt);
-  }
-
-  // Create wiki citations table
-  await client.execute(CREATE_WIKI_CITATIONS_TABLE);
-
-  const wikiCitationsIndexes = CREATE_WIKI_CITATIONS_INDEXES.split(';').filter(s => s.trim());
-  for (const stmt of wikiCitationsIndexes) {
-    await client.execute(stmt);
-  }
-
+  await runMigrations(client);
 }
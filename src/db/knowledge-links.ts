@@ -0,0 +1,220 @@
+/**
+ * Typed relations between knowledge entries.
+ * Links are stored directed in knowledge_links (from supersedes/refines/depends-on to);
+ * contradicts is symmetric and matched in either direction.
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { ValidationError, NotFoundError } from '../errors.js';
+import { findLinkPath, findPath, type LinkEdge } from './link-graph.js';
+import type { KnowledgeLinkType, KnowledgeLinkRef, KnowledgeLinks } from '../types.js';
+
+export const KNOWLEDGE_LINK_TYPES: KnowledgeLinkType[] = ['supersedes', 'contradicts', 'refines', 'depends-on'];
+
+export interface KnowledgeLinkEdge {
+  from: string;
+  to: string;
+  type: KnowledgeLinkType;
+}
+
+/**
+ * Link two knowledge entries. Throws if either entry is missing, the link already
+ * exists, or a directed link would close a cycle.
+ */
+export async function addKnowledgeLink(
+  client: Client,
+  fromId: string,
+  toId: string,
+  type: KnowledgeLinkType,
+  author: string,
+): Promise<void> {
+  if (fromId === toId) {
+    throw new ValidationError('A knowledge entry cannot be linked to itself');
+  }
+
+  const existing = await client.execute({
+    sql: 'SELECT id FROM knowledge WHERE id IN (?, ?)',
+    args: [fromId, toId],
+  });
+  const found = new Set(existing.rows.map(row => row.id as string));
+  for (const id of [fromId, toId]) {
+    if (!found.has(id)) throw new NotFoundError(`Knowledge ${id} not found`);
+  }
+
+  // contradicts is symmetric, so either direction counts as a duplicate link
+  const duplicate = await client.execute({
+    sql: type === 'contradicts'
+      ? `SELECT 1 FROM knowledge_links WHERE type = ? AND ((from_id = ? AND to_id = ?) OR (from_id = ? AND to_id = ?))`
+      : 'SELECT 1 FROM knowledge_links WHERE type = ? AND from_id = ? AND to_id = ?',
+    args: type === 'contradicts'
+      ? [type, fromId, toId, toId, fromId]
+      : [type, fromId, toId],
+  });
+  if (duplicate.rows.length > 0) {
+    throw new ValidationError(`${fromId} already ${type.replace('-', ' ')} ${toId}`);
+  }
+
+  if (type !== 'contradicts') {
+    const path = await findLinkPath(client, 'knowledge_links', type, toId, fromId);
+    if (path) {
+      throw new ValidationError(`Link would create a ${type} cycle: ${[fromId, ...path].join(' -> ')}`);
+    }
+  }
+
+  await client.execute({
+    sql: 'INSERT INTO knowledge_links (from_id, to_id, type, author) VALUES (?, ?, ?, ?)',
+    args: [fromId, toId, type, author],
+  });
+}
+
+/**
+ * Remove links between two entries. Without a type, links of every type in either
+ * direction; with a directed type, only from -> to. Returns the number removed.
+ */
+export async function removeKnowledgeLinks(
+  client: Client,
+  fromId: string,
+  toId: string,
+  type?: KnowledgeLinkType,
+): Promise<number> {
+  let where = '((from_id = ? AND to_id = ?) OR (from_id = ? AND to_id = ?))';
+  let args: string[] = [fromId, toId, toId, fromId];
+
+  if (type === 'contradicts') {
+    where += ' AND type = ?';
+    args.push(type);
+  } else if (type) {
+    where = 'from_id = ? AND to_id = ? AND type = ?';
+    args = [fromId, toId, type];
+  }
+
+  const result = await client.execute({
+    sql: `DELETE FROM knowledge_links WHERE ${where}`,
+    args,
+  });
+  return result.rowsAffected;
+}
+
+/**
+ * Statements moving the links of merged entries onto the survivor, under the same rules
+ * as addKnowledgeLink: links that would point the survivor at itself, repeat a link it
+ * already has (in either direction for contradicts), or close a directed cycle are
+ * dropped. Moved links keep their author and creation time.
+ */
+export async function buildKnowledgeLinkMoves(client: Client, fromIds: string[], toId: string): Promise<InStatement[]> {
+  const placeholders = fromIds.map(() => '?').join(', ');
+  const touching = `from_id IN (${placeholders}) OR to_id IN (${placeholders})`;
+  const moving = await client.execute({
+    sql: `SELECT from_id, to_id, type, author, created_at FROM knowledge_links WHERE ${touching} ORDER BY created_at ASC`,
+    args: [...fromIds, ...fromIds],
+  });
+  if (moving.rows.length === 0) return [];
+
+  const staying = await client.execute({
+    sql: `SELECT from_id, to_id, type FROM knowledge_links WHERE NOT (${touching})`,
+    args: [...fromIds, ...fromIds],
+  });
+  const edges = new Map<string, LinkEdge[]>(KNOWLEDGE_LINK_TYPES.map(type => [type, []]));
+  for (const row of staying.rows) {
+    edges.get(row.type as string)?.push({ from: row.from_id as string, to: row.to_id as string });
+  }
+
+  const merged = new Set(fromIds);
+  const inserts: InStatement[] = [];
+  for (const row of moving.rows) {
+    const type = row.type as KnowledgeLinkType;
+    const from = merged.has(row.from_id as string) ? toId : row.from_id as string;
+    const to = merged.has(row.to_id as string) ? toId : row.to_id as string;
+    if (from === to) continue;
+
+    const typed = edges.get(type) ?? [];
+    const duplicate = typed.some(edge =>
+      (edge.from === from && edge.to === to) || (type === 'contradicts' && edge.from === to && edge.to === from));
+    if (duplicate) continue;
+    if (type !== 'contradicts' && findPath(typed, to, from)) continue;
+
+    typed.push({ from, to });
+    inserts.push({
+      sql: 'INSERT INTO knowledge_links (from_id, to_id, type, author, created_at) VALUES (?, ?, ?, ?, ?)',
+      args: [from, to, type, row.author, row.created_at],
+    });
+  }
+
+  return [
+    { sql: `DELETE FROM knowledge_links WHERE ${touching}`, args: [...fromIds, ...fromIds] },
+    ...inserts,
+  ];
+}
+
+/**
+ * All links of an entry grouped by relation, with the linked entry's title and state.
+ */
+export async function getKnowledgeLinkGroups(client: Client, knowledgeId: string): Promise<KnowledgeLinks> {
+  const result = await client.execute({
+    sql: `SELECT l.from_id, l.to_id, l.type, k.id, k.title, k.active
+          FROM knowledge_links l
+          JOIN knowledge k ON k.id = CASE WHEN l.from_id = ? THEN l.to_id ELSE l.from_id END
+          WHERE l.from_id = ? OR l.to_id = ?
+          ORDER BY l.created_at ASC`,
+    args: [knowledgeId, knowledgeId, knowledgeId],
+  });
+
+  const links: KnowledgeLinks = {
+    supersedes: [], superseded_by: [], contradicts: [], refines: [], refined_by: [], depends_on: [], required_by: [],
+  };
+  for (const row of result.rows) {
+    const ref: KnowledgeLinkRef = {
+      id: row.id as string,
+      title: (row.title as string | null) || undefined,
+      active: Boolean(row.active),
+    };
+    const outgoing = row.from_id === knowledgeId;
+    switch (row.type as KnowledgeLinkType) {
+      case 'supersedes':
+        (outgoing ? links.supersedes : links.superseded_by).push(ref);
+        break;
+      case 'refines':
+        (outgoing ? links.refines : links.refined_by).push(ref);
+        break;
+      case 'depends-on':
+        (outgoing ? links.depends_on : links.required_by).push(ref);
+        break;
+      case 'contradicts':
+        links.contradicts.push(ref);
+        break;
+    }
+  }
+  return links;
+}
+
+/**
+ * Entries superseding each of the given entries, for those that have any.
+ */
+export async function getSupersedingIds(client: Client, ids: string[]): Promise<Map<string, string[]>> {
+  const superseding = new Map<string, string[]>();
+  if (ids.length === 0) return superseding;
+
+  const result = await client.execute({
+    sql: `SELECT from_id, to_id FROM knowledge_links
+          WHERE type = 'supersedes' AND to_id IN (${ids.map(() => '?').join(', ')})
+          ORDER BY created_at ASC`,
+    args: ids,
+  });
+  for (const row of result.rows) {
+    const id = row.to_id as string;
+    superseding.set(id, [...(superseding.get(id) ?? []), row.from_id as string]);
+  }
+  return superseding;
+}
+
+/**
+ * Every knowledge link (graph view).
+ */
+export async function listKnowledgeLinkEdges(client: Client): Promise<KnowledgeLinkEdge[]> {
+  const result = await client.execute('SELECT from_id, to_id, type FROM knowledge_links ORDER BY created_at ASC');
+  return result.rows.map(row => ({
+    from: row.from_id as string,
+    to: row.to_id as string,
+    type: row.type as KnowledgeLinkType,
+  }));
+}
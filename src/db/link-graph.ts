@@ -0,0 +1,69 @@
+/**
+ * Path search over typed link tables (ticket_links, knowledge_links), used to keep
+ * directed link types free of cycles.
+ */
+
+import type { Client } from '@libsql/client';
+
+export type LinkTable = 'ticket_links' | 'knowledge_links';
+
+export interface LinkEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Find a path from `start` to `goal` along the given edges (breadth-first, so the shortest).
+ * Returns the IDs along the path, or null if unreachable.
+ */
+export function findPath(edges: Iterable<LinkEdge>, start: string, goal: string): string[] | null {
+  const next = new Map<string, string[]>();
+  for (const { from, to } of edges) {
+    if (!next.has(from)) next.set(from, []);
+    next.get(from)!.push(to);
+  }
+
+  const previous = new Map<string, string | null>([[start, null]]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === goal) {
+      const path: string[] = [];
+      for (let id: string | null = goal; id !== null; id = previous.get(id)!) {
+        path.unshift(id);
+      }
+      return path;
+    }
+    for (const id of next.get(current) ?? []) {
+      if (!previous.has(id)) {
+        previous.set(id, current);
+        queue.push(id);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Links of one type in a link table, as edges.
+ */
+export async function loadLinkEdges(client: Client, table: LinkTable, type: string): Promise<LinkEdge[]> {
+  const result = await client.execute({
+    sql: `SELECT from_id, to_id FROM ${table} WHERE type = ?`,
+    args: [type],
+  });
+  return result.rows.map(row => ({ from: row.from_id as string, to: row.to_id as string }));
+}
+
+/**
+ * Find a path from `start` to `goal` following stored links of one type.
+ */
+export async function findLinkPath(
+  client: Client,
+  table: LinkTable,
+  type: string,
+  start: string,
+  goal: string,
+): Promise<string[] | null> {
+  return findPath(await loadLinkEdges(client, table, type), start, goal);
+}
@@ -0,0 +1,341 @@
+/**
+ * Versioned schema migrations.
+ * Each migration runs once, in order, and is recorded in schema_migrations
+ * in the same write transaction, so a failed step leaves nothing behind.
+ * Migrations must be idempotent: databases created before versioning existed
+ * already contain the baseline tables and run the early migrations again.
+ */
+
+import type { Client, Transaction } from '@libsql/client';
+import {
+  CREATE_SCHEMA_MIGRATIONS_TABLE,
+  CREATE_TICKETS_TABLE,
+  CREATE_TICKETS_INDEXES,
+  CREATE_KNOWLEDGE_TABLE,
+  CREATE_KNOWLEDGE_INDEXES,
+  CREATE_VECTOR_INDEX,
+  CREATE_SPECS_TABLE,
+  CREATE_SPECS_INDEXES,
+  CREATE_COMMENTS_TABLE,
+  CREATE_COMMENTS_INDEXES,
+  CREATE_WIKI_PAGES_TABLE,
+  CREATE_WIKI_PAGES_INDEXES,
+  CREATE_WIKI_CITATIONS_TABLE,
+  CREATE_WIKI_CITATIONS_INDEXES,
+  CREATE_KNOWLEDGE_REVISIONS_TABLE,
+  CREATE_KNOWLEDGE_REVISIONS_INDEXES,
+  CREATE_KNOWLEDGE_FTS_TABLE,
+  CREATE_KNOWLEDGE_FTS_TRIGGERS,
+  REBUILD_KNOWLEDGE_FTS,
+  CREATE_TICKET_LINKS_TABLE,
+  CREATE_TICKET_LINKS_INDEXES,
+  CREATE_TICKET_STATUS_EVENTS_TABLE,
+  CREATE_TICKET_STATUS_EVENTS_INDEXES,
+  CREATE_METADATA_TABLE,
+  SEED_EMBEDDING_METADATA,
+  CREATE_KNOWLEDGE_CHUNKS_TABLE,
+  CREATE_KNOWLEDGE_CHUNKS_VECTOR_INDEX,
+  CREATE_CHANGE_LOG_TABLE,
+  CREATE_CHANGE_LOG_TRIGGERS,
+  CREATE_WEBHOOK_EVENTS_TABLE,
+  CREATE_WEBHOOK_EVENT_TRIGGERS,
+  CREATE_WEBHOOK_DELIVERIES_TABLE,
+  CREATE_WEBHOOK_DELIVERIES_INDEXES,
+  CREATE_KNOWLEDGE_LINKS_TABLE,
+  CREATE_KNOWLEDGE_LINKS_INDEXES,
+  CREATE_KNOWLEDGE_LINK_TRIGGERS,
+} from './schema.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (tx: Transaction) => Promise<void>;
+}
+
+export interface MigrationInfo {
+  version: number;
+  name: string;
+  applied_at?: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: MigrationInfo[];
+  pending: MigrationInfo[];
+}
+
+/**
+ * Execute a semicolon-separated block of statements one by one.
+ */
+async function executeAll(client: Transaction, statements: string): Promise<void> {
+  for (const stmt of statements.split(';').filter(s => s.trim())) {
+    await client.execute(stmt);
+  }
+}
+
+/**
+ * Check whether a column exists on a table (PRAGMA table_info).
+ */
+export async function columnExists(client: Transaction, table: string, column: string): Promise<boolean> {
+  const result = await client.execute(`PRAGMA table_info(${table})`);
+  return result.rows.some(row => row.name === column);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: async (client) => {
+      await client.execute(CREATE_TICKETS_TABLE);
+      await executeAll(client, CREATE_TICKETS_INDEXES);
+
+      await client.execute(CREATE_KNOWLEDGE_TABLE);
+      await executeAll(client, CREATE_KNOWLEDGE_INDEXES);
+
+      try {
+        await client.execute(CREATE_VECTOR_INDEX);
+      } catch {
+        console.warn('Warning: Could not create vector index.');
+      }
+
+      await client.execute(CREATE_SPECS_TABLE);
+      await executeAll(client, CREATE_SPECS_INDEXES);
+
+      await client.execute(CREATE_COMMENTS_TABLE);
+      await executeAll(client, CREATE_COMMENTS_INDEXES);
+
+      await client.execute(CREATE_WIKI_PAGES_TABLE);
+      await executeAll(client, CREATE_WIKI_PAGES_INDEXES);
+
+      await client.execute(CREATE_WIKI_CITATIONS_TABLE);
+      await executeAll(client, CREATE_WIKI_CITATIONS_INDEXES);
+    },
+  },
+  {
+    version: 2,
+    name: 'wiki_pages_mtime',
+    up: async (client) => {
+      // Databases created before mtime existed lack the column
+      if (!(await columnExists(client, 'wiki_pages', 'mtime'))) {
+        await client.execute('ALTER TABLE wiki_pages ADD COLUMN mtime INTEGER');
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'knowledge_revisions',
+    up: async (client) => {
+      await client.execute(CREATE_KNOWLEDGE_REVISIONS_TABLE);
+      await executeAll(client, CREATE_KNOWLEDGE_REVISIONS_INDEXES);
+    },
+  },
+  {
+    version: 4,
+    name: 'knowledge_fts',
+    up: async (client) => {
+      await client.execute(CREATE_KNOWLEDGE_FTS_TABLE);
+      for (const trigger of CREATE_KNOWLEDGE_FTS_TRIGGERS) {
+        await client.execute(trigger);
+      }
+      // Index entries that existed before the triggers
+      await client.execute(REBUILD_KNOWLEDGE_FTS);
+    },
+  },
+  {
+    version: 5,
+    name: 'ticket_links',
+    up: async (client) => {
+      await client.execute(CREATE_TICKET_LINKS_TABLE);
+      await executeAll(client, CREATE_TICKET_LINKS_INDEXES);
+    },
+  },
+  {
+    version: 6,
+    name: 'ticket_status_events',
+    up: async (client) => {
+      await client.execute(CREATE_TICKET_STATUS_EVENTS_TABLE);
+      await executeAll(client, CREATE_TICKET_STATUS_EVENTS_INDEXES);
+    },
+  },
+  {
+    version: 7,
+    name: 'metadata',
+    up: async (client) => {
+      await client.execute(CREATE_METADATA_TABLE);
+      await executeAll(client, SEED_EMBEDDING_METADATA);
+    },
+  },
+  {
+    version: 8,
+    name: 'knowledge_chunks',
+    up: async (client) => {
+      await client.execute(CREATE_KNOWLEDGE_CHUNKS_TABLE);
+      try {
+        await client.execute(CREATE_KNOWLEDGE_CHUNKS_VECTOR_INDEX);
+      } catch {
+        console.warn('Warning: Could not create chunk vector index.');
+      }
+      // Existing long entries are chunked by `superintent knowledge reembed --all`
+    },
+  },
+  {
+    version: 9,
+    name: 'change_log',
+    up: async (client) => {
+      await client.execute(CREATE_CHANGE_LOG_TABLE);
+      for (const trigger of CREATE_CHANGE_LOG_TRIGGERS) {
+        await client.execute(trigger);
+      }
+    },
+  },
+  {
+    version: 10,
+    name: 'webhooks',
+    up: async (client) => {
+      await client.execute(CREATE_WEBHOOK_EVENTS_TABLE);
+      for (const trigger of CREATE_WEBHOOK_EVENT_TRIGGERS) {
+        await client.execute(trigger);
+      }
+      await client.execute(CREATE_WEBHOOK_DELIVERIES_TABLE);
+      await executeAll(client, CREATE_WEBHOOK_DELIVERIES_INDEXES);
+    },
+  },
+  {
+    version: 11,
+    name: 'knowledge_merged_into',
+    up: async (client) => {
+      if (!(await columnExists(client, 'knowledge', 'merged_into'))) {
+        await client.execute('ALTER TABLE knowledge ADD COLUMN merged_into TEXT');
+      }
+    },
+  },
+  {
+    version: 12,
+    name: 'knowledge_links',
+    up: async (client) => {
+      await client.execute(CREATE_KNOWLEDGE_LINKS_TABLE);
+      await executeAll(client, CREATE_KNOWLEDGE_LINKS_INDEXES);
+      for (const trigger of CREATE_KNOWLEDGE_LINK_TRIGGERS) {
+        await client.execute(trigger);
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * List migrations recorded in schema_migrations.
+ * Returns an empty list when the table does not exist yet (pre-versioning database).
+ */
+export async function getAppliedMigrations(client: Client): Promise<MigrationInfo[]> {
+  try {
+    const result = await client.execute(
+      'SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC'
+    );
+    return result.rows.map(row => ({
+      version: Number(row.version),
+      name: row.name as string,
+      applied_at: row.applied_at as string | undefined,
+    }));
+  } catch (error) {
+    if ((error as Error).message.includes('no such table')) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Highest applied migration version, or 0 for an unversioned database.
+ */
+export async function getSchemaVersion(client: Client): Promise<number> {
+  const applied = await getAppliedMigrations(client);
+  return applied.reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+export async function getMigrationStatus(client: Client): Promise<MigrationStatus> {
+  const applied = await getAppliedMigrations(client);
+  const appliedVersions = new Set(applied.map(m => m.version));
+  const pending = MIGRATIONS
+    .filter(m => !appliedVersions.has(m.version))
+    .map(m => ({ version: m.version, name: m.name }));
+
+  return {
+    currentVersion: applied.reduce((max, m) => Math.max(max, m.version), 0),
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied,
+    pending,
+  };
+}
+
+/**
+ * Refuse to operate on a database migrated by a newer CLI, or on one with pending
+ * migrations (commands would fail on missing tables). `init` and `migrate` skip this check.
+ */
+export async function assertSchemaCompatible(client: Client): Promise<void> {
+  const version = await getSchemaVersion(client);
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${version} is newer than this CLI supports (${LATEST_SCHEMA_VERSION}). Upgrade superintent to continue.`
+    );
+  }
+  if (version < LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${version} is behind this CLI (${LATEST_SCHEMA_VERSION}). Run \`superintent migrate\` to upgrade it.`
+    );
+  }
+}
+
+/**
+ * Apply pending migrations in order, up to `to` (default: latest).
+ * With dryRun, returns the migrations that would run without executing them.
+ */
+export async function runMigrations(
+  client: Client,
+  options: { to?: number; dryRun?: boolean } = {},
+): Promise<MigrationInfo[]> {
+  const target = options.to ?? LATEST_SCHEMA_VERSION;
+  const current = await getSchemaVersion(client);
+
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${current} is newer than this CLI supports (${LATEST_SCHEMA_VERSION}). Upgrade superintent to continue.`
+    );
+  }
+  if (!MIGRATIONS.some(m => m.version === target)) {
+    throw new Error(`Unknown migration version ${target}. Latest is ${LATEST_SCHEMA_VERSION}`);
+  }
+  if (target < current) {
+    throw new Error(`Database is already at version ${current}; down migrations are not supported`);
+  }
+
+  const applied = new Set((await getAppliedMigrations(client)).map(m => m.version));
+  const pending = MIGRATIONS.filter(m => m.version <= target && !applied.has(m.version));
+
+  if (options.dryRun) {
+    return pending.map(m => ({ version: m.version, name: m.name }));
+  }
+
+  await client.execute(CREATE_SCHEMA_MIGRATIONS_TABLE);
+
+  const ran: MigrationInfo[] = [];
+  for (const migration of pending) {
+    // Closing without commit rolls the step back
+    const tx = await client.transaction('write');
+    try {
+      await migration.up(tx);
+      await tx.execute({
+        sql: 'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+        args: [migration.version, migration.name],
+      });
+      await tx.commit();
+    } finally {
+      tx.close();
+    }
+    ran.push({ version: migration.version, name: migration.name });
+  }
+
+  return ran;
+}
@@ -1,9 +1,12 @@
 /**
- * Shared database row parsers for Ticket, Knowledge, and SearchResult types.
+ * Shared database row parsers for Ticket and Knowledge types.
  * Consolidates duplicated parsing logic from command files.
  */
 
-import type { Ticket, Knowledge, SearchResult, Spec, Comment, TicketType } from '../types.js';
+import type {
+  Ticket, Knowledge, KnowledgeRevision, Spec, Comment, TicketType, TicketStatus, TicketStatusEvent, ChangeLogEntry,
+  WebhookEvent, WebhookDelivery,
+} from '../types.js';
 
 /**
  * Parse a database row into a Ticket object.
@@ -55,11 +58,51 @@ export function parseKnowledgeRow(row: Record<string, unknown>): Knowledge {
     last_used_at: row.last_used_at as string | undefined,
     author: row.author as string | undefined,
     branch: row.branch as string | undefined,
+    merged_into: (row.merged_into as string | null) || undefined,
     created_at: row.created_at as string | undefined,
     updated_at: row.updated_at as string | undefined,
   };
 }
 
+/**
+ * Parse a database row into a KnowledgeRevision object.
+ */
+export function parseKnowledgeRevisionRow(row: Record<string, unknown>): KnowledgeRevision {
+  return {
+    id: row.id as string,
+    knowledge_id: row.knowledge_id as string,
+    revision: Number(row.revision),
+    namespace: row.namespace as string | undefined,
+    title: row.title as string,
+    content: row.content as string,
+    category: row.category as KnowledgeRevision['category'],
+    tags: row.tags ? JSON.parse(row.tags as string) : undefined,
+    citations: row.citations ? JSON.parse(row.citations as string) : undefined,
+    confidence: row.confidence as number | undefined,
+    active: row.active === null || row.active === undefined ? undefined : Boolean(row.active),
+    decision_scope: row.decision_scope as KnowledgeRevision['decision_scope'],
+    changed_by: row.changed_by as string | undefined,
+    reason: row.reason as string | undefined,
+    created_at: row.created_at as string | undefined,
+  };
+}
+
+/**
+ * Parse a database row into a TicketStatusEvent object.
+ */
+export function parseTicketStatusEventRow(row: Record<string, unknown>): TicketStatusEvent {
+  return {
+    id: row.id as string,
+    ticket_id: row.ticket_id as string,
+    from_status: (row.from_status as TicketStatus | null) ?? null,
+    to_status: row.to_status as TicketStatus,
+    replaced_by: (row.replaced_by as string | null) || undefined,
+    forced: Boolean(row.forced),
+    author: row.author as string | undefined,
+    created_at: row.created_at as string | undefined,
+  };
+}
+
 /**
  * Parse a database row into a Spec object.
  */
@@ -90,13 +133,47 @@ export function parseCommentRow(row: Record<string, unknown>): Comment {
 }
 
 /**
- * Parse a database row from a vector search into a SearchResult.
- * Converts distance to similarity score (1 - distance).
+ * Parse a database row into a ChangeLogEntry object.
  */
-export function parseSearchRow(row: Record<string, unknown>): SearchResult {
-  const distance = row.distance as number;
+export function parseChangeLogRow(row: Record<string, unknown>): ChangeLogEntry {
   return {
-    ...parseKnowledgeRow(row),
-    score: 1 - distance,
+    seq: Number(row.seq),
+    entity: row.entity as ChangeLogEntry['entity'],
+    entity_id: row.entity_id as string,
+    op: row.op as ChangeLogEntry['op'],
+    parent_type: (row.parent_type as ChangeLogEntry['parent_type'] | null) || undefined,
+    parent_id: (row.parent_id as string | null) || undefined,
+    actor: (row.actor as string | null) || undefined,
+    created_at: row.created_at as string,
+  };
+}
+
+export function parseWebhookEventRow(row: Record<string, unknown>): WebhookEvent {
+  return {
+    seq: Number(row.seq),
+    type: row.type as string,
+    entity: row.entity as WebhookEvent['entity'],
+    entity_id: row.entity_id as string,
+    data: row.data ? JSON.parse(row.data as string) : {},
+    actor: (row.actor as string | null) || undefined,
+    created_at: row.created_at as string,
+  };
+}
+
+export function parseWebhookDeliveryRow(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    webhook_id: row.webhook_id as string,
+    event_seq: row.event_seq != null ? Number(row.event_seq) : undefined,
+    event_type: row.event_type as string,
+    url: row.url as string,
+    payload: row.payload as string,
+    status: row.status as WebhookDelivery['status'],
+    attempts: Number(row.attempts),
+    next_attempt_at: (row.next_attempt_at as string | null) || undefined,
+    response_status: row.response_status != null ? Number(row.response_status) : undefined,
+    last_error: (row.last_error as string | null) || undefined,
+    created_at: row.created_at as string,
+    updated_at: row.updated_at as string,
   };
 }
@@ -0,0 +1,266 @@
+/**
+ * Recompute knowledge embeddings with the configured provider.
+ * Work is checkpointed in the metadata table after every batch, so an
+ * interrupted run resumes where it stopped when started again with the same
+ * scope and model. Switching models re-embeds everything and only records the
+ * new model once the last batch is written; a new dimension first recreates the
+ * vector columns at that size.
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { CREATE_VECTOR_INDEX, CREATE_KNOWLEDGE_CHUNKS_VECTOR_INDEX } from './schema.js';
+import {
+  REEMBED_PROGRESS_KEY, getMetadata, getStoredEmbeddingModel, getVectorColumnDimension, metadataTableExists, recordEmbeddingModel,
+  currentEmbeddingScope, resizeVectorColumns,
+} from './embedding-meta.js';
+import { buildChunkStatements, chunksTableExists } from './chunks.js';
+import { embedBatch, getEmbeddingProvider } from '../embed/model.js';
+
+export type ReembedScope = { all: true } | { namespace: string } | { ids: string[] };
+
+export interface ReembedOptions {
+  scope: ReembedScope;
+  batchSize?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** Checkpoint stored under REEMBED_PROGRESS_KEY. */
+export interface ReembedProgress {
+  model: string;
+  dimension: number;
+  embeddingScope?: string; // embeddingScope() of the settings being written
+  scope: ReembedScope;
+  lastId: string;
+  done: number;
+  startedAt: string;
+}
+
+export interface ReembedDrift {
+  compared: number; // entries that had a readable old vector
+  mean: number | null; // cosine distance old → new (0 = unchanged, 2 = opposite)
+  median: number | null;
+  max: number | null;
+  mostMoved: { id: string; title: string; distance: number }[];
+}
+
+export interface ReembedReport {
+  model: string;
+  previousModel: string | null;
+  scope: ReembedScope;
+  resumed: boolean;
+  total: number;
+  reembedded: number; // in this run (earlier runs of a resumed job are in `total`)
+  chunks: number; // section chunks written for long entries in this run
+  missingBefore: number; // entries with no or unreadable old vector
+  indexRebuilt: boolean;
+  drift: ReembedDrift;
+}
+
+const DEFAULT_BATCH_SIZE = 32;
+const MOST_MOVED_LIMIT = 5;
+
+function scopeFilter(scope: ReembedScope): { where: string; args: string[] } {
+  if ('namespace' in scope) return { where: 'namespace = ?', args: [scope.namespace] };
+  if ('ids' in scope) return { where: `id IN (${scope.ids.map(() => '?').join(', ')})`, args: scope.ids };
+  return { where: '1 = 1', args: [] };
+}
+
+/**
+ * Decode a stored F32_BLOB. Returns null for missing or malformed vectors.
+ */
+function decodeVector(value: unknown, dimension: number): number[] | null {
+  if (!(value instanceof ArrayBuffer) || value.byteLength < dimension * 4) return null;
+  const vector = Array.from(new Float32Array(value.slice(0, dimension * 4)));
+  return vector.every(Number.isFinite) ? vector : null;
+}
+
+function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  if (na === 0 || nb === 0) return 1;
+  return 1 - dot / Math.sqrt(na * nb);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export async function getReembedProgress(client: Client): Promise<ReembedProgress | null> {
+  if (!(await metadataTableExists(client))) return null;
+  const value = await getMetadata(client, REEMBED_PROGRESS_KEY);
+  return value ? JSON.parse(value) as ReembedProgress : null;
+}
+
+/**
+ * Drop and recreate the vector indexes (knowledge_embedding_idx and the chunk index)
+ * so they reflect the new vectors.
+ */
+async function rebuildVectorIndex(client: Client): Promise<boolean> {
+  try {
+    await client.execute('DROP INDEX IF EXISTS knowledge_embedding_idx');
+    await client.execute(CREATE_VECTOR_INDEX);
+    if (await chunksTableExists(client)) {
+      await client.execute('DROP INDEX IF EXISTS knowledge_chunks_embedding_idx');
+      await client.execute(CREATE_KNOWLEDGE_CHUNKS_VECTOR_INDEX);
+    }
+    return true;
+  } catch {
+    // Vector index unsupported on this server; search falls back to a full scan
+    return false;
+  }
+}
+
+export async function reembedKnowledge(client: Client, options: ReembedOptions): Promise<ReembedReport> {
+  if (!(await metadataTableExists(client))) {
+    throw new Error('Database has no metadata table. Run `superintent migrate` first');
+  }
+
+  const provider = getEmbeddingProvider();
+  const columnDimension = await getVectorColumnDimension(client);
+  const resizing = columnDimension !== null && columnDimension !== provider.dimension;
+  if (resizing && !('all' in options.scope)) {
+    throw new Error(`Vectors change from ${columnDimension} to ${provider.dimension} dimensions, which re-embeds every entry: use --all`);
+  }
+
+  const embeddingScope = currentEmbeddingScope();
+  const stored = await getStoredEmbeddingModel(client);
+  const switching = stored !== null && (
+    stored.model !== provider.id
+    || stored.dimension !== provider.dimension
+    || (stored.scope !== undefined && stored.scope !== embeddingScope)
+  );
+  if (switching && !('all' in options.scope)) {
+    throw new Error(
+      stored!.model !== provider.id
+        ? `Switching from ${stored!.model} to ${provider.id} re-embeds every entry: use --all`
+        : 'Changed EMBEDDING_* settings re-embed every entry: use --all'
+    );
+  }
+
+  // Resume a matching checkpoint; any other checkpoint is abandoned
+  const scopeKey = JSON.stringify(options.scope);
+  const checkpoint = await getReembedProgress(client);
+  const resumed = checkpoint !== null
+    && checkpoint.model === provider.id
+    && (checkpoint.embeddingScope ?? embeddingScope) === embeddingScope
+    && JSON.stringify(checkpoint.scope) === scopeKey;
+  if (checkpoint && !resumed && checkpoint.model !== stored?.model && !('all' in options.scope)) {
+    throw new Error(`An interrupted re-embed to ${checkpoint.model} must be finished first: run with --all`);
+  }
+  const progress: ReembedProgress = resumed ? checkpoint! : {
+    model: provider.id,
+    dimension: provider.dimension,
+    embeddingScope,
+    scope: options.scope,
+    lastId: '',
+    done: 0,
+    startedAt: new Date().toISOString(),
+  };
+
+  // Old vectors cannot be kept at another size; the run rewrites every entry anyway
+  if (resizing) {
+    await resizeVectorColumns(client, provider.dimension);
+  }
+
+  const { where, args } = scopeFilter(options.scope);
+  const remainingResult = await client.execute({
+    sql: `SELECT COUNT(*) as cnt FROM knowledge WHERE ${where} AND id > ?`,
+    args: [...args, progress.lastId],
+  });
+  const total = progress.done + Number(remainingResult.rows[0].cnt ?? 0);
+
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const distances: { id: string; title: string; distance: number }[] = [];
+  let reembedded = 0;
+  let missingBefore = 0;
+  let chunks = 0;
+
+  options.onProgress?.(progress.done, total);
+  for (;;) {
+    const batch = await client.execute({
+      sql: `SELECT id, title, content, tags, embedding FROM knowledge WHERE ${where} AND id > ? ORDER BY id ASC LIMIT ?`,
+      args: [...args, progress.lastId, batchSize],
+    });
+    if (batch.rows.length === 0) break;
+
+    const rows = batch.rows as unknown as Record<string, unknown>[];
+    const vectors = await embedBatch(rows.map((r) => {
+      const tags: string[] = r.tags ? JSON.parse(r.tags as string) : [];
+      const tagsText = tags.length ? ' ' + tags.join(' ') : '';
+      return `${r.title} ${r.content}${tagsText}`;
+    }));
+
+    const statements: InStatement[] = [];
+    for (const [i, r] of rows.entries()) {
+      const vector = vectors[i];
+
+      const old = decodeVector(r.embedding, provider.dimension);
+      if (old) {
+        distances.push({ id: r.id as string, title: r.title as string, distance: cosineDistance(old, vector) });
+      } else {
+        missingBefore++;
+      }
+
+      statements.push({
+        sql: 'UPDATE knowledge SET embedding = vector32(?) WHERE id = ?',
+        args: [JSON.stringify(vector), r.id as string],
+      });
+      const chunkStatements = await buildChunkStatements(client, {
+        id: r.id as string,
+        title: r.title as string,
+        content: r.content as string,
+      });
+      statements.push(...chunkStatements);
+      chunks += Math.max(0, chunkStatements.length - 1);
+    }
+
+    progress.lastId = batch.rows[batch.rows.length - 1].id as string;
+    progress.done += batch.rows.length;
+    reembedded += batch.rows.length;
+
+    // Vectors and checkpoint commit together, so a crash never skips a batch
+    statements.push({
+      sql: `INSERT INTO metadata (key, value) VALUES (?, ?)
+            ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`,
+      args: [REEMBED_PROGRESS_KEY, JSON.stringify(progress)],
+    });
+    await client.batch(statements, 'write');
+    options.onProgress?.(progress.done, total);
+  }
+
+  const indexRebuilt = await rebuildVectorIndex(client);
+
+  if ('all' in options.scope || !stored) {
+    await recordEmbeddingModel(client, provider);
+  }
+  await client.execute({ sql: 'DELETE FROM metadata WHERE key = ?', args: [REEMBED_PROGRESS_KEY] });
+
+  const sorted = distances.map(d => d.distance).sort((a, b) => a - b);
+  const drift: ReembedDrift = {
+    compared: sorted.length,
+    mean: sorted.length ? round(sorted.reduce((sum, d) => sum + d, 0) / sorted.length) : null,
+    median: sorted.length ? round(sorted[Math.floor(sorted.length / 2)]) : null,
+    max: sorted.length ? round(sorted[sorted.length - 1]) : null,
+    mostMoved: distances
+      .sort((a, b) => b.distance - a.distance)
+      .slice(0, MOST_MOVED_LIMIT)
+      .map(d => ({ ...d, distance: round(d.distance) })),
+  };
+
+  return {
+    model: provider.id,
+    previousModel: stored?.model ?? null,
+    scope: options.scope,
+    resumed,
+    total,
+    reembedded,
+    chunks,
+    missingBefore,
+    indexRebuilt,
+    drift,
+  };
+}
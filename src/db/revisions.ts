@@ -0,0 +1,157 @@
+/**
+ * Knowledge revision history.
+ * Every change to a knowledge entry stores a full snapshot in knowledge_revisions.
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { parseKnowledgeRevisionRow } from './parsers.js';
+import { generateId } from '../utils/id.js';
+import { assertEmbeddingModel } from './embedding-meta.js';
+import { writeKnowledgeChunks } from './chunks.js';
+import { embed } from '../embed/model.js';
+import { NotFoundError } from '../errors.js';
+import type { KnowledgeRevision } from '../types.js';
+
+const SNAPSHOT_COLUMNS = 'namespace, title, content, category, tags, citations, confidence, active, decision_scope';
+
+/**
+ * Snapshot the current state of a knowledge entry as the next revision.
+ * Returns the new revision number, or null if the entry does not exist.
+ */
+export async function recordKnowledgeRevision(
+  client: Client,
+  knowledgeId: string,
+  changedBy: string,
+  reason: string,
+): Promise<number | null> {
+  const current = await client.execute({
+    sql: `SELECT ${SNAPSHOT_COLUMNS} FROM knowledge WHERE id = ?`,
+    args: [knowledgeId],
+  });
+  if (current.rows.length === 0) return null;
+  const row = current.rows[0] as Record<string, unknown>;
+
+  const maxResult = await client.execute({
+    sql: 'SELECT MAX(revision) as max_rev FROM knowledge_revisions WHERE knowledge_id = ?',
+    args: [knowledgeId],
+  });
+  const revision = Number(maxResult.rows[0]?.max_rev ?? 0) + 1;
+
+  await client.execute({
+    sql: `INSERT INTO knowledge_revisions (
+      id, knowledge_id, revision, ${SNAPSHOT_COLUMNS}, changed_by, reason
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      generateId('KREV'),
+      knowledgeId,
+      revision,
+      row.namespace as string | null,
+      row.title as string,
+      row.content as string,
+      row.category as string | null,
+      row.tags as string | null,
+      row.citations as string | null,
+      row.confidence as number | null,
+      row.active as number | null,
+      row.decision_scope as string | null,
+      changedBy,
+      reason,
+    ],
+  });
+
+  return revision;
+}
+
+/**
+ * Statement snapshotting an entry as its next revision, for callers writing a change
+ * in one batch: the snapshot and revision number are read when the statement runs.
+ */
+export function buildKnowledgeRevisionStatement(knowledgeId: string, changedBy: string, reason: string): InStatement {
+  return {
+    sql: `INSERT INTO knowledge_revisions (id, knowledge_id, revision, ${SNAPSHOT_COLUMNS}, changed_by, reason)
+          SELECT ?, id, (SELECT COALESCE(MAX(revision), 0) + 1 FROM knowledge_revisions WHERE knowledge_id = ?),
+            ${SNAPSHOT_COLUMNS}, ?, ?
+          FROM knowledge WHERE id = ?`,
+    args: [generateId('KREV'), knowledgeId, changedBy, reason, knowledgeId],
+  };
+}
+
+/**
+ * Record the pre-change state as revision 1 for entries without history yet.
+ * Call before applying the first change so the original content is kept.
+ */
+export async function ensureBaselineRevision(client: Client, knowledgeId: string, changedBy: string): Promise<void> {
+  const existing = await client.execute({
+    sql: 'SELECT 1 FROM knowledge_revisions WHERE knowledge_id = ? LIMIT 1',
+    args: [knowledgeId],
+  });
+  if (existing.rows.length === 0) {
+    await recordKnowledgeRevision(client, knowledgeId, changedBy, 'baseline');
+  }
+}
+
+export async function getKnowledgeRevisions(client: Client, knowledgeId: string): Promise<KnowledgeRevision[]> {
+  const result = await client.execute({
+    sql: `SELECT id, knowledge_id, revision, ${SNAPSHOT_COLUMNS}, changed_by, reason, created_at
+          FROM knowledge_revisions WHERE knowledge_id = ? ORDER BY revision ASC`,
+    args: [knowledgeId],
+  });
+  return result.rows.map(row => parseKnowledgeRevisionRow(row as Record<string, unknown>));
+}
+
+export async function getKnowledgeRevision(client: Client, knowledgeId: string, revision: number): Promise<KnowledgeRevision | null> {
+  const result = await client.execute({
+    sql: `SELECT id, knowledge_id, revision, ${SNAPSHOT_COLUMNS}, changed_by, reason, created_at
+          FROM knowledge_revisions WHERE knowledge_id = ? AND revision = ?`,
+    args: [knowledgeId, revision],
+  });
+  if (result.rows.length === 0) return null;
+  return parseKnowledgeRevisionRow(result.rows[0] as Record<string, unknown>);
+}
+
+/**
+ * Restore a knowledge entry's content fields from a revision and re-embed it.
+ * Active state is left untouched. Records the restored state as a new revision.
+ * Returns the new revision number.
+ */
+export async function revertKnowledge(
+  client: Client,
+  knowledgeId: string,
+  revision: number,
+  changedBy: string,
+): Promise<number> {
+  const target = await getKnowledgeRevision(client, knowledgeId, revision);
+  if (!target) {
+    throw new NotFoundError(`Revision ${revision} not found for knowledge ${knowledgeId}`);
+  }
+
+  await ensureBaselineRevision(client, knowledgeId, changedBy);
+
+  await assertEmbeddingModel(client);
+  const tagsText = target.tags?.length ? ' ' + target.tags.join(' ') : '';
+  const embedding = await embed(`${target.title} ${target.content}${tagsText}`);
+
+  await client.execute({
+    sql: `UPDATE knowledge SET
+            namespace = COALESCE(?, namespace), title = ?, content = ?, category = ?, tags = ?, citations = ?,
+            confidence = COALESCE(?, confidence), decision_scope = COALESCE(?, decision_scope),
+            embedding = vector32(?), updated_at = datetime('now')
+          WHERE id = ?`,
+    args: [
+      target.namespace ?? null,
+      target.title,
+      target.content,
+      target.category ?? null,
+      target.tags ? JSON.stringify(target.tags) : null,
+      target.citations ? JSON.stringify(target.citations) : null,
+      target.confidence ?? null,
+      target.decision_scope ?? null,
+      JSON.stringify(embedding),
+      knowledgeId,
+    ],
+  });
+  await writeKnowledgeChunks(client, { id: knowledgeId, title: target.title, content: target.content });
+
+  const newRevision = await recordKnowledgeRevision(client, knowledgeId, changedBy, `revert to ${revision}`);
+  return newRevision!;
+}
@@ -122,3 +122,294 @@ export const CREATE_WIKI_CITATIONS_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_wiki_citations_page ON wiki_citations(wiki_page_id);
 CREATE INDEX IF NOT EXISTS idx_wiki_citations_knowledge ON wiki_citations(knowledge_id)`;
 
+
+export const CREATE_SCHEMA_MIGRATIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TEXT DEFAULT (datetime('now'))
+)`;
+
+export const CREATE_KNOWLEDGE_REVISIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS knowledge_revisions (
+  id TEXT PRIMARY KEY,
+  knowledge_id TEXT NOT NULL,
+  revision INTEGER NOT NULL,
+  namespace TEXT,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  category TEXT,
+  tags TEXT,
+  citations TEXT,
+  confidence REAL,
+  active INTEGER,
+  decision_scope TEXT,
+  changed_by TEXT DEFAULT 'unknown',
+  reason TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  UNIQUE (knowledge_id, revision),
+  FOREIGN KEY (knowledge_id) REFERENCES knowledge(id)
+)`;
+
+export const CREATE_KNOWLEDGE_REVISIONS_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_knowledge_revisions_knowledge ON knowledge_revisions(knowledge_id)`;
+
+// Full-text index over knowledge title/content/tags (external content, synced by triggers).
+// '_' is a token character so snake_case identifiers match whole.
+export const CREATE_KNOWLEDGE_FTS_TABLE = `
+CREATE VIRTUAL TABLE IF NOT EXISTS knowledge_fts USING fts5(
+  title, content, tags,
+  content='knowledge', content_rowid='rowid',
+  tokenize="unicode61 tokenchars '_'"
+)`;
+
+// Trigger bodies contain semicolons, so each is a separate statement
+export const CREATE_KNOWLEDGE_FTS_TRIGGERS: string[] = [
+  `CREATE TRIGGER IF NOT EXISTS knowledge_fts_ai AFTER INSERT ON knowledge BEGIN
+    INSERT INTO knowledge_fts(rowid, title, content, tags) VALUES (new.rowid, new.title, new.content, new.tags);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS knowledge_fts_ad AFTER DELETE ON knowledge BEGIN
+    INSERT INTO knowledge_fts(knowledge_fts, rowid, title, content, tags) VALUES ('delete', old.rowid, old.title, old.content, old.tags);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS knowledge_fts_au AFTER UPDATE OF title, content, tags ON knowledge BEGIN
+    INSERT INTO knowledge_fts(knowledge_fts, rowid, title, content, tags) VALUES ('delete', old.rowid, old.title, old.content, old.tags);
+    INSERT INTO knowledge_fts(rowid, title, content, tags) VALUES (new.rowid, new.title, new.content, new.tags);
+  END`,
+];
+
+export const REBUILD_KNOWLEDGE_FTS = `INSERT INTO knowledge_fts(knowledge_fts) VALUES ('rebuild')`;
+
+// Directed ticket relations. 'blocked_by' is stored as the inverse 'blocks' row.
+export const CREATE_TICKET_LINKS_TABLE = `
+CREATE TABLE IF NOT EXISTS ticket_links (
+  from_id TEXT NOT NULL,
+  to_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  author TEXT DEFAULT 'unknown',
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (from_id, to_id, type),
+  FOREIGN KEY (from_id) REFERENCES tickets(id),
+  FOREIGN KEY (to_id) REFERENCES tickets(id)
+)`;
+
+export const CREATE_TICKET_LINKS_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_ticket_links_to ON ticket_links(to_id)`;
+
+// Typed knowledge relations. 'contradicts' is symmetric; the others read from -> to.
+export const CREATE_KNOWLEDGE_LINKS_TABLE = `
+CREATE TABLE IF NOT EXISTS knowledge_links (
+  from_id TEXT NOT NULL,
+  to_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  author TEXT DEFAULT 'unknown',
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (from_id, to_id, type),
+  FOREIGN KEY (from_id) REFERENCES knowledge(id),
+  FOREIGN KEY (to_id) REFERENCES knowledge(id)
+)`;
+
+export const CREATE_KNOWLEDGE_LINKS_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_knowledge_links_to ON knowledge_links(to_id)`;
+
+export const CREATE_TICKET_STATUS_EVENTS_TABLE = `
+CREATE TABLE IF NOT EXISTS ticket_status_events (
+  id TEXT PRIMARY KEY,
+  ticket_id TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  replaced_by TEXT,
+  forced INTEGER DEFAULT 0,
+  author TEXT DEFAULT 'unknown',
+  created_at TEXT DEFAULT (datetime('now')),
+  FOREIGN KEY (ticket_id) REFERENCES tickets(id)
+)`;
+
+export const CREATE_TICKET_STATUS_EVENTS_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_ticket_status_events_ticket ON ticket_status_events(ticket_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ticket_status_events_to ON ticket_status_events(to_status, created_at)`;
+
+export const CREATE_METADATA_TABLE = `
+CREATE TABLE IF NOT EXISTS metadata (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TEXT DEFAULT (datetime('now'))
+)`;
+
+// Vectors written before the metadata table existed came from the bundled model
+export const SEED_EMBEDDING_METADATA = `
+INSERT OR IGNORE INTO metadata (key, value)
+SELECT 'embedding_model', 'transformers:Xenova/bge-small-en-v1.5'
+WHERE EXISTS (SELECT 1 FROM knowledge WHERE embedding IS NOT NULL);
+INSERT OR IGNORE INTO metadata (key, value)
+SELECT 'embedding_dimension', '384'
+WHERE EXISTS (SELECT 1 FROM knowledge WHERE embedding IS NOT NULL)`;
+
+// Section chunks of long knowledge entries. The entry's own vector
+// (knowledge.embedding, chunk_index 0) covers the whole text; chunks start at 1.
+export const CREATE_KNOWLEDGE_CHUNKS_TABLE = `
+CREATE TABLE IF NOT EXISTS knowledge_chunks (
+  knowledge_id TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  section TEXT,
+  content TEXT NOT NULL,
+  embedding F32_BLOB(384),
+  PRIMARY KEY (knowledge_id, chunk_index),
+  FOREIGN KEY (knowledge_id) REFERENCES knowledge(id)
+)`;
+
+export const CREATE_KNOWLEDGE_CHUNKS_VECTOR_INDEX = `
+CREATE INDEX IF NOT EXISTS knowledge_chunks_embedding_idx ON knowledge_chunks(libsql_vector_idx(embedding))`;
+
+// Row changes to tickets, knowledge, specs and comments, written by triggers so
+// every client (CLI, dashboard, MCP, SDK, other machines) is covered. seq is the
+// SSE event id. actor is the author recorded on the row.
+export const CREATE_CHANGE_LOG_TABLE = `
+CREATE TABLE IF NOT EXISTS change_log (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  op TEXT NOT NULL,
+  parent_type TEXT,
+  parent_id TEXT,
+  actor TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+)`;
+
+// Keep the last 10,000 changes; pruned every 1,000 inserts
+export const CHANGE_LOG_RETENTION = 10000;
+
+// Knowledge usage tracking and embeddings are not content changes
+const KNOWLEDGE_CHANGE_COLUMNS = 'namespace, title, content, category, tags, citations, source, origin_ticket_id, '
+  + 'origin_ticket_type, confidence, active, decision_scope, author, branch';
+
+function changeLogTriggers(table: string, entity: string, updateOf = ''): string[] {
+  const log = (row: 'new' | 'old', op: string) =>
+    `INSERT INTO change_log (entity, entity_id, op, actor) VALUES ('${entity}', ${row}.id, '${op}', ${row}.author);`;
+  return [
+    `CREATE TRIGGER IF NOT EXISTS ${table}_change_ai AFTER INSERT ON ${table} BEGIN
+    ${log('new', 'insert')}
+  END`,
+    `CREATE TRIGGER IF NOT EXISTS ${table}_change_au AFTER UPDATE${updateOf ? ` OF ${updateOf}` : ''} ON ${table} BEGIN
+    ${log('new', 'update')}
+  END`,
+    `CREATE TRIGGER IF NOT EXISTS ${table}_change_ad AFTER DELETE ON ${table} BEGIN
+    ${log('old', 'delete')}
+  END`,
+  ];
+}
+
+// Trigger bodies contain semicolons, so each is a separate statement
+export const CREATE_CHANGE_LOG_TRIGGERS: string[] = [
+  ...changeLogTriggers('tickets', 'ticket'),
+  ...changeLogTriggers('knowledge', 'knowledge', KNOWLEDGE_CHANGE_COLUMNS),
+  ...changeLogTriggers('specs', 'spec'),
+  // Comments carry their parent so listeners can tell a ticket comment from a spec comment
+  ...['insert', 'update', 'delete'].map((op) => {
+    const row = op === 'delete' ? 'old' : 'new';
+    return `CREATE TRIGGER IF NOT EXISTS comments_change_a${op[0]} AFTER ${op.toUpperCase()} ON comments BEGIN
+    INSERT INTO change_log (entity, entity_id, op, parent_type, parent_id, actor)
+    VALUES ('comment', ${row}.id, '${op}', ${row}.parent_type, ${row}.parent_id, ${row}.author);
+  END`;
+  }),
+  // A link shows on both tickets
+  ...['insert', 'delete'].map((op) => {
+    const row = op === 'delete' ? 'old' : 'new';
+    return `CREATE TRIGGER IF NOT EXISTS ticket_links_change_a${op[0]} AFTER ${op.toUpperCase()} ON ticket_links BEGIN
+    INSERT INTO change_log (entity, entity_id, op, actor) VALUES ('ticket', ${row}.from_id, 'update', ${row}.author);
+    INSERT INTO change_log (entity, entity_id, op, actor) VALUES ('ticket', ${row}.to_id, 'update', ${row}.author);
+  END`;
+  }),
+  `CREATE TRIGGER IF NOT EXISTS change_log_prune AFTER INSERT ON change_log WHEN new.seq % 1000 = 0 BEGIN
+    DELETE FROM change_log WHERE seq <= new.seq - ${CHANGE_LOG_RETENTION};
+  END`,
+];
+
+// Like ticket links, a knowledge link shows on both entries
+export const CREATE_KNOWLEDGE_LINK_TRIGGERS: string[] = ['insert', 'delete'].map((op) => {
+  const row = op === 'delete' ? 'old' : 'new';
+  return `CREATE TRIGGER IF NOT EXISTS knowledge_links_change_a${op[0]} AFTER ${op.toUpperCase()} ON knowledge_links BEGIN
+    INSERT INTO change_log (entity, entity_id, op, actor) VALUES ('knowledge', ${row}.from_id, 'update', ${row}.author);
+    INSERT INTO change_log (entity, entity_id, op, actor) VALUES ('knowledge', ${row}.to_id, 'update', ${row}.author);
+  END`;
+});
+
+// Lifecycle events for webhooks, written by triggers like change_log. type is the
+// event name subscriptions filter on; data is a JSON object with the title (and a
+// ticket's intent) and, for status changes, the from/to status.
+export const CREATE_WEBHOOK_EVENTS_TABLE = `
+CREATE TABLE IF NOT EXISTS webhook_events (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL,
+  entity TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  data TEXT,
+  actor TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+)`;
+
+// Same retention as change_log
+export const WEBHOOK_EVENTS_RETENTION = 10000;
+
+function webhookEventTrigger(name: string, when: string, type: string, entity: string, row: 'new' | 'old', data: string): string {
+  return `CREATE TRIGGER IF NOT EXISTS ${name} ${when} BEGIN
+    INSERT INTO webhook_events (type, entity, entity_id, data, actor)
+    VALUES ('${type}', '${entity}', ${row}.id, json_object(${data}), ${row}.author);
+  END`;
+}
+
+// Trigger bodies contain semicolons, so each is a separate statement
+export const CREATE_WEBHOOK_EVENT_TRIGGERS: string[] = [
+  webhookEventTrigger('tickets_webhook_ai', 'AFTER INSERT ON tickets', 'ticket.created', 'ticket', 'new',
+    `'title', new.title, 'intent', new.intent, 'type', new.type, 'status', new.status`),
+  webhookEventTrigger('tickets_webhook_status', 'AFTER UPDATE OF status ON tickets WHEN old.status IS NOT new.status',
+    'ticket.status_changed', 'ticket', 'new',
+    `'title', new.title, 'intent', new.intent, 'type', new.type, 'from', old.status, 'to', new.status`),
+  webhookEventTrigger('tickets_webhook_ad', 'AFTER DELETE ON tickets', 'ticket.deleted', 'ticket', 'old',
+    `'title', old.title, 'intent', old.intent, 'type', old.type, 'status', old.status`),
+  webhookEventTrigger('knowledge_webhook_ai', 'AFTER INSERT ON knowledge', 'knowledge.created', 'knowledge', 'new',
+    `'title', new.title, 'namespace', new.namespace, 'category', new.category`),
+  webhookEventTrigger('knowledge_webhook_au',
+    'AFTER UPDATE OF title, content, category, tags ON knowledge WHEN old.title IS NOT new.title OR old.content IS NOT new.content OR old.category IS NOT new.category OR old.tags IS NOT new.tags',
+    'knowledge.updated', 'knowledge', 'new',
+    `'title', new.title, 'namespace', new.namespace, 'category', new.category`),
+  webhookEventTrigger('knowledge_webhook_deactivate', 'AFTER UPDATE OF active ON knowledge WHEN old.active = 1 AND new.active = 0',
+    'knowledge.deactivated', 'knowledge', 'new',
+    `'title', new.title, 'namespace', new.namespace, 'category', new.category`),
+  webhookEventTrigger('knowledge_webhook_activate', 'AFTER UPDATE OF active ON knowledge WHEN old.active = 0 AND new.active = 1',
+    'knowledge.activated', 'knowledge', 'new',
+    `'title', new.title, 'namespace', new.namespace, 'category', new.category`),
+  webhookEventTrigger('knowledge_webhook_ad', 'AFTER DELETE ON knowledge', 'knowledge.deleted', 'knowledge', 'old',
+    `'title', old.title, 'namespace', old.namespace, 'category', old.category`),
+  webhookEventTrigger('specs_webhook_ai', 'AFTER INSERT ON specs', 'spec.created', 'spec', 'new', `'title', new.title`),
+  webhookEventTrigger('specs_webhook_au',
+    'AFTER UPDATE OF title, content ON specs WHEN old.title IS NOT new.title OR old.content IS NOT new.content',
+    'spec.updated', 'spec', 'new', `'title', new.title`),
+  webhookEventTrigger('specs_webhook_ad', 'AFTER DELETE ON specs', 'spec.deleted', 'spec', 'old', `'title', old.title`),
+  `CREATE TRIGGER IF NOT EXISTS webhook_events_prune AFTER INSERT ON webhook_events WHEN new.seq % 1000 = 0 BEGIN
+    DELETE FROM webhook_events WHERE seq <= new.seq - ${WEBHOOK_EVENTS_RETENTION};
+  END`,
+];
+
+// One row per (subscription, event) delivery; test pings have no event_seq.
+// status: pending (retries left, sent at next_attempt_at) | delivered | failed
+export const CREATE_WEBHOOK_DELIVERIES_TABLE = `
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL,
+  event_seq INTEGER,
+  event_type TEXT NOT NULL,
+  url TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  UNIQUE (webhook_id, event_seq)
+)`;
+
+export const CREATE_WEBHOOK_DELIVERIES_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created ON webhook_deliveries(created_at)`;
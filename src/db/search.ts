@@ -1,7 +1,20 @@
 import type { Client } from '@libsql/client';
-import { parseSearchRow } from './parsers.js';
+import { parseKnowledgeRow } from './parsers.js';
 import { trackUsage } from './usage.js';
-import type { SearchResult } from '../types.js';
+import { assertEmbeddingModel } from './embedding-meta.js';
+import { chunksTableExists } from './chunks.js';
+import { getSupersedingIds } from './knowledge-links.js';
+import { embed } from '../embed/model.js';
+import { ValidationError } from '../errors.js';
+import type { SearchResult, SearchMode } from '../types.js';
+
+export const SEARCH_MODES: SearchMode[] = ['vector', 'lexical', 'hybrid'];
+
+// Reciprocal rank fusion constant (standard value from Cormack et al.)
+const RRF_K = 60;
+
+// bm25 column weights: title, content, tags
+const BM25_WEIGHTS = '10.0, 1.0, 5.0';
 
 export interface VectorSearchOptions {
   namespace?: string;
@@ -14,21 +27,26 @@ export interface VectorSearchOptions {
   minScore?: number;
   limit: number;
   trackUsage?: boolean;
+  includeSuperseded?: boolean; // also inactive entries that another entry supersedes
+  cursor?: string; // nextCursor of the previous page
 }
 
-export async function performVectorSearch(
-  client: Client,
-  queryEmbedding: number[],
-  options: VectorSearchOptions,
-): Promise<SearchResult[]> {
-  const { minScore = 0 } = options;
-  const safeLimit = Number.isFinite(options.limit) && options.limit >= 1
-    ? Math.min(Math.floor(options.limit), 100)
+function clampLimit(limit: number): number {
+  return Number.isFinite(limit) && limit >= 1
+    ? Math.min(Math.floor(limit), 100)
     : 10;
-  const topK = safeLimit * 2;
+}
 
-  const conditions: string[] = ['k.active = 1'];
-  const embeddingJson = JSON.stringify(queryEmbedding);
+/**
+ * Build the shared WHERE clause for active knowledge filtered by namespace/category/etc.
+ * With includeSuperseded, superseded (inactive) entries match too, pointing at their replacement.
+ */
+function buildFilterConditions(options: VectorSearchOptions): { whereClause: string; filterArgs: (string | number)[] } {
+  const conditions: string[] = [
+    options.includeSuperseded
+      ? "(k.active = 1 OR EXISTS (SELECT 1 FROM knowledge_links l WHERE l.to_id = k.id AND l.type = 'supersedes'))"
+      : 'k.active = 1',
+  ];
   const filterArgs: (string | number)[] = [];
 
   if (options.namespace) {
@@ -55,62 +73,473 @@ export async function performVectorSearch(
     conditions.push('k.branch = ?');
     filterArgs.push(options.branch);
   }
+  if (options.tags && options.tags.length > 0) {
+    const placeholders = options.tags.map(() => '?').join(', ');
+    conditions.push(`EXISTS (SELECT 1 FROM json_each(k.tags) WHERE json_each.value IN (${placeholders}))`);
+    filterArgs.push(...options.tags);
+  }
 
-  const whereClause = conditions.join(' AND ');
-  let result;
+  return { whereClause: conditions.join(' AND '), filterArgs };
+}
+
+/**
+ * Embed a search query, checking first that the configured model matches the stored vectors.
+ */
+export async function embedQuery(client: Client, query: string): Promise<number[]> {
+  await assertEmbeddingModel(client);
+  return embed(query, true);
+}
+
+// ── Cursor pagination ───────────────────────────────────────────────
+// Results are ordered by score (desc), then id. A cursor holds the last result
+// shown and how many results came before it; the next page starts right after it.
+
+interface SearchCursor {
+  score: number;
+  id: string;
+  returned: number;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  nextCursor: string | null;
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.score, cursor.id, cursor.returned])).toString('base64url');
+}
+
+function decodeCursor(value: string): SearchCursor {
+  try {
+    const [score, id, returned] = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    if (typeof score === 'number' && typeof id === 'string' && Number.isInteger(returned) && returned >= 0) {
+      return { score, id, returned };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ValidationError('Invalid cursor');
+}
+
+function compareResults(a: { score: number; id: string }, b: { score: number; id: string }): number {
+  return b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function isAfterCursor(r: { score: number; id: string }, cursor?: SearchCursor): boolean {
+  return !cursor || r.score < cursor.score || (r.score === cursor.score && r.id > cursor.id);
+}
+
+/**
+ * Cut one page out of fully ranked results and build the cursor for the next one.
+ */
+function paginate<T extends { score: number; id: string }>(ranked: T[], limit: number, cursor?: SearchCursor): { page: T[]; nextCursor: string | null } {
+  const remaining = ranked.filter((r) => isAfterCursor(r, cursor));
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = remaining.length > limit && last
+    ? encodeCursor({ score: last.score, id: last.id, returned: (cursor?.returned ?? 0) + page.length })
+    : null;
+  return { page, nextCursor };
+}
+
+// ── Vector search ───────────────────────────────────────────────────
+
+const SEARCH_COLUMNS = `
+  k.id, k.namespace, k.chunk_index, k.title, k.content,
+  k.category, k.tags, k.citations, k.source, k.origin_ticket_id, k.origin_ticket_type, k.confidence, k.active, k.decision_scope,
+  k.usage_count, k.last_used_at, k.author, k.branch, k.created_at`;
+
+// vector_top_k windows start at max(MIN_WINDOW, needed * WINDOW_GROWTH) and grow by
+// WINDOW_GROWTH until enough filtered hits are found; past MAX_WINDOW an exact scan is cheaper.
+const MIN_WINDOW = 40;
+const WINDOW_GROWTH = 4;
+const MAX_WINDOW = 4000;
+
+export function isMissingVectorIndex(error: unknown): boolean {
+  const msg = (error as Error).message;
+  return msg.includes('vector_top_k') || msg.includes('vector index') || msg.includes('no such table');
+}
+
+interface VectorSource {
+  index: string; // vector index name
+  table: string; // table holding the `embedding` column
+  alias: string;
+  join: string; // joins the table to knowledge k (empty when it is knowledge)
+  entryId: string; // expression for the knowledge id of a row
+  chunkColumns: string; // matched_chunk, matched_section
+}
+
+const ENTRY_VECTORS: VectorSource = {
+  index: 'knowledge_embedding_idx',
+  table: 'knowledge',
+  alias: 'k',
+  join: '',
+  entryId: 'k.id',
+  chunkColumns: '0 as matched_chunk, NULL as matched_section',
+};
+
+const CHUNK_VECTORS: VectorSource = {
+  index: 'knowledge_chunks_embedding_idx',
+  table: 'knowledge_chunks',
+  alias: 'c',
+  join: 'LEFT JOIN knowledge k ON k.id = c.knowledge_id',
+  entryId: 'c.knowledge_id',
+  chunkColumns: 'c.chunk_index as matched_chunk, c.section as matched_section',
+};
+
+interface VectorHit {
+  id: string;
+  score: number;
+  matchedChunk: number;
+  matchedSection: string | null;
+}
+
+type Filters = { whereClause: string; filterArgs: (string | number)[] };
+
+function toHit(row: Record<string, unknown>): VectorHit {
+  return {
+    id: row.id as string,
+    score: 1 - (row.distance as number),
+    matchedChunk: Number(row.matched_chunk ?? 0),
+    matchedSection: (row.matched_section as string | null) ?? null,
+  };
+}
+
+/**
+ * Keep the best hit per entry (several chunks of one entry can match).
+ */
+function bestPerEntry(hits: VectorHit[]): VectorHit[] {
+  const best = new Map<string, VectorHit>();
+  for (const hit of hits) {
+    const existing = best.get(hit.id);
+    if (!existing || hit.score > existing.score) best.set(hit.id, hit);
+  }
+  return [...best.values()];
+}
+
+/**
+ * Exact filtered nearest-neighbour scan: every row passing the filters is scored.
+ * Returns the best `limit` entries at or above minScore.
+ */
+async function exactNearest(
+  client: Client,
+  source: VectorSource,
+  embeddingJson: string,
+  filters: Filters,
+  minScore: number,
+  limit: number,
+): Promise<VectorHit[]> {
+  // SQLite fills bare columns from the row holding MIN(), so the matched chunk is the closest one
+  const result = await client.execute({
+    sql: `SELECT ${source.entryId} as id, ${source.chunkColumns},
+            MIN(vector_distance_cos(${source.alias}.embedding, vector32(?))) as distance
+          FROM ${source.table} ${source.alias}
+          ${source.join}
+          WHERE ${source.alias}.embedding IS NOT NULL AND ${filters.whereClause}
+          GROUP BY ${source.entryId}
+          HAVING distance <= ?
+          ORDER BY distance ASC
+          LIMIT ?`,
+    args: [embeddingJson, ...filters.filterArgs, 1 - minScore, limit],
+  });
+  return result.rows.map((row) => toHit(row as Record<string, unknown>));
+}
+
+/**
+ * Best hit per entry from one vector source, enough to fill `need` results after the cursor.
+ * Filters are evaluated as a column rather than in WHERE, so a window whose candidates
+ * were all filtered out can be told apart from an exhausted index and widened.
+ * The loop stops once enough hits qualify or the window's farthest candidate already
+ * scores below minScore (nothing further can qualify); when the index runs out first,
+ * an exact scan finishes the job.
+ */
+async function nearestEntries(
+  client: Client,
+  source: VectorSource,
+  embeddingJson: string,
+  filters: Filters,
+  minScore: number,
+  need: number,
+  cursor?: SearchCursor,
+): Promise<VectorHit[]> {
+  const exactLimit = (cursor?.returned ?? 0) + need;
+  let window = Math.max(MIN_WINDOW, need * WINDOW_GROWTH);
+
+  for (;;) {
+    let rows: Record<string, unknown>[];
+    try {
+      const result = await client.execute({
+        sql: `SELECT ${source.entryId} as id, ${source.chunkColumns},
+                vector_distance_cos(${source.alias}.embedding, vector32(?)) as distance,
+                CASE WHEN ${filters.whereClause} THEN 1 ELSE 0 END as matches
+              FROM vector_top_k('${source.index}', vector32(?), ${window}) AS v
+              JOIN ${source.table} ${source.alias} ON ${source.alias}.rowid = v.id
+              ${source.join}
+              ORDER BY distance ASC`,
+        args: [embeddingJson, ...filters.filterArgs, embeddingJson],
+      });
+      rows = result.rows as unknown as Record<string, unknown>[];
+    } catch (error) {
+      if (!isMissingVectorIndex(error)) throw error;
+      return exactNearest(client, source, embeddingJson, filters, minScore, exactLimit);
+    }
+
+    const hits = bestPerEntry(
+      rows.filter((row) => Number(row.matches) === 1).map(toHit).filter((h) => h.score >= minScore),
+    );
+    const qualifying = hits.filter((h) => isAfterCursor(h, cursor)).length;
+    const exhausted = rows.length < window;
+    const farthest = rows[rows.length - 1];
+    const belowMinScore = farthest !== undefined && 1 - (farthest.distance as number) < minScore;
+    if (qualifying >= need || belowMinScore) {
+      return hits;
+    }
+    // The index is approximate: a short window does not prove that no other row qualifies
+    if (exhausted || window >= MAX_WINDOW) {
+      return exactNearest(client, source, embeddingJson, filters, minScore, exactLimit);
+    }
+    window *= WINDOW_GROWTH;
+  }
+}
 
+async function loadEntries(client: Client, ids: string[]): Promise<Map<string, Record<string, unknown>>> {
+  if (ids.length === 0) return new Map();
+  const result = await client.execute({
+    sql: `SELECT ${SEARCH_COLUMNS} FROM knowledge k WHERE k.id IN (${ids.map(() => '?').join(', ')})`,
+    args: ids,
+  });
+  return new Map(result.rows.map((row) => [row.id as string, row as Record<string, unknown>]));
+}
+
+/**
+ * Ranked vector hits (best of entry vector and section chunks) for the first
+ * `limit` results after the cursor, plus one extra to detect a further page.
+ */
+async function rankVectorHits(
+  client: Client,
+  queryEmbedding: number[],
+  options: VectorSearchOptions,
+  limit: number,
+  cursor?: SearchCursor,
+): Promise<VectorHit[]> {
+  const { minScore = 0 } = options;
+  const embeddingJson = JSON.stringify(queryEmbedding);
+  const filters = buildFilterConditions(options);
+  const need = limit + 1;
+
+  const hits = await nearestEntries(client, ENTRY_VECTORS, embeddingJson, filters, minScore, need, cursor);
+  if (await chunksTableExists(client)) {
+    hits.push(...await nearestEntries(client, CHUNK_VECTORS, embeddingJson, filters, minScore, need, cursor));
+  }
+  return bestPerEntry(hits).sort(compareResults);
+}
+
+/**
+ * Cosine search over entry vectors and the section chunks of long entries, one page at a time.
+ * Chunk hits collapse into one result per entry (best score wins), reporting the
+ * matching chunk and section. Filtered queries widen the candidate window until
+ * `limit` results meet minScore, so recall does not depend on how selective the filters are.
+ */
+export async function performVectorSearchPage(
+  client: Client,
+  queryEmbedding: number[],
+  options: VectorSearchOptions,
+): Promise<SearchPage> {
+  await assertEmbeddingModel(client);
+
+  const safeLimit = clampLimit(options.limit);
+  const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+  const ranked = await rankVectorHits(client, queryEmbedding, options, safeLimit, cursor);
+  const { page, nextCursor } = paginate(ranked, safeLimit, cursor);
+  const results = await markSuperseded(client, await toVectorResults(client, page, cursor?.returned ?? 0));
+
+  if (options.trackUsage !== false) {
+    await trackUsage(client, results.filter((r) => r.active).map((r) => r.id));
+  }
+
+  return { results, nextCursor };
+}
+
+/**
+ * Note on each result which entries supersede it.
+ */
+async function markSuperseded(client: Client, results: SearchResult[]): Promise<SearchResult[]> {
+  const superseding = await getSupersedingIds(client, results.map((r) => r.id));
+  return results.map((r) => (superseding.has(r.id) ? { ...r, superseded_by: superseding.get(r.id) } : r));
+}
+
+async function toVectorResults(client: Client, hits: VectorHit[], offset: number): Promise<SearchResult[]> {
+  const rows = await loadEntries(client, hits.map((h) => h.id));
+  return hits
+    .filter((h) => rows.has(h.id))
+    .map((h, i) => ({
+      ...parseKnowledgeRow(rows.get(h.id)!),
+      score: h.score,
+      matchedChunk: h.matchedChunk,
+      matchedSection: h.matchedSection,
+      vectorScore: h.score,
+      vectorRank: offset + i + 1,
+    }));
+}
+
+export async function performVectorSearch(
+  client: Client,
+  queryEmbedding: number[],
+  options: VectorSearchOptions,
+): Promise<SearchResult[]> {
+  return (await performVectorSearchPage(client, queryEmbedding, options)).results;
+}
+
+/**
+ * Turn free text into an FTS5 query: each word quoted (no operator injection), OR-ed together.
+ * Returns null when the query has no searchable terms.
+ */
+export function buildLexicalQuery(query: string): string | null {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms || terms.length === 0) return null;
+  return [...new Set(terms.map((t) => t.toLowerCase()))].map((t) => `"${t}"`).join(' OR ');
+}
+
+/**
+ * Full-text search over knowledge_fts ranked by bm25.
+ * lexicalScore is the negated bm25 rank (higher = better match).
+ */
+export async function performLexicalSearch(
+  client: Client,
+  query: string,
+  options: VectorSearchOptions,
+): Promise<SearchResult[]> {
+  const results = await lexicalCandidates(client, query, options, clampLimit(options.limit));
+
+  if (options.trackUsage !== false) {
+    await trackUsage(client, results.filter((r) => r.active).map((r) => r.id));
+  }
+
+  return results;
+}
+
+async function lexicalCandidates(
+  client: Client,
+  query: string,
+  options: VectorSearchOptions,
+  limit: number,
+): Promise<SearchResult[]> {
+  const match = buildLexicalQuery(query);
+  if (!match) return [];
+
+  const { whereClause, filterArgs } = buildFilterConditions(options);
+  let result;
   try {
     result = await client.execute({
       sql: `
-        SELECT
-          k.id, k.namespace, k.chunk_index, k.title, k.content,
-          k.category, k.tags, k.citations, k.source, k.origin_ticket_id, k.origin_ticket_type, k.confidence, k.active, k.decision_scope,
-          k.usage_count, k.last_used_at, k.author, k.branch, k.created_at,
-          vector_distance_cos(k.embedding, vector32(?)) as distance
-        FROM vector_top_k('knowledge_embedding_idx', vector32(?), ${topK}) AS v
-        JOIN knowledge k ON k.rowid = v.id
-        WHERE ${whereClause}
-        ORDER BY distance ASC
+        SELECT ${SEARCH_COLUMNS},
+          bm25(knowledge_fts, ${BM25_WEIGHTS}) as rank
+        FROM knowledge_fts
+        JOIN knowledge k ON k.rowid = knowledge_fts.rowid
+        WHERE knowledge_fts MATCH ? AND ${whereClause}
+        ORDER BY rank ASC
         LIMIT ?
       `,
-      args: [embeddingJson, embeddingJson, ...filterArgs, safeLimit],
+      args: [match, ...filterArgs, limit],
     });
   } catch (error) {
-    const msg = (error as Error).message;
-    if (msg.includes('vector_top_k') || msg.includes('vector index') || msg.includes('no such table')) {
-      result = await client.execute({
-        sql: `
-          SELECT
-            k.id, k.namespace, k.chunk_index, k.title, k.content,
-            k.category, k.tags, k.citations, k.source, k.origin_ticket_id, k.origin_ticket_type, k.confidence, k.active, k.decision_scope,
-            k.usage_count, k.last_used_at, k.created_at,
-            vector_distance_cos(k.embedding, vector32(?)) as distance
-          FROM knowledge k
-          WHERE ${whereClause}
-          ORDER BY distance ASC
-          LIMIT ?
-        `,
-        args: [embeddingJson, ...filterArgs, safeLimit],
-      });
-    } else {
-      throw error;
+    if ((error as Error).message.includes('no such table')) {
+      throw new Error('Full-text index missing. Run: superintent migrate', { cause: error });
     }
+    throw error;
   }
 
-  let results = result.rows
-    .map((row) => parseSearchRow(row as Record<string, unknown>))
-    .filter((r) => r.score >= minScore);
+  return result.rows.map((row, i) => {
+    const r = row as Record<string, unknown>;
+    const lexicalScore = -(r.rank as number);
+    return {
+      ...parseKnowledgeRow(r),
+      score: lexicalScore,
+      lexicalScore,
+      lexicalRank: i + 1,
+    };
+  });
+}
 
-  if (options.tags && options.tags.length > 0) {
-    results = results.filter((r) => {
-      if (!r.tags) return false;
-      return options.tags!.some((tag) => r.tags!.includes(tag));
+/**
+ * Search in the given mode, one page at a time. Lexical and hybrid results are scored
+ * with reciprocal rank fusion, normalized so 1.0 means ranked first in every list used.
+ * Vector mode keeps cosine similarity as the score.
+ * queryEmbedding may be null in lexical mode.
+ */
+export async function performSearchPage(
+  client: Client,
+  query: string,
+  queryEmbedding: number[] | null,
+  options: VectorSearchOptions & { mode?: SearchMode },
+): Promise<SearchPage> {
+  const mode = options.mode ?? 'vector';
+  const { minScore = 0 } = options;
+  const safeLimit = clampLimit(options.limit);
+
+  if (mode === 'vector') {
+    if (!queryEmbedding) throw new Error('Vector search requires a query embedding');
+    return performVectorSearchPage(client, queryEmbedding, options);
+  }
+
+  // Fused scores depend on every candidate list, so each page re-ranks from the top:
+  // over-fetch enough candidates to cover all earlier pages plus this one
+  const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+  const candidateLimit = ((cursor?.returned ?? 0) + safeLimit + 1) * 3;
+  const candidateOptions = { ...options, minScore: 0 };
+  const lists: SearchResult[][] = [];
+  if (mode === 'hybrid') {
+    if (!queryEmbedding) throw new Error('Hybrid search requires a query embedding');
+    await assertEmbeddingModel(client);
+    const hits = await rankVectorHits(client, queryEmbedding, candidateOptions, candidateLimit);
+    lists.push(await toVectorResults(client, hits.slice(0, candidateLimit), 0));
+  }
+  lists.push(await lexicalCandidates(client, query, candidateOptions, candidateLimit));
+
+  const maxFused = lists.length / (RRF_K + 1);
+  const fused = new Map<string, SearchResult & { fused: number }>();
+  for (const list of lists) {
+    list.forEach((r, i) => {
+      const contribution = 1 / (RRF_K + i + 1);
+      const existing = fused.get(r.id);
+      if (existing) {
+        existing.fused += contribution;
+        existing.vectorScore ??= r.vectorScore;
+        existing.vectorRank ??= r.vectorRank;
+        existing.lexicalScore ??= r.lexicalScore;
+        existing.lexicalRank ??= r.lexicalRank;
+      } else {
+        fused.set(r.id, { ...r, fused: contribution });
+      }
     });
   }
 
+  const ranked: SearchResult[] = [...fused.values()]
+    .map(({ fused: f, ...r }) => ({
+      ...r,
+      score: f / maxFused,
+      vectorScore: r.vectorScore ?? null,
+      vectorRank: r.vectorRank ?? null,
+      lexicalScore: r.lexicalScore ?? null,
+      lexicalRank: r.lexicalRank ?? null,
+    }))
+    .filter((r) => r.score >= minScore)
+    .sort(compareResults);
+  const { page, nextCursor } = paginate(ranked, safeLimit, cursor);
+  const results = await markSuperseded(client, page);
+
   if (options.trackUsage !== false) {
-    await trackUsage(results.map((r) => r.id));
+    await trackUsage(client, results.filter((r) => r.active).map((r) => r.id));
   }
 
-  return results;
+  return { results, nextCursor };
+}
+
+export async function performSearch(
+  client: Client,
+  query: string,
+  queryEmbedding: number[] | null,
+  options: VectorSearchOptions & { mode?: SearchMode },
+): Promise<SearchResult[]> {
+  return (await performSearchPage(client, query, queryEmbedding, options)).results;
 }
@@ -0,0 +1,173 @@
+/**
+ * Ticket flow analytics: lead time, cycle time, weekly throughput and WIP age.
+ * Completion and start times come from ticket_status_events; tickets that predate
+ * status history fall back to updated_at (completion) and created_at (start of WIP).
+ */
+
+import type { Client } from '@libsql/client';
+import { parseSqliteDatetime } from '../utils/time.js';
+import type {
+  DurationStats, TicketAnalytics, TicketFlowGroup, TicketStatus, TicketType, WipTicket,
+} from '../types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WIP_STATUSES: TicketStatus[] = ['In Progress', 'In Review', 'Blocked'];
+const OLDEST_WIP_LIMIT = 5;
+
+interface CompletedTicket {
+  type: string;
+  changeClass: string;
+  doneAt: Date;
+  leadDays: number;
+  cycleDays: number | null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * avg/median/p85 (nearest-rank) of a list of durations in days.
+ */
+export function durationStats(values: number[]): DurationStats {
+  if (values.length === 0) {
+    return { count: 0, avg: null, median: null, p85: null };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+  return {
+    count: sorted.length,
+    avg: round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    median: round(percentile(0.5)),
+    p85: round(percentile(0.85)),
+  };
+}
+
+function groupStats(tickets: CompletedTicket[]): TicketFlowGroup {
+  return {
+    completed: tickets.length,
+    leadTime: durationStats(tickets.map(t => t.leadDays)),
+    cycleTime: durationStats(tickets.filter(t => t.cycleDays !== null).map(t => t.cycleDays!)),
+  };
+}
+
+function groupBy(tickets: CompletedTicket[], key: (t: CompletedTicket) => string): Record<string, TicketFlowGroup> {
+  const groups = new Map<string, CompletedTicket[]>();
+  for (const t of tickets) {
+    const k = key(t);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(t);
+  }
+  return Object.fromEntries([...groups.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([k, list]) => [k, groupStats(list)]));
+}
+
+/**
+ * Monday (UTC) of the week containing `date`, as YYYY-MM-DD.
+ */
+function weekStart(date: Date): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+async function loadStatusEvents(client: Client): Promise<Map<string, { to: TicketStatus; at: Date }[]>> {
+  const byTicket = new Map<string, { to: TicketStatus; at: Date }[]>();
+  let rows;
+  try {
+    const result = await client.execute(
+      'SELECT ticket_id, to_status, created_at FROM ticket_status_events ORDER BY created_at ASC, id ASC'
+    );
+    rows = result.rows;
+  } catch (error) {
+    // Databases not yet migrated have no status history
+    if ((error as Error).message.includes('no such table')) return byTicket;
+    throw error;
+  }
+
+  for (const row of rows) {
+    const ticketId = row.ticket_id as string;
+    if (!byTicket.has(ticketId)) byTicket.set(ticketId, []);
+    byTicket.get(ticketId)!.push({ to: row.to_status as TicketStatus, at: parseSqliteDatetime(row.created_at as string) });
+  }
+  return byTicket;
+}
+
+/**
+ * Compute flow metrics for tickets completed since `since`, plus current WIP age.
+ */
+export async function computeTicketAnalytics(client: Client, since: Date, now: Date = new Date()): Promise<TicketAnalytics> {
+  const ticketsResult = await client.execute(
+    'SELECT id, title, type, change_class, status, created_at, updated_at FROM tickets'
+  );
+  const eventsByTicket = await loadStatusEvents(client);
+
+  const completed: CompletedTicket[] = [];
+  const wip: WipTicket[] = [];
+
+  for (const row of ticketsResult.rows) {
+    const id = row.id as string;
+    const status = row.status as TicketStatus;
+    const createdAt = parseSqliteDatetime(row.created_at as string);
+    const events = eventsByTicket.get(id) ?? [];
+    const firstStarted = events.find(e => e.to === 'In Progress')?.at;
+
+    if (status === 'Done') {
+      const doneEvents = events.filter(e => e.to === 'Done');
+      const doneAt = doneEvents.length > 0
+        ? doneEvents[doneEvents.length - 1].at
+        : parseSqliteDatetime(row.updated_at as string);
+      if (doneAt < since || doneAt > now) continue;
+
+      completed.push({
+        type: (row.type as string | null) || 'unknown',
+        changeClass: (row.change_class as string | null) || 'unclassified',
+        doneAt,
+        leadDays: round((doneAt.getTime() - createdAt.getTime()) / DAY_MS),
+        cycleDays: firstStarted && firstStarted <= doneAt
+          ? round((doneAt.getTime() - firstStarted.getTime()) / DAY_MS)
+          : null,
+      });
+    } else if (WIP_STATUSES.includes(status)) {
+      const startedAt = firstStarted ?? createdAt;
+      wip.push({
+        id,
+        title: (row.title as string | null) || undefined,
+        type: (row.type as TicketType | null) || undefined,
+        status,
+        ageDays: round((now.getTime() - startedAt.getTime()) / DAY_MS),
+      });
+    }
+  }
+
+  // One bucket per week in the window, including empty weeks
+  const throughputCounts = new Map<string, number>();
+  for (let d = new Date(since); d <= now; d = new Date(d.getTime() + 7 * DAY_MS)) {
+    throughputCounts.set(weekStart(d), 0);
+  }
+  throughputCounts.set(weekStart(now), throughputCounts.get(weekStart(now)) ?? 0);
+  for (const t of completed) {
+    const week = weekStart(t.doneAt);
+    throughputCounts.set(week, (throughputCounts.get(week) ?? 0) + 1);
+  }
+
+  wip.sort((a, b) => b.ageDays - a.ageDays);
+  const overall = groupStats(completed);
+
+  return {
+    since: since.toISOString(),
+    until: now.toISOString(),
+    completed: overall.completed,
+    leadTime: overall.leadTime,
+    cycleTime: overall.cycleTime,
+    byType: groupBy(completed, t => t.type),
+    byChangeClass: groupBy(completed, t => t.changeClass),
+    throughput: [...throughputCounts.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([week, count]) => ({ weekStart: week, completed: count })),
+    wip: {
+      count: wip.length,
+      avgAgeDays: wip.length > 0 ? round(wip.reduce((sum, t) => sum + t.ageDays, 0) / wip.length) : null,
+      oldest: wip.slice(0, OLDEST_WIP_LIMIT),
+    },
+  };
+}
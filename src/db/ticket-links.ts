@@ -0,0 +1,178 @@
+/**
+ * Ticket dependency graph.
+ * Links are stored directed in ticket_links; blocked_by is written as the inverse blocks row.
+ */
+
+import type { Client } from '@libsql/client';
+import { ValidationError, NotFoundError } from '../errors.js';
+import { findLinkPath } from './link-graph.js';
+import type { TicketLinkType, TicketLinkRef, TicketDependencies, TicketStatus } from '../types.js';
+
+export const TICKET_LINK_TYPES: TicketLinkType[] = ['blocks', 'blocked_by', 'relates_to', 'duplicates'];
+
+type StoredLinkType = Exclude<TicketLinkType, 'blocked_by'>;
+
+/**
+ * Map a link request onto the stored (from, to, type) row.
+ */
+function normalizeLink(fromId: string, toId: string, type: TicketLinkType): { from: string; to: string; type: StoredLinkType } {
+  return type === 'blocked_by'
+    ? { from: toId, to: fromId, type: 'blocks' }
+    : { from: fromId, to: toId, type };
+}
+
+/**
+ * Link two tickets. Throws if either ticket is missing, the link already exists,
+ * or a blocks/duplicates link would close a cycle.
+ */
+export async function addTicketLink(
+  client: Client,
+  ticketId: string,
+  otherId: string,
+  type: TicketLinkType,
+  author: string,
+): Promise<void> {
+  if (ticketId === otherId) {
+    throw new ValidationError('A ticket cannot be linked to itself');
+  }
+
+  const existing = await client.execute({
+    sql: 'SELECT id FROM tickets WHERE id IN (?, ?)',
+    args: [ticketId, otherId],
+  });
+  const found = new Set(existing.rows.map(row => row.id as string));
+  for (const id of [ticketId, otherId]) {
+    if (!found.has(id)) throw new NotFoundError(`Ticket ${id} not found`);
+  }
+
+  const link = normalizeLink(ticketId, otherId, type);
+
+  // relates_to is symmetric, so either direction counts as a duplicate link
+  const duplicate = await client.execute({
+    sql: link.type === 'relates_to'
+      ? `SELECT 1 FROM ticket_links WHERE type = ? AND ((from_id = ? AND to_id = ?) OR (from_id = ? AND to_id = ?))`
+      : 'SELECT 1 FROM ticket_links WHERE type = ? AND from_id = ? AND to_id = ?',
+    args: link.type === 'relates_to'
+      ? [link.type, link.from, link.to, link.to, link.from]
+      : [link.type, link.from, link.to],
+  });
+  if (duplicate.rows.length > 0) {
+    throw new ValidationError(`${ticketId} already ${type.replace('_', ' ')} ${otherId}`);
+  }
+
+  if (link.type !== 'relates_to') {
+    const path = await findLinkPath(client, 'ticket_links', link.type, link.to, link.from);
+    if (path) {
+      throw new ValidationError(`Link would create a ${link.type} cycle: ${[link.from, ...path].join(' -> ')}`);
+    }
+  }
+
+  await client.execute({
+    sql: 'INSERT INTO ticket_links (from_id, to_id, type, author) VALUES (?, ?, ?, ?)',
+    args: [link.from, link.to, link.type, author],
+  });
+}
+
+/**
+ * Remove links between two tickets, in either direction.
+ * Limited to one link type when given. Returns the number of links removed.
+ */
+export async function removeTicketLinks(
+  client: Client,
+  ticketId: string,
+  otherId: string,
+  type?: TicketLinkType,
+): Promise<number> {
+  let where = '((from_id = ? AND to_id = ?) OR (from_id = ? AND to_id = ?))';
+  let args: string[] = [ticketId, otherId, otherId, ticketId];
+
+  if (type) {
+    const link = normalizeLink(ticketId, otherId, type);
+    if (link.type === 'relates_to') {
+      where += ' AND type = ?';
+      args.push(link.type);
+    } else {
+      // Directed types only match their own direction
+      where = 'from_id = ? AND to_id = ? AND type = ?';
+      args = [link.from, link.to, link.type];
+    }
+  }
+
+  const result = await client.execute({
+    sql: `DELETE FROM ticket_links WHERE ${where}`,
+    args,
+  });
+  return result.rowsAffected;
+}
+
+/**
+ * Drop every link touching a ticket (used when the ticket is deleted).
+ */
+export async function deleteTicketLinks(client: Client, ticketId: string): Promise<void> {
+  await client.execute({
+    sql: 'DELETE FROM ticket_links WHERE from_id = ? OR to_id = ?',
+    args: [ticketId, ticketId],
+  });
+}
+
+/**
+ * All links of a ticket grouped by relation, with the linked ticket's title and status.
+ */
+export async function getTicketDependencies(client: Client, ticketId: string): Promise<TicketDependencies> {
+  const result = await client.execute({
+    sql: `SELECT l.from_id, l.to_id, l.type, t.id, t.title, t.status
+          FROM ticket_links l
+          JOIN tickets t ON t.id = CASE WHEN l.from_id = ? THEN l.to_id ELSE l.from_id END
+          WHERE l.from_id = ? OR l.to_id = ?
+          ORDER BY l.created_at ASC`,
+    args: [ticketId, ticketId, ticketId],
+  });
+
+  const deps: TicketDependencies = { blocks: [], blocked_by: [], relates_to: [], duplicates: [], duplicated_by: [] };
+  for (const row of result.rows) {
+    const ref: TicketLinkRef = {
+      id: row.id as string,
+      title: (row.title as string | null) || undefined,
+      status: row.status as TicketStatus,
+    };
+    const outgoing = row.from_id === ticketId;
+    switch (row.type as StoredLinkType) {
+      case 'blocks':
+        (outgoing ? deps.blocks : deps.blocked_by).push(ref);
+        break;
+      case 'duplicates':
+        (outgoing ? deps.duplicates : deps.duplicated_by).push(ref);
+        break;
+      case 'relates_to':
+        deps.relates_to.push(ref);
+        break;
+    }
+  }
+  return deps;
+}
+
+/**
+ * Tickets blocked by `ticketId` whose blockers are now all Done.
+ * Call after moving `ticketId` to Done to report what it unblocked.
+ */
+export async function findUnblockedTickets(client: Client, ticketId: string): Promise<TicketLinkRef[]> {
+  const result = await client.execute({
+    sql: `SELECT t.id, t.title, t.status
+          FROM ticket_links l
+          JOIN tickets t ON t.id = l.to_id
+          WHERE l.from_id = ? AND l.type = 'blocks'
+            AND t.status NOT IN ('Done', 'Abandoned', 'Superseded')
+            AND NOT EXISTS (
+              SELECT 1 FROM ticket_links other
+              JOIN tickets blocker ON blocker.id = other.from_id
+              WHERE other.to_id = t.id AND other.type = 'blocks' AND blocker.status != 'Done'
+            )
+          ORDER BY t.created_at ASC`,
+    args: [ticketId],
+  });
+  return result.rows.map(row => ({
+    id: row.id as string,
+    title: (row.title as string | null) || undefined,
+    status: row.status as TicketStatus,
+  }));
+}
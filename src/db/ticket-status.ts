@@ -0,0 +1,108 @@
+/**
+ * Ticket status state machine.
+ * Declares which status changes are allowed and logs every change to ticket_status_events.
+ */
+
+import type { Client } from '@libsql/client';
+import { parseTicketStatusEventRow } from './parsers.js';
+import { generateId } from '../utils/id.js';
+import { ValidationError, NotFoundError } from '../errors.js';
+import type { TicketStatus, TicketStatusEvent } from '../types.js';
+
+export const TICKET_STATUSES: TicketStatus[] = [
+  'Backlog', 'In Progress', 'In Review', 'Done', 'Blocked', 'Abandoned', 'Superseded',
+];
+
+// Allowed next statuses. Normal flow is Backlog → In Progress → In Review → Done;
+// any open ticket can become Blocked, Abandoned or Superseded. Superseded is terminal.
+export const TICKET_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  'Backlog': ['In Progress', 'Blocked', 'Abandoned', 'Superseded'],
+  'In Progress': ['In Review', 'Backlog', 'Blocked', 'Abandoned', 'Superseded'],
+  'In Review': ['Done', 'In Progress', 'Blocked', 'Abandoned', 'Superseded'],
+  'Done': ['In Progress'],
+  'Blocked': ['Backlog', 'In Progress', 'In Review', 'Abandoned', 'Superseded'],
+  'Abandoned': ['Backlog'],
+  'Superseded': [],
+};
+
+export interface StatusChangeOptions {
+  force?: boolean;
+  replacedBy?: string;
+}
+
+export function isTicketStatus(value: unknown): value is TicketStatus {
+  return TICKET_STATUSES.includes(value as TicketStatus);
+}
+
+/**
+ * Validate a status change. Throws with a user-facing message when it is not allowed.
+ * `force` skips the transition table but never the Superseded replacement requirement.
+ */
+export async function assertStatusTransition(
+  client: Client,
+  ticketId: string,
+  from: TicketStatus,
+  to: TicketStatus,
+  options: StatusChangeOptions = {},
+): Promise<void> {
+  if (!isTicketStatus(to)) {
+    throw new ValidationError(`Invalid status '${to}'. Must be one of: ${TICKET_STATUSES.join(', ')}`);
+  }
+
+  if (!options.force && from !== to && !TICKET_TRANSITIONS[from]?.includes(to)) {
+    const allowed = TICKET_TRANSITIONS[from]?.length ? TICKET_TRANSITIONS[from].join(', ') : 'none';
+    throw new ValidationError(`Cannot move ticket from ${from} to ${to} (allowed: ${allowed}). Use --force to override`);
+  }
+
+  if (to === 'Superseded') {
+    if (!options.replacedBy) {
+      throw new ValidationError('Superseded requires the replacement ticket ID (--replaced-by)');
+    }
+    if (options.replacedBy === ticketId) {
+      throw new ValidationError('A ticket cannot supersede itself');
+    }
+    const replacement = await client.execute({
+      sql: 'SELECT id FROM tickets WHERE id = ?',
+      args: [options.replacedBy],
+    });
+    if (replacement.rows.length === 0) {
+      throw new NotFoundError(`Replacement ticket ${options.replacedBy} not found`);
+    }
+  }
+}
+
+/**
+ * Log a status change. Call after the ticket row has been updated.
+ */
+export async function recordStatusEvent(
+  client: Client,
+  ticketId: string,
+  from: TicketStatus | null,
+  to: TicketStatus,
+  author: string,
+  options: StatusChangeOptions = {},
+): Promise<void> {
+  const forced = !!options.force && from !== null && !TICKET_TRANSITIONS[from]?.includes(to);
+  await client.execute({
+    sql: `INSERT INTO ticket_status_events (id, ticket_id, from_status, to_status, replaced_by, forced, author)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      generateId('TSEV'),
+      ticketId,
+      from,
+      to,
+      to === 'Superseded' ? options.replacedBy ?? null : null,
+      forced ? 1 : 0,
+      author,
+    ],
+  });
+}
+
+export async function getStatusHistory(client: Client, ticketId: string): Promise<TicketStatusEvent[]> {
+  const result = await client.execute({
+    sql: `SELECT id, ticket_id, from_status, to_status, replaced_by, forced, author, created_at
+          FROM ticket_status_events WHERE ticket_id = ? ORDER BY created_at ASC, id ASC`,
+    args: [ticketId],
+  });
+  return result.rows.map(row => parseTicketStatusEventRow(row as Record<string, unknown>));
+}
@@ -2,16 +2,15 @@
  * Knowledge usage tracking utilities.
  */
 
-import { getClient } from './client.js';
+import type { Client } from '@libsql/client';
 
 /**
  * Track usage for knowledge entries by incrementing usage_count and updating last_used_at.
  * Silently fails on error since usage tracking is non-critical.
  */
-export async function trackUsage(ids: string[]): Promise<void> {
+export async function trackUsage(client: Client, ids: string[]): Promise<void> {
   if (ids.length === 0) return;
   try {
-    const client = await getClient();
     const now = new Date().toISOString();
     const placeholders = ids.map(() => '?').join(',');
     await client.execute({
@@ -0,0 +1,154 @@
+/**
+ * Reads of webhook_events (trigger-written lifecycle events, see schema.ts) and
+ * the webhook_deliveries log.
+ */
+
+import type { Client } from '@libsql/client';
+import { parseWebhookEventRow, parseWebhookDeliveryRow } from './parsers.js';
+import { generateId } from '../utils/id.js';
+import type { WebhookEvent, WebhookDelivery, WebhookDeliveryStatus } from '../types.js';
+
+export async function getLatestWebhookEventSeq(client: Client): Promise<number> {
+  const result = await client.execute('SELECT MAX(seq) AS latest FROM webhook_events');
+  return Number((result.rows[0] as Record<string, unknown> | undefined)?.latest ?? 0);
+}
+
+/**
+ * Events after `afterSeq`, oldest first.
+ */
+export async function getWebhookEventsSince(client: Client, afterSeq: number, limit: number): Promise<WebhookEvent[]> {
+  const result = await client.execute({
+    sql: `SELECT seq, type, entity, entity_id, data, actor, created_at
+          FROM webhook_events WHERE seq > ? ORDER BY seq ASC LIMIT ?`,
+    args: [afterSeq, limit],
+  });
+  return result.rows.map(row => parseWebhookEventRow(row as Record<string, unknown>));
+}
+
+export interface NewWebhookDelivery {
+  webhookId: string;
+  eventSeq?: number;
+  eventType: string;
+  url: string;
+  payload: string;
+}
+
+/**
+ * Add a pending delivery, due now. Returns null when this event was already queued
+ * for the webhook (e.g. by a dispatcher in another process).
+ */
+export async function createWebhookDelivery(client: Client, delivery: NewWebhookDelivery): Promise<WebhookDelivery | null> {
+  const id = generateId('WHDL');
+  const result = await client.execute({
+    sql: `INSERT OR IGNORE INTO webhook_deliveries (id, webhook_id, event_seq, event_type, url, payload, next_attempt_at)
+          VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`,
+    args: [id, delivery.webhookId, delivery.eventSeq ?? null, delivery.eventType, delivery.url, delivery.payload],
+  });
+  if (result.rowsAffected === 0) return null;
+  return getWebhookDelivery(client, id);
+}
+
+export async function getWebhookDelivery(client: Client, id: string): Promise<WebhookDelivery | null> {
+  const result = await client.execute({ sql: 'SELECT * FROM webhook_deliveries WHERE id = ?', args: [id] });
+  return result.rows.length > 0 ? parseWebhookDeliveryRow(result.rows[0] as Record<string, unknown>) : null;
+}
+
+export interface WebhookDeliveryFilter {
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  limit: number;
+}
+
+/**
+ * Most recent deliveries first.
+ */
+export async function listWebhookDeliveries(client: Client, filter: WebhookDeliveryFilter): Promise<WebhookDelivery[]> {
+  const conditions: string[] = [];
+  const args: (string | number)[] = [];
+  if (filter.webhookId) {
+    conditions.push('webhook_id = ?');
+    args.push(filter.webhookId);
+  }
+  if (filter.status) {
+    conditions.push('status = ?');
+    args.push(filter.status);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const result = await client.execute({
+    sql: `SELECT * FROM webhook_deliveries ${where} ORDER BY created_at DESC, id DESC LIMIT ?`,
+    args: [...args, filter.limit],
+  });
+  return result.rows.map(row => parseWebhookDeliveryRow(row as Record<string, unknown>));
+}
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first.
+ */
+export async function getDueWebhookDeliveries(client: Client, webhookIds: string[], limit: number): Promise<WebhookDelivery[]> {
+  if (webhookIds.length === 0) return [];
+  const result = await client.execute({
+    sql: `SELECT * FROM webhook_deliveries
+          WHERE status = 'pending' AND next_attempt_at <= datetime('now')
+            AND webhook_id IN (${webhookIds.map(() => '?').join(', ')})
+          ORDER BY next_attempt_at ASC LIMIT ?`,
+    args: [...webhookIds, limit],
+  });
+  return result.rows.map(row => parseWebhookDeliveryRow(row as Record<string, unknown>));
+}
+
+/**
+ * Take a delivery for one attempt to `url` (the subscription's current URL): counts
+ * the attempt and pushes next_attempt_at out by `leaseSeconds`, so other dispatchers
+ * skip it while the request is in flight. False when another process claimed it first.
+ */
+export async function claimWebhookDelivery(
+  client: Client,
+  delivery: WebhookDelivery,
+  url: string,
+  leaseSeconds: number,
+): Promise<boolean> {
+  const result = await client.execute({
+    sql: `UPDATE webhook_deliveries
+          SET status = 'pending', url = ?, attempts = attempts + 1, next_attempt_at = datetime('now', ?), updated_at = datetime('now')
+          WHERE id = ? AND attempts = ?`,
+    args: [url, `+${leaseSeconds} seconds`, delivery.id, delivery.attempts],
+  });
+  return result.rowsAffected > 0;
+}
+
+export interface WebhookAttemptResult {
+  status: WebhookDeliveryStatus;
+  responseStatus?: number;
+  error?: string;
+  // Seconds until the next retry (status 'pending')
+  retryInSeconds?: number;
+}
+
+export async function recordWebhookAttempt(client: Client, id: string, attempt: WebhookAttemptResult): Promise<void> {
+  await client.execute({
+    sql: `UPDATE webhook_deliveries
+          SET status = ?, response_status = ?, last_error = ?,
+              next_attempt_at = CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', ?) END,
+              updated_at = datetime('now')
+          WHERE id = ?`,
+    args: [
+      attempt.status,
+      attempt.responseStatus ?? null,
+      attempt.error ?? null,
+      attempt.retryInSeconds ?? null,
+      `+${attempt.retryInSeconds ?? 0} seconds`,
+      id,
+    ],
+  });
+}
+
+/**
+ * Drop finished deliveries older than `days`; pending ones are kept until they finish.
+ */
+export async function pruneWebhookDeliveries(client: Client, days: number): Promise<number> {
+  const result = await client.execute({
+    sql: `DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < datetime('now', ?)`,
+    args: [`-${days} days`],
+  });
+  return result.rowsAffected;
+}
@@ -0,0 +1,123 @@
+/**
+ * Persistent embedding cache (.superintent/embeddings.db) shared by every process
+ * in the workspace, so the CLI does not re-embed the same text on each run.
+ * Vectors are keyed by a hash of the model settings and the text, and each row
+ * records the model that produced it. Cache errors never fail an embedding:
+ * the cache switches itself off and vectors are computed as usual.
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@libsql/client';
+import type { Client, InStatement } from '@libsql/client';
+
+const CREATE_EMBEDDING_CACHE_TABLE = `
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  hash TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimension INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+)`;
+
+// Oldest vectors are dropped past this many rows when the cache is opened (~1.5 KB each at 384 dimensions)
+const MAX_CACHE_ROWS = 50000;
+const LOOKUP_CHUNK_SIZE = 200;
+
+export class EmbeddingDiskCache {
+  private readonly path: string;
+  private readonly scope: string;
+  private readonly model: string;
+  private readonly dimension: number;
+  private client: Client | null = null;
+  private ready: Promise<boolean> | null = null;
+
+  /**
+   * @param scope every setting that changes the vectors (model, dimension, pooling, query prefix)
+   */
+  constructor(path: string, scope: string, model: string, dimension: number) {
+    this.path = path;
+    this.scope = scope;
+    this.model = model;
+    this.dimension = dimension;
+  }
+
+  private hash(text: string, isQuery: boolean): string {
+    return createHash('sha256')
+      .update(`${this.scope}\0${isQuery ? 'q' : 'd'}\0${text}`)
+      .digest('hex');
+  }
+
+  private async open(): Promise<Client | null> {
+    this.ready ??= (async () => {
+      try {
+        this.client = createClient({ url: `file:${this.path}` });
+        await this.client.execute('PRAGMA busy_timeout = 2000');
+        await this.client.execute(CREATE_EMBEDDING_CACHE_TABLE);
+        // Trim once per process rather than on every write
+        await this.client.execute({
+          sql: `DELETE FROM embedding_cache WHERE rowid IN (
+                  SELECT rowid FROM embedding_cache ORDER BY rowid DESC LIMIT -1 OFFSET ?
+                )`,
+          args: [MAX_CACHE_ROWS],
+        });
+        return true;
+      } catch {
+        this.close();
+        return false;
+      }
+    })();
+    return (await this.ready) ? this.client : null;
+  }
+
+  /**
+   * Cached vectors for the given texts (texts without one are absent from the map).
+   */
+  async getMany(texts: string[], isQuery: boolean): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    const client = await this.open();
+    if (!client) return found;
+
+    const byHash = new Map(texts.map(text => [this.hash(text, isQuery), text]));
+    const hashes = [...byHash.keys()];
+    try {
+      for (let i = 0; i < hashes.length; i += LOOKUP_CHUNK_SIZE) {
+        const chunk = hashes.slice(i, i + LOOKUP_CHUNK_SIZE);
+        const result = await client.execute({
+          sql: `SELECT hash, vector FROM embedding_cache
+                WHERE model = ? AND dimension = ? AND hash IN (${chunk.map(() => '?').join(', ')})`,
+          args: [this.model, this.dimension, ...chunk],
+        });
+        for (const row of result.rows) {
+          const value = row.vector;
+          if (!(value instanceof ArrayBuffer) || value.byteLength !== this.dimension * 4) continue;
+          found.set(byHash.get(row.hash as string)!, Array.from(new Float32Array(value)));
+        }
+      }
+    } catch {
+      this.close();
+    }
+    return found;
+  }
+
+  async setMany(entries: { text: string; vector: number[] }[], isQuery: boolean): Promise<void> {
+    if (entries.length === 0) return;
+    const client = await this.open();
+    if (!client) return;
+
+    const statements: InStatement[] = entries.map(({ text, vector }) => ({
+      sql: `INSERT OR REPLACE INTO embedding_cache (hash, model, dimension, vector) VALUES (?, ?, ?, ?)`,
+      args: [this.hash(text, isQuery), this.model, this.dimension, new Uint8Array(new Float32Array(vector).buffer)],
+    }));
+    try {
+      await client.batch(statements, 'write');
+    } catch {
+      this.close();
+    }
+  }
+
+  close(): void {
+    this.client?.close();
+    this.client = null;
+    this.ready = Promise.resolve(false);
+  }
+}
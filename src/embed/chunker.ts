@@ -0,0 +1,96 @@
+/**
+ * Split long knowledge content into overlapping chunks along the section
+ * headers of the category templates (Why / When / Pattern, Fact / Verified, …).
+ * Short entries are embedded whole and produce no chunks.
+ */
+
+export interface ContentChunk {
+  section: string | null; // template header the chunk belongs to (null before the first header)
+  text: string;
+}
+
+// Entries up to this length are embedded as a single vector
+export const CHUNK_THRESHOLD = 1000;
+const MAX_CHUNK_CHARS = 800;
+const CHUNK_OVERLAP = 150;
+
+// Section headers of the category templates (see KnowledgeCategory in types.ts)
+const TEMPLATE_HEADERS = [
+  'Why', 'When', 'Pattern',
+  'Fact', 'Verified',
+  'Rule', 'Applies',
+  'Component', 'Responsibility', 'Interfaces',
+  'Attempted', 'Failed Because', 'Instead', 'Symptoms',
+];
+
+const HEADER_LINE = new RegExp(`^(?:(${TEMPLATE_HEADERS.join('|')}):\\s*(.*)|#{1,6}\\s+(.+))$`, 'i');
+
+function splitSections(content: string): ContentChunk[] {
+  const sections: ContentChunk[] = [];
+  let current: { section: string | null; lines: string[] } = { section: null, lines: [] };
+
+  const flush = () => {
+    const text = current.lines.join('\n').trim();
+    if (text) sections.push({ section: current.section, text });
+  };
+
+  for (const line of content.split('\n')) {
+    const match = line.trim().match(HEADER_LINE);
+    if (match) {
+      flush();
+      const header = match[1] ?? match[3];
+      // Normalize template headers to their canonical spelling
+      const canonical = TEMPLATE_HEADERS.find(h => h.toLowerCase() === header.toLowerCase()) ?? header.trim();
+      current = { section: canonical, lines: match[2] ? [match[2]] : [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+/**
+ * Cut text into windows of at most MAX_CHUNK_CHARS that overlap by about
+ * CHUNK_OVERLAP characters, breaking on whitespace where possible.
+ */
+function splitWindows(text: string): string[] {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+
+  const windows: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + MAX_CHUNK_CHARS);
+    if (end < text.length) {
+      const breakAt = text.lastIndexOf(' ', end);
+      const lineBreak = text.lastIndexOf('\n', end);
+      const boundary = Math.max(breakAt, lineBreak);
+      if (boundary > start + MAX_CHUNK_CHARS / 2) end = boundary;
+    }
+    windows.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+
+    let next = end - CHUNK_OVERLAP;
+    const wordStart = text.indexOf(' ', next);
+    if (wordStart !== -1 && wordStart < end) next = wordStart + 1;
+    start = Math.max(next, start + 1);
+  }
+  return windows.filter(Boolean);
+}
+
+/**
+ * Chunks for a knowledge entry's content, or [] when it is short enough to embed whole.
+ */
+export function chunkContent(content: string): ContentChunk[] {
+  if (content.length <= CHUNK_THRESHOLD) return [];
+  return splitSections(content).flatMap(({ section, text }) =>
+    splitWindows(text).map(window => ({ section, text: window }))
+  );
+}
+
+/**
+ * Text embedded for a chunk: the entry title and section give the chunk its context.
+ */
+export function chunkEmbeddingText(title: string, chunk: ContentChunk): string {
+  return `${title}${chunk.section ? ` ${chunk.section}:` : ''} ${chunk.text}`;
+}
@@ -1,110 +1,138 @@
-import { pipeline, env, type ProgressInfo } from '@huggingface/transformers';
-import { existsSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
+import { loadEmbeddingConfig, getEmbeddingCachePath, embeddingScope } from '../utils/config.js';
+import { TransformersEmbeddingProvider } from './transformers.js';
+import { OpenAIEmbeddingProvider } from './openai.js';
+import { EmbeddingDiskCache } from './cache.js';
+import { daemonEmbedBatch } from '../daemon/client.js';
+import type { EmbeddingProvider } from './provider.js';
+import type { EmbeddingConfig } from '../utils/config.js';
 
-// Suppress model loading warnings
-env.allowLocalModels = true;
-env.allowRemoteModels = true;
+let provider: EmbeddingProvider | null = null;
+let diskCache: EmbeddingDiskCache | null = null;
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let extractor: any = null;
+// Texts sent to the provider per call
+export const EMBED_BATCH_SIZE = 32;
 
-const MODEL_NAME = 'Xenova/bge-small-en-v1.5';
-const QUERY_PREFIX = 'Represent this sentence for searching relevant passages: ';
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'transformers':
+      return new TransformersEmbeddingProvider(config);
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config);
+  }
+}
 
 /**
- * Get or initialize the embedding pipeline.
- * First call downloads the model (~67MB), subsequent calls use cache.
+ * The embedding provider configured in .superintent/.env (EMBEDDING_* keys).
+ * Defaults to the local Xenova/bge-small-en-v1.5 ONNX model (384 dimensions).
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function getEmbedder(): Promise<any> {
-  if (extractor) {
-    return extractor;
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    const config = loadEmbeddingConfig();
+    provider = createEmbeddingProvider(config);
+    const cachePath = getEmbeddingCachePath();
+    if (cachePath) {
+      diskCache = new EmbeddingDiskCache(cachePath, embeddingScope(config), provider.id, provider.dimension);
+    }
   }
-
-  // Check if model is already cached
-  const cacheDir = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'node_modules', '@huggingface', 'transformers', '.cache', ...MODEL_NAME.split('/'));
-  const isCached = existsSync(join(cacheDir, 'onnx', 'model_quantized.onnx'));
-
-  let downloading = false;
-  const origWarn = console.warn;
-
-  extractor = await pipeline('feature-extraction', MODEL_NAME, {
-    dtype: 'fp32',
-    model_file_name: 'model_quantized',
-    progress_callback: !isCached ? (info: ProgressInfo) => {
-      if (info.status === 'download' && !downloading) {
-        downloading = true;
-        console.warn = () => {};
-        process.stderr.write('* Downloading embedding model...\n');
-      }
-      if (info.status === 'progress' && downloading && 'loaded' in info && info.file?.includes('onnx') && info.loaded > 0) {
-        const mb = (info.loaded / 1024 / 1024).toFixed(1);
-        process.stderr.write(`\r* Downloading... ${mb} MB`);
-      }
-      if (info.status === 'ready') {
-        console.warn = origWarn;
-        if (downloading) {
-          process.stderr.write('\r* Model ready.              \n');
-        }
-      }
-    } : undefined,
-  });
-  return extractor;
+  return provider;
 }
 
 const MAX_CACHE_SIZE = 100;
 const embeddingCache = new Map<string, number[]>();
 
-/**
- * Generate embedding for a single text.
- * Returns a 384-dimensional normalized vector.
- * Results are cached in memory (LRU, up to MAX_CACHE_SIZE entries).
- */
-/**
- * Dispose the embedding pipeline to release onnxruntime native resources.
- * Safe to call even if the pipeline was never initialized (no-op).
- */
 /**
  * Eagerly load the embedding model (triggers download on first run).
  */
 export async function preloadModel(): Promise<void> {
-  await getEmbedder();
+  await getEmbeddingProvider().preload();
 }
 
+/**
+ * Dispose the embedding provider to release native resources (onnxruntime).
+ * Safe to call even if no provider was initialized (no-op).
+ */
 export async function disposeEmbedder(): Promise<void> {
-  if (extractor) {
-    await extractor.dispose();
-    extractor = null;
+  if (provider) {
+    await provider.dispose();
+    provider = null;
+    diskCache?.close();
+    diskCache = null;
     embeddingCache.clear();
   }
 }
 
-export async function embed(text: string, isQuery = false): Promise<number[]> {
-  const input = isQuery ? QUERY_PREFIX + text : text;
-  const cached = embeddingCache.get(input);
-  if (cached) {
-    // Move to end for LRU freshness
-    embeddingCache.delete(input);
-    embeddingCache.set(input, cached);
-    return cached;
-  }
-
-  const embedder = await getEmbedder();
-  const result = await embedder(input, {
-    pooling: 'cls',
-    normalize: true,
-  });
-
-  const embedding = Array.from(result.data as Float32Array);
-
+function rememberEmbedding(key: string, embedding: number[]): void {
   // Evict oldest entry if at capacity
   if (embeddingCache.size >= MAX_CACHE_SIZE) {
     const oldest = embeddingCache.keys().next().value!;
     embeddingCache.delete(oldest);
   }
+  embeddingCache.set(key, embedding);
+}
 
-  embeddingCache.set(input, embedding);
+/**
+ * Generate embeddings for many texts with the configured provider, in input order.
+ * Queries get the provider's query prefix (if any).
+ * Lookups go through the in-memory LRU (up to MAX_CACHE_SIZE entries), then the
+ * on-disk cache, then the daemon (see daemon/client.ts); only the remaining texts
+ * reach the provider, EMBED_BATCH_SIZE at a time.
+ */
+export async function embedBatch(texts: string[], isQuery = false): Promise<number[][]> {
+  const embedder = getEmbeddingProvider();
+  const prefix = isQuery ? 'q:' : 'd:';
+  const vectors = new Map<string, number[]>();
+  let missing: string[] = [];
+
+  for (const text of new Set(texts)) {
+    const cached = embeddingCache.get(prefix + text);
+    if (cached) {
+      // Move to end for LRU freshness
+      embeddingCache.delete(prefix + text);
+      embeddingCache.set(prefix + text, cached);
+      vectors.set(text, cached);
+    } else {
+      missing.push(text);
+    }
+  }
+
+  if (missing.length > 0 && diskCache) {
+    const stored = await diskCache.getMany(missing, isQuery);
+    for (const [text, vector] of stored) {
+      vectors.set(text, vector);
+      rememberEmbedding(prefix + text, vector);
+    }
+    missing = missing.filter(text => !stored.has(text));
+  }
+
+  // A running daemon has the model loaded already (and writes the disk cache itself)
+  if (missing.length > 0) {
+    const delegated = await daemonEmbedBatch(missing, isQuery);
+    if (delegated) {
+      missing.forEach((text, i) => {
+        vectors.set(text, delegated[i]);
+        rememberEmbedding(prefix + text, delegated[i]);
+      });
+      missing = [];
+    }
+  }
+
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    const embeddings = await embedder.embedBatch(batch, isQuery);
+    batch.forEach((text, j) => {
+      vectors.set(text, embeddings[j]);
+      rememberEmbedding(prefix + text, embeddings[j]);
+    });
+    await diskCache?.setMany(batch.map((text, j) => ({ text, vector: embeddings[j] })), isQuery);
+  }
+
+  return texts.map(text => vectors.get(text)!);
+}
+
+/**
+ * Generate embedding for a single text (see embedBatch).
+ */
+export async function embed(text: string, isQuery = false): Promise<number[]> {
+  const [embedding] = await embedBatch([text], isQuery);
   return embedding;
 }
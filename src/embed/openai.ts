@@ -0,0 +1,70 @@
+import { checkDimension } from './provider.js';
+import type { EmbeddingProvider } from './provider.js';
+import type { EmbeddingConfig } from '../utils/config.js';
+
+interface EmbeddingsResponse {
+  data?: { embedding?: number[]; index?: number }[];
+  error?: { message?: string };
+}
+
+/**
+ * Any server implementing OpenAI's `POST /v1/embeddings`
+ * (OpenAI itself, Ollama, llama.cpp, vLLM, or a local stub).
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+  private readonly model: string;
+  private readonly url: string;
+  private readonly apiKey?: string;
+  private readonly queryPrefix: string;
+
+  constructor(config: EmbeddingConfig) {
+    this.model = config.model;
+    this.id = `openai:${config.model}`;
+    this.dimension = config.dimension;
+    this.url = `${config.url}/embeddings`;
+    this.apiKey = config.apiKey;
+    this.queryPrefix = config.queryPrefix;
+  }
+
+  async preload(): Promise<void> {
+    // Nothing to load locally
+  }
+
+  async dispose(): Promise<void> {
+    // Stateless
+  }
+
+  async embedBatch(texts: string[], isQuery: boolean): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: isQuery ? texts.map(t => this.queryPrefix + t) : texts,
+      }),
+    });
+
+    let body: EmbeddingsResponse;
+    try {
+      body = await res.json() as EmbeddingsResponse;
+    } catch {
+      throw new Error(`Embedding request to ${this.url} failed: HTTP ${res.status} (invalid JSON response)`);
+    }
+    if (!res.ok) {
+      throw new Error(`Embedding request to ${this.url} failed: HTTP ${res.status}${body.error?.message ? ` ${body.error.message}` : ''}`);
+    }
+
+    // Servers may return items out of order; `index` is their position in `input`
+    const items = [...(body.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    if (items.length !== texts.length || !items.every(item => Array.isArray(item.embedding))) {
+      throw new Error(`Embedding response from ${this.url} has ${items.length} embeddings for ${texts.length} inputs`);
+    }
+    return items.map(item => checkDimension(this, item.embedding!));
+  }
+}
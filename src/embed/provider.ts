@@ -0,0 +1,25 @@
+/**
+ * A backend that turns text into fixed-size vectors.
+ * `id` identifies the model that produced a vector: vectors from providers with
+ * different ids are not comparable and must not share a database.
+ */
+export interface EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+  // One vector per text, in input order. Callers keep batches small (see EMBED_BATCH_SIZE).
+  embedBatch(texts: string[], isQuery: boolean): Promise<number[][]>;
+  preload(): Promise<void>;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Reject vectors whose size does not match what the provider declared.
+ */
+export function checkDimension(provider: EmbeddingProvider, vector: number[]): number[] {
+  if (vector.length !== provider.dimension) {
+    throw new Error(
+      `Embedding model ${provider.id} returned ${vector.length} dimensions, expected ${provider.dimension} (check EMBEDDING_DIMENSION)`
+    );
+  }
+  return vector;
+}
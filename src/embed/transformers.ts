@@ -0,0 +1,98 @@
+import { pipeline, env, type ProgressInfo } from '@huggingface/transformers';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { checkDimension } from './provider.js';
+import type { EmbeddingProvider } from './provider.js';
+import type { EmbeddingConfig } from '../utils/config.js';
+
+// Suppress model loading warnings
+env.allowLocalModels = true;
+env.allowRemoteModels = true;
+
+/**
+ * Local ONNX models run in-process through transformers.js.
+ * First use downloads the model into the transformers.js cache.
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+  private readonly model: string;
+  private readonly pooling: 'cls' | 'mean';
+  private readonly queryPrefix: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private extractor: any = null;
+
+  constructor(config: EmbeddingConfig) {
+    this.model = config.model;
+    this.id = `transformers:${config.model}`;
+    this.dimension = config.dimension;
+    this.pooling = config.pooling ?? 'mean';
+    this.queryPrefix = config.queryPrefix;
+  }
+
+  /**
+   * Get or initialize the embedding pipeline.
+   * First call downloads the model, subsequent calls use cache.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async getExtractor(): Promise<any> {
+    if (this.extractor) {
+      return this.extractor;
+    }
+
+    // Check if model is already cached
+    const cacheDir = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'node_modules', '@huggingface', 'transformers', '.cache', ...this.model.split('/'));
+    const isCached = existsSync(join(cacheDir, 'onnx', 'model_quantized.onnx'));
+
+    let downloading = false;
+    const origWarn = console.warn;
+
+    this.extractor = await pipeline('feature-extraction', this.model, {
+      dtype: 'fp32',
+      model_file_name: 'model_quantized',
+      progress_callback: !isCached ? (info: ProgressInfo) => {
+        if (info.status === 'download' && !downloading) {
+          downloading = true;
+          console.warn = () => {};
+          process.stderr.write('* Downloading embedding model...\n');
+        }
+        if (info.status === 'progress' && downloading && 'loaded' in info && info.file?.includes('onnx') && info.loaded > 0) {
+          const mb = (info.loaded / 1024 / 1024).toFixed(1);
+          process.stderr.write(`\r* Downloading... ${mb} MB`);
+        }
+        if (info.status === 'ready') {
+          console.warn = origWarn;
+          if (downloading) {
+            process.stderr.write('\r* Model ready.              \n');
+          }
+        }
+      } : undefined,
+    });
+    return this.extractor;
+  }
+
+  async preload(): Promise<void> {
+    await this.getExtractor();
+  }
+
+  async dispose(): Promise<void> {
+    if (this.extractor) {
+      await this.extractor.dispose();
+      this.extractor = null;
+    }
+  }
+
+  async embedBatch(texts: string[], isQuery: boolean): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const extractor = await this.getExtractor();
+    const result = await extractor(isQuery ? texts.map(t => this.queryPrefix + t) : texts, {
+      pooling: this.pooling,
+      normalize: true,
+    });
+    // Output is a [texts, dimension] tensor; padding is masked out by the pooling step
+    const size = (result.dims as number[])[1];
+    const data = result.data as Float32Array;
+    return texts.map((_, i) => checkDimension(this, Array.from(data.subarray(i * size, (i + 1) * size))));
+  }
+}
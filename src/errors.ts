@@ -0,0 +1,30 @@
+/**
+ * Errors for problems with the caller's request rather than with the system:
+ * bad input or an ID that does not exist. Anything else thrown is a failure.
+ */
+
+export type SuperintentErrorCode = 'invalid_input' | 'not_found';
+
+export class SuperintentError extends Error {
+  readonly code: SuperintentErrorCode;
+
+  constructor(code: SuperintentErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'SuperintentError';
+    this.code = code;
+  }
+}
+
+export class ValidationError extends SuperintentError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('invalid_input', message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends SuperintentError {
+  constructor(message: string) {
+    super('not_found', message);
+    this.name = 'NotFoundError';
+  }
+}
@@ -9,6 +9,14 @@ import { ticketCommand } from './commands/ticket.js';
 import { knowledgeCommand } from './commands/knowledge.js';
 import { dashboardCommand } from './commands/dashboard.js';
 import { specCommand } from './commands/spec.js';
+import { migrateCommand } from './commands/migrate.js';
+import { reportCommand } from './commands/report.js';
+import { exportCommand } from './commands/export.js';
+import { importCommand } from './commands/import.js';
+import { daemonCommand } from './commands/daemon.js';
+import { mcpCommand } from './commands/mcp.js';
+import { eventsCommand } from './commands/events.js';
+import { webhooksCommand } from './commands/webhooks.js';
 
 // Read version from package.json
 const __filename = fileURLToPath(import.meta.url);
@@ -28,5 +36,13 @@ program.addCommand(ticketCommand);
 program.addCommand(knowledgeCommand);
 program.addCommand(dashboardCommand);
 program.addCommand(specCommand);
+program.addCommand(migrateCommand);
+program.addCommand(reportCommand);
+program.addCommand(exportCommand);
+program.addCommand(importCommand);
+program.addCommand(daemonCommand);
+program.addCommand(mcpCommand);
+program.addCommand(eventsCommand);
+program.addCommand(webhooksCommand);
 
 program.parse();
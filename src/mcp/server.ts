@@ -0,0 +1,524 @@
+/**
+ * Model Context Protocol server over stdio: newline-delimited JSON-RPC 2.0 on
+ * stdin/stdout. Tools call the same services as the CLI and return a CliResponse
+ * envelope as JSON; resources expose knowledge entries and specs as markdown.
+ */
+
+import { createInterface } from 'readline';
+import type { Client } from '@libsql/client';
+import { getClient, closeClient } from '../db/client.js';
+import { createTicket, getTicket, updateTicket, listTickets, validateTicketFields } from '../services/tickets.js';
+import {
+  createKnowledge, getKnowledge, searchKnowledge, validateCitations, validateKnowledgeFields,
+} from '../services/knowledge.js';
+import { extractKnowledge } from '../services/extract.js';
+import { createSpec, getSpec, listSpecs, updateSpec, deleteSpec, validateSpecFields } from '../services/specs.js';
+import { scanProject } from '../wiki/scanner.js';
+import { searchWikiSymbols } from '../wiki/search.js';
+import { ValidationError, NotFoundError } from '../errors.js';
+import type { TicketStatus, SearchMode, CliResponse } from '../types.js';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const WIKI_MAX_RESULTS = 30;
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcError {
+  code: number;
+  message: string;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+type DispatchResult = { result: unknown } | { error: JsonRpcError };
+
+type ToolArgs = Record<string, unknown>;
+
+interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  // Resolves to the response data; throws on failure
+  call(client: Client, args: ToolArgs): Promise<unknown>;
+}
+
+interface McpResource {
+  uri: string;
+  name: string;
+  title: string;
+  mimeType: string;
+}
+
+// ============ Schemas ============
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+const idArg = (description: string) => ({
+  type: 'object',
+  properties: { id: { type: 'string', description } },
+  required: ['id'],
+});
+
+// Same fields as `ticket create --json`; validated by the ticket service
+const ticketFields = {
+  title: { type: 'string' },
+  type: { type: 'string', enum: ['feature', 'bugfix', 'refactor', 'docs', 'chore', 'test'] },
+  intent: { type: 'string', description: 'What the user wants to achieve' },
+  context: { type: 'string', description: 'Relevant files, patterns, background' },
+  constraints: {
+    type: 'object',
+    properties: { use: stringArray, avoid: stringArray },
+  },
+  assumptions: stringArray,
+  changeClass: { type: 'string', enum: ['A', 'B', 'C'] },
+  changeClassReason: { type: 'string' },
+  plan: { type: 'object', description: 'TicketPlan: files, taskSteps, dodVerification, decisions, tradeOffs, rollback, irreversibleActions, edgeCases' },
+  spec: { type: 'string', description: 'Origin spec ID' },
+  author: { type: 'string' },
+};
+
+// Same fields as `knowledge create --json`; validated by the knowledge service
+const knowledgeFields = {
+  title: { type: 'string' },
+  namespace: { type: 'string', description: 'Project namespace (use domain, not "global")' },
+  content: { type: 'string' },
+  category: { type: 'string', enum: ['pattern', 'truth', 'principle', 'architecture', 'gotcha'] },
+  source: { type: 'string', enum: ['ticket', 'discovery', 'manual'] },
+  originTicketId: { type: 'string' },
+  originTicketType: { type: 'string' },
+  confidence: { type: 'number', minimum: 0, maximum: 1 },
+  scope: { type: 'string', enum: ['new-only', 'backward-compatible', 'global', 'legacy-frozen'] },
+  tags: stringArray,
+  citations: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { path: { type: 'string', description: 'file:line' }, fileHash: { type: 'string' } },
+      required: ['path'],
+    },
+  },
+  author: { type: 'string' },
+  branch: { type: 'string' },
+};
+
+// ============ Argument helpers ============
+
+function stringArg(args: ToolArgs, name: string, required: true): string;
+function stringArg(args: ToolArgs, name: string, required?: false): string | undefined;
+function stringArg(args: ToolArgs, name: string, required = false): string | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) {
+    if (required) throw new ValidationError(`${name} is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string') throw new ValidationError(`${name} must be a string`);
+  return value;
+}
+
+function numberArg(args: ToolArgs, name: string, fallback: number): number {
+  const value = args[name] ?? fallback;
+  if (typeof value !== 'number') throw new ValidationError(`${name} must be a number`);
+  return value;
+}
+
+function booleanArg(args: ToolArgs, name: string): boolean | undefined {
+  const value = args[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'boolean') throw new ValidationError(`${name} must be a boolean`);
+  return value;
+}
+
+function indicesArg(args: ToolArgs, name: string): number[] | undefined {
+  const value = args[name];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((i) => Number.isInteger(i))) {
+    throw new ValidationError(`${name} must be an array of integers`);
+  }
+  return value;
+}
+
+function stringArrayArg(args: ToolArgs, name: string): string[] | undefined {
+  const value = args[name];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((s) => typeof s === 'string')) {
+    throw new ValidationError(`${name} must be an array of strings`);
+  }
+  return value;
+}
+
+// ============ Tools ============
+
+const TOOLS: McpTool[] = [
+  {
+    name: 'ticket_create',
+    description: 'Create a ticket. Requires intent; type is inferred from it when omitted.',
+    inputSchema: { type: 'object', properties: ticketFields, required: ['intent'] },
+    call: (client, args) => createTicket(client, validateTicketFields(args)),
+  },
+  {
+    name: 'ticket_get',
+    description: 'Get a ticket by ID.',
+    inputSchema: idArg('Ticket ID'),
+    call: (client, args) => getTicket(client, stringArg(args, 'id', true)),
+  },
+  {
+    name: 'ticket_update',
+    description: 'Update ticket fields, change its status, complete plan items or add a comment.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Ticket ID' },
+        ...ticketFields,
+        status: { type: 'string', enum: ['Backlog', 'In Progress', 'In Review', 'Done', 'Blocked', 'Abandoned', 'Superseded'] },
+        replacedBy: { type: 'string', description: 'Replacement ticket (required with status Superseded)' },
+        force: { type: 'boolean', description: 'Allow a status change outside the transition table' },
+        comment: { type: 'string', description: 'Comment to add (author: author field or git user.name)' },
+        completeTasks: { type: 'array', items: { type: 'integer' }, description: 'Plan task indices to mark done' },
+        completeDod: { type: 'array', items: { type: 'integer' }, description: 'Plan DoD indices to mark done' },
+        completeAll: { type: 'boolean', description: 'Mark all plan tasks and DoD items done' },
+      },
+      required: ['id'],
+    },
+    call: (client, args) => updateTicket(client, stringArg(args, 'id', true), {
+      ...validateTicketFields(args),
+      status: stringArg(args, 'status') as TicketStatus | undefined,
+      replacedBy: stringArg(args, 'replacedBy'),
+      force: booleanArg(args, 'force'),
+      comment: stringArg(args, 'comment'),
+      completeTasks: indicesArg(args, 'completeTasks'),
+      completeDod: indicesArg(args, 'completeDod'),
+      completeAll: booleanArg(args, 'completeAll'),
+    }),
+  },
+  {
+    name: 'ticket_list',
+    description: 'List tickets, newest first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string' },
+        limit: { type: 'integer', default: 20 },
+        offset: { type: 'integer', default: 0 },
+      },
+    },
+    call: (client, args) => listTickets(client, {
+      status: stringArg(args, 'status') as TicketStatus | undefined,
+      limit: numberArg(args, 'limit', 20),
+      offset: numberArg(args, 'offset', 0),
+    }),
+  },
+  {
+    name: 'knowledge_search',
+    description: 'Search the knowledge base. Pass nextCursor back as cursor for the next page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        mode: { type: 'string', enum: ['vector', 'lexical', 'hybrid'], default: 'vector' },
+        namespace: { type: 'string' },
+        category: { type: 'string' },
+        ticketType: { type: 'string' },
+        tags: { ...stringArray, description: 'Match any of these tags' },
+        author: { type: 'string' },
+        branch: { type: 'string' },
+        minScore: { type: 'number', default: 0 },
+        limit: { type: 'integer', default: 5 },
+        includeSuperseded: { type: 'boolean', description: 'Also return deactivated entries that another entry supersedes' },
+        cursor: { type: 'string' },
+      },
+      required: ['query'],
+    },
+    call: (client, args) => searchKnowledge(client, stringArg(args, 'query', true), {
+      mode: stringArg(args, 'mode') as SearchMode | undefined,
+      namespace: stringArg(args, 'namespace'),
+      category: stringArg(args, 'category'),
+      ticketType: stringArg(args, 'ticketType'),
+      tags: stringArrayArg(args, 'tags'),
+      author: stringArg(args, 'author'),
+      branch: stringArg(args, 'branch'),
+      minScore: numberArg(args, 'minScore', 0),
+      limit: numberArg(args, 'limit', 5),
+      includeSuperseded: booleanArg(args, 'includeSuperseded'),
+      cursor: stringArg(args, 'cursor'),
+      useDaemon: true,
+    }),
+  },
+  {
+    name: 'knowledge_create',
+    description: 'Create a knowledge entry. Requires title, namespace, content and scope.',
+    inputSchema: { type: 'object', properties: knowledgeFields, required: ['title', 'namespace', 'content', 'scope'] },
+    call: (client, args) => createKnowledge(client, validateKnowledgeFields(args)),
+  },
+  {
+    name: 'knowledge_validate',
+    description: 'Check knowledge citations against the working tree; heal updates hashes of changed files.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ids: { ...stringArray, description: 'Entries to validate (or use all/main)' },
+        all: { type: 'boolean', description: 'All active entries with citations' },
+        main: { type: 'boolean', description: 'Main branch entries with citations' },
+        heal: { type: 'boolean' },
+        dryRun: { type: 'boolean' },
+      },
+    },
+    call: (client, args) => {
+      const ids = stringArrayArg(args, 'ids');
+      if (!ids && !booleanArg(args, 'all') && !booleanArg(args, 'main')) {
+        throw new ValidationError('Provide ids or use all or main');
+      }
+      return validateCitations(client, {
+        ids,
+        main: booleanArg(args, 'main'),
+        heal: booleanArg(args, 'heal'),
+        dryRun: booleanArg(args, 'dryRun'),
+      });
+    },
+  },
+  {
+    name: 'knowledge_extract',
+    description: 'Propose knowledge entries from a Done ticket. Nothing is saved; create the ones worth keeping.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ticketId: { type: 'string' },
+        namespace: { type: 'string', description: 'Override namespace (default: derived from ticket)' },
+      },
+      required: ['ticketId'],
+    },
+    call: (client, args) => extractKnowledge(client, stringArg(args, 'ticketId', true), stringArg(args, 'namespace')),
+  },
+  {
+    name: 'spec_create',
+    description: 'Create a spec.',
+    inputSchema: {
+      type: 'object',
+      properties: { title: { type: 'string' }, content: { type: 'string', description: 'Markdown' }, author: { type: 'string' } },
+      required: ['title'],
+    },
+    call: (client, args) => createSpec(client, validateSpecFields(args)),
+  },
+  {
+    name: 'spec_get',
+    description: 'Get a spec by ID.',
+    inputSchema: idArg('Spec ID'),
+    call: (client, args) => getSpec(client, stringArg(args, 'id', true)),
+  },
+  {
+    name: 'spec_list',
+    description: 'List specs, newest first.',
+    inputSchema: {
+      type: 'object',
+      properties: { limit: { type: 'integer', default: 20 }, offset: { type: 'integer', default: 0 } },
+    },
+    call: (client, args) => listSpecs(client, { limit: numberArg(args, 'limit', 20), offset: numberArg(args, 'offset', 0) }),
+  },
+  {
+    name: 'spec_update',
+    description: 'Update the title or content of a spec, or add a comment.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Spec ID' },
+        title: { type: 'string' },
+        content: { type: 'string' },
+        comment: { type: 'string' },
+        author: { type: 'string', description: 'Comment author (default: git user.name)' },
+      },
+      required: ['id'],
+    },
+    call: (client, args) => updateSpec(client, stringArg(args, 'id', true), {
+      ...validateSpecFields(args),
+      comment: stringArg(args, 'comment'),
+    }),
+  },
+  {
+    name: 'spec_delete',
+    description: 'Delete a spec.',
+    inputSchema: idArg('Spec ID'),
+    call: async (client, args) => {
+      const id = stringArg(args, 'id', true);
+      await deleteSpec(client, id);
+      return { id, status: 'deleted' };
+    },
+  },
+  {
+    name: 'wiki_search',
+    description: 'Find files, functions, classes, methods, variables and interfaces in the project by name.',
+    inputSchema: {
+      type: 'object',
+      properties: { query: { type: 'string' }, limit: { type: 'integer', default: WIKI_MAX_RESULTS } },
+      required: ['query'],
+    },
+    call: async (_client, args) => {
+      const query = stringArg(args, 'query', true);
+      const scan = await scanProject(process.cwd());
+      return { query, hits: searchWikiSymbols(scan, query, numberArg(args, 'limit', WIKI_MAX_RESULTS)) };
+    },
+  },
+];
+
+// ============ Resources ============
+
+const KNOWLEDGE_URI = 'superintent://knowledge/';
+const SPEC_URI = 'superintent://spec/';
+
+const RESOURCE_TEMPLATES = [
+  { uriTemplate: `${KNOWLEDGE_URI}{id}`, name: 'knowledge', title: 'Knowledge entry', mimeType: 'text/markdown' },
+  { uriTemplate: `${SPEC_URI}{id}`, name: 'spec', title: 'Spec', mimeType: 'text/markdown' },
+];
+
+async function listResources(): Promise<McpResource[]> {
+  const client = await getClient();
+  const knowledge = await client.execute(
+    'SELECT id, title FROM knowledge WHERE active = 1 ORDER BY created_at DESC'
+  );
+  const specs = await client.execute('SELECT id, title FROM specs ORDER BY created_at DESC');
+  return [
+    ...knowledge.rows.map((row) => ({
+      uri: `${KNOWLEDGE_URI}${row.id}`,
+      name: row.id as string,
+      title: row.title as string,
+      mimeType: 'text/markdown',
+    })),
+    ...specs.rows.map((row) => ({
+      uri: `${SPEC_URI}${row.id}`,
+      name: row.id as string,
+      title: row.title as string,
+      mimeType: 'text/markdown',
+    })),
+  ];
+}
+
+async function readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string } | null> {
+  const client = await getClient();
+  try {
+    let entry: { title: string; content: string } | null = null;
+    if (uri.startsWith(KNOWLEDGE_URI)) {
+      entry = await getKnowledge(client, uri.slice(KNOWLEDGE_URI.length));
+    } else if (uri.startsWith(SPEC_URI)) {
+      entry = await getSpec(client, uri.slice(SPEC_URI.length));
+    }
+    return entry && { uri, mimeType: 'text/markdown', text: [`# ${entry.title}`, '', entry.content].join('\n') };
+  } catch (error) {
+    if (error instanceof NotFoundError) return null;
+    throw error;
+  }
+}
+
+// ============ Dispatch ============
+
+async function dispatch(method: string, params: Record<string, unknown>, version: string): Promise<DispatchResult> {
+  switch (method) {
+    case 'initialize':
+      return {
+        result: {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: 'superintent', version },
+        },
+      };
+    case 'ping':
+      return { result: {} };
+    case 'tools/list':
+      return { result: { tools: TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) } };
+    case 'tools/call': {
+      const tool = TOOLS.find((t) => t.name === params.name);
+      if (!tool) return { error: { code: INVALID_PARAMS, message: `Unknown tool: ${params.name}` } };
+      const args = (params.arguments ?? {}) as ToolArgs;
+      let response: CliResponse;
+      try {
+        const client = await getClient();
+        response = { success: true, data: await tool.call(client, args) };
+      } catch (error) {
+        // Bad arguments are reported to the model like any other tool failure
+        response = { success: false, error: (error as Error).message };
+      }
+      return {
+        result: {
+          content: [{ type: 'text', text: JSON.stringify(response) }],
+          isError: !response.success,
+        },
+      };
+    }
+    case 'resources/list':
+      return { result: { resources: await listResources() } };
+    case 'resources/templates/list':
+      return { result: { resourceTemplates: RESOURCE_TEMPLATES } };
+    case 'resources/read': {
+      if (typeof params.uri !== 'string') return { error: { code: INVALID_PARAMS, message: 'uri must be a string' } };
+      const contents = await readResource(params.uri);
+      if (!contents) return { error: { code: RESOURCE_NOT_FOUND, message: `Resource not found: ${params.uri}` } };
+      return { result: { contents: [contents] } };
+    }
+    default:
+      return { error: { code: METHOD_NOT_FOUND, message: `Method not found: ${method}` } };
+  }
+}
+
+async function handleLine(line: string, version: string): Promise<JsonRpcResponse | null> {
+  let message: JsonRpcMessage;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    return { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } };
+  }
+
+  const id = message.id ?? null;
+  if (typeof message.method !== 'string') {
+    // Responses to server requests are not expected; ignore them
+    if (message.id !== undefined && message.method === undefined) return null;
+    return { jsonrpc: '2.0', id, error: { code: INVALID_REQUEST, message: 'Invalid request' } };
+  }
+  // Notifications (initialized, cancelled, ...) get no response
+  if (message.id === undefined) return null;
+
+  try {
+    return { jsonrpc: '2.0', id, ...await dispatch(message.method, message.params ?? {}, version) };
+  } catch (error) {
+    return { jsonrpc: '2.0', id, error: { code: INTERNAL_ERROR, message: (error as Error).message } };
+  }
+}
+
+/**
+ * Serve MCP on stdin/stdout until stdin closes. Requests are handled one at a
+ * time, in order. The database client is opened on first use and kept open for
+ * the server's lifetime; it is closed once stdin closes and pending requests finish.
+ */
+export function runMcpServer(version: string): Promise<void> {
+  return new Promise((resolve) => {
+    const rl = createInterface({ input: process.stdin, terminal: false });
+    let queue = Promise.resolve();
+
+    rl.on('line', (line) => {
+      if (!line.trim()) return;
+      queue = queue.then(async () => {
+        const response = await handleLine(line, version);
+        if (response) process.stdout.write(JSON.stringify(response) + '\n');
+      });
+    });
+    rl.on('close', () => {
+      queue.then(() => {
+        closeClient();
+        resolve();
+      });
+    });
+  });
+}
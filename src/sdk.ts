@@ -0,0 +1,164 @@
+/**
+ * Programmatic API: `import { Superintent } from 'superintent'`.
+ * Runs the same services as the CLI without commander or process.exit; failures
+ * are thrown, with ValidationError / NotFoundError for problems with the request.
+ */
+
+import type { Client } from '@libsql/client';
+import { getClient, closeClient, createClientWithConfig } from './db/client.js';
+import { assertSchemaCompatible } from './db/migrations.js';
+import * as tickets from './services/tickets.js';
+import * as knowledge from './services/knowledge.js';
+import * as specs from './services/specs.js';
+import * as comments from './services/comments.js';
+import { extractKnowledge } from './services/extract.js';
+import { indexProject, indexProjectIncremental, getCoverageStats, getCitationsForFile } from './wiki/indexer.js';
+import { scanProject } from './wiki/scanner.js';
+import { searchWikiSymbols } from './wiki/search.js';
+import type { TicketFields, TicketUpdateInput, TicketListFilter } from './services/tickets.js';
+import type {
+  KnowledgeFields, KnowledgeUpdateInput, KnowledgeListFilter, KnowledgeSearchOptions, CitationCheckOptions,
+  DuplicateSearchOptions,
+} from './services/knowledge.js';
+import type { SpecFields, SpecUpdateInput } from './services/specs.js';
+import type { CommentInput } from './services/comments.js';
+import type { TicketLinkType, CommentParentType, KnowledgeLinkType } from './types.js';
+
+export { SuperintentError, ValidationError, NotFoundError } from './errors.js';
+export type { SuperintentErrorCode } from './errors.js';
+export type {
+  TicketFields, TicketUpdateInput, TicketUpdateResult, TicketListFilter, TicketHistory,
+} from './services/tickets.js';
+export type {
+  KnowledgeFields, KnowledgeUpdateInput, KnowledgeUpdateResult, KnowledgeListFilter, KnowledgeSearchOptions,
+  KnowledgeSearchPage, CitationCheckOptions, CitationCheckReport, ConfidenceReport, DuplicateSearchOptions,
+  KnowledgeMergeResult,
+} from './services/knowledge.js';
+export type { DuplicateCluster, DuplicateEntry } from './db/duplicates.js';
+export type { SpecFields, SpecUpdateInput } from './services/specs.js';
+export type { CommentInput } from './services/comments.js';
+export type { ExtractProposal } from './services/extract.js';
+export type { IndexStats, IncrementalIndexStats, CoverageStats, CitationWithKnowledge } from './wiki/indexer.js';
+export type { WikiSearchHit } from './wiki/search.js';
+export type * from './types.js';
+
+export interface SuperintentOptions {
+  // libSQL URL; defaults to the database configured in .superintent/.env of the working directory
+  url?: string;
+  authToken?: string;
+}
+
+const WIKI_MAX_RESULTS = 30;
+
+/**
+ * A connection to a Superintent database. Wiki methods and citation checks work on
+ * the files of the working directory; call `close()` when done.
+ */
+export class Superintent {
+  readonly tickets;
+  readonly knowledge;
+  readonly specs;
+  readonly comments;
+  readonly wiki;
+
+  private readonly client: Client;
+  private readonly sharedClient: boolean;
+
+  /**
+   * Connect to the workspace database, or to `options.url`.
+   */
+  static async open(options: SuperintentOptions = {}): Promise<Superintent> {
+    if (!options.url) {
+      return new Superintent(await getClient(), true);
+    }
+
+    const client = await createClientWithConfig(options.url, options.authToken);
+    try {
+      await assertSchemaCompatible(client);
+    } catch (error) {
+      client.close();
+      throw error;
+    }
+    return new Superintent(client, false);
+  }
+
+  private constructor(client: Client, sharedClient: boolean) {
+    this.client = client;
+    this.sharedClient = sharedClient;
+
+    this.tickets = {
+      create: (fields: TicketFields) => tickets.createTicket(client, tickets.validateTicketFields(fields)),
+      get: (id: string) => tickets.getTicket(client, id),
+      list: (filter?: TicketListFilter) => tickets.listTickets(client, filter),
+      update: (id: string, input: TicketUpdateInput) =>
+        tickets.updateTicket(client, id, tickets.validateTicketUpdate(input)),
+      delete: (id: string) => tickets.deleteTicket(client, id),
+      history: (id: string) => tickets.getTicketHistory(client, id),
+      link: (id: string, otherId: string, type: TicketLinkType, author?: string) =>
+        tickets.linkTickets(client, id, otherId, type, author),
+      unlink: (id: string, otherId: string, type?: TicketLinkType) => tickets.unlinkTickets(client, id, otherId, type),
+      links: (id: string) => tickets.getTicketLinks(client, id),
+    };
+
+    this.knowledge = {
+      create: (fields: KnowledgeFields) => knowledge.createKnowledge(client, knowledge.validateKnowledgeFields(fields)),
+      get: (id: string) => knowledge.getKnowledge(client, id),
+      list: (filter?: KnowledgeListFilter) => knowledge.listKnowledge(client, filter),
+      update: (id: string, input: KnowledgeUpdateInput) =>
+        knowledge.updateKnowledge(client, id, knowledge.validateKnowledgeUpdate(input)),
+      activate: (id: string) => knowledge.setKnowledgeActive(client, id, true),
+      deactivate: (id: string) => knowledge.setKnowledgeActive(client, id, false),
+      promote: (id: string) => knowledge.promoteKnowledge(client, id),
+      history: (id: string) => knowledge.getKnowledgeHistory(client, id),
+      revert: (id: string, revision: number) => knowledge.revertKnowledge(client, id, revision),
+      // A running daemon belongs to the working directory's workspace, so only that database uses it
+      search: (query: string, options?: KnowledgeSearchOptions) =>
+        knowledge.searchKnowledge(client, query, { useDaemon: sharedClient, ...options }),
+      validateCitations: (options?: CitationCheckOptions) => knowledge.validateCitations(client, options),
+      recalculateConfidence: (options?: { dryRun?: boolean }) => knowledge.recalculateConfidence(client, options),
+      duplicates: (options?: DuplicateSearchOptions) => knowledge.findDuplicateKnowledge(client, options),
+      merge: (keepId: string, dropIds: string[], options?: { author?: string }) =>
+        knowledge.mergeKnowledge(client, keepId, dropIds, options),
+      link: (fromId: string, toId: string, type: KnowledgeLinkType, author?: string) =>
+        knowledge.linkKnowledge(client, fromId, toId, type, author),
+      unlink: (fromId: string, toId: string, type?: KnowledgeLinkType) => knowledge.unlinkKnowledge(client, fromId, toId, type),
+      links: (id: string) => knowledge.getKnowledgeLinks(client, id),
+      extract: (ticketId: string, namespace?: string) => extractKnowledge(client, ticketId, namespace),
+    };
+
+    this.specs = {
+      create: (fields: SpecFields) => specs.createSpec(client, specs.validateSpecFields(fields)),
+      get: (id: string) => specs.getSpec(client, id),
+      list: (page?: { limit?: number; offset?: number }) => specs.listSpecs(client, page),
+      update: (id: string, input: SpecUpdateInput) =>
+        specs.updateSpec(client, id, specs.validateSpecUpdate(input)),
+      delete: (id: string) => specs.deleteSpec(client, id),
+    };
+
+    this.comments = {
+      list: (parentType: CommentParentType, parentId: string) => comments.listComments(client, parentType, parentId),
+      get: (id: string) => comments.getComment(client, id),
+      add: (input: CommentInput) => comments.addComment(client, input),
+      update: (id: string, text: string) => comments.updateComment(client, id, text),
+      delete: (id: string) => comments.deleteComment(client, id),
+    };
+
+    this.wiki = {
+      // Incremental unless `full` is set
+      index: (options: { full?: boolean } = {}) =>
+        options.full ? indexProject(client) : indexProjectIncremental(client),
+      coverage: () => getCoverageStats(client),
+      citations: (filePath: string) => getCitationsForFile(client, filePath),
+      search: async (query: string, limit = WIKI_MAX_RESULTS) =>
+        searchWikiSymbols(await scanProject(process.cwd()), query, limit),
+    };
+  }
+
+  close(): void {
+    if (this.sharedClient) {
+      closeClient();
+    } else {
+      this.client.close();
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Comments on tickets, knowledge entries and specs.
+ */
+
+import type { Client } from '@libsql/client';
+import { parseCommentRow } from '../db/parsers.js';
+import { generateId } from '../utils/id.js';
+import { getGitUsername } from '../utils/git.js';
+import { ValidationError, NotFoundError } from '../errors.js';
+import { notifyChange } from './events.js';
+import type { Comment, CommentParentType } from '../types.js';
+
+const PARENT_TYPES: CommentParentType[] = ['ticket', 'knowledge', 'spec'];
+
+const COMMENT_COLUMNS = 'id, parent_type, parent_id, author, text, created_at, updated_at';
+
+export interface CommentInput {
+  parentType: CommentParentType;
+  parentId: string;
+  text: string;
+  author?: string;
+}
+
+function assertParentType(parentType: string): asserts parentType is CommentParentType {
+  if (!PARENT_TYPES.includes(parentType as CommentParentType)) {
+    throw new ValidationError(`Invalid parent type '${parentType}'. Must be one of: ${PARENT_TYPES.join(', ')}`);
+  }
+}
+
+export async function listComments(client: Client, parentType: CommentParentType, parentId: string): Promise<Comment[]> {
+  assertParentType(parentType);
+  const result = await client.execute({
+    sql: `SELECT ${COMMENT_COLUMNS} FROM comments WHERE parent_type = ? AND parent_id = ? ORDER BY created_at ASC`,
+    args: [parentType, parentId],
+  });
+  return result.rows.map(row => parseCommentRow(row as Record<string, unknown>));
+}
+
+export async function getComment(client: Client, id: string): Promise<Comment> {
+  const result = await client.execute({
+    sql: `SELECT ${COMMENT_COLUMNS} FROM comments WHERE id = ?`,
+    args: [id],
+  });
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Comment ${id} not found`);
+  }
+  return parseCommentRow(result.rows[0] as Record<string, unknown>);
+}
+
+/**
+ * Add a comment. Author defaults to git user.name.
+ */
+export async function addComment(client: Client, input: CommentInput): Promise<Comment> {
+  assertParentType(input.parentType);
+  if (!input.parentId) {
+    throw new ValidationError('Comment parent ID is required');
+  }
+  const text = input.text?.trim();
+  if (!text) {
+    throw new ValidationError('Comment text is required');
+  }
+
+  const id = generateId('COMMENT');
+  await client.execute({
+    sql: 'INSERT INTO comments (id, parent_type, parent_id, author, text) VALUES (?, ?, ?, ?, ?)',
+    args: [id, input.parentType, input.parentId, input.author || getGitUsername(), text],
+  });
+  notifyChange(input.parentType, input.parentId, 'update');
+  return getComment(client, id);
+}
+
+export async function updateComment(client: Client, id: string, text: string): Promise<Comment> {
+  const trimmed = text?.trim();
+  if (!trimmed) {
+    throw new ValidationError('Comment text is required');
+  }
+
+  const result = await client.execute({
+    sql: "UPDATE comments SET text = ?, updated_at = datetime('now') WHERE id = ?",
+    args: [trimmed, id],
+  });
+  if (result.rowsAffected === 0) {
+    throw new NotFoundError(`Comment ${id} not found`);
+  }
+  const comment = await getComment(client, id);
+  notifyChange(comment.parent_type, comment.parent_id, 'update');
+  return comment;
+}
+
+/**
+ * Delete a comment and return it.
+ */
+export async function deleteComment(client: Client, id: string): Promise<Comment> {
+  const comment = await getComment(client, id);
+  await client.execute({
+    sql: 'DELETE FROM comments WHERE id = ?',
+    args: [id],
+  });
+  notifyChange(comment.parent_type, comment.parent_id, 'update');
+  return comment;
+}
@@ -0,0 +1,32 @@
+/**
+ * In-process notifications for changes made through the services.
+ * The dashboard forwards them to browsers as SSE; the CLI has no listeners.
+ */
+
+import { EventEmitter } from 'node:events';
+
+// Comments are reported as an update of the ticket, knowledge entry or spec they belong to
+export type ChangeEntity = 'ticket' | 'knowledge' | 'spec';
+export type ChangeAction = 'create' | 'update' | 'delete';
+
+export interface ChangeEvent {
+  entity: ChangeEntity;
+  id: string;
+  action: ChangeAction;
+}
+
+const changes = new EventEmitter();
+
+/**
+ * Subscribe to service changes. Returns a function that removes the listener.
+ */
+export function onChange(listener: (event: ChangeEvent) => void): () => void {
+  changes.on('change', listener);
+  return () => {
+    changes.off('change', listener);
+  };
+}
+
+export function notifyChange(entity: ChangeEntity, id: string, action: ChangeAction): void {
+  changes.emit('change', { entity, id, action } satisfies ChangeEvent);
+}
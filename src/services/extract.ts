@@ -0,0 +1,269 @@
+/**
+ * Knowledge extraction from completed tickets: proposals built from the ticket plan,
+ * with citations to the files the ticket touched.
+ */
+
+import type { Client } from '@libsql/client';
+import { readFileSync } from 'fs';
+import { parseTicketRow } from '../db/parsers.js';
+import { performVectorSearch } from '../db/search.js';
+import { embedBatch } from '../embed/model.js';
+import { computeContentHash, resolveCitedFile } from '../utils/hash.js';
+import { getProjectNamespace } from '../utils/config.js';
+import { ValidationError, NotFoundError } from '../errors.js';
+import type { Ticket, TicketPlan, KnowledgeInput, Citation } from '../types.js';
+
+/**
+ * Extract file:line references from text and compute file hashes.
+ * Returns Citation[] for files that exist on disk. Line numbers are navigation hints.
+ */
+function extractFileReferences(text: string, cwd: string): Citation[] {
+  // Match patterns like src/foo.ts:14, ./bar/baz.js:100
+  // Avoid matching URLs (http://..., https://...)
+  const pattern = /(?<!\w:\/\/)(?:^|[\s,(])([a-zA-Z0-9_./-]+\.[a-zA-Z0-9]+):(\d+)/g;
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+  const fileHashCache = new Map<string, string>();
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const filePath = match[1];
+    const lineNum = parseInt(match[2], 10);
+    const key = `${filePath}:${lineNum}`;
+    if (seen.has(key) || lineNum < 1) continue;
+    seen.add(key);
+
+    try {
+      let fileHash = fileHashCache.get(filePath);
+      if (fileHash === undefined) {
+        const absPath = resolveCitedFile(cwd, filePath);
+        if (!absPath) continue;
+        const content = readFileSync(absPath, 'utf-8');
+        fileHash = computeContentHash(content);
+        fileHashCache.set(filePath, fileHash);
+      }
+      citations.push({
+        path: key,
+        fileHash,
+      });
+    } catch {
+      // File doesn't exist or can't be read — skip
+    }
+  }
+
+  return citations;
+}
+
+/**
+ * Collect citations from ticket plan.files (line 1 of each file) and
+ * any file:line references found in ticket context/intent.
+ */
+function collectTicketCitations(ticket: Ticket, cwd: string): Citation[] {
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+
+  // Citations from plan.files — cite line 1 of each listed file (file-level hash)
+  const fileHashCache = new Map<string, string>();
+  if (ticket.plan?.files) {
+    for (const filePath of ticket.plan.files) {
+      const key = `${filePath}:1`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      try {
+        const absPath = resolveCitedFile(cwd, filePath);
+        if (!absPath) continue;
+        const content = readFileSync(absPath, 'utf-8');
+        const fileHash = computeContentHash(content);
+        fileHashCache.set(filePath, fileHash);
+        citations.push({
+          path: key,
+          fileHash,
+        });
+      } catch {
+        // File doesn't exist — skip
+      }
+    }
+  }
+
+  // Citations from text references in context and intent
+  const textSources = [ticket.context, ticket.intent].filter(Boolean).join('\n');
+  if (textSources) {
+    for (const c of extractFileReferences(textSources, cwd)) {
+      if (!seen.has(c.path)) {
+        seen.add(c.path);
+        citations.push(c);
+      }
+    }
+  }
+
+  return citations;
+}
+
+/**
+ * Generate knowledge extraction proposals from a completed ticket.
+ * With a client, proposals similar to existing knowledge are dropped.
+ */
+export async function generateExtractProposals(ticket: Ticket, namespace: string, client?: Client): Promise<KnowledgeInput[]> {
+  const suggestions: KnowledgeInput[] = [];
+  const ticketType = ticket.type;
+  const cwd = process.cwd();
+  const citations = collectTicketCitations(ticket, cwd);
+
+  // Decisions from plan (high-value knowledge)
+  if (ticket.plan?.decisions && ticket.plan.decisions.length > 0) {
+    for (const decision of ticket.plan.decisions) {
+      if (!decision.choice) continue;
+      suggestions.push({
+        namespace,
+        title: `Decision: ${decision.choice.slice(0, 70)}`,
+        content: `Rule:\n${decision.choice}\n\nWhy:\n${decision.reason || '[AI: Explain rationale]'}\n\nApplies:\nSimilar contexts`,
+        category: 'principle',
+        source: 'ticket',
+        originTicketId: ticket.id,
+        originTicketType: ticketType,
+        confidence: 0.85,
+        decisionScope: 'new-only',
+      });
+    }
+  }
+
+  // Trade-offs from plan (what we didn't choose and why)
+  if (ticket.plan?.tradeOffs && ticket.plan.tradeOffs.length > 0) {
+    for (const tradeOff of ticket.plan.tradeOffs) {
+      if (!tradeOff.considered) continue;
+      suggestions.push({
+        namespace,
+        title: `Avoid: ${tradeOff.considered.slice(0, 70)}`,
+        content: `Avoid:\n${tradeOff.considered}\n\nWhy rejected:\n${tradeOff.rejected || '[AI: Explain why this was rejected]'}\n\nContext:\nTicket ${ticket.id}`,
+        category: 'principle',
+        source: 'ticket',
+        originTicketId: ticket.id,
+        originTicketType: ticketType,
+        confidence: 0.8,
+        decisionScope: 'new-only',
+      });
+    }
+  }
+
+  // Edge cases from plan → gotcha (pitfalls discovered during work)
+  if (ticket.plan?.edgeCases && ticket.plan.edgeCases.length > 0) {
+    for (const edgeCase of ticket.plan.edgeCases) {
+      suggestions.push({
+        namespace,
+        title: `Edge case: ${edgeCase.slice(0, 70)}`,
+        content: `Attempted:\n[AI: What was being done when this edge case was found]\n\nFailed Because:\n${edgeCase}\n\nInstead:\n[AI: How to handle this edge case]\n\nSymptoms:\n[AI: How this manifests if not handled]`,
+        category: 'gotcha',
+        source: 'ticket',
+        originTicketId: ticket.id,
+        originTicketType: ticketType,
+        confidence: 0.85,
+        decisionScope: 'new-only',
+      });
+    }
+  }
+
+  // Irreversible actions from plan → gotcha (warnings for dangerous operations)
+  if (ticket.plan?.irreversibleActions && ticket.plan.irreversibleActions.length > 0) {
+    for (const action of ticket.plan.irreversibleActions) {
+      suggestions.push({
+        namespace,
+        title: `Warning: ${action.slice(0, 70)}`,
+        content: `Attempted:\n${action}\n\nFailed Because:\nThis action cannot be undone\n\nInstead:\n[AI: What precautions to take before performing this action]\n\nSymptoms:\nData loss or irreversible state change if performed without preparation`,
+        category: 'gotcha',
+        source: 'ticket',
+        originTicketId: ticket.id,
+        originTicketType: ticketType,
+        confidence: 0.85,
+        decisionScope: 'global',
+      });
+    }
+  }
+
+  // Attach collected citations to all suggestions
+  if (citations.length > 0) {
+    for (const suggestion of suggestions) {
+      suggestion.citations = citations;
+    }
+  }
+
+  // Vector dedup: filter out proposals that are similar to existing knowledge
+  if (client && suggestions.length > 0) {
+    let titleEmbeddings: number[][];
+    try {
+      titleEmbeddings = await embedBatch(suggestions.map(s => s.title), true);
+    } catch {
+      // If embedding fails, keep every proposal
+      return suggestions;
+    }
+
+    const novel: KnowledgeInput[] = [];
+    for (const [i, suggestion] of suggestions.entries()) {
+      try {
+        const duplicates = await performVectorSearch(client, titleEmbeddings[i], {
+          namespace,
+          limit: 1,
+          minScore: 0.7,
+          trackUsage: false,
+        });
+        if (duplicates.length === 0) {
+          novel.push(suggestion);
+        }
+      } catch {
+        // If dedup fails, keep the proposal
+        novel.push(suggestion);
+      }
+    }
+    return novel;
+  }
+
+  return suggestions;
+}
+
+export interface ExtractProposal {
+  action: 'propose';
+  ticketId: string;
+  namespace: string;
+  ticket: {
+    intent: string;
+    context: string | null;
+    assumptions: string[] | null;
+    constraints_use: string[] | null;
+    constraints_avoid: string[] | null;
+    plan: TicketPlan | null;
+  };
+  suggestedKnowledge: KnowledgeInput[];
+}
+
+/**
+ * Propose knowledge entries for a Done ticket. Namespace defaults to the project namespace.
+ */
+export async function extractKnowledge(client: Client, ticketId: string, namespace?: string): Promise<ExtractProposal> {
+  const result = await client.execute({
+    sql: 'SELECT * FROM tickets WHERE id = ?',
+    args: [ticketId],
+  });
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Ticket ${ticketId} not found`);
+  }
+
+  const ticket = parseTicketRow(result.rows[0] as Record<string, unknown>);
+  if (ticket.status !== 'Done') {
+    throw new ValidationError(`Ticket ${ticketId} is not Done (status: ${ticket.status}). Only completed tickets can have knowledge extracted.`);
+  }
+
+  const targetNamespace = namespace || getProjectNamespace();
+  return {
+    action: 'propose',
+    ticketId,
+    namespace: targetNamespace,
+    ticket: {
+      intent: ticket.intent,
+      context: ticket.context || null,
+      assumptions: ticket.assumptions || null,
+      constraints_use: ticket.constraints_use || null,
+      constraints_avoid: ticket.constraints_avoid || null,
+      plan: ticket.plan || null,
+    },
+    suggestedKnowledge: await generateExtractProposals(ticket, targetNamespace, client),
+  };
+}
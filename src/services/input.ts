@@ -0,0 +1,27 @@
+/**
+ * Helpers for validating caller-supplied input (CLI --json, dashboard forms, SDK calls).
+ */
+
+import { ValidationError } from '../errors.js';
+
+// Fields are read before their types are checked, one by one
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type InputObject = Record<string, any>;
+
+export function expectObject(value: unknown): InputObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('Expected a JSON object');
+  }
+  return value as InputObject;
+}
+
+/**
+ * Parse a JSON argument such as `--json`, reporting syntax errors as invalid input.
+ */
+export function parseJsonInput(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new ValidationError(`Invalid JSON: ${(error as Error).message}`, { cause: error });
+  }
+}
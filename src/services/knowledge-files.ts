@@ -0,0 +1,343 @@
+/**
+ * Git-friendly mirror of knowledge entries as Markdown files.
+ * One `<id>.md` file per entry: front-matter holds the metadata, the body holds the content.
+ *
+ * Conflicts are detected from `updated_at`: a file records the database timestamp it was
+ * written from. If the file differs from the database but carries the same timestamp, the
+ * file was edited locally; if the timestamps differ, the database changed since the export.
+ */
+
+import type { Client } from '@libsql/client';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { parseKnowledgeRow } from '../db/parsers.js';
+import { assertEmbeddingModel } from '../db/embedding-meta.js';
+import { ValidationError } from '../errors.js';
+import {
+  clampConfidence, checkKnowledgeFields, validateKnowledgeFields, createKnowledge, updateKnowledge, setKnowledgeActive,
+} from './knowledge.js';
+import type { KnowledgeUpdateInput } from './knowledge.js';
+import { generateId } from '../utils/id.js';
+import { parseFrontMatter, stringifyFrontMatter } from '../utils/frontmatter.js';
+import type { Knowledge, KnowledgeCategory, DecisionScope, KnowledgeSource, Citation } from '../types.js';
+
+export interface KnowledgeSyncOptions {
+  namespace?: string;
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+export interface KnowledgeSyncConflict {
+  id: string;
+  file: string;
+  reason: string;
+}
+
+export interface KnowledgeSyncReport {
+  direction: 'to-files' | 'from-files';
+  dir: string;
+  dryRun: boolean;
+  created: string[];
+  updated: string[];
+  unchanged: number;
+  conflicts: KnowledgeSyncConflict[];
+  errors: { file: string; error: string }[];
+  orphans: string[];
+}
+
+/** Editable fields of an entry as represented in a file. */
+interface KnowledgeFileFields {
+  id?: string;
+  title: string;
+  namespace: string;
+  category: KnowledgeCategory | null;
+  tags: string[];
+  citations: Citation[];
+  confidence: number;
+  scope: DecisionScope;
+  active: boolean;
+  content: string;
+  source?: KnowledgeSource;
+  author?: string;
+  branch?: string;
+  updated_at?: string;
+}
+
+interface KnowledgeFile {
+  path: string;
+  fields: KnowledgeFileFields;
+}
+
+function emptyReport(direction: KnowledgeSyncReport['direction'], dir: string, dryRun: boolean): KnowledgeSyncReport {
+  return { direction, dir, dryRun, created: [], updated: [], unchanged: 0, conflicts: [], errors: [], orphans: [] };
+}
+
+function renderKnowledgeFile(k: Knowledge): string {
+  return stringifyFrontMatter({
+    id: k.id,
+    title: k.title,
+    namespace: k.namespace,
+    category: k.category ?? null,
+    tags: k.tags ?? [],
+    citations: k.citations ?? [],
+    confidence: k.confidence,
+    scope: k.decision_scope,
+    active: k.active,
+    source: k.source,
+    origin_ticket_id: k.origin_ticket_id,
+    origin_ticket_type: k.origin_ticket_type,
+    author: k.author,
+    branch: k.branch,
+    created_at: k.created_at,
+    updated_at: k.updated_at,
+  }, k.content);
+}
+
+/**
+ * Parse a file into entry fields, with the same checks as knowledge given as JSON.
+ */
+function parseKnowledgeFile(text: string): KnowledgeFileFields {
+  const { fields, body } = parseFrontMatter(text);
+
+  const parsed = validateKnowledgeFields({
+    title: fields.title,
+    namespace: fields.namespace,
+    content: body,
+    category: fields.category ?? undefined,
+    source: fields.source,
+    confidence: fields.confidence,
+    scope: fields.scope,
+    tags: fields.tags,
+    citations: fields.citations,
+    author: fields.author,
+    branch: fields.branch,
+  });
+  const errors: string[] = [];
+  if (!parsed.title) errors.push('title: Missing or empty title');
+  if (!parsed.namespace) errors.push('namespace: Missing or empty namespace');
+  if (!parsed.content) errors.push('content: File body is empty');
+  if (!parsed.scope) errors.push('scope: Missing scope (new-only|backward-compatible|global|legacy-frozen)');
+  if (fields.active !== undefined && typeof fields.active !== 'boolean') {
+    errors.push(`active: Invalid value ${JSON.stringify(fields.active)}. Must be true or false`);
+  }
+  errors.push(...checkKnowledgeFields(parsed));
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '));
+  }
+
+  return {
+    id: typeof fields.id === 'string' && fields.id ? fields.id : undefined,
+    title: parsed.title!,
+    namespace: parsed.namespace!,
+    category: parsed.category ?? null,
+    tags: parsed.tags ?? [],
+    citations: parsed.citations ?? [],
+    confidence: clampConfidence(parsed.confidence ?? 0.8),
+    scope: parsed.scope!,
+    active: fields.active !== false,
+    content: parsed.content!,
+    source: parsed.source,
+    author: parsed.author,
+    branch: parsed.branch,
+    updated_at: typeof fields.updated_at === 'string' ? fields.updated_at : undefined,
+  };
+}
+
+/** Comparable projection of the editable fields (metadata like author is not synced back). */
+function editableFields(f: Pick<KnowledgeFileFields, 'title' | 'namespace' | 'category' | 'tags' | 'citations' | 'confidence' | 'scope' | 'active' | 'content'>): string {
+  return JSON.stringify([f.title, f.namespace, f.category, f.tags, f.citations, f.confidence, f.scope, f.active, f.content.trim()]);
+}
+
+function knowledgeFields(k: Knowledge): KnowledgeFileFields {
+  return {
+    title: k.title,
+    namespace: k.namespace,
+    category: k.category ?? null,
+    tags: k.tags ?? [],
+    citations: k.citations ?? [],
+    confidence: k.confidence,
+    scope: k.decision_scope,
+    active: k.active,
+    content: k.content,
+  };
+}
+
+/**
+ * The update that turns `current` into the file's fields, through the same rules as
+ * `knowledge update`: tags and category can be replaced but not cleared.
+ */
+function knowledgeUpdate(fields: KnowledgeFileFields, current: KnowledgeFileFields): KnowledgeUpdateInput {
+  const update: KnowledgeUpdateInput = {};
+  if (fields.title !== current.title) update.title = fields.title;
+  if (fields.content.trim() !== current.content.trim()) update.content = fields.content;
+  if (fields.namespace !== current.namespace) update.namespace = fields.namespace;
+  if (fields.category !== current.category) {
+    if (!fields.category) throw new ValidationError('category cannot be cleared, only changed');
+    update.category = fields.category;
+  }
+  if (JSON.stringify(fields.tags) !== JSON.stringify(current.tags)) {
+    if (fields.tags.length === 0) throw new ValidationError('tags cannot be cleared, only replaced');
+    update.tags = fields.tags;
+  }
+  if (JSON.stringify(fields.citations) !== JSON.stringify(current.citations)) update.citations = fields.citations;
+  if (fields.confidence !== current.confidence) update.confidence = fields.confidence;
+  if (fields.scope !== current.scope) update.scope = fields.scope;
+  return update;
+}
+
+/**
+ * Read every `*.md` file in a directory. Unparseable files are reported as errors.
+ */
+function readKnowledgeFiles(dir: string, report: KnowledgeSyncReport): KnowledgeFile[] {
+  if (!existsSync(dir)) return [];
+  const files: KnowledgeFile[] = [];
+  for (const name of readdirSync(dir).filter(n => n.endsWith('.md')).sort()) {
+    const path = join(dir, name);
+    try {
+      files.push({ path, fields: parseKnowledgeFile(readFileSync(path, 'utf-8')) });
+    } catch (error) {
+      report.errors.push({ file: path, error: (error as Error).message });
+    }
+  }
+  return files;
+}
+
+async function loadKnowledge(client: Client, namespace?: string): Promise<Knowledge[]> {
+  const result = await client.execute({
+    sql: `SELECT * FROM knowledge ${namespace ? 'WHERE namespace = ?' : ''} ORDER BY created_at ASC, id ASC`,
+    args: namespace ? [namespace] : [],
+  });
+  return result.rows.map(row => parseKnowledgeRow(row as Record<string, unknown>));
+}
+
+async function getKnowledge(client: Client, id: string): Promise<Knowledge | null> {
+  const result = await client.execute({ sql: 'SELECT * FROM knowledge WHERE id = ?', args: [id] });
+  return result.rows.length > 0 ? parseKnowledgeRow(result.rows[0] as Record<string, unknown>) : null;
+}
+
+/**
+ * Write one file per knowledge entry. Files with local edits that have not been
+ * imported yet are left alone unless `force` is set. Files whose entry no longer
+ * exists are reported as orphans, never deleted.
+ */
+export async function syncKnowledgeToFiles(
+  client: Client,
+  dir: string,
+  options: KnowledgeSyncOptions = {},
+): Promise<KnowledgeSyncReport> {
+  const report = emptyReport('to-files', dir, Boolean(options.dryRun));
+  const files = readKnowledgeFiles(dir, report);
+  const filesById = new Map(files.filter(f => f.fields.id).map(f => [f.fields.id!, f]));
+  const entries = await loadKnowledge(client, options.namespace);
+
+  if (!options.dryRun) mkdirSync(dir, { recursive: true });
+
+  for (const entry of entries) {
+    const file = filesById.get(entry.id);
+    filesById.delete(entry.id);
+    const path = file?.path ?? join(dir, `${entry.id}.md`);
+
+    if (file) {
+      const same = editableFields(file.fields) === editableFields(knowledgeFields(entry));
+      if (same && file.fields.updated_at === entry.updated_at) {
+        report.unchanged++;
+        continue;
+      }
+      if (!same && file.fields.updated_at === entry.updated_at && !options.force) {
+        report.conflicts.push({ id: entry.id, file: path, reason: 'File has local edits that are not in the database (run --from-files first, or --force to overwrite)' });
+        continue;
+      }
+    }
+
+    if (!options.dryRun) writeFileSync(path, renderKnowledgeFile(entry));
+    (file ? report.updated : report.created).push(entry.id);
+  }
+
+  for (const file of filesById.values()) {
+    if (!options.namespace || file.fields.namespace === options.namespace) {
+      report.orphans.push(file.path);
+    }
+  }
+  report.orphans.push(...files.filter(f => !f.fields.id).map(f => f.path));
+
+  return report;
+}
+
+/**
+ * Upsert changed files into the database through the knowledge service, which
+ * re-embeds entries whose title, content or tags changed and records revisions.
+ * A file that differs from an entry updated after the file was written is a conflict
+ * unless `force` is set, in which case the file wins.
+ * Written files are refreshed so their `updated_at` matches the database.
+ */
+export async function syncKnowledgeFromFiles(
+  client: Client,
+  dir: string,
+  options: KnowledgeSyncOptions = {},
+): Promise<KnowledgeSyncReport> {
+  const report = emptyReport('from-files', dir, Boolean(options.dryRun));
+  if (!existsSync(dir)) {
+    throw new Error(`Directory not found: ${dir}`);
+  }
+
+  if (!options.dryRun) await assertEmbeddingModel(client);
+
+  const files = readKnowledgeFiles(dir, report)
+    .filter(f => !options.namespace || f.fields.namespace === options.namespace);
+
+  for (const file of files) {
+    const fields = file.fields;
+    try {
+      const existing = fields.id ? await getKnowledge(client, fields.id) : null;
+
+      if (!existing) {
+        const id = fields.id ?? generateId('KNOWLEDGE');
+        if (!options.dryRun) {
+          await createKnowledge(client, {
+            title: fields.title,
+            namespace: fields.namespace,
+            content: fields.content,
+            category: fields.category ?? undefined,
+            source: fields.source,
+            confidence: fields.confidence,
+            scope: fields.scope,
+            tags: fields.tags,
+            citations: fields.citations,
+            author: fields.author,
+            branch: fields.branch,
+          }, id);
+          if (!fields.active) await setKnowledgeActive(client, id, false);
+          writeFileSync(file.path, renderKnowledgeFile((await getKnowledge(client, id))!));
+        }
+        report.created.push(id);
+        continue;
+      }
+
+      const current = knowledgeFields(existing);
+      if (editableFields(fields) === editableFields(current)) {
+        report.unchanged++;
+        continue;
+      }
+      if (fields.updated_at !== existing.updated_at && !options.force) {
+        report.conflicts.push({
+          id: existing.id,
+          file: file.path,
+          reason: `Entry changed in the database since the file was written (file ${fields.updated_at ?? 'has no updated_at'}, database ${existing.updated_at}); use --force to overwrite`,
+        });
+        continue;
+      }
+
+      const update = knowledgeUpdate(fields, current);
+      if (!options.dryRun) {
+        if (Object.keys(update).length > 0) await updateKnowledge(client, existing.id, update);
+        if (fields.active !== current.active) await setKnowledgeActive(client, existing.id, fields.active);
+        writeFileSync(file.path, renderKnowledgeFile((await getKnowledge(client, existing.id))!));
+      }
+      report.updated.push(existing.id);
+    } catch (error) {
+      report.errors.push({ file: file.path, error: (error as Error).message });
+    }
+  }
+
+  return report;
+}
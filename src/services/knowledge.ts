@@ -0,0 +1,1047 @@
+/**
+ * Knowledge operations shared by the CLI, the MCP server, the dashboard and the SDK.
+ * Validation errors and missing entries are thrown as SuperintentError.
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { readFileSync } from 'fs';
+import { parseKnowledgeRow } from '../db/parsers.js';
+import { performSearchPage, embedQuery, SEARCH_MODES } from '../db/search.js';
+import { findDuplicateClusters } from '../db/duplicates.js';
+import {
+  KNOWLEDGE_LINK_TYPES, addKnowledgeLink, removeKnowledgeLinks, buildKnowledgeLinkMoves, getKnowledgeLinkGroups,
+} from '../db/knowledge-links.js';
+import { daemonSearch } from '../daemon/client.js';
+import {
+  ensureBaselineRevision, recordKnowledgeRevision, buildKnowledgeRevisionStatement, getKnowledgeRevisions,
+  revertKnowledge as restoreRevision,
+} from '../db/revisions.js';
+import { assertEmbeddingModel } from '../db/embedding-meta.js';
+import { writeKnowledgeChunks, buildChunkStatements } from '../db/chunks.js';
+import { embed } from '../embed/model.js';
+import { generateId } from '../utils/id.js';
+import { getGitUsername, getGitBranch } from '../utils/git.js';
+import { validateCitation, computeContentHash, resolveCitedFile } from '../utils/hash.js';
+import { ValidationError, NotFoundError } from '../errors.js';
+import { expectObject } from './input.js';
+import { addComment } from './comments.js';
+import { notifyChange } from './events.js';
+import type { VectorSearchOptions } from '../db/search.js';
+import type { ChunkSource } from '../db/chunks.js';
+import type { DuplicateCluster } from '../db/duplicates.js';
+import type { CitationValidationResult } from '../utils/hash.js';
+import type {
+  Knowledge, KnowledgeRevision, SearchResult, SearchMode, KnowledgeCategory, DecisionScope, KnowledgeSource,
+  TicketType, Citation, KnowledgeLinkType, KnowledgeLinks,
+} from '../types.js';
+
+const KNOWLEDGE_COLUMNS = `id, namespace, chunk_index, title, content,
+  category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
+  usage_count, last_used_at, author, branch, merged_into, created_at, updated_at`;
+
+/**
+ * Confidence as stored: 0.1-1.0, defaulting to 0.8.
+ */
+export function clampConfidence(value: number): number {
+  if (isNaN(value)) return 0.8;
+  return Math.max(0.1, Math.min(1.0, value));
+}
+
+const VALID_CATEGORIES: KnowledgeCategory[] = ['pattern', 'truth', 'principle', 'architecture', 'gotcha'];
+const VALID_SOURCES: KnowledgeSource[] = ['ticket', 'discovery', 'manual'];
+const VALID_SCOPES: DecisionScope[] = ['new-only', 'backward-compatible', 'global', 'legacy-frozen'];
+const VALID_TICKET_TYPES: TicketType[] = ['feature', 'bugfix', 'refactor', 'docs', 'chore', 'test'];
+
+// Knowledge fields as given by --json, the dashboard and SDK callers (camelCase keys)
+export interface KnowledgeFields {
+  title?: string;
+  namespace?: string;
+  content?: string;
+  category?: KnowledgeCategory;
+  source?: KnowledgeSource;
+  originTicketId?: string;
+  originTicketType?: TicketType;
+  confidence?: number;
+  scope?: DecisionScope;
+  tags?: string[];
+  citations?: Citation[];
+  author?: string;
+  branch?: string;
+}
+
+/**
+ * Check the types of knowledge fields given as JSON and trim them.
+ * Citations without a fileHash get the current hash of the cited file.
+ */
+export function validateKnowledgeFields(value: unknown): KnowledgeFields {
+  const parsed = expectObject(value);
+  const result: KnowledgeFields = {};
+
+  if (parsed.title !== undefined) {
+    if (typeof parsed.title !== 'string') throw new ValidationError('title must be a string');
+    result.title = parsed.title.trim();
+  }
+  if (parsed.namespace !== undefined) {
+    if (typeof parsed.namespace !== 'string') throw new ValidationError('namespace must be a string');
+    result.namespace = parsed.namespace.trim();
+  }
+  if (parsed.content !== undefined) {
+    if (typeof parsed.content !== 'string') throw new ValidationError('content must be a string');
+    result.content = parsed.content.trim();
+  }
+  if (parsed.category !== undefined) {
+    if (typeof parsed.category !== 'string') throw new ValidationError('category must be a string');
+    result.category = parsed.category.trim() as KnowledgeCategory;
+  }
+  if (parsed.source !== undefined) {
+    if (typeof parsed.source !== 'string') throw new ValidationError('source must be a string');
+    result.source = parsed.source.trim() as KnowledgeSource;
+  }
+  if (parsed.originTicketId !== undefined) {
+    if (typeof parsed.originTicketId !== 'string') throw new ValidationError('originTicketId must be a string');
+    result.originTicketId = parsed.originTicketId.trim();
+  }
+  if (parsed.originTicketType !== undefined) {
+    if (typeof parsed.originTicketType !== 'string') throw new ValidationError('originTicketType must be a string');
+    result.originTicketType = parsed.originTicketType.trim().toLowerCase() as TicketType;
+  }
+  if (parsed.confidence !== undefined) {
+    if (typeof parsed.confidence !== 'number') throw new ValidationError('confidence must be a number');
+    result.confidence = parsed.confidence;
+  }
+  if (parsed.scope !== undefined) {
+    if (typeof parsed.scope !== 'string') throw new ValidationError('scope must be a string');
+    result.scope = parsed.scope.trim() as DecisionScope;
+  }
+  if (parsed.tags !== undefined) {
+    if (!Array.isArray(parsed.tags) || !parsed.tags.every((t: unknown) => typeof t === 'string')) {
+      throw new ValidationError('tags must be an array of strings');
+    }
+    result.tags = parsed.tags.map((t: string) => t.trim()).filter(Boolean);
+  }
+  if (parsed.citations !== undefined) {
+    if (!Array.isArray(parsed.citations)) {
+      throw new ValidationError('citations must be an array');
+    }
+    const fileHashCache = new Map<string, string>();
+    const cwd = process.cwd();
+    result.citations = parsed.citations.map((c: unknown, i: number) => {
+      if (typeof c !== 'object' || c === null) {
+        throw new ValidationError(`citations[${i}] must be an object`);
+      }
+      const citation = c as Record<string, unknown>;
+      if (typeof citation.path !== 'string' || !citation.path.trim()) {
+        throw new ValidationError(`citations[${i}].path must be a non-empty string`);
+      }
+      const citationPath = (citation.path as string).trim();
+      const colonIdx = citationPath.lastIndexOf(':');
+      const filePath = colonIdx === -1 ? citationPath : citationPath.slice(0, colonIdx);
+      const absPath = resolveCitedFile(cwd, filePath);
+      if (!absPath) {
+        throw new ValidationError(`citations[${i}]: ${filePath} is outside the project`);
+      }
+
+      // Auto-compute fileHash from file path if omitted
+      let fileHash: string;
+      if (typeof citation.fileHash === 'string' && citation.fileHash.trim()) {
+        fileHash = citation.fileHash.trim();
+      } else {
+        // Validate line number as navigation hint
+        if (colonIdx === -1) {
+          throw new ValidationError(`citations[${i}].path must be file:line format`);
+        }
+        const lineNum = parseInt(citationPath.slice(colonIdx + 1), 10);
+        if (isNaN(lineNum) || lineNum < 1) {
+          throw new ValidationError(`citations[${i}].path has invalid line number`);
+        }
+
+        // Hash entire file (cached per file path)
+        let cached = fileHashCache.get(filePath);
+        if (cached === undefined) {
+          try {
+            const content = readFileSync(absPath, 'utf-8');
+            cached = computeContentHash(content);
+            fileHashCache.set(filePath, cached);
+          } catch {
+            throw new ValidationError(`citations[${i}]: file not found: ${filePath}`);
+          }
+        }
+        fileHash = cached;
+      }
+
+      return { path: citationPath, fileHash };
+    });
+  }
+  if (parsed.author !== undefined) {
+    if (typeof parsed.author !== 'string') throw new ValidationError('author must be a string');
+    result.author = parsed.author.trim();
+  }
+  if (parsed.branch !== undefined) {
+    if (typeof parsed.branch !== 'string') throw new ValidationError('branch must be a string');
+    result.branch = parsed.branch.trim();
+  }
+
+  return result;
+}
+
+export interface KnowledgeUpdateInput extends KnowledgeFields {
+  // Added as a comment by `author`
+  comment?: string;
+}
+
+/**
+ * Check a knowledge update given as JSON: knowledge fields plus an optional comment.
+ */
+export function validateKnowledgeUpdate(value: unknown): KnowledgeUpdateInput {
+  const parsed = expectObject(value);
+  const result: KnowledgeUpdateInput = validateKnowledgeFields(parsed);
+  if (parsed.comment !== undefined) {
+    if (typeof parsed.comment !== 'string') throw new ValidationError('comment must be a string');
+    result.comment = parsed.comment.trim();
+  }
+  return result;
+}
+
+export interface KnowledgeUpdateResult {
+  knowledge: Knowledge;
+  // Revision recorded for the change; null when only a comment was added
+  revision: number | null;
+}
+
+export interface KnowledgeListFilter {
+  namespace?: string;
+  category?: KnowledgeCategory;
+  scope?: DecisionScope;
+  source?: KnowledgeSource;
+  author?: string;
+  branch?: string;
+  // main + current git branch together (overrides branch)
+  branchAuto?: boolean;
+  status?: 'active' | 'inactive' | 'all';
+  limit?: number;
+  offset?: number;
+}
+
+export interface KnowledgeSearchOptions extends Omit<VectorSearchOptions, 'limit' | 'branches' | 'trackUsage'> {
+  mode?: SearchMode;
+  limit?: number;
+  // main + current git branch together (overrides branch)
+  branchAuto?: boolean;
+  // Search through a running daemon of the current workspace when there is one
+  useDaemon?: boolean;
+}
+
+export interface KnowledgeSearchPage {
+  query: string;
+  mode: SearchMode;
+  results: SearchResult[];
+  nextCursor: string | null;
+}
+
+export interface CitationCheckOptions {
+  // Check these entries; otherwise every active entry with citations
+  ids?: string[];
+  // Only main branch entries (when no ids are given)
+  main?: boolean;
+  // Update changed citation hashes of entries with no missing citations
+  heal?: boolean;
+  dryRun?: boolean;
+}
+
+export interface CitationCheckReport {
+  validated: number;
+  uncited: number;
+  healed: number;
+  entries: {
+    id: string;
+    title: string;
+    total: number;
+    valid: number;
+    changed: number;
+    missing: number;
+    healed: boolean;
+    details: CitationValidationResult[];
+  }[];
+}
+
+export interface DuplicateSearchOptions {
+  // Minimum cosine similarity (0-1), default 0.85
+  threshold?: number;
+  namespace?: string;
+}
+
+export interface KnowledgeMergeResult {
+  knowledge: Knowledge;
+  // Entries deactivated and pointed at the survivor
+  merged: string[];
+  // Comments moved from the merged entries to the survivor
+  movedComments: number;
+  revision: number | null;
+}
+
+export interface ConfidenceReport {
+  dryRun: boolean;
+  total: number;
+  adjusted: number;
+  adjustments: {
+    id: string;
+    title: string;
+    oldConfidence: number;
+    newConfidence: number;
+    reason: string;
+  }[];
+}
+
+/**
+ * Collect enum errors of knowledge fields, as `field: message`.
+ */
+export function checkKnowledgeFields(fields: KnowledgeFields): string[] {
+  const errors: string[] = [];
+
+  if (fields.scope !== undefined && !VALID_SCOPES.includes(fields.scope)) {
+    errors.push(`scope: Invalid scope '${fields.scope}'. Must be one of: ${VALID_SCOPES.join(', ')}`);
+  }
+  if (fields.category !== undefined && !VALID_CATEGORIES.includes(fields.category)) {
+    errors.push(`category: Invalid category '${fields.category}'. Must be one of: ${VALID_CATEGORIES.join(', ')}`);
+  }
+  if (fields.source !== undefined && !VALID_SOURCES.includes(fields.source)) {
+    errors.push(`source: Invalid source '${fields.source}'. Must be one of: ${VALID_SOURCES.join(', ')}`);
+  }
+  if (fields.originTicketType !== undefined && !VALID_TICKET_TYPES.includes(fields.originTicketType)) {
+    errors.push(`originTicketType: Invalid type '${fields.originTicketType}'. Must be one of: ${VALID_TICKET_TYPES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Create and embed a knowledge entry. An origin ticket sets the source to ticket
+ * and lists the entry in the ticket's derived knowledge. `id` keeps the ID of an entry
+ * created elsewhere (Markdown file sync).
+ */
+export async function createKnowledge(client: Client, fields: KnowledgeFields, id = generateId('KNOWLEDGE')): Promise<Knowledge> {
+  const errors: string[] = [];
+  if (!fields.title) errors.push('title: Missing or empty title');
+  if (!fields.namespace) errors.push('namespace: Missing or empty namespace');
+  if (!fields.content) errors.push('content: Missing or empty content');
+  if (!fields.scope) errors.push('scope: Missing scope (new-only|backward-compatible|global|legacy-frozen)');
+  errors.push(...checkKnowledgeFields(fields));
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '));
+  }
+
+  const title = fields.title!;
+  const content = fields.content!;
+  const tags = fields.tags?.length ? fields.tags : null;
+  const originTicketId = fields.originTicketId || null;
+
+  // Generate embedding from title + content + tags
+  await assertEmbeddingModel(client);
+  const tagsText = tags ? ' ' + tags.join(' ') : '';
+  const embedding = await embed(`${title} ${content}${tagsText}`);
+
+  await client.execute({
+    sql: `INSERT INTO knowledge (
+      id, namespace, chunk_index, title, content, embedding,
+      category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
+      author, branch
+    ) VALUES (?, ?, 0, ?, ?, vector32(?), ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)`,
+    args: [
+      id,
+      fields.namespace!,
+      title,
+      content,
+      JSON.stringify(embedding),
+      fields.category || null,
+      tags ? JSON.stringify(tags) : null,
+      fields.citations?.length ? JSON.stringify(fields.citations) : null,
+      originTicketId ? 'ticket' : fields.source || 'manual',
+      originTicketId,
+      fields.originTicketType || null,
+      fields.confidence !== undefined ? clampConfidence(fields.confidence) : 0.8,
+      fields.scope!,
+      fields.author || getGitUsername(),
+      fields.branch || getGitBranch(),
+    ],
+  });
+  await writeKnowledgeChunks(client, { id, title, content });
+
+  // Bidirectional linking: update ticket's derived_knowledge
+  if (originTicketId) {
+    const ticketResult = await client.execute({
+      sql: 'SELECT derived_knowledge FROM tickets WHERE id = ?',
+      args: [originTicketId],
+    });
+    if (ticketResult.rows.length > 0) {
+      const row = ticketResult.rows[0] as Record<string, unknown>;
+      const existing = row.derived_knowledge ? JSON.parse(row.derived_knowledge as string) : [];
+      existing.push(id);
+      await client.execute({
+        sql: 'UPDATE tickets SET derived_knowledge = ? WHERE id = ?',
+        args: [JSON.stringify(existing), originTicketId],
+      });
+      notifyChange('ticket', originTicketId, 'update');
+    }
+  }
+
+  notifyChange('knowledge', id, 'create');
+  return getKnowledge(client, id);
+}
+
+export async function getKnowledge(client: Client, id: string): Promise<Knowledge> {
+  const result = await client.execute({
+    sql: `SELECT ${KNOWLEDGE_COLUMNS} FROM knowledge WHERE id = ?`,
+    args: [id],
+  });
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Knowledge ${id} not found`);
+  }
+  return parseKnowledgeRow(result.rows[0] as Record<string, unknown>);
+}
+
+/**
+ * Main, or main plus the current git branch when working on another branch.
+ */
+function autoBranches(): string[] {
+  const current = getGitBranch();
+  return current === 'main' ? ['main'] : ['main', current];
+}
+
+/**
+ * List knowledge entries, newest first. Only active entries unless a status is given.
+ */
+export async function listKnowledge(client: Client, filter: KnowledgeListFilter = {}): Promise<Knowledge[]> {
+  const conditions: string[] = [];
+  const args: (string | number)[] = [];
+
+  const status = filter.status ?? 'active';
+  if (status === 'active') {
+    conditions.push('active = 1');
+  } else if (status === 'inactive') {
+    conditions.push('active = 0');
+  }
+  // 'all' = no filter on active
+
+  if (filter.namespace) {
+    conditions.push('namespace = ?');
+    args.push(filter.namespace);
+  }
+  if (filter.category) {
+    conditions.push('category = ?');
+    args.push(filter.category);
+  }
+  if (filter.scope) {
+    conditions.push('decision_scope = ?');
+    args.push(filter.scope);
+  }
+  if (filter.source) {
+    conditions.push('source = ?');
+    args.push(filter.source);
+  }
+  if (filter.author) {
+    conditions.push('author = ?');
+    args.push(filter.author);
+  }
+  if (filter.branchAuto) {
+    const branches = autoBranches();
+    conditions.push(`branch IN (${branches.map(() => '?').join(', ')})`);
+    args.push(...branches);
+  } else if (filter.branch) {
+    conditions.push('branch = ?');
+    args.push(filter.branch);
+  }
+
+  let sql = `SELECT ${KNOWLEDGE_COLUMNS} FROM knowledge`;
+  if (conditions.length > 0) {
+    sql += ` WHERE ${conditions.join(' AND ')}`;
+  }
+  sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+  args.push(filter.limit ?? 20);
+  args.push(filter.offset ?? 0);
+
+  const result = await client.execute({ sql, args });
+  return result.rows.map((row) => parseKnowledgeRow(row as Record<string, unknown>));
+}
+
+/**
+ * Update knowledge fields and record a revision. Title, content or tag changes re-embed the entry.
+ * Empty strings and empty tag lists leave a field unchanged; an empty citation list clears citations.
+ */
+export async function updateKnowledge(client: Client, id: string, input: KnowledgeUpdateInput): Promise<KnowledgeUpdateResult> {
+  const current = await getKnowledge(client, id);
+
+  const errors = checkKnowledgeFields(input);
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '));
+  }
+
+  const updates: string[] = [];
+  const args: (string | number | null)[] = [];
+  let contentChanged = false;
+
+  if (input.title) {
+    updates.push('title = ?');
+    args.push(input.title);
+    contentChanged = true;
+  }
+  if (input.content) {
+    updates.push('content = ?');
+    args.push(input.content);
+    contentChanged = true;
+  }
+  if (input.namespace) {
+    updates.push('namespace = ?');
+    args.push(input.namespace);
+  }
+  if (input.category) {
+    updates.push('category = ?');
+    args.push(input.category);
+  }
+  if (input.tags?.length) {
+    updates.push('tags = ?');
+    args.push(JSON.stringify(input.tags));
+    contentChanged = true;
+  }
+  if (input.citations !== undefined) {
+    updates.push('citations = ?');
+    args.push(input.citations.length > 0 ? JSON.stringify(input.citations) : null);
+  }
+  if (input.originTicketId) {
+    updates.push('origin_ticket_id = ?');
+    args.push(input.originTicketId);
+  }
+  if (input.confidence !== undefined) {
+    updates.push('confidence = ?');
+    args.push(clampConfidence(input.confidence));
+  }
+  if (input.scope) {
+    updates.push('decision_scope = ?');
+    args.push(input.scope);
+  }
+
+  if (updates.length === 0 && !input.comment) {
+    throw new ValidationError('No fields to update');
+  }
+
+  if (input.comment) {
+    await addComment(client, { parentType: 'knowledge', parentId: id, text: input.comment, author: input.author });
+  }
+
+  if (updates.length === 0) {
+    // Only a comment was added, no field updates needed
+    return { knowledge: current, revision: null };
+  }
+
+  // Re-generate embedding (and section chunks) if title, content, or tags changed
+  let chunkSource: ChunkSource | null = null;
+  if (contentChanged) {
+    const title = input.title || current.title;
+    const content = input.content || current.content;
+    const tags = input.tags?.length ? input.tags : current.tags ?? [];
+    const tagsText = tags.length ? ' ' + tags.join(' ') : '';
+    await assertEmbeddingModel(client);
+    const embedding = await embed(`${title} ${content}${tagsText}`);
+    updates.push('embedding = vector32(?)');
+    args.push(JSON.stringify(embedding));
+    chunkSource = { id, title, content };
+  }
+
+  // Keep the pre-update state if this entry has no history yet
+  const changedBy = getGitUsername();
+  await ensureBaselineRevision(client, id, changedBy);
+
+  updates.push("updated_at = datetime('now')");
+  args.push(id);
+  await client.execute({
+    sql: `UPDATE knowledge SET ${updates.join(', ')} WHERE id = ?`,
+    args,
+  });
+
+  if (chunkSource) {
+    await writeKnowledgeChunks(client, chunkSource);
+  }
+
+  const revision = await recordKnowledgeRevision(client, id, changedBy, 'update');
+  notifyChange('knowledge', id, 'update');
+  return { knowledge: await getKnowledge(client, id), revision };
+}
+
+/**
+ * Activate or deactivate a knowledge entry. Inactive entries are left out of search.
+ */
+export async function setKnowledgeActive(client: Client, id: string, active: boolean): Promise<void> {
+  const changedBy = getGitUsername();
+  await ensureBaselineRevision(client, id, changedBy);
+
+  // Reactivating a merged entry undoes the pointer to its survivor
+  const result = await client.execute({
+    sql: `UPDATE knowledge SET active = ?${active ? ', merged_into = NULL' : ''} WHERE id = ?`,
+    args: [active ? 1 : 0, id],
+  });
+  if (result.rowsAffected === 0) {
+    throw new NotFoundError(`Knowledge ${id} not found`);
+  }
+
+  await recordKnowledgeRevision(client, id, changedBy, active ? 'activate' : 'deactivate');
+  notifyChange('knowledge', id, 'update');
+}
+
+/**
+ * Clusters of near-duplicate active entries by embedding similarity, within a namespace.
+ */
+export async function findDuplicateKnowledge(client: Client, options: DuplicateSearchOptions = {}): Promise<DuplicateCluster[]> {
+  const threshold = options.threshold ?? 0.85;
+  if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+    throw new ValidationError(`Invalid threshold '${options.threshold}'. Must be a number above 0 and at most 1`);
+  }
+  return findDuplicateClusters(client, { threshold, namespace: options.namespace });
+}
+
+function mergeCitations(lists: (Citation[] | undefined)[]): Citation[] {
+  const byPath = new Map<string, Citation>();
+  for (const citation of lists.flatMap(list => list ?? [])) {
+    if (!byPath.has(citation.path)) byPath.set(citation.path, citation);
+  }
+  return [...byPath.values()];
+}
+
+/**
+ * Merge entries into a survivor. The survivor gets the union of tags and citations,
+ * the summed usage count and the highest confidence, and is re-embedded. Comments and
+ * links move to the survivor; merged entries are deactivated with merged_into pointing at it.
+ * Everything is written in one batch, so a failed merge leaves both sides untouched.
+ */
+export async function mergeKnowledge(
+  client: Client,
+  keepId: string,
+  dropIds: string[],
+  options: { author?: string } = {},
+): Promise<KnowledgeMergeResult> {
+  if (dropIds.length === 0) {
+    throw new ValidationError('No entries to merge');
+  }
+  if (new Set(dropIds).size !== dropIds.length) {
+    throw new ValidationError('Entries to merge must be unique');
+  }
+  if (dropIds.includes(keepId)) {
+    throw new ValidationError(`Cannot merge ${keepId} into itself`);
+  }
+
+  const keep = await getKnowledge(client, keepId);
+  if (!keep.active) {
+    throw new ValidationError(`Knowledge ${keepId} is inactive; activate it before merging into it`);
+  }
+  const drops: Knowledge[] = [];
+  for (const id of dropIds) {
+    const entry = await getKnowledge(client, id);
+    if (entry.merged_into) {
+      throw new ValidationError(`Knowledge ${id} was already merged into ${entry.merged_into}`);
+    }
+    drops.push(entry);
+  }
+
+  const entries = [keep, ...drops];
+  const tags = [...new Set(entries.flatMap(e => e.tags ?? []))];
+  const citations = mergeCitations(entries.map(e => e.citations));
+  const usageCount = entries.reduce((sum, e) => sum + e.usage_count, 0);
+  const confidence = Math.max(...entries.map(e => e.confidence));
+  const lastUsedAt = entries.map(e => e.last_used_at).filter((d): d is string => !!d).sort().pop() ?? null;
+
+  await assertEmbeddingModel(client);
+  const tagsText = tags.length ? ' ' + tags.join(' ') : '';
+  const embedding = await embed(`${keep.title} ${keep.content}${tagsText}`);
+
+  // Baselines keep the pre-merge state; they stay valid if the merge itself fails
+  const changedBy = options.author || getGitUsername();
+  for (const entry of entries) {
+    await ensureBaselineRevision(client, entry.id, changedBy);
+  }
+
+  const placeholders = dropIds.map(() => '?').join(', ');
+  // Entries merged into a dropped entry earlier now point at the new survivor
+  const repointed = await client.execute({
+    sql: `SELECT id FROM knowledge WHERE merged_into IN (${placeholders})`,
+    args: dropIds,
+  });
+  const movedComments = await client.execute({
+    sql: `SELECT COUNT(*) AS count FROM comments WHERE parent_type = 'knowledge' AND parent_id IN (${placeholders})`,
+    args: dropIds,
+  });
+
+  const statements: InStatement[] = [
+    {
+      sql: `UPDATE knowledge SET tags = ?, citations = ?, usage_count = ?, confidence = ?, last_used_at = ?,
+              embedding = vector32(?), updated_at = datetime('now')
+            WHERE id = ?`,
+      args: [
+        tags.length ? JSON.stringify(tags) : null,
+        citations.length ? JSON.stringify(citations) : null,
+        usageCount,
+        confidence,
+        lastUsedAt,
+        JSON.stringify(embedding),
+        keepId,
+      ],
+    },
+    ...await buildChunkStatements(client, { id: keepId, title: keep.title, content: keep.content }),
+    {
+      sql: `UPDATE comments SET parent_id = ? WHERE parent_type = 'knowledge' AND parent_id IN (${placeholders})`,
+      args: [keepId, ...dropIds],
+    },
+    {
+      sql: `UPDATE knowledge SET active = 0, merged_into = ?, updated_at = datetime('now') WHERE id IN (${placeholders})`,
+      args: [keepId, ...dropIds],
+    },
+    {
+      sql: `UPDATE knowledge SET merged_into = ? WHERE merged_into IN (${placeholders})`,
+      args: [keepId, ...dropIds],
+    },
+    ...await buildKnowledgeLinkMoves(client, dropIds, keepId),
+    ...dropIds.map(id => buildKnowledgeRevisionStatement(id, changedBy, `merged into ${keepId}`)),
+    {
+      sql: 'INSERT INTO comments (id, parent_type, parent_id, author, text) VALUES (?, ?, ?, ?, ?)',
+      args: [
+        generateId('COMMENT'),
+        'knowledge',
+        keepId,
+        changedBy,
+        `Merged ${drops.map(d => `${d.id} (${d.title})`).join(', ')}`,
+      ],
+    },
+    buildKnowledgeRevisionStatement(keepId, changedBy, 'merge'),
+  ];
+  await client.batch(statements, 'write');
+
+  for (const id of [...dropIds, ...repointed.rows.map(row => row.id as string), keepId]) {
+    notifyChange('knowledge', id, 'update');
+  }
+  const latest = await client.execute({
+    sql: 'SELECT MAX(revision) AS revision FROM knowledge_revisions WHERE knowledge_id = ?',
+    args: [keepId],
+  });
+
+  return {
+    knowledge: await getKnowledge(client, keepId),
+    merged: dropIds,
+    movedComments: Number(movedComments.rows[0].count),
+    revision: Number(latest.rows[0].revision),
+  };
+}
+
+function assertLinkType(type: string): asserts type is KnowledgeLinkType {
+  if (!KNOWLEDGE_LINK_TYPES.includes(type as KnowledgeLinkType)) {
+    throw new ValidationError(`Invalid type '${type}'. Must be one of: ${KNOWLEDGE_LINK_TYPES.join(', ')}`);
+  }
+}
+
+/**
+ * Link two entries and return the links of the first one.
+ * An active entry that gets superseded is deactivated.
+ */
+export async function linkKnowledge(
+  client: Client,
+  fromId: string,
+  toId: string,
+  type: KnowledgeLinkType,
+  author?: string,
+): Promise<KnowledgeLinks> {
+  assertLinkType(type);
+  const changedBy = author || getGitUsername();
+  await addKnowledgeLink(client, fromId, toId, type, changedBy);
+
+  if (type === 'supersedes') {
+    const target = await getKnowledge(client, toId);
+    if (target.active) {
+      await ensureBaselineRevision(client, toId, changedBy);
+      await client.execute({
+        sql: "UPDATE knowledge SET active = 0, updated_at = datetime('now') WHERE id = ?",
+        args: [toId],
+      });
+      await recordKnowledgeRevision(client, toId, changedBy, `superseded by ${fromId}`);
+    }
+  }
+
+  notifyChange('knowledge', fromId, 'update');
+  notifyChange('knowledge', toId, 'update');
+  return getKnowledgeLinkGroups(client, fromId);
+}
+
+/**
+ * Remove links between two entries (all types unless one is given).
+ * Superseded entries stay inactive. Returns the number of links removed.
+ */
+export async function unlinkKnowledge(client: Client, fromId: string, toId: string, type?: KnowledgeLinkType): Promise<number> {
+  if (type) assertLinkType(type);
+  const removed = await removeKnowledgeLinks(client, fromId, toId, type);
+  if (removed === 0) {
+    throw new NotFoundError(`No ${type ? type + ' ' : ''}link between ${fromId} and ${toId}`);
+  }
+  notifyChange('knowledge', fromId, 'update');
+  notifyChange('knowledge', toId, 'update');
+  return removed;
+}
+
+export async function getKnowledgeLinks(client: Client, id: string): Promise<KnowledgeLinks> {
+  const exists = await client.execute({
+    sql: 'SELECT id FROM knowledge WHERE id = ?',
+    args: [id],
+  });
+  if (exists.rows.length === 0) {
+    throw new NotFoundError(`Knowledge ${id} not found`);
+  }
+  return getKnowledgeLinkGroups(client, id);
+}
+
+/**
+ * Move a knowledge entry to the main branch.
+ */
+export async function promoteKnowledge(client: Client, id: string): Promise<void> {
+  const result = await client.execute({
+    sql: "UPDATE knowledge SET branch = 'main', updated_at = datetime('now') WHERE id = ?",
+    args: [id],
+  });
+  if (result.rowsAffected === 0) {
+    throw new NotFoundError(`Knowledge ${id} not found`);
+  }
+  notifyChange('knowledge', id, 'update');
+}
+
+export async function getKnowledgeHistory(client: Client, id: string): Promise<KnowledgeRevision[]> {
+  const exists = await client.execute({
+    sql: 'SELECT id FROM knowledge WHERE id = ?',
+    args: [id],
+  });
+  if (exists.rows.length === 0) {
+    throw new NotFoundError(`Knowledge ${id} not found`);
+  }
+  return getKnowledgeRevisions(client, id);
+}
+
+/**
+ * Restore a knowledge entry to a previous revision and re-embed it.
+ * Returns the new revision number.
+ */
+export async function revertKnowledge(client: Client, id: string, revision: number): Promise<number> {
+  if (!Number.isInteger(revision) || revision < 1) {
+    throw new ValidationError(`Invalid revision '${revision}'`);
+  }
+  const restored = await restoreRevision(client, id, revision, getGitUsername());
+  notifyChange('knowledge', id, 'update');
+  return restored;
+}
+
+/**
+ * Check knowledge citations against the files on disk (relative to the working directory).
+ */
+export async function validateCitations(client: Client, options: CitationCheckOptions = {}): Promise<CitationCheckReport> {
+  let rows;
+  if (options.ids) {
+    const ids = options.ids;
+    if (ids.length === 0) {
+      throw new ValidationError('No knowledge IDs given');
+    }
+    const placeholders = ids.map(() => '?').join(', ');
+    const result = await client.execute({
+      sql: `SELECT id, title, citations FROM knowledge WHERE id IN (${placeholders})`,
+      args: ids,
+    });
+    const foundIds = new Set(result.rows.map((r) => r.id as string));
+    const notFound = ids.filter((i) => !foundIds.has(i));
+    if (notFound.length > 0) {
+      throw new NotFoundError(`Knowledge not found: ${notFound.join(', ')}`);
+    }
+    rows = result.rows;
+  } else {
+    const sql = options.main
+      ? "SELECT id, title, citations FROM knowledge WHERE active = 1 AND citations IS NOT NULL AND branch = 'main'"
+      : 'SELECT id, title, citations FROM knowledge WHERE active = 1 AND citations IS NOT NULL';
+    const result = await client.execute({ sql, args: [] });
+    rows = result.rows;
+  }
+
+  const cwd = process.cwd();
+  const fileHashCache = new Map<string, string | null>();
+  const entries: CitationCheckReport['entries'] = [];
+  let uncited = 0;
+
+  for (const row of rows) {
+    const citationsRaw = row.citations as string | null;
+    const citations: Citation[] = citationsRaw ? JSON.parse(citationsRaw) : [];
+    if (citations.length === 0) {
+      uncited++;
+      continue;
+    }
+
+    const details = citations.map((c) => validateCitation(c, cwd, fileHashCache));
+    entries.push({
+      id: row.id as string,
+      title: (row.title as string).slice(0, 60),
+      total: citations.length,
+      valid: details.filter((d) => d.status === 'valid').length,
+      changed: details.filter((d) => d.status === 'changed').length,
+      missing: details.filter((d) => d.status === 'missing').length,
+      healed: false,
+      details,
+    });
+  }
+
+  // Heal: auto-fix changed citation hashes (no missing citations)
+  let healed = 0;
+  if (options.heal && !options.dryRun) {
+    for (const entry of entries) {
+      if (entry.changed > 0 && entry.missing === 0) {
+        const updatedCitations = entry.details.map((d) => ({
+          path: d.path,
+          fileHash: d.currentFileHash!,
+        }));
+        await client.execute({
+          sql: 'UPDATE knowledge SET citations = ?, updated_at = datetime(?) WHERE id = ?',
+          args: [JSON.stringify(updatedCitations), new Date().toISOString(), entry.id],
+        });
+        healed++;
+        entry.healed = true;
+        notifyChange('knowledge', entry.id, 'update');
+        // Update entry counts to reflect healed state
+        entry.valid += entry.changed;
+        entry.changed = 0;
+      }
+    }
+  }
+
+  return { validated: entries.length, uncited, healed, entries };
+}
+
+/**
+ * Adjust confidence of active entries by usage, staleness and missing cited files.
+ */
+export async function recalculateConfidence(client: Client, options: { dryRun?: boolean } = {}): Promise<ConfidenceReport> {
+  // Fetch all active knowledge with usage data and citations
+  const result = await client.execute({
+    sql: `SELECT id, title, category, confidence, usage_count, last_used_at, citations, created_at
+          FROM knowledge WHERE active = 1`,
+    args: [],
+  });
+
+  const cwd = process.cwd();
+  const fileHashCache = new Map<string, string | null>();
+
+  const now = new Date();
+  const adjustments: ConfidenceReport['adjustments'] = [];
+
+  for (const row of result.rows) {
+    const id = row.id as string;
+    const title = row.title as string;
+    const currentConfidence = row.confidence as number;
+    const usageCount = (row.usage_count as number) || 0;
+    const lastUsedAt = row.last_used_at as string | null;
+    const category = row.category as string;
+    const createdAt = row.created_at as string;
+
+    let adjustment = 0;
+    const reasons: string[] = [];
+
+    // Usage-based growth
+    if (usageCount > 10) {
+      adjustment += 0.10;
+      reasons.push(`high usage (${usageCount}): +0.10`);
+    } else if (usageCount > 5) {
+      adjustment += 0.05;
+      reasons.push(`good usage (${usageCount}): +0.05`);
+    }
+
+    // Staleness-based decay — reduced for stable categories
+    const slowDecay = category === 'truth' || category === 'architecture';
+    const referenceDate = lastUsedAt || createdAt;
+    if (referenceDate) {
+      const daysSince = Math.floor(
+        (now.getTime() - new Date(referenceDate).getTime()) / (1000 * 60 * 60 * 24)
+      );
+
+      if (daysSince > 180) {
+        const penalty = slowDecay ? 0.05 : 0.20;
+        adjustment -= penalty;
+        reasons.push(`very stale (${daysSince}d): -${penalty.toFixed(2)}`);
+      } else if (daysSince > 90) {
+        const penalty = slowDecay ? 0.02 : 0.10;
+        adjustment -= penalty;
+        reasons.push(`stale (${daysSince}d): -${penalty.toFixed(2)}`);
+      }
+    }
+
+    // Citation penalty — only missing files (deleted source) affect confidence
+    const citationsRaw = row.citations as string | null;
+    if (citationsRaw) {
+      const citations: Citation[] = JSON.parse(citationsRaw);
+      if (citations.length > 0) {
+        const results = citations.map((c) => validateCitation(c, cwd, fileHashCache));
+        const missingCount = results.filter((r) => r.status === 'missing').length;
+        if (missingCount > 0) {
+          const citationPenalty = -(missingCount / citations.length) * 0.15;
+          adjustment += citationPenalty;
+          reasons.push(`citations ${missingCount}/${citations.length} missing: ${citationPenalty.toFixed(2)}`);
+        }
+      }
+    }
+
+    // Skip if no adjustment needed
+    if (adjustment === 0) continue;
+
+    // Calculate new confidence, clamped between 0.1 and 1.0
+    const newConfidence = Math.max(0.1, Math.min(1.0, currentConfidence + adjustment));
+
+    // Skip if no actual change (already at bounds)
+    if (Math.abs(newConfidence - currentConfidence) < 0.001) continue;
+
+    adjustments.push({
+      id,
+      title: title.slice(0, 50),
+      oldConfidence: currentConfidence,
+      newConfidence: Math.round(newConfidence * 100) / 100,
+      reason: reasons.join(', '),
+    });
+
+    // Apply update unless dry-run
+    if (!options.dryRun) {
+      await client.execute({
+        sql: 'UPDATE knowledge SET confidence = ? WHERE id = ?',
+        args: [newConfidence, id],
+      });
+      notifyChange('knowledge', id, 'update');
+    }
+  }
+
+  return {
+    dryRun: !!options.dryRun,
+    total: result.rows.length,
+    adjusted: adjustments.length,
+    adjustments,
+  };
+}
+
+/**
+ * Search active knowledge by vector, lexical or hybrid ranking, one page at a time.
+ */
+export async function searchKnowledge(client: Client, query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgeSearchPage> {
+  const { mode = 'vector', branchAuto, useDaemon, ...filter } = options;
+  if (!SEARCH_MODES.includes(mode)) {
+    throw new ValidationError(`Invalid mode '${mode}'. Must be one of: ${SEARCH_MODES.join(', ')}`);
+  }
+
+  const searchOptions: VectorSearchOptions & { mode: SearchMode } = {
+    ...filter,
+    mode,
+    branch: branchAuto ? undefined : filter.branch,
+    branches: branchAuto ? autoBranches() : undefined,
+    minScore: filter.minScore ?? 0,
+    limit: filter.limit ?? 5,
+  };
+
+  // A running daemon has the model loaded already; otherwise search in-process
+  let page = useDaemon ? await daemonSearch({ query, options: searchOptions }) : null;
+  if (!page) {
+    // Lexical mode needs no embedding — skip loading the model
+    const queryEmbedding = mode === 'lexical' ? null : await embedQuery(client, query);
+    page = await performSearchPage(client, query, queryEmbedding, searchOptions);
+  }
+  return { query, mode, results: page.results, nextCursor: page.nextCursor };
+}
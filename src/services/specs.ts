@@ -0,0 +1,147 @@
+/**
+ * Spec operations shared by the CLI, the MCP server, the dashboard and the SDK.
+ */
+
+import type { Client } from '@libsql/client';
+import { parseSpecRow } from '../db/parsers.js';
+import { generateId } from '../utils/id.js';
+import { getGitUsername } from '../utils/git.js';
+import { ValidationError, NotFoundError } from '../errors.js';
+import { expectObject } from './input.js';
+import { addComment } from './comments.js';
+import { notifyChange } from './events.js';
+import type { Spec } from '../types.js';
+
+// Spec fields as given by --json, the dashboard and SDK callers
+export interface SpecFields {
+  title?: string;
+  content?: string;
+  author?: string;
+}
+
+export interface SpecUpdateInput extends SpecFields {
+  // Added as a comment by `author`
+  comment?: string;
+}
+
+/**
+ * Check the types of spec fields given as JSON and trim them.
+ */
+export function validateSpecFields(value: unknown): SpecFields {
+  const parsed = expectObject(value);
+  const result: SpecFields = {};
+  if (parsed.title !== undefined) {
+    if (typeof parsed.title !== 'string') throw new ValidationError('title must be a string');
+    result.title = parsed.title.trim();
+  }
+  if (parsed.content !== undefined) {
+    if (typeof parsed.content !== 'string') throw new ValidationError('content must be a string');
+    result.content = parsed.content.trim();
+  }
+  if (parsed.author !== undefined) {
+    if (typeof parsed.author !== 'string') throw new ValidationError('author must be a string');
+    result.author = parsed.author.trim();
+  }
+  return result;
+}
+
+/**
+ * Check a spec update given as JSON: spec fields plus an optional comment.
+ */
+export function validateSpecUpdate(value: unknown): SpecUpdateInput {
+  const parsed = expectObject(value);
+  const result: SpecUpdateInput = validateSpecFields(parsed);
+  if (parsed.comment !== undefined) {
+    if (typeof parsed.comment !== 'string') throw new ValidationError('comment must be a string');
+    result.comment = parsed.comment.trim();
+  }
+  return result;
+}
+
+/**
+ * Create a spec. Author defaults to git user.name.
+ */
+export async function createSpec(client: Client, fields: SpecFields): Promise<Spec> {
+  if (!fields.title) {
+    throw new ValidationError('title: Missing or empty title');
+  }
+
+  const id = generateId('SPEC');
+  await client.execute({
+    sql: 'INSERT INTO specs (id, title, content, author) VALUES (?, ?, ?, ?)',
+    args: [id, fields.title, fields.content || '', fields.author || getGitUsername()],
+  });
+  notifyChange('spec', id, 'create');
+  return getSpec(client, id);
+}
+
+export async function getSpec(client: Client, id: string): Promise<Spec> {
+  const result = await client.execute({
+    sql: 'SELECT * FROM specs WHERE id = ?',
+    args: [id],
+  });
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Spec ${id} not found`);
+  }
+  return parseSpecRow(result.rows[0] as Record<string, unknown>);
+}
+
+/**
+ * List specs, newest first.
+ */
+export async function listSpecs(client: Client, page: { limit?: number; offset?: number } = {}): Promise<Spec[]> {
+  const result = await client.execute({
+    sql: 'SELECT * FROM specs ORDER BY created_at DESC LIMIT ? OFFSET ?',
+    args: [page.limit ?? 20, page.offset ?? 0],
+  });
+  return result.rows.map((row) => parseSpecRow(row as Record<string, unknown>));
+}
+
+/**
+ * Update the title and/or content of a spec, and optionally add a comment.
+ */
+export async function updateSpec(client: Client, id: string, input: SpecUpdateInput): Promise<Spec> {
+  const current = await getSpec(client, id);
+
+  const updates: string[] = [];
+  const args: string[] = [];
+  if (input.title) {
+    updates.push('title = ?');
+    args.push(input.title);
+  }
+  if (input.content) {
+    updates.push('content = ?');
+    args.push(input.content);
+  }
+
+  if (updates.length === 0 && !input.comment) {
+    throw new ValidationError('No updates provided');
+  }
+
+  if (input.comment) {
+    await addComment(client, { parentType: 'spec', parentId: id, text: input.comment, author: input.author });
+  }
+
+  if (updates.length === 0) {
+    // Only a comment was added
+    return current;
+  }
+
+  updates.push("updated_at = datetime('now')");
+  args.push(id);
+  await client.execute({
+    sql: `UPDATE specs SET ${updates.join(', ')} WHERE id = ?`,
+    args,
+  });
+  notifyChange('spec', id, 'update');
+  return getSpec(client, id);
+}
+
+export async function deleteSpec(client: Client, id: string): Promise<void> {
+  await getSpec(client, id);
+  await client.execute({
+    sql: 'DELETE FROM specs WHERE id = ?',
+    args: [id],
+  });
+  notifyChange('spec', id, 'delete');
+}
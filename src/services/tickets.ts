@@ -0,0 +1,698 @@
+/**
+ * Ticket operations shared by the CLI, the MCP server, the dashboard and the SDK.
+ * Validation errors and missing tickets are thrown as SuperintentError.
+ */
+
+import type { Client, InValue } from '@libsql/client';
+import { parseTicketRow } from '../db/parsers.js';
+import {
+  TICKET_LINK_TYPES, addTicketLink, removeTicketLinks, deleteTicketLinks, getTicketDependencies, findUnblockedTickets,
+} from '../db/ticket-links.js';
+import { assertStatusTransition, recordStatusEvent, getStatusHistory } from '../db/ticket-status.js';
+import { generateId } from '../utils/id.js';
+import { getGitUsername } from '../utils/git.js';
+import { getProjectNamespace } from '../utils/config.js';
+import { ValidationError, NotFoundError } from '../errors.js';
+import { expectObject } from './input.js';
+import { addComment } from './comments.js';
+import { generateExtractProposals } from './extract.js';
+import { notifyChange } from './events.js';
+import type {
+  Ticket, TicketPlan, TicketType, TicketStatus, TicketStatusEvent,
+  TicketLinkType, TicketLinkRef, TicketDependencies, KnowledgeInput,
+} from '../types.js';
+
+/**
+ * Infer ticket type from intent keywords
+ */
+function inferTicketType(intent: string): TicketType {
+  const lower = intent.toLowerCase();
+
+  // Bugfix patterns
+  if (/\b(fix|bug|issue|error|broken|crash|fail|wrong|incorrect)\b/.test(lower)) {
+    return 'bugfix';
+  }
+
+  // Refactor patterns
+  if (/\b(refactor|restructure|reorganize|clean\s?up|simplify|improve\s+code|optimize)\b/.test(lower)) {
+    return 'refactor';
+  }
+
+  // Docs patterns
+  if (/\b(document|docs?|readme|comment|explain|guide)\b/.test(lower)) {
+    return 'docs';
+  }
+
+  // Test patterns
+  if (/\b(test|spec|coverage|unit\s+test|e2e|integration\s+test)\b/.test(lower)) {
+    return 'test';
+  }
+
+  // Chore patterns
+  if (/\b(chore|update\s+dep|upgrade|migrate|config|setup|ci|cd|build)\b/.test(lower)) {
+    return 'chore';
+  }
+
+  // Default to feature
+  return 'feature';
+}
+
+const VALID_TICKET_TYPES: TicketType[] = ['feature', 'bugfix', 'refactor', 'docs', 'chore', 'test'];
+const VALID_CHANGE_CLASSES: ('A' | 'B' | 'C')[] = ['A', 'B', 'C'];
+
+// Ticket fields as given by --json, the dashboard and SDK callers (camelCase keys)
+export interface TicketFields {
+  title?: string;
+  type?: TicketType;
+  intent?: string;
+  context?: string;
+  constraints?: {
+    use?: string[];
+    avoid?: string[];
+  };
+  assumptions?: string[];
+  changeClass?: 'A' | 'B' | 'C';
+  changeClassReason?: string;
+  plan?: TicketPlan;
+  spec?: string;
+  author?: string;
+}
+
+/**
+ * Check the types of ticket fields given as JSON (camelCase keys) and trim them.
+ * Values are checked against the allowed enums by create/update.
+ */
+export function validateTicketFields(value: unknown): TicketFields {
+  const parsed = expectObject(value);
+  const result: TicketFields = {};
+
+  if (parsed.title !== undefined) {
+    if (typeof parsed.title !== 'string') throw new ValidationError('title must be a string');
+    result.title = parsed.title.trim();
+  }
+  if (parsed.type !== undefined) {
+    if (typeof parsed.type !== 'string') throw new ValidationError('type must be a string');
+    result.type = parsed.type.trim().toLowerCase() as TicketType;
+  }
+  if (parsed.intent !== undefined) {
+    if (typeof parsed.intent !== 'string') throw new ValidationError('intent must be a string');
+    result.intent = parsed.intent.trim();
+  }
+  if (parsed.context !== undefined) {
+    if (typeof parsed.context !== 'string') throw new ValidationError('context must be a string');
+    result.context = parsed.context.trim();
+  }
+  if (parsed.constraints !== undefined) {
+    if (typeof parsed.constraints !== 'object' || parsed.constraints === null || Array.isArray(parsed.constraints)) {
+      throw new ValidationError('constraints must be an object with optional use/avoid arrays');
+    }
+    result.constraints = {};
+    if (parsed.constraints.use !== undefined) {
+      if (!Array.isArray(parsed.constraints.use) || !parsed.constraints.use.every((s: unknown) => typeof s === 'string')) {
+        throw new ValidationError('constraints.use must be an array of strings');
+      }
+      result.constraints.use = parsed.constraints.use.map((s: string) => s.trim()).filter(Boolean);
+    }
+    if (parsed.constraints.avoid !== undefined) {
+      if (!Array.isArray(parsed.constraints.avoid) || !parsed.constraints.avoid.every((s: unknown) => typeof s === 'string')) {
+        throw new ValidationError('constraints.avoid must be an array of strings');
+      }
+      result.constraints.avoid = parsed.constraints.avoid.map((s: string) => s.trim()).filter(Boolean);
+    }
+  }
+  if (parsed.assumptions !== undefined) {
+    if (!Array.isArray(parsed.assumptions) || !parsed.assumptions.every((s: unknown) => typeof s === 'string')) {
+      throw new ValidationError('assumptions must be an array of strings');
+    }
+    result.assumptions = parsed.assumptions.map((s: string) => s.trim()).filter(Boolean);
+  }
+  if (parsed.changeClass !== undefined) {
+    if (typeof parsed.changeClass !== 'string') throw new ValidationError('changeClass must be a string');
+    result.changeClass = parsed.changeClass.trim().toUpperCase() as 'A' | 'B' | 'C';
+  }
+  if (parsed.changeClassReason !== undefined) {
+    if (typeof parsed.changeClassReason !== 'string') throw new ValidationError('changeClassReason must be a string');
+    result.changeClassReason = parsed.changeClassReason.trim();
+  }
+  if (parsed.plan !== undefined) {
+    result.plan = validatePlan(parsed.plan);
+  }
+  if (parsed.spec !== undefined) {
+    if (typeof parsed.spec !== 'string') throw new ValidationError('spec must be a string');
+    result.spec = parsed.spec.trim();
+  }
+  if (parsed.author !== undefined) {
+    if (typeof parsed.author !== 'string') throw new ValidationError('author must be a string');
+    result.author = parsed.author.trim();
+  }
+
+  return result;
+}
+
+/**
+ * Validate and normalize a plan JSON object into TicketPlan.
+ * Defaults `done` to false for taskSteps and dodVerification if not provided.
+ */
+function validatePlan(plan: unknown): TicketPlan {
+  if (typeof plan !== 'object' || plan === null || Array.isArray(plan)) {
+    throw new ValidationError('plan must be an object');
+  }
+  const p = plan as Record<string, unknown>;
+  const result: TicketPlan = {
+    files: [],
+    taskSteps: [],
+    dodVerification: [],
+    decisions: [],
+    tradeOffs: [],
+    rollback: undefined,
+    irreversibleActions: [],
+    edgeCases: [],
+  };
+
+  if (p.files !== undefined) {
+    if (!Array.isArray(p.files) || !p.files.every((f: unknown) => typeof f === 'string')) {
+      throw new ValidationError('plan.files must be an array of strings');
+    }
+    result.files = p.files as string[];
+  }
+
+  if (p.taskSteps !== undefined) {
+    if (!Array.isArray(p.taskSteps)) throw new ValidationError('plan.taskSteps must be an array');
+    for (let i = 0; i < p.taskSteps.length; i++) {
+      const ts = p.taskSteps[i] as Record<string, unknown>;
+      if (typeof ts !== 'object' || ts === null) throw new ValidationError(`plan.taskSteps[${i}] must be an object`);
+      if (typeof ts.task !== 'string') throw new ValidationError(`plan.taskSteps[${i}].task must be a string`);
+      if (ts.steps !== undefined && (!Array.isArray(ts.steps) || !ts.steps.every((s: unknown) => typeof s === 'string'))) {
+        throw new ValidationError(`plan.taskSteps[${i}].steps must be an array of strings`);
+      }
+      result.taskSteps.push({
+        task: ts.task as string,
+        steps: (ts.steps as string[]) || [],
+        done: typeof ts.done === 'boolean' ? ts.done : false,
+      });
+    }
+  }
+
+  if (p.dodVerification !== undefined) {
+    if (!Array.isArray(p.dodVerification)) throw new ValidationError('plan.dodVerification must be an array');
+    for (let i = 0; i < p.dodVerification.length; i++) {
+      const dv = p.dodVerification[i] as Record<string, unknown>;
+      if (typeof dv !== 'object' || dv === null) throw new ValidationError(`plan.dodVerification[${i}] must be an object`);
+      if (typeof dv.dod !== 'string') throw new ValidationError(`plan.dodVerification[${i}].dod must be a string`);
+      result.dodVerification.push({
+        dod: dv.dod as string,
+        verify: typeof dv.verify === 'string' ? dv.verify : '',
+        done: typeof dv.done === 'boolean' ? dv.done : false,
+      });
+    }
+  }
+
+  if (p.decisions !== undefined) {
+    if (!Array.isArray(p.decisions)) throw new ValidationError('plan.decisions must be an array');
+    for (let i = 0; i < p.decisions.length; i++) {
+      const d = p.decisions[i] as Record<string, unknown>;
+      if (typeof d !== 'object' || d === null) throw new ValidationError(`plan.decisions[${i}] must be an object`);
+      if (typeof d.choice !== 'string') throw new ValidationError(`plan.decisions[${i}].choice must be a string`);
+      result.decisions.push({
+        choice: d.choice as string,
+        reason: typeof d.reason === 'string' ? d.reason : '',
+      });
+    }
+  }
+
+  if (p.tradeOffs !== undefined) {
+    if (!Array.isArray(p.tradeOffs)) throw new ValidationError('plan.tradeOffs must be an array');
+    for (let i = 0; i < p.tradeOffs.length; i++) {
+      const t = p.tradeOffs[i] as Record<string, unknown>;
+      if (typeof t !== 'object' || t === null) throw new ValidationError(`plan.tradeOffs[${i}] must be an object`);
+      if (typeof t.considered !== 'string') throw new ValidationError(`plan.tradeOffs[${i}].considered must be a string`);
+      result.tradeOffs.push({
+        considered: t.considered as string,
+        rejected: typeof t.rejected === 'string' ? t.rejected : '',
+      });
+    }
+  }
+
+  if (p.rollback !== undefined) {
+    if (typeof p.rollback !== 'object' || p.rollback === null || Array.isArray(p.rollback)) {
+      throw new ValidationError('plan.rollback must be an object');
+    }
+    const rb = p.rollback as Record<string, unknown>;
+    const rev = typeof rb.reversibility === 'string' ? rb.reversibility : 'full';
+    if (!['full', 'partial', 'none'].includes(rev)) throw new ValidationError("plan.rollback.reversibility must be 'full', 'partial', or 'none'");
+    result.rollback = {
+      steps: Array.isArray(rb.steps) ? (rb.steps as string[]) : [],
+      reversibility: rev as 'full' | 'partial' | 'none',
+    };
+  }
+
+  if (p.irreversibleActions !== undefined) {
+    if (!Array.isArray(p.irreversibleActions) || !p.irreversibleActions.every((s: unknown) => typeof s === 'string')) {
+      throw new ValidationError('plan.irreversibleActions must be an array of strings');
+    }
+    result.irreversibleActions = p.irreversibleActions as string[];
+  }
+
+  if (p.edgeCases !== undefined) {
+    if (!Array.isArray(p.edgeCases) || !p.edgeCases.every((s: unknown) => typeof s === 'string')) {
+      throw new ValidationError('plan.edgeCases must be an array of strings');
+    }
+    result.edgeCases = p.edgeCases as string[];
+  }
+
+  return result;
+}
+
+export interface TicketUpdateInput extends TicketFields {
+  status?: TicketStatus;
+  // Required when status is Superseded
+  replacedBy?: string;
+  // Skip the status transition table
+  force?: boolean;
+  // Added as a comment by `author`
+  comment?: string;
+  // Plan task / DoD indices to mark as done
+  completeTasks?: number[];
+  completeDod?: number[];
+  completeAll?: boolean;
+  // Leave out extractProposals when moving to Done (they embed the proposal titles)
+  skipExtract?: boolean;
+}
+
+/**
+ * Check a ticket update given as JSON: ticket fields plus status, plan completion and comment.
+ * The status value itself is checked against the transition table by updateTicket.
+ */
+export function validateTicketUpdate(value: unknown): TicketUpdateInput {
+  const parsed = expectObject(value);
+  const result: TicketUpdateInput = validateTicketFields(parsed);
+
+  if (parsed.status !== undefined) {
+    if (typeof parsed.status !== 'string') throw new ValidationError('status must be a string');
+    result.status = parsed.status.trim() as TicketStatus;
+  }
+  for (const key of ['replacedBy', 'comment'] as const) {
+    if (parsed[key] === undefined) continue;
+    if (typeof parsed[key] !== 'string') throw new ValidationError(`${key} must be a string`);
+    result[key] = parsed[key].trim();
+  }
+  for (const key of ['force', 'completeAll', 'skipExtract'] as const) {
+    if (parsed[key] === undefined) continue;
+    if (typeof parsed[key] !== 'boolean') throw new ValidationError(`${key} must be a boolean`);
+    result[key] = parsed[key];
+  }
+  for (const key of ['completeTasks', 'completeDod'] as const) {
+    if (parsed[key] === undefined) continue;
+    if (!Array.isArray(parsed[key]) || !parsed[key].every((n: unknown) => Number.isInteger(n) && (n as number) >= 0)) {
+      throw new ValidationError(`${key} must be an array of indices`);
+    }
+    result[key] = parsed[key];
+  }
+
+  return result;
+}
+
+export interface TicketUpdateResult {
+  ticket: Ticket;
+  // Set when the ticket moved to Done
+  extractProposals?: KnowledgeInput[];
+  unblocked?: TicketLinkRef[];
+}
+
+export interface TicketListFilter {
+  status?: TicketStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TicketHistory {
+  id: string;
+  status: TicketStatus;
+  created_at: string;
+  events: TicketStatusEvent[];
+}
+
+/**
+ * Collect enum and plan errors of ticket fields, as `field: message`.
+ */
+function checkTicketFields(fields: TicketFields): string[] {
+  const errors: string[] = [];
+
+  // Type: optional (auto-inferred), but if provided must be valid
+  if (fields.type !== undefined && !VALID_TICKET_TYPES.includes(fields.type)) {
+    errors.push(`type: Invalid type '${fields.type}'. Must be one of: ${VALID_TICKET_TYPES.join(', ')}`);
+  }
+
+  // Change class: optional, but if provided must be A, B, or C
+  if (fields.changeClass !== undefined && !VALID_CHANGE_CLASSES.includes(fields.changeClass)) {
+    errors.push(`changeClass: Invalid change class '${fields.changeClass}'. Must be A, B, or C`);
+  }
+
+  if (fields.plan) {
+    for (let i = 0; i < fields.plan.taskSteps.length; i++) {
+      if (!fields.plan.taskSteps[i].task || !fields.plan.taskSteps[i].task.trim()) {
+        errors.push(`plan.taskSteps[${i}]: Empty task description`);
+      }
+    }
+    for (let i = 0; i < fields.plan.dodVerification.length; i++) {
+      if (!fields.plan.dodVerification[i].dod || !fields.plan.dodVerification[i].dod.trim()) {
+        errors.push(`plan.dodVerification[${i}]: Empty DoD criterion`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Create a ticket in Backlog. Type is inferred from the intent when omitted.
+ */
+export async function createTicket(client: Client, fields: TicketFields): Promise<Ticket> {
+  const errors = checkTicketFields(fields);
+  if (!fields.intent?.trim()) errors.unshift('intent: Missing or empty intent');
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '));
+  }
+
+  const id = generateId('TICKET');
+  const intent = fields.intent!;
+  await client.execute({
+    sql: `INSERT INTO tickets (
+      id, type, title, status, intent, context,
+      constraints_use, constraints_avoid, assumptions,
+      change_class, change_class_reason, plan, origin_spec_id, author
+    ) VALUES (?, ?, ?, 'Backlog', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      fields.type || inferTicketType(intent),
+      fields.title || null,
+      intent,
+      fields.context || null,
+      fields.constraints?.use ? JSON.stringify(fields.constraints.use) : null,
+      fields.constraints?.avoid ? JSON.stringify(fields.constraints.avoid) : null,
+      fields.assumptions ? JSON.stringify(fields.assumptions) : null,
+      fields.changeClass || null,
+      fields.changeClassReason || null,
+      fields.plan ? JSON.stringify(fields.plan) : null,
+      fields.spec || null,
+      fields.author || getGitUsername(),
+    ],
+  });
+
+  notifyChange('ticket', id, 'create');
+  return getTicket(client, id);
+}
+
+export async function getTicket(client: Client, id: string): Promise<Ticket> {
+  const result = await client.execute({
+    sql: 'SELECT * FROM tickets WHERE id = ?',
+    args: [id],
+  });
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Ticket ${id} not found`);
+  }
+  return parseTicketRow(result.rows[0] as Record<string, unknown>);
+}
+
+/**
+ * List tickets, newest first.
+ */
+export async function listTickets(client: Client, filter: TicketListFilter = {}): Promise<Ticket[]> {
+  let sql = 'SELECT * FROM tickets';
+  const args: InValue[] = [];
+
+  if (filter.status) {
+    sql += ' WHERE status = ?';
+    args.push(filter.status);
+  }
+
+  sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+  args.push(filter.limit ?? 20);
+  args.push(filter.offset ?? 0);
+
+  const result = await client.execute({ sql, args });
+  return result.rows.map((row) => parseTicketRow(row as Record<string, unknown>));
+}
+
+/**
+ * Update ticket fields, plan completion and status, and optionally add a comment.
+ * Moving to Done completes the whole plan and returns knowledge extraction proposals
+ * and the tickets it no longer blocks.
+ */
+export async function updateTicket(client: Client, id: string, input: TicketUpdateInput): Promise<TicketUpdateResult> {
+  const currentTicket = await getTicket(client, id);
+
+  const errors = checkTicketFields(input);
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '));
+  }
+
+  const updates: string[] = [];
+  const args: InValue[] = [];
+
+  // Plan is single source of truth for tasks and DoD completion
+  let plan = currentTicket.plan ? { ...currentTicket.plan } : null;
+  let planModified = false;
+
+  // Fields can replace the entire plan
+  if (input.plan) {
+    plan = input.plan;
+    planModified = true;
+  }
+
+  // Complete everything when asked to, or when the ticket is done
+  if ((input.completeAll || input.status === 'Done') && plan) {
+    if (plan.taskSteps.length > 0) {
+      plan.taskSteps = plan.taskSteps.map(ts => ({ ...ts, done: true }));
+      planModified = true;
+    }
+    if (plan.dodVerification.length > 0) {
+      plan.dodVerification = plan.dodVerification.map(dv => ({ ...dv, done: true }));
+      planModified = true;
+    }
+  } else if (plan) {
+    for (const idx of input.completeTasks ?? []) {
+      if (plan.taskSteps[idx]) {
+        plan.taskSteps[idx] = { ...plan.taskSteps[idx], done: true };
+        planModified = true;
+      }
+    }
+    for (const idx of input.completeDod ?? []) {
+      if (plan.dodVerification[idx]) {
+        plan.dodVerification[idx] = { ...plan.dodVerification[idx], done: true };
+        planModified = true;
+      }
+    }
+  }
+
+  if (input.status) {
+    await assertStatusTransition(client, id, currentTicket.status, input.status, {
+      force: input.force,
+      replacedBy: input.replacedBy,
+    });
+    updates.push('status = ?');
+    args.push(input.status);
+  }
+
+  if (input.title) {
+    updates.push('title = ?');
+    args.push(input.title);
+  }
+  if (input.intent) {
+    updates.push('intent = ?');
+    args.push(input.intent);
+  }
+  if (input.type) {
+    updates.push('type = ?');
+    args.push(input.type);
+  }
+  if (input.context) {
+    updates.push('context = ?');
+    args.push(input.context);
+  }
+  if (input.constraints?.use) {
+    updates.push('constraints_use = ?');
+    args.push(JSON.stringify(input.constraints.use));
+  }
+  if (input.constraints?.avoid) {
+    updates.push('constraints_avoid = ?');
+    args.push(JSON.stringify(input.constraints.avoid));
+  }
+  if (input.assumptions) {
+    updates.push('assumptions = ?');
+    args.push(JSON.stringify(input.assumptions));
+  }
+  if (input.changeClass) {
+    updates.push('change_class = ?');
+    args.push(input.changeClass);
+  }
+  if (input.changeClassReason) {
+    updates.push('change_class_reason = ?');
+    args.push(input.changeClassReason);
+  }
+  if (input.spec) {
+    updates.push('origin_spec_id = ?');
+    args.push(input.spec);
+  }
+  if (planModified && plan) {
+    updates.push('plan = ?');
+    args.push(JSON.stringify(plan));
+  }
+
+  if (updates.length === 0 && !input.comment) {
+    throw new ValidationError('No updates provided');
+  }
+
+  const author = input.author || getGitUsername();
+  if (input.comment) {
+    await addComment(client, { parentType: 'ticket', parentId: id, text: input.comment, author });
+  }
+
+  if (updates.length > 0) {
+    updates.push("updated_at = datetime('now')");
+    args.push(id);
+    await client.execute({
+      sql: `UPDATE tickets SET ${updates.join(', ')} WHERE id = ?`,
+      args,
+    });
+    notifyChange('ticket', id, 'update');
+  }
+
+  if (input.status && input.status !== currentTicket.status) {
+    await recordStatusEvent(client, id, currentTicket.status, input.status, author, {
+      force: input.force,
+      replacedBy: input.replacedBy,
+    });
+  }
+
+  const ticket = await getTicket(client, id);
+  const result: TicketUpdateResult = { ticket };
+
+  // Auto-extract: generate knowledge proposals when status is "Done"
+  if (input.status === 'Done') {
+    result.unblocked = await findUnblockedTickets(client, id);
+    if (!input.skipExtract) {
+      result.extractProposals = await generateExtractProposals(ticket, getProjectNamespace(), client);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Toggle the done flag of one plan task or DoD item.
+ */
+export async function toggleTicketPlanItem(
+  client: Client,
+  id: string,
+  item: 'task' | 'dod',
+  index: number,
+): Promise<Ticket> {
+  const { plan } = await getTicket(client, id);
+  const items = item === 'task' ? plan?.taskSteps : plan?.dodVerification;
+  if (!plan || !items || !Number.isInteger(index) || index < 0 || index >= items.length) {
+    throw new ValidationError(`Ticket ${id} has no ${item === 'task' ? 'task' : 'DoD item'} at index ${index}`);
+  }
+
+  items[index] = { ...items[index], done: !items[index].done };
+  await client.execute({
+    sql: `UPDATE tickets SET plan = ?, updated_at = datetime('now') WHERE id = ?`,
+    args: [JSON.stringify(plan), id],
+  });
+  notifyChange('ticket', id, 'update');
+  return getTicket(client, id);
+}
+
+/**
+ * Delete a ticket with its links and status history. Knowledge derived from it is kept.
+ */
+export async function deleteTicket(client: Client, id: string): Promise<void> {
+  const existing = await client.execute({
+    sql: 'SELECT id FROM tickets WHERE id = ?',
+    args: [id],
+  });
+  if (existing.rows.length === 0) {
+    throw new NotFoundError(`Ticket ${id} not found`);
+  }
+
+  await client.execute({
+    sql: 'UPDATE knowledge SET origin_ticket_id = NULL WHERE origin_ticket_id = ?',
+    args: [id],
+  });
+  await deleteTicketLinks(client, id);
+  await client.execute({
+    sql: 'DELETE FROM ticket_status_events WHERE ticket_id = ?',
+    args: [id],
+  });
+  await client.execute({
+    sql: 'DELETE FROM tickets WHERE id = ?',
+    args: [id],
+  });
+  notifyChange('ticket', id, 'delete');
+}
+
+export async function getTicketHistory(client: Client, id: string): Promise<TicketHistory> {
+  const existing = await client.execute({
+    sql: 'SELECT id, status, created_at FROM tickets WHERE id = ?',
+    args: [id],
+  });
+  if (existing.rows.length === 0) {
+    throw new NotFoundError(`Ticket ${id} not found`);
+  }
+
+  return {
+    id,
+    status: existing.rows[0].status as TicketStatus,
+    created_at: existing.rows[0].created_at as string,
+    events: await getStatusHistory(client, id),
+  };
+}
+
+function assertLinkType(type: string): asserts type is TicketLinkType {
+  if (!TICKET_LINK_TYPES.includes(type as TicketLinkType)) {
+    throw new ValidationError(`Invalid type '${type}'. Must be one of: ${TICKET_LINK_TYPES.join(', ')}`);
+  }
+}
+
+/**
+ * Link two tickets and return the dependencies of the first one.
+ */
+export async function linkTickets(
+  client: Client,
+  id: string,
+  otherId: string,
+  type: TicketLinkType,
+  author?: string,
+): Promise<TicketDependencies> {
+  assertLinkType(type);
+  await addTicketLink(client, id, otherId, type, author || getGitUsername());
+  notifyChange('ticket', id, 'update');
+  notifyChange('ticket', otherId, 'update');
+  return getTicketDependencies(client, id);
+}
+
+/**
+ * Remove links between two tickets (all types unless one is given).
+ * Returns the number of links removed.
+ */
+export async function unlinkTickets(client: Client, id: string, otherId: string, type?: TicketLinkType): Promise<number> {
+  if (type) assertLinkType(type);
+  const removed = await removeTicketLinks(client, id, otherId, type);
+  if (removed === 0) {
+    throw new NotFoundError(`No ${type ? type + ' ' : ''}link between ${id} and ${otherId}`);
+  }
+  notifyChange('ticket', id, 'update');
+  notifyChange('ticket', otherId, 'update');
+  return removed;
+}
+
+export async function getTicketLinks(client: Client, id: string): Promise<TicketDependencies> {
+  const existing = await client.execute({
+    sql: 'SELECT id FROM tickets WHERE id = ?',
+    args: [id],
+  });
+  if (existing.rows.length === 0) {
+    throw new NotFoundError(`Ticket ${id} not found`);
+  }
+  return getTicketDependencies(client, id);
+}
@@ -22,11 +22,13 @@ export interface TicketPlan {
 
 export type TicketType = 'feature' | 'bugfix' | 'refactor' | 'docs' | 'chore' | 'test';
 
+export type TicketStatus = 'Backlog' | 'In Progress' | 'In Review' | 'Done' | 'Blocked' | 'Abandoned' | 'Superseded';
+
 export interface Ticket {
   id: string;
   type?: TicketType;
   title?: string;
-  status: 'Backlog' | 'In Progress' | 'In Review' | 'Done' | 'Blocked' | 'Abandoned' | 'Superseded';
+  status: TicketStatus;
   intent: string;
   context?: string;
   constraints_use?: string[];
@@ -42,6 +44,37 @@ export interface Ticket {
   updated_at?: string;
 }
 
+// One row per status change. from_status is null for the first recorded event.
+// replaced_by is set when a ticket moves to Superseded.
+export interface TicketStatusEvent {
+  id: string;
+  ticket_id: string;
+  from_status: TicketStatus | null;
+  to_status: TicketStatus;
+  replaced_by?: string;
+  forced: boolean;
+  author?: string;
+  created_at?: string;
+}
+
+// Relations between tickets. blocked_by is the inverse view of blocks;
+// relates_to is symmetric.
+export type TicketLinkType = 'blocks' | 'blocked_by' | 'relates_to' | 'duplicates';
+
+export interface TicketLinkRef {
+  id: string;
+  title?: string;
+  status?: TicketStatus;
+}
+
+export interface TicketDependencies {
+  blocks: TicketLinkRef[];
+  blocked_by: TicketLinkRef[];
+  relates_to: TicketLinkRef[];
+  duplicates: TicketLinkRef[];
+  duplicated_by: TicketLinkRef[];
+}
+
 // JSON input shape for ticket create/update via --json (camelCase keys).
 export interface TicketInput {
   id: string;
@@ -58,6 +91,48 @@ export interface TicketInput {
   changeClassReason?: string;
 }
 
+// ── Ticket Analytics ────────────────────────────────────────────────
+// Flow metrics over tickets completed in a window. Durations are in days.
+//   lead time:  created → Done
+//   cycle time: first In Progress → Done (tickets never moved to In Progress are excluded)
+
+export interface DurationStats {
+  count: number;
+  avg: number | null;
+  median: number | null;
+  p85: number | null;
+}
+
+export interface TicketFlowGroup {
+  completed: number;
+  leadTime: DurationStats;
+  cycleTime: DurationStats;
+}
+
+export interface WipTicket {
+  id: string;
+  title?: string;
+  type?: TicketType;
+  status: TicketStatus;
+  ageDays: number;
+}
+
+export interface TicketAnalytics {
+  since: string;
+  until: string;
+  completed: number;
+  leadTime: DurationStats;
+  cycleTime: DurationStats;
+  byType: Record<string, TicketFlowGroup>;
+  byChangeClass: Record<string, TicketFlowGroup>;
+  throughput: { weekStart: string; completed: number }[];
+  wip: {
+    count: number;
+    avgAgeDays: number | null;
+    oldest: WipTicket[];
+  };
+}
+
 // ── Comments ────────────────────────────────────────────────────────
 // Polymorphic: attached to tickets, knowledge, or specs via parent_type/parent_id.
 
@@ -74,7 +149,7 @@ export interface Comment {
 }
 
 // ── Knowledge ───────────────────────────────────────────────────────
-// RAG entries with 384-dim vector embeddings (snowflake-arctic-embed-s) for semantic search.
+// RAG entries with vector embeddings (default: 384-dim bge-small-en-v1.5, see src/embed) for semantic search.
 // Content follows a structured format per category:
 //   pattern:      Why / When / Pattern
 //   truth:        Fact / Verified
@@ -110,6 +185,8 @@ export interface Knowledge {
   last_used_at?: string;
   author?: string;
   branch?: string;
+  // Survivor this entry was merged into (set while deactivated by a merge)
+  merged_into?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -131,8 +208,58 @@ export interface KnowledgeInput {
   branch?: string;
 }
 
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
 export interface SearchResult extends Knowledge {
   score: number;
+  // Sub-scores per ranking (null when the entry was not found by that ranking)
+  vectorScore?: number | null;
+  vectorRank?: number | null;
+  lexicalScore?: number | null;
+  lexicalRank?: number | null;
+  // Best-matching vector: chunk 0 is the whole entry, 1+ a section chunk of a long entry
+  matchedChunk?: number;
+  matchedSection?: string | null;
+  // Entries that supersede this one (only set when there are any)
+  superseded_by?: string[];
+}
+
+export type KnowledgeLinkType = 'supersedes' | 'contradicts' | 'refines' | 'depends-on';
+
+export interface KnowledgeLinkRef {
+  id: string;
+  title?: string;
+  active?: boolean;
+}
+
+export interface KnowledgeLinks {
+  supersedes: KnowledgeLinkRef[];
+  superseded_by: KnowledgeLinkRef[];
+  contradicts: KnowledgeLinkRef[];
+  refines: KnowledgeLinkRef[];
+  refined_by: KnowledgeLinkRef[];
+  depends_on: KnowledgeLinkRef[];
+  required_by: KnowledgeLinkRef[];
+}
+
+// Snapshot of a knowledge entry taken on every change.
+// Revision 1 is the state before the first recorded change.
+export interface KnowledgeRevision {
+  id: string;
+  knowledge_id: string;
+  revision: number;
+  namespace?: string;
+  title: string;
+  content: string;
+  category?: KnowledgeCategory;
+  tags?: string[];
+  citations?: Citation[];
+  confidence?: number;
+  active?: boolean;
+  decision_scope?: DecisionScope;
+  changed_by?: string;
+  reason?: string;
+  created_at?: string;
 }
 
 // ── Specs ───────────────────────────────────────────────────────────
@@ -150,6 +277,53 @@ export interface Spec {
 // ── CLI Response ────────────────────────────────────────────────────
 // Uniform JSON envelope for all CLI command output.
 
+// One row of change_log: an insert, update or delete of a ticket, knowledge entry,
+// spec or comment. Comments carry the entity they belong to in parent_type/parent_id.
+export type ChangeLogEntity = 'ticket' | 'knowledge' | 'spec' | 'comment';
+export type ChangeLogOp = 'insert' | 'update' | 'delete';
+
+export interface ChangeLogEntry {
+  seq: number;
+  entity: ChangeLogEntity;
+  entity_id: string;
+  op: ChangeLogOp;
+  parent_type?: CommentParentType;
+  parent_id?: string;
+  actor?: string;
+  created_at: string;
+}
+
+// One row of webhook_events: a lifecycle event such as 'ticket.status_changed'
+// or 'knowledge.deactivated'. data holds the title and, for status changes, from/to.
+export interface WebhookEvent {
+  seq: number;
+  type: string;
+  entity: 'ticket' | 'knowledge' | 'spec';
+  entity_id: string;
+  data: Record<string, unknown>;
+  actor?: string;
+  created_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One attempt series of sending an event (or a test ping) to a webhook subscription
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event_seq?: number;
+  event_type: string;
+  url: string;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at?: string;
+  response_status?: number;
+  last_error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface CliResponse<T = unknown> {
   success: boolean;
   data?: T;
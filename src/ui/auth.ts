@@ -0,0 +1,131 @@
+/**
+ * Access control for the dashboard: optional token / basic auth, read-only mode,
+ * and a request log with the authenticated identity.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { getCookie, setCookie } from 'hono/cookie';
+import type { Context, MiddlewareHandler } from 'hono';
+import type { DashboardAuthConfig } from '../utils/config.js';
+
+export interface AccessOptions {
+  // null when no credentials are configured: the dashboard is then only bound to loopback
+  auth: DashboardAuthConfig | null;
+  readOnly: boolean;
+}
+
+const TOKEN_COOKIE = 'superintent_token';
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// POST routes that only read (search requests carry their query in the body)
+const READ_ONLY_POSTS = new Set(['/api/search', '/api/v1/knowledge/search']);
+
+// Load balancer and uptime checks work without credentials
+const PUBLIC_PATHS = new Set(['/health']);
+
+/**
+ * Compare secrets without leaking their contents or length through timing.
+ */
+function secretEquals(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * Identity of the caller, or null when the request carries no valid credentials.
+ * Token holders are logged as "token"; basic-auth users by their user name.
+ */
+function authenticate(c: Context, auth: DashboardAuthConfig): string | null {
+  const header = c.req.header('Authorization') ?? '';
+
+  if (auth.token) {
+    const bearer = header.match(/^Bearer\s+(.+)$/i)?.[1];
+    const candidates = [bearer, getCookie(c, TOKEN_COOKIE), c.req.query('token')];
+    if (candidates.some((candidate) => candidate && secretEquals(candidate, auth.token!))) return 'token';
+  }
+
+  if (auth.basic) {
+    const encoded = header.match(/^Basic\s+(.+)$/i)?.[1];
+    if (encoded) {
+      const decoded = Buffer.from(encoded, 'base64').toString('utf-8');
+      const separator = decoded.indexOf(':');
+      if (separator !== -1) {
+        const username = decoded.slice(0, separator);
+        const password = decoded.slice(separator + 1);
+        // Evaluate both comparisons so a wrong user name takes as long as a wrong password
+        const userMatches = secretEquals(username, auth.basic.username);
+        const passwordMatches = secretEquals(password, auth.basic.password);
+        if (userMatches && passwordMatches) return username;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Browsers send Origin on cross-site requests; refuse mutations from other sites
+ * since basic-auth credentials are attached to them automatically.
+ */
+function isCrossOrigin(c: Context): boolean {
+  const origin = c.req.header('Origin');
+  if (!origin) return false;
+  try {
+    return new URL(origin).host !== c.req.header('Host');
+  } catch {
+    return true;
+  }
+}
+
+export function accessControl(options: AccessOptions): MiddlewareHandler {
+  const { auth, readOnly } = options;
+
+  return async (c, next) => {
+    const started = Date.now();
+    const { method, path } = c.req;
+
+    if (PUBLIC_PATHS.has(path)) {
+      await next();
+      return;
+    }
+
+    const identity = auth ? authenticate(c, auth) : 'local';
+    const log = (status: number) => {
+      // Without credentials the dashboard is local-only and stays quiet
+      if (!auth) return;
+      console.log(`${new Date().toISOString()} ${identity ?? '-'} ${method} ${path} ${status} ${Date.now() - started}ms`);
+    };
+
+    if (!identity) {
+      if (auth?.basic) {
+        c.header('WWW-Authenticate', 'Basic realm="Superintent", charset="UTF-8"');
+      }
+      log(401);
+      return c.json({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    // A token passed as ?token= is moved into a cookie so htmx requests and SSE carry it
+    const queryToken = c.req.query('token');
+    if (auth?.token && method === 'GET' && queryToken && secretEquals(queryToken, auth.token)) {
+      setCookie(c, TOKEN_COOKIE, auth.token, { httpOnly: true, sameSite: 'Strict', path: '/' });
+      const url = new URL(c.req.url);
+      url.searchParams.delete('token');
+      log(302);
+      return c.redirect(`${url.pathname}${url.search}`, 302);
+    }
+
+    if (!SAFE_METHODS.has(method)) {
+      if (readOnly && !READ_ONLY_POSTS.has(path)) {
+        log(403);
+        return c.json({ success: false, error: 'Dashboard is read-only' }, 403);
+      }
+      if (isCrossOrigin(c)) {
+        log(403);
+        return c.json({ success: false, error: 'Cross-origin request rejected' }, 403);
+      }
+    }
+
+    await next();
+    log(c.res.status);
+  };
+}
@@ -3,6 +3,8 @@ import { escapeHtml } from './utils.js';
 import { knowledgeHealthSummaryWidget } from './widgets/knowledge-health-summary.js';
 import { wikiCoverageWidget } from './widgets/wiki-coverage.js';
 import { ticketActivityWidget } from './widgets/ticket-activity.js';
+import { ticketFlowWidget } from './widgets/ticket-flow.js';
+import type { TicketAnalytics } from '../../types.js';
 
 // ============ Widget Architecture ============
 
@@ -62,6 +64,7 @@ export interface DashboardData {
   knowledgeHealth: KnowledgeHealthData;
   wikiCoverage?: WikiCoverageData;
   ticketActivity?: TicketActivityData;
+  ticketAnalytics?: TicketAnalytics;
 }
 
 // Size → CSS grid span mapping (responsive)
@@ -79,6 +82,7 @@ const widgetRegistry: WidgetDefinition[] = [
   knowledgeHealthSummaryWidget,
   wikiCoverageWidget,
   ticketActivityWidget,
+  ticketFlowWidget,
 ];
 
 // ============ Dashboard View (HTMX shell) ============
@@ -1,4 +1,5 @@
 // Knowledge Graph visualization component using vis-network
+import { VENDOR_ASSETS, vendorUrl } from '../vendor.js';
 
 export function renderGraphView(): string {
   return `
@@ -21,6 +22,15 @@ export function renderGraphView(): string {
             <span class="flex items-center gap-1"><span class="inline-block w-2.5 h-2.5 rounded-full" style="background:#8B5CF6"></span> principle</span>
             <span class="flex items-center gap-1"><span class="inline-block w-2.5 h-2.5 rounded-full" style="background:#EF4444"></span> gotcha</span>
           </div>
+          <div class="font-medium text-gray-700 dark:text-gray-200 mt-2 mb-1.5">Relations</div>
+          <div class="flex flex-wrap gap-x-3 gap-y-1 text-gray-600 dark:text-gray-300">
+            <span class="flex items-center gap-1"><span class="inline-block w-4 border-t-2" style="border-color:#94A3B8"></span> shared tags</span>
+            <span class="flex items-center gap-1"><span class="inline-block w-4 border-t-2" style="border-color:#DC2626"></span> supersedes</span>
+            <span class="flex items-center gap-1"><span class="inline-block w-4 border-t-2 border-dashed" style="border-color:#F97316"></span> contradicts</span>
+            <span class="flex items-center gap-1"><span class="inline-block w-4 border-t-2" style="border-color:#16A34A"></span> refines</span>
+            <span class="flex items-center gap-1"><span class="inline-block w-4 border-t-2 border-dotted" style="border-color:#2563EB"></span> depends on</span>
+            <span class="flex items-center gap-1"><span class="inline-block w-2.5 h-2.5 rounded-full opacity-40" style="background:#94A3B8"></span> inactive</span>
+          </div>
         </div>
       </div>
     </div>
@@ -45,10 +55,19 @@ export function getGraphScript(): string {
       var lightEdgeColors = { color: '#CBD5E1', highlight: '#64748B', hover: '#94A3B8' };
       var darkEdgeColors = { color: '#475569', highlight: '#94A3B8', hover: '#64748B' };
 
+      // Typed knowledge links keep their colors in both themes; arrows point from -> to
+      var linkStyles = {
+        supersedes:   { color: { color: '#DC2626', highlight: '#B91C1C', hover: '#EF4444' }, dashes: false, arrows: 'to', label: 'supersedes' },
+        contradicts:  { color: { color: '#F97316', highlight: '#EA580C', hover: '#FB923C' }, dashes: [8, 6], arrows: '', label: 'contradicts' },
+        refines:      { color: { color: '#16A34A', highlight: '#15803D', hover: '#22C55E' }, dashes: false, arrows: 'to', label: 'refines' },
+        'depends-on': { color: { color: '#2563EB', highlight: '#1D4ED8', hover: '#3B82F6' }, dashes: [2, 4], arrows: 'to', label: 'depends on' }
+      };
+
       function loadVisNetwork(cb) {
         if (visLoaded) { cb(); return; }
         var script = document.createElement('script');
-        script.src = 'https://cdn.jsdelivr.net/npm/vis-network@10.0.2/standalone/umd/vis-network.min.js';
+        script.src = '${vendorUrl('vis-network.min.js')}';
+        script.integrity = '${VENDOR_ASSETS['vis-network.min.js'].integrity}';
         script.onload = function() { visLoaded = true; cb(); };
         script.onerror = function() {
           var c = document.getElementById('graph-canvas');
@@ -87,13 +106,29 @@ export function getGraphScript(): string {
                 label: n.label,
                 color: colors,
                 size: size,
-                title: Math.round(confidence * 100) + '%',
+                title: Math.round(confidence * 100) + '%' + (n.active ? '' : ' (inactive)'),
                 font: { color: isDark() ? darkFontColor : lightFontColor, size: 11, face: 'system-ui' },
+                opacity: n.active ? 1 : 0.35,
                 shape: 'dot'
               };
             }));
 
             graphEdges = new vis.DataSet(data.edges.map(function(e, i) {
+              var style = linkStyles[e.type];
+              if (style) {
+                return {
+                  id: i,
+                  from: e.from,
+                  to: e.to,
+                  linkType: e.type,
+                  width: 2,
+                  color: style.color,
+                  dashes: style.dashes,
+                  arrows: style.arrows,
+                  title: style.label,
+                  smooth: { type: 'continuous' }
+                };
+              }
               return {
                 id: i,
                 from: e.from,
@@ -188,7 +223,7 @@ export function getGraphScript(): string {
           graphNodes.update({ id: node.id, font: { color: fontColor, size: 11, face: 'system-ui' } });
         });
         graphEdges.forEach(function(edge) {
-          graphEdges.update({ id: edge.id, color: edgeColors });
+          if (!edge.linkType) graphEdges.update({ id: edge.id, color: edgeColors });
         });
       }).observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
     })();
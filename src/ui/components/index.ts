@@ -22,7 +22,10 @@ export {
   renderKnowledgeView,
   renderKnowledgeList,
   renderKnowledgeMore,
+  renderKnowledgeCard,
   renderKnowledgeModal,
+  renderKnowledgeHistory,
+  renderKnowledgeDuplicates,
 } from './knowledge.js';
 
 // Search components
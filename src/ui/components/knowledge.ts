@@ -1,13 +1,24 @@
 // Knowledge-related UI components
 import { escapeHtml } from './utils.js';
 import { renderCommentsSection } from './comments.js';
-import type { Comment } from '../../types.js';
+import { diffLines } from '../../utils/diff.js';
+import type { Comment, KnowledgeRevision } from '../../types.js';
+import type { DuplicateCluster } from '../../db/duplicates.js';
 
 // Helper to render knowledge view
 export function renderKnowledgeView(): string {
   return `
     <div>
-      <h1 class="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Knowledge Base</h1>
+      <div class="flex items-center justify-between mb-4">
+        <h1 class="text-xl font-bold text-gray-800 dark:text-gray-100">Knowledge Base</h1>
+        <button type="button"
+                class="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-colors cursor-pointer"
+                hx-get="/partials/knowledge-duplicates"
+                hx-target="#modal-content"
+                onclick="showModal()">
+          Duplicates
+        </button>
+      </div>
       <div class="flex flex-col lg:flex-row gap-4 lg:gap-6">
       <aside class="w-full lg:w-64 shrink-0 lg:sticky lg:top-4 lg:self-start">
         <div class="grid grid-cols-2 lg:grid-cols-1 gap-2 lg:gap-4 lg:space-y-0 bg-white dark:bg-dark-surface border border-gray-200 dark:border-dark-border shadow-2xs rounded-md p-3 lg:p-4">
@@ -137,7 +148,7 @@ export interface KnowledgeItem {
 }
 
 // Helper to render a single knowledge card
-function renderKnowledgeCard(k: KnowledgeItem): string {
+export function renderKnowledgeCard(k: KnowledgeItem): string {
   const categoryColors: Record<string, string> = {
     pattern: 'purple',
     truth: 'green',
@@ -149,6 +160,8 @@ function renderKnowledgeCard(k: KnowledgeItem): string {
   const inactiveClass = !k.active ? 'opacity-60 border-dashed' : '';
   return `
     <div class="bg-white dark:bg-dark-surface border border-gray-200 dark:border-dark-border shadow-2xs rounded-md p-4 hover:shadow-md transition cursor-pointer ${inactiveClass}"
+         data-knowledge-id="${escapeHtml(k.id)}"
+         data-status="${k.active ? 'active' : 'inactive'}"
          hx-get="/partials/knowledge-modal/${encodeURIComponent(k.id)}"
          hx-target="#modal-content"
          hx-trigger="click"
@@ -267,6 +280,7 @@ export function renderKnowledgeModal(knowledge: {
   last_used_at?: string;
   author?: string;
   branch?: string;
+  merged_into?: string;
   created_at?: string;
   updated_at?: string;
 }, comments?: Comment[]): string {
@@ -280,7 +294,7 @@ export function renderKnowledgeModal(knowledge: {
   const color = categoryColors[knowledge.category || ''] || 'gray';
 
   return `
-    <div class="p-6">
+    <div class="p-6" data-modal-entity="knowledge" data-modal-id="${escapeHtml(knowledge.id)}">
       <div class="flex items-start justify-between mb-4">
         <div>
           <div class="flex items-center gap-2 mb-1">
@@ -304,6 +318,26 @@ export function renderKnowledgeModal(knowledge: {
         </button>
       </div>
 
+      <!-- Details / History tabs -->
+      <div class="flex border-b dark:border-dark-border mb-4">
+        <button type="button" data-modal-tab="details" onclick="switchModalTab('details')"
+                class="px-3 py-1.5 text-xs font-medium border-b-2 border-blue-700 dark:border-blue-400 text-blue-700 dark:text-blue-400 transition-colors cursor-pointer">
+          Details
+        </button>
+        <button type="button" data-modal-tab="history" onclick="switchModalTab('history')"
+                hx-get="/partials/knowledge-history/${encodeURIComponent(knowledge.id)}"
+                hx-target="[data-modal-panel='history']"
+                hx-trigger="click once"
+                class="px-3 py-1.5 text-xs font-medium border-b-2 border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors cursor-pointer">
+          History
+        </button>
+      </div>
+
+      <div data-modal-panel="history" class="hidden">
+        <div class="flex justify-center items-center py-8"><div class="animate-spin h-6 w-6 border-4 border-blue-500 border-t-transparent rounded-full"></div></div>
+      </div>
+
+      <div data-modal-panel="details">
       <!-- Confidence & Usage Stats -->
       <div class="mb-4 grid grid-cols-2 gap-4">
         <div class="bg-gray-100 dark:bg-gray-700/50 rounded-lg p-3">
@@ -335,6 +369,11 @@ export function renderKnowledgeModal(knowledge: {
           <div><span class="text-gray-400 dark:text-gray-500">Scope:</span> ${knowledge.decision_scope}</div>
           ${knowledge.author ? `<div><span class="text-gray-400 dark:text-gray-500">Author:</span> ${escapeHtml(knowledge.author)}</div>` : ''}
           ${knowledge.branch ? `<div><span class="text-gray-400 dark:text-gray-500">Branch:</span> ${knowledge.branch !== 'main' ? `<span class="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 font-medium text-xs">${escapeHtml(knowledge.branch)}</span>` : 'main'}</div>` : ''}
+          ${knowledge.merged_into ? `<div><span class="text-gray-400 dark:text-gray-500">Merged into:</span>
+            <span class="font-mono text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+                  hx-get="/partials/knowledge-modal/${encodeURIComponent(knowledge.merged_into)}"
+                  hx-target="#modal-content"
+                  hx-trigger="click">${escapeHtml(knowledge.merged_into)}</span></div>` : ''}
         </div>
       </div>
 
@@ -381,6 +420,7 @@ export function renderKnowledgeModal(knowledge: {
       ` : ''}
 
       ${renderCommentsSection(comments || [], 'knowledge', knowledge.id)}
+      </div>
 
       <!-- Hidden export data -->
       <script id="knowledge-export-data" type="application/json">${JSON.stringify({
@@ -436,3 +476,145 @@ export function renderKnowledgeModal(knowledge: {
     </div>
   `;
 }
+
+// Helper to render knowledge revision history (History tab in knowledge modal)
+export function renderKnowledgeHistory(knowledgeId: string, revisions: KnowledgeRevision[]): string {
+  if (revisions.length === 0) {
+    return '<p class="text-xs text-gray-400 dark:text-gray-500 py-4">No revisions recorded yet. History starts with the next change.</p>';
+  }
+
+  const latest = revisions[revisions.length - 1].revision;
+  const diffClasses: Record<string, string> = {
+    add: 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300',
+    remove: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300',
+    same: 'text-gray-500 dark:text-gray-400',
+  };
+  const diffPrefix: Record<string, string> = { add: '+', remove: '-', same: ' ' };
+
+  const items = [...revisions].reverse().map((rev) => {
+    const previous = revisions.find(r => r.revision === rev.revision - 1);
+    const lines = previous ? diffLines(previous.content, rev.content) : [];
+    const changed = lines.some(l => l.type !== 'same');
+    const titleChanged = previous && previous.title !== rev.title;
+
+    return `
+      <div class="bg-gray-100 dark:bg-gray-700/50 rounded-lg p-3">
+        <div class="flex items-center justify-between mb-1">
+          <div class="flex items-center gap-2">
+            <span class="px-1.5 py-0.5 text-[10px] font-mono font-medium rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">r${rev.revision}</span>
+            <span class="text-xs text-gray-600 dark:text-gray-300">${escapeHtml(rev.reason || 'update')}</span>
+            <span class="text-xs text-gray-400 dark:text-gray-500">${escapeHtml(rev.changed_by || 'unknown')} · ${rev.created_at || ''}</span>
+          </div>
+          ${rev.revision !== latest ? `
+            <button type="button"
+                    class="px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-colors cursor-pointer"
+                    hx-post="/api/knowledge/${encodeURIComponent(knowledgeId)}/revert/${rev.revision}"
+                    hx-target="#modal-content"
+                    hx-swap="innerHTML"
+                    hx-confirm="Restore revision ${rev.revision}? The entry will be re-embedded."
+                    hx-on::after-request="htmx.trigger('#knowledge-list', 'refresh')">
+              Restore
+            </button>
+          ` : '<span class="text-[10px] text-gray-400 dark:text-gray-500">current</span>'}
+        </div>
+        ${titleChanged ? `<div class="text-xs text-gray-500 dark:text-gray-400 mb-1">Title: <span class="line-through">${escapeHtml(previous!.title)}</span> → ${escapeHtml(rev.title)}</div>` : ''}
+        ${changed ? `
+          <details class="mt-1">
+            <summary class="text-xs text-gray-500 dark:text-gray-400 cursor-pointer">Content diff vs r${rev.revision - 1}</summary>
+            <pre class="mt-2 text-xs font-mono overflow-x-auto rounded bg-white dark:bg-gray-800 p-2">${lines.map(l => `<div class="${diffClasses[l.type]}">${diffPrefix[l.type]} ${escapeHtml(l.text)}</div>`).join('')}</pre>
+          </details>
+        ` : ''}
+      </div>
+    `;
+  }).join('');
+
+  return `<div class="space-y-2">${items}</div>`;
+}
+
+// Helper to render the duplicate review modal: one merge form per cluster
+export function renderKnowledgeDuplicates(
+  clusters: DuplicateCluster[],
+  options: { threshold: number; namespace?: string; notice?: string },
+): string {
+  const { threshold, namespace, notice } = options;
+  const hiddenFilters = `
+    <input type="hidden" name="threshold" value="${threshold}">
+    ${namespace ? `<input type="hidden" name="namespace" value="${escapeHtml(namespace)}">` : ''}
+  `;
+
+  const items = clusters.map((cluster, i) => `
+    <form class="bg-gray-100 dark:bg-gray-700/50 rounded-lg p-3"
+          hx-post="/api/knowledge/merge"
+          hx-target="#modal-content"
+          hx-swap="innerHTML"
+          hx-confirm="Merge the checked entries into the selected survivor? Merged entries are deactivated."
+          hx-on::after-request="htmx.trigger('#knowledge-list', 'refresh')">
+      ${hiddenFilters}
+      <div class="flex items-center justify-between mb-2">
+        <span class="text-xs text-gray-500 dark:text-gray-400">${cluster.entries.length} entries · ${escapeHtml(cluster.entries[0].namespace)} · up to ${Math.round(cluster.maxSimilarity * 100)}% similar</span>
+        <button type="submit"
+                class="px-2 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded transition-colors cursor-pointer">
+          Merge
+        </button>
+      </div>
+      <table class="w-full text-sm">
+        <thead>
+          <tr class="text-[10px] uppercase text-gray-400 dark:text-gray-500">
+            <th class="text-left font-medium pb-1 w-12">Keep</th>
+            <th class="text-left font-medium pb-1 w-12">Merge</th>
+            <th class="text-left font-medium pb-1">Entry</th>
+            <th class="text-right font-medium pb-1">Similarity</th>
+            <th class="text-right font-medium pb-1">Used</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${cluster.entries.map(entry => `
+            <tr class="align-top">
+              <td class="py-1"><input type="radio" name="keep" value="${escapeHtml(entry.id)}" ${entry.id === cluster.keep ? 'checked' : ''} aria-label="Keep ${escapeHtml(entry.id)}" id="dup-${i}-keep-${escapeHtml(entry.id)}"></td>
+              <td class="py-1"><input type="checkbox" name="drop" value="${escapeHtml(entry.id)}" ${entry.id !== cluster.keep ? 'checked' : ''} aria-label="Merge ${escapeHtml(entry.id)}"></td>
+              <td class="py-1">
+                <label for="dup-${i}-keep-${escapeHtml(entry.id)}" class="block text-gray-800 dark:text-gray-100">${escapeHtml(entry.title)}</label>
+                <span class="text-xs font-mono text-gray-400 dark:text-gray-500">${escapeHtml(entry.id)}</span>
+                <span class="text-xs text-gray-400 dark:text-gray-500">${entry.category ? `· ${escapeHtml(entry.category)} ` : ''}· ${Math.round(entry.confidence * 100)}% confidence</span>
+              </td>
+              <td class="py-1 text-right text-gray-600 dark:text-gray-300">${entry.id === cluster.keep ? '—' : `${Math.round(entry.similarity * 100)}%`}</td>
+              <td class="py-1 text-right text-gray-600 dark:text-gray-300">${entry.usage_count}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </form>
+  `).join('');
+
+  return `
+    <div class="p-6">
+      <div class="flex items-start justify-between mb-4">
+        <div>
+          <h2 class="text-xl font-bold text-gray-800 dark:text-gray-100">Duplicate Knowledge</h2>
+          <p class="text-xs text-gray-500 dark:text-gray-400 mt-1">Active entries with similar embeddings${namespace ? ` in ${escapeHtml(namespace)}` : ''}. The survivor keeps its content and gains the tags, citations, usage and comments of merged entries.</p>
+        </div>
+        <button onclick="hideModal()" class="shrink-0 size-8 inline-flex justify-center items-center rounded-full bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-hidden focus:bg-gray-200 dark:focus:bg-gray-600 cursor-pointer" aria-label="Close">
+          <span class="sr-only">Close</span>
+          <svg class="shrink-0 size-4" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 6 6 18"></path><path d="m6 6 12 12"></path></svg>
+        </button>
+      </div>
+
+      <form class="flex items-center gap-2 mb-4"
+            hx-get="/partials/knowledge-duplicates"
+            hx-target="#modal-content"
+            hx-trigger="change">
+        <label for="dup-threshold" class="text-xs text-gray-500 dark:text-gray-400">Threshold</label>
+        <select id="dup-threshold" name="threshold" class="border dark:border-dark-border rounded-lg px-2 py-1 text-xs bg-white dark:bg-dark-surface dark:text-gray-200">
+          ${[0.75, 0.8, 0.85, 0.9, 0.95].map(t => `<option value="${t}" ${t === threshold ? 'selected' : ''}>${Math.round(t * 100)}%</option>`).join('')}
+        </select>
+        ${namespace ? `<input type="hidden" name="namespace" value="${escapeHtml(namespace)}">` : ''}
+      </form>
+
+      ${notice ? `<div class="mb-4 px-3 py-2 text-xs rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">${escapeHtml(notice)}</div>` : ''}
+
+      ${clusters.length === 0
+        ? '<p class="text-gray-500 dark:text-gray-400 text-center py-8">No duplicates found at this threshold</p>'
+        : `<div class="space-y-3">${items}</div>`}
+    </div>
+  `;
+}
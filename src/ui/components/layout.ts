@@ -1,9 +1,10 @@
 // Main layout component for Superintent Web UI
 import { escapeHtml } from './utils.js';
 import { getGraphScript } from './graph.js';
+import { vendorScript } from '../vendor.js';
 
 // Main HTML shell with sidebar navigation, header, and JavaScript
-export function getHtml(namespace: string, version: string): string {
+export function getHtml(namespace: string, version: string, readOnly = false): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -22,10 +23,10 @@ export function getHtml(namespace: string, version: string): string {
       }
     })();
   </script>
-  <script src="https://cdn.jsdelivr.net/npm/htmx.org@2.0.8/dist/htmx.min.js"></script>
-  <script src="https://cdn.jsdelivr.net/npm/marked@17.0.1/lib/marked.umd.js"></script>
-  <script src="https://cdn.jsdelivr.net/npm/dompurify@3.3.1/dist/purify.min.js"></script>
-  <script src="https://cdn.jsdelivr.net/npm/jspdf@4.1.0/dist/jspdf.umd.min.js"></script>
+  ${vendorScript('htmx.min.js')}
+  ${vendorScript('marked.umd.js')}
+  ${vendorScript('purify.min.js')}
+  ${vendorScript('jspdf.umd.min.js')}
 </head>
 <body class="bg-gray-100 dark:bg-dark-base min-h-screen">
 
@@ -187,7 +188,7 @@ export function getHtml(namespace: string, version: string): string {
       <!-- Version + Theme Toggle -->
       <div class="p-3">
         <div class="flex items-center justify-between ps-2.5">
-          <span class="text-xs text-gray-400 dark:text-gray-500">Superintent v${escapeHtml(version)}</span>
+          <span class="text-xs text-gray-400 dark:text-gray-500">Superintent v${escapeHtml(version)}${readOnly ? ' · read-only' : ''}</span>
           <button id="theme-toggle" type="button" onclick="cycleTheme()" class="p-1.5 inline-flex items-center justify-center rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-dark-hover cursor-pointer focus:outline-none" title="Toggle theme">
             <!-- Sun icon (light) -->
             <svg id="theme-icon-light" class="size-4 hidden" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="4"/><path d="M12 2v2"/><path d="M12 20v2"/><path d="m4.93 4.93 1.41 1.41"/><path d="m17.66 17.66 1.41 1.41"/><path d="M2 12h2"/><path d="M20 12h2"/><path d="m6.34 17.66-1.41 1.41"/><path d="m19.07 4.93-1.41 1.41"/></svg>
@@ -470,6 +471,24 @@ export function getHtml(namespace: string, version: string): string {
       });
     }
 
+    // Detail modal tabs: show the selected [data-modal-panel], highlight its [data-modal-tab]
+    function switchModalTab(tab) {
+      const content = document.getElementById('modal-content');
+      content.querySelectorAll('[data-modal-panel]').forEach(function(panel) {
+        panel.classList.toggle('hidden', panel.dataset.modalPanel !== tab);
+      });
+      content.querySelectorAll('[data-modal-tab]').forEach(function(btn) {
+        const active = btn.dataset.modalTab === tab;
+        btn.classList.toggle('border-blue-700', active);
+        btn.classList.toggle('text-blue-700', active);
+        btn.classList.toggle('dark:border-blue-400', active);
+        btn.classList.toggle('dark:text-blue-400', active);
+        btn.classList.toggle('border-transparent', !active);
+        btn.classList.toggle('text-gray-500', !active);
+        btn.classList.toggle('dark:text-gray-400', !active);
+      });
+    }
+
     // Search modal functions
     function showSearchModal() {
       const modal = document.getElementById('search-modal');
@@ -803,15 +822,44 @@ export function getHtml(namespace: string, version: string): string {
         if (data.success) {
           // Refresh all columns
           htmx.trigger('#kanban-columns', 'refresh');
+          reportUnblocked(data);
+        } else {
+          alert(data.error || 'Status change failed');
         }
       });
       draggedId = null;
     }
 
+    // Tell the user which tickets a status change to Done unblocked
+    function reportUnblocked(data) {
+      const unblocked = data && data.data && data.data.unblocked;
+      if (unblocked && unblocked.length > 0) {
+        alert('Unblocked: ' + unblocked.map(t => t.id + (t.title ? ' (' + t.title + ')' : '')).join(', '));
+      }
+    }
+
     // HTMX event handlers
     document.body.addEventListener('htmx:afterRequest', function(e) {
-      if (e.detail.pathInfo.requestPath.includes('/status')) {
-        htmx.trigger('#kanban-columns', 'refresh');
+      const path = e.detail.pathInfo.requestPath;
+      if (path.includes('/status')) {
+        let data = null;
+        try { data = JSON.parse(e.detail.xhr.responseText); } catch (_) {}
+        if (e.detail.successful) {
+          htmx.trigger('#kanban-columns', 'refresh');
+          reportUnblocked(data);
+        } else {
+          // Rejected transition: explain and reload the modal to reset the status select
+          alert((data && data.error) || 'Status change failed');
+          const ticketId = path.split('/')[3];
+          if (ticketId && document.getElementById('status-select')) {
+            htmx.ajax('GET', '/partials/ticket-modal/' + ticketId, '#modal-content');
+          }
+        }
+      } else if (e.detail.xhr.status === 403) {
+        // Read-only dashboard: htmx does not swap error responses, so say why nothing happened
+        let data = null;
+        try { data = JSON.parse(e.detail.xhr.responseText); } catch (_) {}
+        alert((data && data.error) || 'Not allowed');
       }
     });
 
@@ -831,30 +879,101 @@ export function getHtml(namespace: string, version: string): string {
     ${getGraphScript()}
 
     // ============ SSE: Real-time updates ============
+    // Each 'change' event names one row (entity, id, op, actor). Cards and open
+    // modals for that row are re-rendered in place; lists only reload when rows
+    // appear, disappear or move (status change, activation).
     (function() {
       var evtSource = null;
+      var scheduled = {};
+
+      var lists = { ticket: 'kanban-columns', knowledge: 'knowledge-list', spec: 'spec-list' };
+
+      // Coalesce bursts (e.g. an update plus its comment) into one request per item
+      function schedule(key, fn) {
+        if (scheduled[key]) clearTimeout(scheduled[key]);
+        scheduled[key] = setTimeout(function() { delete scheduled[key]; fn(); }, 150);
+      }
+
+      function refreshList(entity) {
+        var el = document.getElementById(lists[entity]);
+        if (el) htmx.trigger(el, 'refresh');
+        if (entity === 'knowledge' && typeof window._refreshGraph === 'function') window._refreshGraph();
+      }
+
+      function findCard(entity, id) {
+        var list = document.getElementById(lists[entity]);
+        if (!list) return null;
+        var cards = list.querySelectorAll('[data-' + entity + '-id]');
+        for (var i = 0; i < cards.length; i++) {
+          if (cards[i].getAttribute('data-' + entity + '-id') === id) return cards[i];
+        }
+        return null;
+      }
+
+      function updateCard(entity, id) {
+        var card = findCard(entity, id);
+        if (!card) { refreshList(entity); return; }
+        fetch('/partials/' + entity + '-card/' + encodeURIComponent(id))
+          .then(function(r) { return r.ok ? r.text() : ''; })
+          .then(function(html) {
+            var tmp = document.createElement('div');
+            tmp.innerHTML = html.trim();
+            var next = tmp.firstElementChild;
+            // Gone, or now in another column / filter: let the list decide where it goes
+            if (!next || next.getAttribute('data-status') !== card.getAttribute('data-status') || !card.isConnected) {
+              refreshList(entity);
+              return;
+            }
+            card.replaceWith(next);
+            htmx.process(next);
+            if (entity === 'knowledge' && typeof window._refreshGraph === 'function') window._refreshGraph();
+          })
+          .catch(function() { refreshList(entity); });
+      }
+
+      // Reload the open detail modal unless the user is typing in it
+      function reloadModal(entity, id) {
+        var modal = document.getElementById('modal');
+        var root = document.querySelector('#modal-content [data-modal-entity="' + entity + '"]');
+        if (!root || root.getAttribute('data-modal-id') !== id || !modal || modal.classList.contains('hidden')) return;
+        var active = document.activeElement;
+        if (active && root.contains(active) && (active.tagName === 'TEXTAREA' || active.tagName === 'INPUT')) return;
+        htmx.ajax('GET', '/partials/' + entity + '-modal/' + encodeURIComponent(id), '#modal-content');
+      }
+
+      function applyChange(change) {
+        if (change.entity === 'comment') {
+          if (change.parent_type && change.parent_id) {
+            schedule('modal:' + change.parent_type + ':' + change.parent_id, function() {
+              reloadModal(change.parent_type, change.parent_id);
+            });
+          }
+          return;
+        }
+        if (!lists[change.entity]) return;
+
+        if (change.op === 'update') {
+          schedule('card:' + change.entity + ':' + change.entity_id, function() { updateCard(change.entity, change.entity_id); });
+          schedule('modal:' + change.entity + ':' + change.entity_id, function() { reloadModal(change.entity, change.entity_id); });
+        } else {
+          schedule('list:' + change.entity, function() { refreshList(change.entity); });
+        }
+      }
 
       function connectSSE() {
         evtSource = new EventSource('/api/events');
 
-        evtSource.addEventListener('ticket-updated', function() {
-          var el = document.getElementById('kanban-columns');
-          if (el) htmx.trigger(el, 'refresh');
-        });
-
-        evtSource.addEventListener('knowledge-updated', function() {
-          var el = document.getElementById('knowledge-list');
-          if (el) htmx.trigger(el, 'refresh');
-          if (typeof window._refreshGraph === 'function') window._refreshGraph();
+        evtSource.addEventListener('change', function(e) {
+          try { applyChange(JSON.parse(e.data)); } catch (_) {}
         });
 
-        evtSource.addEventListener('spec-updated', function() {
-          var el = document.getElementById('spec-list');
-          if (el) htmx.trigger(el, 'refresh');
+        // Too much changed (or we were away too long): reload every view
+        evtSource.addEventListener('reset', function() {
+          Object.keys(lists).forEach(function(entity) { schedule('list:' + entity, function() { refreshList(entity); }); });
         });
 
         evtSource.onerror = function() {
-          // Browser auto-reconnects; no custom logic needed
+          // Browser auto-reconnects and sends Last-Event-ID; missed changes are replayed
         };
       }
 
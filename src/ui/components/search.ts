@@ -80,6 +80,8 @@ export function renderSearchResults(results: {
   active: boolean;
   author?: string;
   branch?: string;
+  matchedSection?: string | null;
+  superseded_by?: string[];
 }[]): string {
   if (results.length === 0) {
     return '<p class="text-gray-500 dark:text-gray-400 text-center py-8">No results found</p>';
@@ -110,6 +112,7 @@ export function renderSearchResults(results: {
                 <div class="flex items-center gap-2">
                   <h3 class="text-sm font-semibold text-gray-800 dark:text-gray-100">${escapeHtml(r.title)}</h3>
                   ${!r.active ? '<span class="px-2 py-0.5 text-xs rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">Inactive</span>' : ''}
+                  ${r.superseded_by?.length ? `<span class="px-2 py-0.5 text-xs rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">Superseded by ${r.superseded_by.map(id => escapeHtml(id)).join(', ')}</span>` : ''}
                 </div>
                 <p class="text-sm text-gray-600 dark:text-gray-300 mt-1 line-clamp-3">${escapeHtml(r.content.slice(0, 300))}${r.content.length > 300 ? '...' : ''}</p>
               </div>
@@ -123,6 +126,7 @@ export function renderSearchResults(results: {
               <span><span class="text-gray-400 dark:text-gray-500">Source:</span> ${r.source || 'manual'}${r.source === 'ticket' && r.origin_ticket_type ? ` (${r.origin_ticket_type})` : ''}</span>
               ${r.category ? `<span><span class="text-gray-400 dark:text-gray-500">Category:</span> <span class="text-${color}-600 font-medium">${r.category}</span></span>` : ''}
               <span><span class="text-gray-400 dark:text-gray-500">Scope:</span> ${r.decision_scope}</span>
+              ${r.matchedSection ? `<span><span class="text-gray-400 dark:text-gray-500">Matched section:</span> ${escapeHtml(r.matchedSection)}</span>` : ''}
               ${r.author ? `<span><span class="text-gray-400 dark:text-gray-500">Author:</span> ${escapeHtml(r.author)}</span>` : ''}
               ${r.branch ? `<span><span class="text-gray-400 dark:text-gray-500">Branch:</span> ${r.branch !== 'main' ? `<span class="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 font-medium">${escapeHtml(r.branch)}</span>` : 'main'}</span>` : ''}
               ${(r.tags || []).length > 0 ? `<span><span class="text-gray-400 dark:text-gray-500">Tags:</span> ${(r.tags || []).slice(0, 3).map(t => escapeHtml(t)).join(', ')}</span>` : ''}
@@ -64,6 +64,7 @@ export function renderSpecMore(specs: Spec[], ticketCounts: Record<string, numbe
 export function renderSpecCard(spec: Spec, ticketCount: number = 0): string {
   return `
     <div class="bg-white dark:bg-dark-surface border border-gray-200 dark:border-dark-border shadow-2xs rounded-md hover:shadow-md transition cursor-pointer overflow-hidden flex flex-col group"
+         data-spec-id="${escapeHtml(spec.id)}"
          hx-get="/partials/spec-modal/${encodeURIComponent(spec.id)}"
          hx-target="#modal-content"
          hx-trigger="click"
@@ -110,7 +111,7 @@ export function renderSpecCard(spec: Spec, ticketCount: number = 0): string {
 // Helper to render spec modal
 export function renderSpecModal(spec: Spec, relatedTickets?: { id: string; title?: string; status: string }[], comments?: Comment[]): string {
   return `
-    <div class="p-6">
+    <div class="p-6" data-modal-entity="spec" data-modal-id="${escapeHtml(spec.id)}">
       <div class="flex items-start justify-between mb-4">
         <div>
           <div class="flex items-center gap-2 mb-1">
@@ -1,13 +1,14 @@
 // Ticket-related UI components
 import { escapeHtml, ColumnData, renderMarkdownEditor } from './utils.js';
 import { renderCommentsSection } from './comments.js';
-import type { Comment } from '../../types.js';
+import type { Comment, TicketDependencies, TicketLinkRef } from '../../types.js';
 
 // Helper to render a ticket card
 export function renderTicketCard(ticket: {
   id: string;
   type?: string;
   title?: string;
+  status?: string;
   intent: string;
   change_class?: string;
   change_class_reason?: string;
@@ -43,6 +44,8 @@ export function renderTicketCard(ticket: {
 
   return `
     <div class="bg-white dark:bg-dark-surface border border-gray-200 dark:border-dark-border shadow-2xs rounded-md p-3 cursor-pointer hover:shadow-md transition group"
+         data-ticket-id="${escapeHtml(ticket.id)}"
+         data-status="${escapeHtml(ticket.status ?? '')}"
          draggable="true"
          ondragstart="onDragStart(event, '${ticket.id}')"
          ondragend="onDragEnd(event)"
@@ -182,6 +185,42 @@ export function renderColumnMore(
   `;
 }
 
+// Helper to render the dependency section of the ticket modal
+function renderTicketDependencies(dependencies?: TicketDependencies): string {
+  if (!dependencies) return '';
+  const groups: { label: string; refs: TicketLinkRef[]; style: string }[] = [
+    { label: 'Blocked by', refs: dependencies.blocked_by, style: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/30' },
+    { label: 'Blocks', refs: dependencies.blocks, style: 'bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300 hover:bg-orange-100 dark:hover:bg-orange-900/30' },
+    { label: 'Duplicates', refs: dependencies.duplicates, style: 'bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 hover:bg-purple-100 dark:hover:bg-purple-900/30' },
+    { label: 'Duplicated by', refs: dependencies.duplicated_by, style: 'bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 hover:bg-purple-100 dark:hover:bg-purple-900/30' },
+    { label: 'Related', refs: dependencies.relates_to, style: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600' },
+  ].filter(g => g.refs.length > 0);
+  if (groups.length === 0) return '';
+
+  return `
+    <div class="mb-4">
+      <h3 class="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Dependencies</h3>
+      <div class="space-y-2">
+        ${groups.map(g => `
+          <div class="flex flex-wrap items-center gap-2">
+            <span class="text-xs font-medium text-gray-500 dark:text-gray-400 w-24 shrink-0">${g.label}</span>
+            ${g.refs.map(ref => `
+              <span class="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-lg cursor-pointer ${g.style}${ref.status === 'Done' ? ' line-through opacity-70' : ''}"
+                    title="${escapeHtml(ref.status || '')}"
+                    hx-get="/partials/ticket-modal/${encodeURIComponent(ref.id)}"
+                    hx-target="#modal-content"
+                    hx-trigger="click">
+                <span class="font-mono font-medium">${escapeHtml(ref.id)}</span>
+                ${ref.title ? `<span class="truncate max-w-48">${escapeHtml(ref.title)}</span>` : ''}
+              </span>
+            `).join('')}
+          </div>
+        `).join('')}
+      </div>
+    </div>
+  `;
+}
+
 // Helper to render ticket modal
 export function renderTicketModal(ticket: {
   id: string;
@@ -210,7 +249,7 @@ export function renderTicketModal(ticket: {
   author?: string;
   created_at?: string;
   updated_at?: string;
-}, comments?: Comment[]): string {
+}, comments?: Comment[], dependencies?: TicketDependencies): string {
   const statusColors: Record<string, string> = {
     'Backlog': 'gray',
     'In Progress': 'yellow',
@@ -240,7 +279,7 @@ export function renderTicketModal(ticket: {
   const classStyle = ticket.change_class ? modalClassColors[ticket.change_class] || { bg: 'bg-gray-100 dark:bg-gray-700', text: 'text-gray-600 dark:text-gray-300' } : null;
 
   return `
-    <div class="p-6">
+    <div class="p-6" data-modal-entity="ticket" data-modal-id="${escapeHtml(ticket.id)}">
       <div class="flex items-start justify-between mb-4">
         <div>
           <div class="flex items-center gap-2 mb-1">
@@ -313,6 +352,8 @@ export function renderTicketModal(ticket: {
         </div>
       ` : ''}
 
+      ${renderTicketDependencies(dependencies)}
+
       ${ticket.plan ? `
         <div class="mb-4">
           <h3 class="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Plan</h3>
@@ -446,6 +487,7 @@ export function renderTicketModal(ticket: {
                 hx-patch="/api/tickets/${encodeURIComponent(ticket.id)}/status"
                 hx-trigger="change"
                 hx-swap="none"
+                hx-vals="js:{replacedBy: promptReplacement()}"
                 name="status"
                 onchange="updateStatusColor(this)">
           <optgroup label="Normal Flow">
@@ -461,6 +503,11 @@ export function renderTicketModal(ticket: {
           </optgroup>
         </select>
         <script>
+          // Superseded needs the ID of the ticket that replaces this one
+          function promptReplacement() {
+            const el = document.getElementById('status-select');
+            return el && el.value === 'Superseded' ? (prompt('Replacement ticket ID') || '') : '';
+          }
           function updateStatusColor(el) {
             const colors = {
               'Backlog': 'gray', 'In Progress': 'yellow', 'In Review': 'blue', 'Done': 'green',
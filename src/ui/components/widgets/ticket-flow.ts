@@ -0,0 +1,103 @@
+// Ticket Flow widget — lead/cycle time, weekly throughput and WIP age over the last 30 days
+import { escapeHtml } from '../utils.js';
+import type { WidgetDefinition, DashboardData } from '../dashboard.js';
+import type { DurationStats } from '../../../types.js';
+
+function formatDays(stats: DurationStats): string {
+  return stats.median === null ? '—' : `${stats.median}d`;
+}
+
+function renderTicketFlow(data: DashboardData): string {
+  const ta = data.ticketAnalytics;
+
+  // Empty state
+  if (!ta || (ta.completed === 0 && ta.wip.count === 0)) {
+    return `
+      <div class="flex flex-col items-center justify-center h-full text-gray-400 dark:text-gray-500 gap-2">
+        <svg class="size-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="1.5">
+          <path stroke-linecap="round" stroke-linejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 0 1 3 19.875v-6.75ZM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V8.625ZM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 0 1-1.125-1.125V4.125Z"/>
+        </svg>
+        <p class="text-sm">No completed or in-flight tickets in the last 30 days</p>
+      </div>`;
+  }
+
+  const maxWeekly = Math.max(1, ...ta.throughput.map(w => w.completed));
+  const types = Object.entries(ta.byType);
+
+  return `
+    <div class="flex flex-col gap-3 h-full">
+      <!-- Headline numbers (medians) -->
+      <div class="grid grid-cols-4 gap-2">
+        <div class="text-center p-2 bg-green-50 dark:bg-green-900/20 rounded">
+          <div class="text-sm font-semibold text-green-700 dark:text-green-300">${ta.completed}</div>
+          <div class="text-[10px] text-green-500 dark:text-green-400">Completed</div>
+        </div>
+        <div class="text-center p-2 bg-gray-100 dark:bg-gray-700/50 rounded" title="Created → Done (median, p85 ${ta.leadTime.p85 ?? '—'}d)">
+          <div class="text-sm font-semibold text-gray-800 dark:text-gray-200">${formatDays(ta.leadTime)}</div>
+          <div class="text-[10px] text-gray-500 dark:text-gray-400">Lead time</div>
+        </div>
+        <div class="text-center p-2 bg-gray-100 dark:bg-gray-700/50 rounded" title="In Progress → Done (median, p85 ${ta.cycleTime.p85 ?? '—'}d)">
+          <div class="text-sm font-semibold text-gray-800 dark:text-gray-200">${formatDays(ta.cycleTime)}</div>
+          <div class="text-[10px] text-gray-500 dark:text-gray-400">Cycle time</div>
+        </div>
+        <div class="text-center p-2 bg-yellow-50 dark:bg-yellow-900/20 rounded" title="Average age of tickets in progress, in review or blocked">
+          <div class="text-sm font-semibold text-yellow-700 dark:text-yellow-300">${ta.wip.count}${ta.wip.avgAgeDays !== null ? ` · ${ta.wip.avgAgeDays}d` : ''}</div>
+          <div class="text-[10px] text-yellow-600 dark:text-yellow-400">WIP · avg age</div>
+        </div>
+      </div>
+
+      <div class="grid grid-cols-2 gap-4">
+        <!-- Weekly throughput -->
+        <div>
+          <div class="text-[10px] text-gray-500 dark:text-gray-400 mb-1">Weekly throughput</div>
+          <div class="flex items-end gap-1 h-16">
+            ${ta.throughput.map(w => `
+              <div class="flex-1 bg-blue-400 dark:bg-blue-600 rounded-t"
+                   style="height: ${Math.max(4, Math.round((w.completed / maxWeekly) * 100))}%"
+                   title="Week of ${w.weekStart}: ${w.completed}"></div>
+            `).join('')}
+          </div>
+        </div>
+
+        <!-- Cycle time by type -->
+        <div>
+          <div class="text-[10px] text-gray-500 dark:text-gray-400 mb-1">Cycle time by type (median)</div>
+          ${types.length === 0 ? '<p class="text-xs text-gray-400 dark:text-gray-500">No completed tickets</p>' : `
+          <div class="space-y-0.5">
+            ${types.map(([type, g]) => `
+              <div class="flex items-center justify-between text-xs">
+                <span class="text-gray-600 dark:text-gray-300">${escapeHtml(type)} <span class="text-gray-400">(${g.completed})</span></span>
+                <span class="font-medium text-gray-800 dark:text-gray-200">${formatDays(g.cycleTime)}</span>
+              </div>
+            `).join('')}
+          </div>`}
+        </div>
+      </div>
+
+      ${ta.wip.oldest.length > 0 ? `
+      <!-- Oldest work in progress -->
+      <div>
+        <div class="text-[10px] text-gray-500 dark:text-gray-400 mb-1">Oldest in progress</div>
+        <div class="space-y-0.5">
+          ${ta.wip.oldest.map(t => `
+            <div class="flex items-center justify-between text-xs cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded px-1"
+                 hx-get="/partials/ticket-modal/${encodeURIComponent(t.id)}"
+                 hx-target="#modal-content"
+                 hx-trigger="click"
+                 onclick="showModal()">
+              <span class="truncate text-gray-700 dark:text-gray-200">${escapeHtml(t.title || t.id)}</span>
+              <span class="shrink-0 ml-2 text-gray-500 dark:text-gray-400">${escapeHtml(t.status)} · ${t.ageDays}d</span>
+            </div>
+          `).join('')}
+        </div>
+      </div>
+      ` : ''}
+    </div>`;
+}
+
+export const ticketFlowWidget: WidgetDefinition = {
+  id: 'ticket-flow',
+  title: 'Ticket Flow (30d)',
+  size: 'M',
+  render: renderTicketFlow,
+};
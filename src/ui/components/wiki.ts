@@ -3,17 +3,11 @@
 import { escapeHtml } from './utils.js';
 import type { ASTFileResult, ASTClass, ASTFunction, ASTVariable, ASTInterface, WikiScanResult } from '../../wiki/scanner.js';
 import type { CoverageStats, CitationWithKnowledge } from '../../wiki/indexer.js';
+import type { WikiSearchHit } from '../../wiki/search.js';
 
 // ============ Types ============
 
-export interface WikiSearchHit {
-  type: 'function' | 'class' | 'method' | 'file' | 'variable' | 'constant' | 'interface';
-  name: string;
-  filePath: string;
-  line?: number;
-  endLine?: number;
-  detail?: string;
-}
+export type { WikiSearchHit };
 
 // ============ Main View Shell ============
 
@@ -0,0 +1,572 @@
+/**
+ * OpenAPI 3.1 document for the /api/v1 routes. Paths are generated from the
+ * route table in routes/api.ts; entity schemas mirror src/types.ts.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ApiParam {
+  type: 'string' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  required?: boolean;
+}
+
+// What the document needs to know about a route
+export interface ApiOperation {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  // OpenAPI style, relative to /api/v1: /tickets/{id}
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  query?: Record<string, ApiParam>;
+  body?: JsonSchema;
+  // Schema of `data` in the success envelope
+  response: JsonSchema;
+  paginated?: boolean;
+  created?: boolean;
+}
+
+export const API_BASE = '/api/v1';
+
+export const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+export const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+const str: JsonSchema = { type: 'string' };
+const strArray = arrayOf(str);
+const nullableStr: JsonSchema = { type: ['string', 'null'] };
+const timestamp: JsonSchema = { type: 'string', description: 'SQLite datetime (UTC)' };
+
+const TICKET_TYPES = ['feature', 'bugfix', 'refactor', 'docs', 'chore', 'test'];
+const TICKET_STATUSES = ['Backlog', 'In Progress', 'In Review', 'Done', 'Blocked', 'Abandoned', 'Superseded'];
+const CHANGE_CLASSES = ['A', 'B', 'C'];
+const CATEGORIES = ['pattern', 'truth', 'principle', 'architecture', 'gotcha'];
+const SOURCES = ['ticket', 'discovery', 'manual'];
+const SCOPES = ['new-only', 'backward-compatible', 'global', 'legacy-frozen'];
+
+export const ENUMS = {
+  ticketType: TICKET_TYPES,
+  ticketStatus: TICKET_STATUSES,
+  ticketLinkType: ['blocks', 'blocked_by', 'relates_to', 'duplicates'],
+  knowledgeLinkType: ['supersedes', 'contradicts', 'refines', 'depends-on'],
+  commentParentType: ['ticket', 'knowledge', 'spec'],
+  category: CATEGORIES,
+  source: SOURCES,
+  scope: SCOPES,
+  searchMode: ['vector', 'lexical', 'hybrid'],
+};
+
+const citation: JsonSchema = {
+  type: 'object',
+  properties: { path: { type: 'string', description: 'file:line' }, fileHash: str },
+  required: ['path', 'fileHash'],
+};
+
+const linkRefs = arrayOf(ref('TicketLinkRef'));
+const knowledgeLinkRefs = arrayOf(ref('KnowledgeLinkRef'));
+
+const SCHEMAS: Record<string, JsonSchema> = {
+  TicketPlan: {
+    type: 'object',
+    properties: {
+      files: strArray,
+      taskSteps: arrayOf({
+        type: 'object',
+        properties: { task: str, steps: strArray, done: { type: 'boolean' } },
+        required: ['task'],
+      }),
+      dodVerification: arrayOf({
+        type: 'object',
+        properties: { dod: str, verify: str, done: { type: 'boolean' } },
+        required: ['dod'],
+      }),
+      decisions: arrayOf({ type: 'object', properties: { choice: str, reason: str }, required: ['choice'] }),
+      tradeOffs: arrayOf({ type: 'object', properties: { considered: str, rejected: str }, required: ['considered'] }),
+      rollback: {
+        type: 'object',
+        properties: { steps: strArray, reversibility: { type: 'string', enum: ['full', 'partial', 'none'] } },
+      },
+      irreversibleActions: strArray,
+      edgeCases: strArray,
+    },
+  },
+  Ticket: {
+    type: 'object',
+    properties: {
+      id: str,
+      type: { type: 'string', enum: TICKET_TYPES },
+      title: str,
+      status: { type: 'string', enum: TICKET_STATUSES },
+      intent: str,
+      context: str,
+      constraints_use: strArray,
+      constraints_avoid: strArray,
+      assumptions: strArray,
+      change_class: { type: 'string', enum: CHANGE_CLASSES },
+      change_class_reason: str,
+      plan: ref('TicketPlan'),
+      origin_spec_id: str,
+      derived_knowledge: strArray,
+      author: str,
+      created_at: timestamp,
+      updated_at: timestamp,
+    },
+    required: ['id', 'status', 'intent'],
+  },
+  TicketFields: {
+    type: 'object',
+    description: 'Same fields as `ticket create --json`. Type is inferred from the intent when omitted.',
+    properties: {
+      title: str,
+      type: { type: 'string', enum: TICKET_TYPES },
+      intent: str,
+      context: str,
+      constraints: { type: 'object', properties: { use: strArray, avoid: strArray } },
+      assumptions: strArray,
+      changeClass: { type: 'string', enum: CHANGE_CLASSES },
+      changeClassReason: str,
+      plan: ref('TicketPlan'),
+      spec: { type: 'string', description: 'Origin spec ID' },
+      author: str,
+    },
+  },
+  TicketUpdate: {
+    allOf: [
+      ref('TicketFields'),
+      {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: TICKET_STATUSES },
+          replacedBy: { type: 'string', description: 'Required when status is Superseded' },
+          force: { type: 'boolean', description: 'Skip the status transition table' },
+          comment: str,
+          completeTasks: arrayOf({ type: 'integer', minimum: 0 }),
+          completeDod: arrayOf({ type: 'integer', minimum: 0 }),
+          completeAll: { type: 'boolean' },
+          skipExtract: { type: 'boolean', description: 'Leave out extractProposals when moving to Done' },
+        },
+      },
+    ],
+  },
+  TicketUpdateResult: {
+    type: 'object',
+    properties: {
+      ticket: ref('Ticket'),
+      extractProposals: arrayOf(ref('KnowledgeProposal')),
+      unblocked: linkRefs,
+    },
+    required: ['ticket'],
+  },
+  TicketStatusEvent: {
+    type: 'object',
+    properties: {
+      id: str,
+      ticket_id: str,
+      from_status: { type: ['string', 'null'], enum: [...TICKET_STATUSES, null] },
+      to_status: { type: 'string', enum: TICKET_STATUSES },
+      replaced_by: str,
+      forced: { type: 'boolean' },
+      author: str,
+      created_at: timestamp,
+    },
+  },
+  TicketHistory: {
+    type: 'object',
+    properties: {
+      id: str,
+      status: { type: 'string', enum: TICKET_STATUSES },
+      created_at: timestamp,
+      events: arrayOf(ref('TicketStatusEvent')),
+    },
+  },
+  TicketLinkRef: {
+    type: 'object',
+    properties: { id: str, title: str, status: { type: 'string', enum: TICKET_STATUSES } },
+    required: ['id'],
+  },
+  TicketDependencies: {
+    type: 'object',
+    properties: {
+      blocks: linkRefs,
+      blocked_by: linkRefs,
+      relates_to: linkRefs,
+      duplicates: linkRefs,
+      duplicated_by: linkRefs,
+    },
+  },
+  ExtractProposal: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['propose'] },
+      ticketId: str,
+      namespace: str,
+      ticket: { type: 'object' },
+      suggestedKnowledge: arrayOf(ref('KnowledgeProposal')),
+    },
+  },
+  KnowledgeProposal: {
+    type: 'object',
+    description: 'Suggested knowledge entry; review it before creating',
+    properties: {
+      namespace: str,
+      title: str,
+      content: str,
+      category: { type: 'string', enum: CATEGORIES },
+      source: { type: 'string', enum: SOURCES },
+      originTicketId: str,
+      originTicketType: { type: 'string', enum: TICKET_TYPES },
+      confidence: { type: 'number' },
+      decisionScope: { type: 'string', enum: SCOPES },
+    },
+  },
+  Knowledge: {
+    type: 'object',
+    properties: {
+      id: str,
+      namespace: str,
+      chunk_index: { type: 'integer' },
+      title: str,
+      content: str,
+      category: { type: 'string', enum: CATEGORIES },
+      tags: strArray,
+      citations: arrayOf(citation),
+      source: { type: 'string', enum: SOURCES },
+      origin_ticket_id: str,
+      origin_ticket_type: { type: 'string', enum: TICKET_TYPES },
+      confidence: { type: 'number' },
+      active: { type: 'boolean' },
+      decision_scope: { type: 'string', enum: SCOPES },
+      usage_count: { type: 'integer' },
+      last_used_at: timestamp,
+      author: str,
+      branch: str,
+      merged_into: { type: 'string', description: 'Survivor this entry was merged into' },
+      created_at: timestamp,
+      updated_at: timestamp,
+    },
+    required: ['id', 'namespace', 'title', 'content', 'source', 'confidence', 'active', 'decision_scope'],
+  },
+  KnowledgeFields: {
+    type: 'object',
+    description: 'Same fields as `knowledge create --json`. Citations without a fileHash get the hash of the cited file.',
+    properties: {
+      title: str,
+      namespace: str,
+      content: str,
+      category: { type: 'string', enum: CATEGORIES },
+      source: { type: 'string', enum: SOURCES },
+      originTicketId: str,
+      originTicketType: { type: 'string', enum: TICKET_TYPES },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      scope: { type: 'string', enum: SCOPES },
+      tags: strArray,
+      citations: arrayOf({
+        type: 'object',
+        properties: { path: { type: 'string', description: 'file:line' }, fileHash: str },
+        required: ['path'],
+      }),
+      author: str,
+      branch: str,
+    },
+  },
+  KnowledgeUpdate: {
+    allOf: [ref('KnowledgeFields'), { type: 'object', properties: { comment: str } }],
+  },
+  KnowledgeUpdateResult: {
+    type: 'object',
+    properties: {
+      knowledge: ref('Knowledge'),
+      revision: { type: ['integer', 'null'], description: 'Null when only a comment was added' },
+    },
+  },
+  DuplicateCluster: {
+    type: 'object',
+    properties: {
+      keep: { type: 'string', description: 'Suggested survivor: most used, then most confident, then oldest' },
+      maxSimilarity: { type: 'number' },
+      entries: arrayOf({
+        type: 'object',
+        properties: {
+          id: str,
+          title: str,
+          namespace: str,
+          category: { type: 'string', enum: CATEGORIES },
+          confidence: { type: 'number' },
+          usage_count: { type: 'integer' },
+          created_at: timestamp,
+          similarity: { type: 'number', description: 'Cosine similarity to the suggested survivor' },
+        },
+      }),
+    },
+  },
+  KnowledgeMerge: {
+    type: 'object',
+    properties: { keep: str, drop: strArray, author: str },
+    required: ['keep', 'drop'],
+  },
+  KnowledgeMergeResult: {
+    type: 'object',
+    properties: {
+      knowledge: ref('Knowledge'),
+      merged: strArray,
+      movedComments: { type: 'integer' },
+      revision: { type: ['integer', 'null'] },
+    },
+  },
+  KnowledgeLinkRef: {
+    type: 'object',
+    properties: { id: str, title: str, active: { type: 'boolean' } },
+    required: ['id'],
+  },
+  KnowledgeLinks: {
+    type: 'object',
+    properties: {
+      supersedes: knowledgeLinkRefs,
+      superseded_by: knowledgeLinkRefs,
+      contradicts: knowledgeLinkRefs,
+      refines: knowledgeLinkRefs,
+      refined_by: knowledgeLinkRefs,
+      depends_on: knowledgeLinkRefs,
+      required_by: knowledgeLinkRefs,
+    },
+  },
+  KnowledgeRevision: {
+    type: 'object',
+    properties: {
+      id: str,
+      knowledge_id: str,
+      revision: { type: 'integer' },
+      namespace: str,
+      title: str,
+      content: str,
+      category: { type: 'string', enum: CATEGORIES },
+      tags: strArray,
+      citations: arrayOf(citation),
+      confidence: { type: 'number' },
+      active: { type: 'boolean' },
+      decision_scope: { type: 'string', enum: SCOPES },
+      changed_by: str,
+      reason: str,
+      created_at: timestamp,
+    },
+  },
+  KnowledgeSearch: {
+    type: 'object',
+    properties: {
+      query: str,
+      mode: { type: 'string', enum: ENUMS.searchMode, default: 'vector' },
+      limit: { type: 'integer', minimum: 1, default: 5 },
+      namespace: str,
+      category: { type: 'string', enum: CATEGORIES },
+      tags: strArray,
+      branch: str,
+      minScore: { type: 'number' },
+      includeSuperseded: { type: 'boolean', default: false, description: 'Also return deactivated entries that another entry supersedes' },
+      cursor: { type: 'string', description: 'nextCursor of the previous page' },
+    },
+    required: ['query'],
+  },
+  SearchResult: {
+    allOf: [
+      ref('Knowledge'),
+      {
+        type: 'object',
+        properties: {
+          score: { type: 'number' },
+          vectorScore: { type: ['number', 'null'] },
+          vectorRank: { type: ['integer', 'null'] },
+          lexicalScore: { type: ['number', 'null'] },
+          lexicalRank: { type: ['integer', 'null'] },
+          matchedChunk: { type: 'integer' },
+          matchedSection: nullableStr,
+          superseded_by: { ...strArray, description: 'Entries that supersede this one (only set when there are any)' },
+        },
+      },
+    ],
+  },
+  KnowledgeSearchPage: {
+    type: 'object',
+    properties: {
+      query: str,
+      mode: { type: 'string', enum: ENUMS.searchMode },
+      results: arrayOf(ref('SearchResult')),
+      nextCursor: nullableStr,
+    },
+  },
+  Spec: {
+    type: 'object',
+    properties: { id: str, title: str, content: str, author: str, created_at: timestamp, updated_at: timestamp },
+    required: ['id', 'title', 'content'],
+  },
+  SpecFields: {
+    type: 'object',
+    properties: { title: str, content: str, author: str },
+  },
+  SpecUpdate: {
+    allOf: [ref('SpecFields'), { type: 'object', properties: { comment: str } }],
+  },
+  Comment: {
+    type: 'object',
+    properties: {
+      id: str,
+      parent_type: { type: 'string', enum: ENUMS.commentParentType },
+      parent_id: str,
+      author: str,
+      text: str,
+      created_at: timestamp,
+      updated_at: timestamp,
+    },
+    required: ['id', 'parent_type', 'parent_id', 'author', 'text'],
+  },
+  CommentInput: {
+    type: 'object',
+    properties: {
+      parentType: { type: 'string', enum: ENUMS.commentParentType },
+      parentId: str,
+      text: str,
+      author: str,
+    },
+    required: ['parentType', 'parentId', 'text'],
+  },
+  CoverageStats: {
+    type: 'object',
+    properties: {
+      totalFiles: { type: 'integer' },
+      coveredFiles: { type: 'integer' },
+      totalElements: { type: 'integer' },
+      coveredElements: { type: 'integer' },
+      coveragePercent: { type: 'number' },
+    },
+  },
+  IndexStats: {
+    type: 'object',
+    properties: {
+      totalCitations: { type: 'integer' },
+      totalFiles: { type: 'integer' },
+      duration: { type: 'integer', description: 'Milliseconds' },
+      skippedFiles: { type: 'integer', description: 'Unchanged files (incremental index only)' },
+    },
+  },
+  WikiCitation: {
+    type: 'object',
+    description: 'Knowledge entry matched to a function of a source file',
+    properties: {
+      id: str,
+      wiki_page_id: str,
+      knowledge_id: str,
+      function_name: str,
+      start_line: { type: 'integer' },
+      end_line: { type: 'integer' },
+      match_type: { type: 'string', enum: ['tag', 'content', 'vector'] },
+      knowledge_title: str,
+      knowledge_category: nullableStr,
+      knowledge_confidence: { type: ['number', 'null'] },
+    },
+  },
+  WikiSearchHit: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['function', 'class', 'method', 'file', 'variable', 'constant', 'interface'] },
+      name: str,
+      filePath: str,
+      line: { type: 'integer' },
+      endLine: { type: 'integer' },
+      detail: str,
+    },
+  },
+  Deleted: {
+    type: 'object',
+    properties: { id: str, status: { type: 'string', enum: ['deleted'] } },
+  },
+  Pagination: {
+    type: 'object',
+    properties: {
+      limit: { type: 'integer' },
+      offset: { type: 'integer' },
+      hasMore: { type: 'boolean' },
+    },
+    required: ['limit', 'offset', 'hasMore'],
+  },
+  ErrorResponse: {
+    type: 'object',
+    properties: { success: { type: 'boolean', enum: [false] }, error: str },
+    required: ['success', 'error'],
+  },
+};
+
+const ERROR_RESPONSES: Record<string, string> = {
+  400: 'Invalid input',
+  404: 'Not found',
+  500: 'Failure',
+};
+
+function envelope(data: JsonSchema, paginated?: boolean): JsonSchema {
+  const properties: Record<string, JsonSchema> = { success: { type: 'boolean', enum: [true] }, data };
+  if (paginated) properties.pagination = ref('Pagination');
+  return { type: 'object', properties, required: ['success', 'data'] };
+}
+
+function pathParams(path: string): JsonSchema[] {
+  return [...path.matchAll(/\{(\w+)\}/g)].map((match) => ({
+    name: match[1],
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+}
+
+function queryParams(query: Record<string, ApiParam> = {}): JsonSchema[] {
+  return Object.entries(query).map(([name, param]) => ({
+    name,
+    in: 'query',
+    required: !!param.required,
+    ...(param.description ? { description: param.description } : {}),
+    schema: param.enum ? { type: param.type, enum: param.enum } : { type: param.type },
+  }));
+}
+
+export function buildOpenApiDocument(operations: ApiOperation[], version: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const op of operations) {
+    const responses: Record<string, JsonSchema> = {
+      [op.created ? 201 : 200]: {
+        description: 'Success',
+        content: { 'application/json': { schema: envelope(op.response, op.paginated) } },
+      },
+    };
+    for (const [status, description] of Object.entries(ERROR_RESPONSES)) {
+      responses[status] = {
+        description,
+        content: { 'application/json': { schema: ref('ErrorResponse') } },
+      };
+    }
+
+    const operation: JsonSchema = {
+      operationId: op.operationId,
+      tags: [op.tag],
+      summary: op.summary,
+      parameters: [...pathParams(op.path), ...queryParams(op.query)],
+      responses,
+    };
+    if (op.body) {
+      operation.requestBody = { required: true, content: { 'application/json': { schema: op.body } } };
+    }
+
+    paths[API_BASE + op.path] ??= {};
+    paths[API_BASE + op.path][op.method] = operation;
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Superintent API',
+      version,
+      description: 'Tickets, knowledge, specs, comments and wiki data of a Superintent workspace. '
+        + 'Responses use the CLI envelope: { success, data } or { success: false, error }.',
+    },
+    paths,
+    components: { schemas: SCHEMAS },
+  };
+}
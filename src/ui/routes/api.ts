@@ -0,0 +1,561 @@
+import type { Hono, Context } from 'hono';
+import type { Client } from '@libsql/client';
+import { getClient } from '../../db/client.js';
+import {
+  validateTicketFields, validateTicketUpdate, createTicket, getTicket, listTickets, updateTicket, deleteTicket,
+  getTicketHistory, linkTickets, unlinkTickets, getTicketLinks,
+} from '../../services/tickets.js';
+import {
+  validateKnowledgeFields, validateKnowledgeUpdate, createKnowledge, getKnowledge, listKnowledge, updateKnowledge,
+  setKnowledgeActive, promoteKnowledge, getKnowledgeHistory, revertKnowledge, searchKnowledge,
+  findDuplicateKnowledge, mergeKnowledge, linkKnowledge, unlinkKnowledge, getKnowledgeLinks,
+} from '../../services/knowledge.js';
+import { extractKnowledge } from '../../services/extract.js';
+import {
+  validateSpecFields, validateSpecUpdate, createSpec, getSpec, listSpecs, updateSpec, deleteSpec,
+} from '../../services/specs.js';
+import { listComments, getComment, addComment, updateComment, deleteComment } from '../../services/comments.js';
+import { expectObject } from '../../services/input.js';
+import { indexProject, indexProjectIncremental, getCoverageStats, getCitationsForFile } from '../../wiki/indexer.js';
+import { scanProject } from '../../wiki/scanner.js';
+import { searchWikiSymbols } from '../../wiki/search.js';
+import { ValidationError } from '../../errors.js';
+import { API_BASE, ENUMS, ref, arrayOf, buildOpenApiDocument } from '../openapi.js';
+import { errorStatus } from './shared.js';
+import type { ApiOperation, ApiParam } from '../openapi.js';
+import type { KnowledgeListFilter, KnowledgeSearchOptions } from '../../services/knowledge.js';
+import type {
+  TicketStatus, TicketLinkType, CommentParentType, KnowledgeCategory, DecisionScope, KnowledgeSource, SearchMode,
+  KnowledgeLinkType,
+} from '../../types.js';
+
+type QueryValue = string | number | boolean | undefined;
+
+interface ApiRequest {
+  params: Record<string, string>;
+  query: Record<string, QueryValue>;
+  body: unknown;
+  // Paginated routes: one row more than the page size, to tell whether there are more
+  page: { limit: number; offset: number };
+}
+
+interface ApiRoute extends ApiOperation {
+  handler(client: Client, req: ApiRequest): Promise<unknown>;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const WIKI_MAX_RESULTS = 30;
+
+const PAGE_QUERY: Record<string, ApiParam> = {
+  limit: { type: 'integer', description: `Page size (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})` },
+  offset: { type: 'integer', description: 'Rows to skip' },
+};
+
+function requiredString(body: unknown, name: string): string {
+  const value = expectObject(body)[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ValidationError(`${name} is required`);
+  }
+  return value.trim();
+}
+
+function optionalString(body: unknown, name: string): string | undefined {
+  const value = expectObject(body)[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new ValidationError(`${name} must be a string`);
+  return value.trim() || undefined;
+}
+
+/**
+ * Search options from a JSON body (same fields as the knowledge_search MCP tool).
+ */
+function readSearchBody(body: unknown): KnowledgeSearchOptions & { query: string } {
+  const parsed = expectObject(body);
+  const options: KnowledgeSearchOptions & { query: string } = {
+    query: requiredString(parsed, 'query'),
+    mode: optionalString(parsed, 'mode') as SearchMode | undefined,
+    namespace: optionalString(parsed, 'namespace'),
+    category: optionalString(parsed, 'category'),
+    branch: optionalString(parsed, 'branch'),
+    cursor: optionalString(parsed, 'cursor'),
+  };
+  if (parsed.limit !== undefined) {
+    if (!Number.isInteger(parsed.limit) || parsed.limit < 1) throw new ValidationError('limit must be a positive integer');
+    options.limit = Math.min(parsed.limit, MAX_PAGE_SIZE);
+  }
+  if (parsed.minScore !== undefined) {
+    if (typeof parsed.minScore !== 'number') throw new ValidationError('minScore must be a number');
+    options.minScore = parsed.minScore;
+  }
+  if (parsed.tags !== undefined) {
+    if (!Array.isArray(parsed.tags) || !parsed.tags.every((t: unknown) => typeof t === 'string')) {
+      throw new ValidationError('tags must be an array of strings');
+    }
+    options.tags = parsed.tags;
+  }
+  if (parsed.includeSuperseded !== undefined) {
+    if (typeof parsed.includeSuperseded !== 'boolean') throw new ValidationError('includeSuperseded must be a boolean');
+    options.includeSuperseded = parsed.includeSuperseded;
+  }
+  return options;
+}
+
+// ============ Routes ============
+
+const TICKET_ROUTES: ApiRoute[] = [
+  {
+    method: 'get', path: '/tickets', operationId: 'listTickets', tag: 'Tickets',
+    summary: 'List tickets, newest first',
+    query: { status: { type: 'string', enum: ENUMS.ticketStatus }, ...PAGE_QUERY },
+    response: arrayOf(ref('Ticket')),
+    paginated: true,
+    handler: (client, req) => listTickets(client, { status: req.query.status as TicketStatus | undefined, ...req.page }),
+  },
+  {
+    method: 'post', path: '/tickets', operationId: 'createTicket', tag: 'Tickets',
+    summary: 'Create a ticket in Backlog',
+    body: ref('TicketFields'),
+    response: ref('Ticket'),
+    created: true,
+    handler: (client, req) => createTicket(client, validateTicketFields(req.body)),
+  },
+  {
+    method: 'get', path: '/tickets/{id}', operationId: 'getTicket', tag: 'Tickets',
+    summary: 'Get a ticket',
+    response: ref('Ticket'),
+    handler: (client, req) => getTicket(client, req.params.id),
+  },
+  {
+    method: 'patch', path: '/tickets/{id}', operationId: 'updateTicket', tag: 'Tickets',
+    summary: 'Update fields, plan completion or status (moving to Done completes the plan)',
+    body: ref('TicketUpdate'),
+    response: ref('TicketUpdateResult'),
+    handler: (client, req) => updateTicket(client, req.params.id, validateTicketUpdate(req.body)),
+  },
+  {
+    method: 'delete', path: '/tickets/{id}', operationId: 'deleteTicket', tag: 'Tickets',
+    summary: 'Delete a ticket with its links and status history',
+    response: ref('Deleted'),
+    handler: async (client, req) => {
+      await deleteTicket(client, req.params.id);
+      return { id: req.params.id, status: 'deleted' };
+    },
+  },
+  {
+    method: 'get', path: '/tickets/{id}/history', operationId: 'getTicketHistory', tag: 'Tickets',
+    summary: 'Status change history',
+    response: ref('TicketHistory'),
+    handler: (client, req) => getTicketHistory(client, req.params.id),
+  },
+  {
+    method: 'get', path: '/tickets/{id}/links', operationId: 'getTicketLinks', tag: 'Tickets',
+    summary: 'Tickets linked to a ticket, by relation',
+    response: ref('TicketDependencies'),
+    handler: (client, req) => getTicketLinks(client, req.params.id),
+  },
+  {
+    method: 'post', path: '/tickets/{id}/links', operationId: 'linkTickets', tag: 'Tickets',
+    summary: 'Link a ticket to another one',
+    body: {
+      type: 'object',
+      properties: { target: { type: 'string' }, type: { type: 'string', enum: ENUMS.ticketLinkType }, author: { type: 'string' } },
+      required: ['target', 'type'],
+    },
+    response: ref('TicketDependencies'),
+    created: true,
+    handler: (client, req) => linkTickets(
+      client,
+      req.params.id,
+      requiredString(req.body, 'target'),
+      requiredString(req.body, 'type') as TicketLinkType,
+      optionalString(req.body, 'author'),
+    ),
+  },
+  {
+    method: 'delete', path: '/tickets/{id}/links/{target}', operationId: 'unlinkTickets', tag: 'Tickets',
+    summary: 'Remove links between two tickets (all types unless one is given)',
+    query: { type: { type: 'string', enum: ENUMS.ticketLinkType } },
+    response: { type: 'object', properties: { removed: { type: 'integer' } } },
+    handler: async (client, req) => ({
+      removed: await unlinkTickets(client, req.params.id, req.params.target, req.query.type as TicketLinkType | undefined),
+    }),
+  },
+  {
+    method: 'get', path: '/tickets/{id}/extract', operationId: 'extractKnowledge', tag: 'Tickets',
+    summary: 'Propose knowledge entries from a Done ticket',
+    query: { namespace: { type: 'string', description: 'Defaults to the project namespace' } },
+    response: ref('ExtractProposal'),
+    handler: (client, req) => extractKnowledge(client, req.params.id, req.query.namespace as string | undefined),
+  },
+];
+
+const KNOWLEDGE_ROUTES: ApiRoute[] = [
+  {
+    method: 'get', path: '/knowledge', operationId: 'listKnowledge', tag: 'Knowledge',
+    summary: 'List knowledge entries, newest first',
+    query: {
+      status: { type: 'string', enum: ['active', 'inactive', 'all'], description: 'Default: active' },
+      namespace: { type: 'string' },
+      category: { type: 'string', enum: ENUMS.category },
+      scope: { type: 'string', enum: ENUMS.scope },
+      source: { type: 'string', enum: ENUMS.source },
+      author: { type: 'string' },
+      branch: { type: 'string' },
+      ...PAGE_QUERY,
+    },
+    response: arrayOf(ref('Knowledge')),
+    paginated: true,
+    handler: (client, req) => listKnowledge(client, {
+      status: req.query.status as KnowledgeListFilter['status'],
+      namespace: req.query.namespace as string | undefined,
+      category: req.query.category as KnowledgeCategory | undefined,
+      scope: req.query.scope as DecisionScope | undefined,
+      source: req.query.source as KnowledgeSource | undefined,
+      author: req.query.author as string | undefined,
+      branch: req.query.branch as string | undefined,
+      ...req.page,
+    }),
+  },
+  {
+    method: 'post', path: '/knowledge', operationId: 'createKnowledge', tag: 'Knowledge',
+    summary: 'Create and embed a knowledge entry',
+    body: ref('KnowledgeFields'),
+    response: ref('Knowledge'),
+    created: true,
+    handler: (client, req) => createKnowledge(client, validateKnowledgeFields(req.body)),
+  },
+  {
+    method: 'post', path: '/knowledge/search', operationId: 'searchKnowledge', tag: 'Knowledge',
+    summary: 'Search active knowledge (vector, lexical or hybrid); page with nextCursor',
+    body: ref('KnowledgeSearch'),
+    response: ref('KnowledgeSearchPage'),
+    handler: (client, req) => {
+      const { query, ...options } = readSearchBody(req.body);
+      return searchKnowledge(client, query, { ...options, useDaemon: true });
+    },
+  },
+  {
+    method: 'get', path: '/knowledge/duplicates', operationId: 'findDuplicateKnowledge', tag: 'Knowledge',
+    summary: 'Clusters of near-duplicate active entries by embedding similarity',
+    query: {
+      threshold: { type: 'string', description: 'Minimum cosine similarity 0-1 (default 0.85)' },
+      namespace: { type: 'string' },
+    },
+    response: arrayOf(ref('DuplicateCluster')),
+    handler: (client, req) => findDuplicateKnowledge(client, {
+      threshold: req.query.threshold !== undefined ? Number(req.query.threshold) : undefined,
+      namespace: req.query.namespace as string | undefined,
+    }),
+  },
+  {
+    method: 'post', path: '/knowledge/merge', operationId: 'mergeKnowledge', tag: 'Knowledge',
+    summary: 'Merge entries into a survivor and deactivate them',
+    body: ref('KnowledgeMerge'),
+    response: ref('KnowledgeMergeResult'),
+    handler: (client, req) => {
+      const drop = expectObject(req.body).drop;
+      if (!Array.isArray(drop) || !drop.every((id: unknown) => typeof id === 'string')) {
+        throw new ValidationError('drop must be an array of strings');
+      }
+      return mergeKnowledge(client, requiredString(req.body, 'keep'), drop, { author: optionalString(req.body, 'author') });
+    },
+  },
+  {
+    method: 'get', path: '/knowledge/{id}', operationId: 'getKnowledge', tag: 'Knowledge',
+    summary: 'Get a knowledge entry',
+    response: ref('Knowledge'),
+    handler: (client, req) => getKnowledge(client, req.params.id),
+  },
+  {
+    method: 'patch', path: '/knowledge/{id}', operationId: 'updateKnowledge', tag: 'Knowledge',
+    summary: 'Update a knowledge entry (re-embeds on title, content or tag changes)',
+    body: ref('KnowledgeUpdate'),
+    response: ref('KnowledgeUpdateResult'),
+    handler: (client, req) => updateKnowledge(client, req.params.id, validateKnowledgeUpdate(req.body)),
+  },
+  {
+    method: 'post', path: '/knowledge/{id}/activate', operationId: 'activateKnowledge', tag: 'Knowledge',
+    summary: 'Include an entry in search again',
+    response: ref('Knowledge'),
+    handler: async (client, req) => {
+      await setKnowledgeActive(client, req.params.id, true);
+      return getKnowledge(client, req.params.id);
+    },
+  },
+  {
+    method: 'post', path: '/knowledge/{id}/deactivate', operationId: 'deactivateKnowledge', tag: 'Knowledge',
+    summary: 'Leave an entry out of search',
+    response: ref('Knowledge'),
+    handler: async (client, req) => {
+      await setKnowledgeActive(client, req.params.id, false);
+      return getKnowledge(client, req.params.id);
+    },
+  },
+  {
+    method: 'post', path: '/knowledge/{id}/promote', operationId: 'promoteKnowledge', tag: 'Knowledge',
+    summary: 'Move an entry to the main branch',
+    response: ref('Knowledge'),
+    handler: async (client, req) => {
+      await promoteKnowledge(client, req.params.id);
+      return getKnowledge(client, req.params.id);
+    },
+  },
+  {
+    method: 'get', path: '/knowledge/{id}/history', operationId: 'getKnowledgeHistory', tag: 'Knowledge',
+    summary: 'Revisions of an entry, oldest first',
+    response: arrayOf(ref('KnowledgeRevision')),
+    handler: (client, req) => getKnowledgeHistory(client, req.params.id),
+  },
+  {
+    method: 'get', path: '/knowledge/{id}/links', operationId: 'getKnowledgeLinks', tag: 'Knowledge',
+    summary: 'Entries linked to an entry, by relation',
+    response: ref('KnowledgeLinks'),
+    handler: (client, req) => getKnowledgeLinks(client, req.params.id),
+  },
+  {
+    method: 'post', path: '/knowledge/{id}/links', operationId: 'linkKnowledge', tag: 'Knowledge',
+    summary: 'Link an entry to another one (a superseded entry is deactivated)',
+    body: {
+      type: 'object',
+      properties: { target: { type: 'string' }, type: { type: 'string', enum: ENUMS.knowledgeLinkType }, author: { type: 'string' } },
+      required: ['target', 'type'],
+    },
+    response: ref('KnowledgeLinks'),
+    created: true,
+    handler: (client, req) => linkKnowledge(
+      client,
+      req.params.id,
+      requiredString(req.body, 'target'),
+      requiredString(req.body, 'type') as KnowledgeLinkType,
+      optionalString(req.body, 'author'),
+    ),
+  },
+  {
+    method: 'delete', path: '/knowledge/{id}/links/{target}', operationId: 'unlinkKnowledge', tag: 'Knowledge',
+    summary: 'Remove links between two entries (all types unless one is given)',
+    query: { type: { type: 'string', enum: ENUMS.knowledgeLinkType } },
+    response: { type: 'object', properties: { removed: { type: 'integer' } } },
+    handler: async (client, req) => ({
+      removed: await unlinkKnowledge(client, req.params.id, req.params.target, req.query.type as KnowledgeLinkType | undefined),
+    }),
+  },
+  {
+    method: 'post', path: '/knowledge/{id}/revert', operationId: 'revertKnowledge', tag: 'Knowledge',
+    summary: 'Restore an entry to a previous revision',
+    body: { type: 'object', properties: { revision: { type: 'integer', minimum: 1 } }, required: ['revision'] },
+    response: ref('KnowledgeUpdateResult'),
+    handler: async (client, req) => {
+      const revision = await revertKnowledge(client, req.params.id, expectObject(req.body).revision);
+      return { knowledge: await getKnowledge(client, req.params.id), revision };
+    },
+  },
+];
+
+const SPEC_ROUTES: ApiRoute[] = [
+  {
+    method: 'get', path: '/specs', operationId: 'listSpecs', tag: 'Specs',
+    summary: 'List specs, newest first',
+    query: { ...PAGE_QUERY },
+    response: arrayOf(ref('Spec')),
+    paginated: true,
+    handler: (client, req) => listSpecs(client, req.page),
+  },
+  {
+    method: 'post', path: '/specs', operationId: 'createSpec', tag: 'Specs',
+    summary: 'Create a spec',
+    body: ref('SpecFields'),
+    response: ref('Spec'),
+    created: true,
+    handler: (client, req) => createSpec(client, validateSpecFields(req.body)),
+  },
+  {
+    method: 'get', path: '/specs/{id}', operationId: 'getSpec', tag: 'Specs',
+    summary: 'Get a spec',
+    response: ref('Spec'),
+    handler: (client, req) => getSpec(client, req.params.id),
+  },
+  {
+    method: 'patch', path: '/specs/{id}', operationId: 'updateSpec', tag: 'Specs',
+    summary: 'Update the title and/or content of a spec',
+    body: ref('SpecUpdate'),
+    response: ref('Spec'),
+    handler: (client, req) => updateSpec(client, req.params.id, validateSpecUpdate(req.body)),
+  },
+  {
+    method: 'delete', path: '/specs/{id}', operationId: 'deleteSpec', tag: 'Specs',
+    summary: 'Delete a spec',
+    response: ref('Deleted'),
+    handler: async (client, req) => {
+      await deleteSpec(client, req.params.id);
+      return { id: req.params.id, status: 'deleted' };
+    },
+  },
+];
+
+const COMMENT_ROUTES: ApiRoute[] = [
+  {
+    method: 'get', path: '/comments', operationId: 'listComments', tag: 'Comments',
+    summary: 'Comments on a ticket, knowledge entry or spec, oldest first',
+    query: {
+      parentType: { type: 'string', enum: ENUMS.commentParentType, required: true },
+      parentId: { type: 'string', required: true },
+    },
+    response: arrayOf(ref('Comment')),
+    handler: (client, req) =>
+      listComments(client, req.query.parentType as CommentParentType, req.query.parentId as string),
+  },
+  {
+    method: 'post', path: '/comments', operationId: 'addComment', tag: 'Comments',
+    summary: 'Add a comment (author defaults to git user.name)',
+    body: ref('CommentInput'),
+    response: ref('Comment'),
+    created: true,
+    handler: (client, req) => addComment(client, {
+      parentType: requiredString(req.body, 'parentType') as CommentParentType,
+      parentId: requiredString(req.body, 'parentId'),
+      text: requiredString(req.body, 'text'),
+      author: optionalString(req.body, 'author'),
+    }),
+  },
+  {
+    method: 'get', path: '/comments/{id}', operationId: 'getComment', tag: 'Comments',
+    summary: 'Get a comment',
+    response: ref('Comment'),
+    handler: (client, req) => getComment(client, req.params.id),
+  },
+  {
+    method: 'patch', path: '/comments/{id}', operationId: 'updateComment', tag: 'Comments',
+    summary: 'Replace the text of a comment',
+    body: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    response: ref('Comment'),
+    handler: (client, req) => updateComment(client, req.params.id, requiredString(req.body, 'text')),
+  },
+  {
+    method: 'delete', path: '/comments/{id}', operationId: 'deleteComment', tag: 'Comments',
+    summary: 'Delete a comment',
+    response: ref('Deleted'),
+    handler: async (client, req) => {
+      await deleteComment(client, req.params.id);
+      return { id: req.params.id, status: 'deleted' };
+    },
+  },
+];
+
+const WIKI_ROUTES: ApiRoute[] = [
+  {
+    method: 'get', path: '/wiki/coverage', operationId: 'getWikiCoverage', tag: 'Wiki',
+    summary: 'Share of files and functions cited by knowledge',
+    response: ref('CoverageStats'),
+    handler: (client) => getCoverageStats(client),
+  },
+  {
+    method: 'get', path: '/wiki/citations', operationId: 'getWikiCitations', tag: 'Wiki',
+    summary: 'Knowledge matched to the functions of a file',
+    query: { path: { type: 'string', required: true, description: 'File path relative to the workspace root' } },
+    response: arrayOf(ref('WikiCitation')),
+    handler: (client, req) => getCitationsForFile(client, req.query.path as string),
+  },
+  {
+    method: 'get', path: '/wiki/search', operationId: 'searchWiki', tag: 'Wiki',
+    summary: 'Files and symbols whose name contains the query',
+    query: {
+      query: { type: 'string', required: true },
+      limit: { type: 'integer', description: `Default ${WIKI_MAX_RESULTS}` },
+    },
+    response: arrayOf(ref('WikiSearchHit')),
+    handler: async (_client, req) => searchWikiSymbols(
+      await scanProject(process.cwd()),
+      req.query.query as string,
+      (req.query.limit as number | undefined) ?? WIKI_MAX_RESULTS,
+    ),
+  },
+  {
+    method: 'post', path: '/wiki/index', operationId: 'indexWiki', tag: 'Wiki',
+    summary: 'Re-index knowledge citations of the workspace (incremental unless full=true)',
+    query: { full: { type: 'boolean' } },
+    response: ref('IndexStats'),
+    handler: (client, req) => (req.query.full ? indexProject(client) : indexProjectIncremental(client)),
+  },
+];
+
+const API_ROUTES: ApiRoute[] = [
+  ...TICKET_ROUTES, ...KNOWLEDGE_ROUTES, ...SPEC_ROUTES, ...COMMENT_ROUTES, ...WIKI_ROUTES,
+];
+
+// ============ Dispatch ============
+
+function readQuery(c: Context, params: Record<string, ApiParam> = {}): Record<string, QueryValue> {
+  const query: Record<string, QueryValue> = {};
+  for (const [name, param] of Object.entries(params)) {
+    const raw = c.req.query(name);
+    if (raw === undefined || raw === '') {
+      if (param.required) throw new ValidationError(`${name} is required`);
+      continue;
+    }
+    if (param.enum && !param.enum.includes(raw)) {
+      throw new ValidationError(`Invalid ${name} '${raw}'. Must be one of: ${param.enum.join(', ')}`);
+    }
+    if (param.type === 'integer') {
+      const value = Number(raw);
+      if (!Number.isInteger(value) || value < 0) throw new ValidationError(`${name} must be a non-negative integer`);
+      query[name] = value;
+    } else if (param.type === 'boolean') {
+      if (raw !== 'true' && raw !== 'false') throw new ValidationError(`${name} must be true or false`);
+      query[name] = raw === 'true';
+    } else {
+      query[name] = raw;
+    }
+  }
+  return query;
+}
+
+async function readBody(c: Context): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch (error) {
+    throw new ValidationError('Request body must be JSON', { cause: error });
+  }
+}
+
+export function registerApiRoutes(app: Hono, version: string) {
+
+  app.get(`${API_BASE}/openapi.json`, (c) => c.json(buildOpenApiDocument(API_ROUTES, version)));
+
+  for (const route of API_ROUTES) {
+    const path = API_BASE + route.path.replace(/\{(\w+)\}/g, ':$1');
+
+    app.on(route.method.toUpperCase(), path, async (c) => {
+      try {
+        const query = readQuery(c, route.query);
+        const limit = Math.min((query.limit as number | undefined) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+        const offset = (query.offset as number | undefined) ?? 0;
+        const req: ApiRequest = {
+          params: c.req.param() as Record<string, string>,
+          query,
+          body: route.body ? await readBody(c) : undefined,
+          page: { limit: limit + 1, offset },
+        };
+
+        const client = await getClient();
+        const data = await route.handler(client, req);
+
+        if (route.paginated) {
+          const rows = data as unknown[];
+          return c.json({
+            success: true,
+            data: rows.slice(0, limit),
+            pagination: { limit, offset, hasMore: rows.length > limit },
+          });
+        }
+        return c.json({ success: true, data }, route.created ? 201 : 200);
+      } catch (error) {
+        return c.json({ success: false, error: (error as Error).message }, errorStatus(error));
+      }
+    });
+  }
+
+  app.all(`${API_BASE}/*`, (c) => {
+    return c.json({ success: false, error: `No route for ${c.req.method} ${c.req.path}` }, 404);
+  });
+}
@@ -3,6 +3,9 @@ import { getClient, closeClient } from '../../db/client.js';
 import { classifyHealth } from './shared.js';
 import { renderCitationHealthSection } from '../components/widgets/knowledge-health-summary.js';
 import { getCoverageStats } from '../../wiki/indexer.js';
+import { computeTicketAnalytics } from '../../db/ticket-analytics.js';
+import { parseSince } from '../../utils/time.js';
+import type { TicketAnalytics } from '../../types.js';
 import type { DashboardData, KnowledgeHealthData, WikiCoverageData, TicketActivityData, CitationHealth } from '../components/dashboard.js';
 import {
   renderDashboardView,
@@ -143,7 +146,15 @@ export function registerDashboardRoutes(app: Hono) {
           // Tickets table may not exist yet
         }
 
-        const dashboardData: DashboardData = { knowledgeHealth, wikiCoverage, ticketActivity };
+        // Ticket flow analytics over the last 30 days (best-effort)
+        let ticketAnalytics: TicketAnalytics | undefined;
+        try {
+          ticketAnalytics = await computeTicketAnalytics(client, parseSince('30d'));
+        } catch {
+          // Tickets table may not exist yet
+        }
+
+        const dashboardData: DashboardData = { knowledgeHealth, wikiCoverage, ticketActivity, ticketAnalytics };
         return c.html(renderDashboardGrid(dashboardData));
       } finally {
         await closeClient();
@@ -158,6 +169,28 @@ export function registerDashboardRoutes(app: Hono) {
     }
   });
 
+  // Ticket flow analytics (same numbers as `superintent report tickets`)
+  app.get('/api/analytics/tickets', async (c) => {
+    try {
+      let since: Date;
+      try {
+        since = parseSince(c.req.query('since') || '30d');
+      } catch (error) {
+        return c.json({ success: false, error: (error as Error).message }, 400);
+      }
+
+      const client = await getClient();
+      try {
+        const analytics = await computeTicketAnalytics(client, since);
+        return c.json({ success: true, data: analytics });
+      } finally {
+        await closeClient();
+      }
+    } catch (error) {
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  });
+
   // On-demand citation health validation (expensive — reads files + SHA-256)
   // Results are cached in memory so subsequent dashboard refreshes show last known state
   app.get('/partials/dashboard-citation-health', async (c) => {
@@ -2,11 +2,17 @@ import type { Hono } from 'hono';
 import type { InValue } from '@libsql/client';
 import { getClient } from '../../db/client.js';
 import { parseKnowledgeRow } from '../../db/parsers.js';
-import { performVectorSearch } from '../../db/search.js';
-import { embed } from '../../embed/model.js';
-import { emitSSE } from '../sse.js';
-import { fetchComments, classifyHealth } from './shared.js';
+import { performSearch, performSearchPage, embedQuery, SEARCH_MODES } from '../../db/search.js';
+import { getKnowledgeRevisions } from '../../db/revisions.js';
+import { listKnowledgeLinkEdges } from '../../db/knowledge-links.js';
+import {
+  getKnowledge, listKnowledge, setKnowledgeActive, revertKnowledge, findDuplicateKnowledge, mergeKnowledge,
+} from '../../services/knowledge.js';
+import { listComments } from '../../services/comments.js';
+import { classifyHealth, errorStatus } from './shared.js';
+import type { KnowledgeListFilter } from '../../services/knowledge.js';
 import type { HealthStatus } from '../components/dashboard.js';
+import type { SearchMode, KnowledgeCategory, DecisionScope, KnowledgeLinkType } from '../../types.js';
 import { renderHealthEntriesModal } from '../components/widgets/knowledge-health-summary.js';
 import {
   renderSearchView,
@@ -14,7 +20,10 @@ import {
   renderKnowledgeView,
   renderKnowledgeList,
   renderKnowledgeMore,
+  renderKnowledgeCard,
   renderKnowledgeModal,
+  renderKnowledgeHistory,
+  renderKnowledgeDuplicates,
   renderGraphView,
 } from '../components/index.js';
 
@@ -69,33 +78,53 @@ export function registerKnowledgeRoutes(app: Hono) {
     try {
       const id = c.req.param('id');
       const body = await c.req.parseBody();
-      const active = body.active === 'true' ? 1 : 0;
 
       const client = await getClient();
-      await client.execute({
-        sql: 'UPDATE knowledge SET active = ? WHERE id = ?',
-        args: [active, id],
-      });
+      await setKnowledgeActive(client, id, body.active === 'true');
+      const knowledge = await getKnowledge(client, id);
+      const activeToggleComments = await listComments(client, 'knowledge', id);
+      return c.html(renderKnowledgeModal(knowledge, activeToggleComments));
+    } catch (error) {
+      return c.html(`<div class="p-6 text-red-500">Error: ${(error as Error).message}</div>`, errorStatus(error));
+    }
+  });
 
-      // Fetch updated knowledge and return modal HTML
-      const result = await client.execute({
-        sql: `SELECT id, namespace, chunk_index, title, content,
-              category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
-              usage_count, last_used_at, author, branch, created_at, updated_at
-              FROM knowledge WHERE id = ?`,
-        args: [id],
-      });
+  // Restore a knowledge revision (re-embeds content)
+  app.post('/api/knowledge/:id/revert/:revision', async (c) => {
+    try {
+      const id = c.req.param('id');
+      const revision = parseInt(c.req.param('revision'), 10);
 
-      if (result.rows.length === 0) {
-        return c.html('<div class="p-6 text-red-500">Knowledge not found</div>', 404);
-      }
+      const client = await getClient();
+      await revertKnowledge(client, id, revision);
+      const knowledge = await getKnowledge(client, id);
+      const revertComments = await listComments(client, 'knowledge', id);
+      return c.html(renderKnowledgeModal(knowledge, revertComments));
+    } catch (error) {
+      return c.html(`<div class="p-6 text-red-500">Error: ${(error as Error).message}</div>`, errorStatus(error));
+    }
+  });
 
-      const knowledge = parseKnowledgeRow(result.rows[0] as Record<string, unknown>);
-      const activeToggleComments = await fetchComments('knowledge', id);
-      emitSSE('knowledge-updated');
-      return c.html(renderKnowledgeModal(knowledge, activeToggleComments));
+  // Merge duplicates from the review modal, then show the remaining clusters
+  app.post('/api/knowledge/merge', async (c) => {
+    try {
+      const body = await c.req.parseBody({ all: true });
+      const keep = String(body.keep ?? '');
+      const checked = ([] as unknown[]).concat(body.drop ?? []).map(String);
+      const threshold = parseFloat(String(body.threshold ?? '')) || 0.85;
+      const namespace = body.namespace ? String(body.namespace) : undefined;
+
+      const client = await getClient();
+      // The survivor may have been ticked for merging too; it is kept
+      const { merged } = await mergeKnowledge(client, keep, checked.filter(id => id !== keep));
+      const clusters = await findDuplicateKnowledge(client, { threshold, namespace });
+      return c.html(renderKnowledgeDuplicates(clusters, {
+        threshold,
+        namespace,
+        notice: `Merged ${merged.join(', ')} into ${keep}`,
+      }));
     } catch (error) {
-      return c.html(`<div class="p-6 text-red-500">Error: ${(error as Error).message}</div>`, 500);
+      return c.html(`<div class="p-6 text-red-500">Error: ${(error as Error).message}</div>`, errorStatus(error));
     }
   });
 
@@ -103,61 +132,32 @@ export function registerKnowledgeRoutes(app: Hono) {
   app.get('/api/knowledge', async (c) => {
     try {
       const client = await getClient();
-      const category = c.req.query('category');
-      const namespace = c.req.query('namespace');
-      const scope = c.req.query('scope');
-      const status = c.req.query('status') || 'active';
-
-      const conditions: string[] = [];
-      const args: InValue[] = [];
-
-      if (status === 'active') {
-        conditions.push('active = 1');
-      } else if (status === 'inactive') {
-        conditions.push('active = 0');
-      }
-
-      if (category) { conditions.push('category = ?'); args.push(category); }
-      if (namespace) { conditions.push('namespace = ?'); args.push(namespace); }
-      if (scope) { conditions.push('decision_scope = ?'); args.push(scope); }
-
       const limit = parseInt(c.req.query('limit') || '20', 10) || 20;
       const offset = parseInt(c.req.query('offset') || '0', 10) || 0;
 
-      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-      const sql = `SELECT id, namespace, title, category, tags, citations, source, confidence, active, decision_scope,
-                   usage_count, author, branch, created_at, updated_at
-                   FROM knowledge ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`;
-      args.push(limit, offset);
-
-      const result = await client.execute({ sql, args });
-      const knowledge = result.rows.map((row) => parseKnowledgeRow(row as Record<string, unknown>));
+      const knowledge = await listKnowledge(client, {
+        category: c.req.query('category') as KnowledgeCategory | undefined,
+        namespace: c.req.query('namespace'),
+        scope: c.req.query('scope') as DecisionScope | undefined,
+        status: (c.req.query('status') || 'active') as KnowledgeListFilter['status'],
+        limit,
+        offset,
+      });
       const hasMore = knowledge.length === limit;
       return c.json({ success: true, data: knowledge, pagination: { limit, offset, hasMore } });
     } catch (error) {
-      return c.json({ success: false, error: (error as Error).message }, 500);
+      return c.json({ success: false, error: (error as Error).message }, errorStatus(error));
     }
   });
 
   // Get single knowledge (JSON)
   app.get('/api/knowledge/:id', async (c) => {
     try {
-      const id = c.req.param('id');
       const client = await getClient();
-      const result = await client.execute({
-        sql: `SELECT id, namespace, chunk_index, title, content,
-              category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
-              usage_count, last_used_at, author, branch, created_at, updated_at
-              FROM knowledge WHERE id = ?`,
-        args: [id],
-      });
-      if (result.rows.length === 0) {
-        return c.json({ success: false, error: 'Knowledge not found' }, 404);
-      }
-      const knowledge = parseKnowledgeRow(result.rows[0] as Record<string, unknown>);
+      const knowledge = await getKnowledge(client, c.req.param('id'));
       return c.json({ success: true, data: knowledge });
     } catch (error) {
-      return c.json({ success: false, error: (error as Error).message }, 500);
+      return c.json({ success: false, error: (error as Error).message }, errorStatus(error));
     }
   });
 
@@ -169,17 +169,25 @@ export function registerKnowledgeRoutes(app: Hono) {
       const limit = body.limit || 5;
       const namespace = body.namespace;
       const category = body.category;
+      const tags: string[] | undefined = Array.isArray(body.tags) ? body.tags : undefined;
+      const cursor: string | undefined = body.cursor || undefined;
+      const mode: SearchMode = body.mode || 'vector';
+      const minScore = typeof body.minScore === 'number' ? body.minScore : 0;
+
+      if (!SEARCH_MODES.includes(mode)) {
+        return c.json({ success: false, error: `Invalid mode '${mode}'. Must be one of: ${SEARCH_MODES.join(', ')}` }, 400);
+      }
 
       if (!query || query.trim().length < 2) {
-        return c.json({ success: true, data: { query: '', results: [] } });
+        return c.json({ success: true, data: { query: '', mode, results: [], nextCursor: null } });
       }
 
       const client = await getClient();
-      const queryEmbedding = await embed(query, true);
-      const results = await performVectorSearch(client, queryEmbedding, {
-        namespace, category, limit, trackUsage: false,
+      const queryEmbedding = mode === 'lexical' ? null : await embedQuery(client, query);
+      const { results, nextCursor } = await performSearchPage(client, query, queryEmbedding, {
+        mode, namespace, category, tags, limit, minScore, cursor, trackUsage: false,
       });
-      return c.json({ success: true, data: { query, results } });
+      return c.json({ success: true, data: { query, mode, results, nextCursor } });
     } catch (error) {
       return c.json({ success: false, error: (error as Error).message }, 500);
     }
@@ -189,10 +197,14 @@ export function registerKnowledgeRoutes(app: Hono) {
   app.get('/api/graph-data', async (c) => {
     try {
       const client = await getClient();
+      const links = await listKnowledgeLinkEdges(client);
+      // Inactive entries are shown only as the end of a typed link (e.g. a superseded entry)
+      const linkedIds = [...new Set(links.flatMap((l) => [l.from, l.to]))];
       const result = await client.execute({
-        sql: `SELECT id, title, category, confidence, tags
-              FROM knowledge WHERE active = 1 AND branch = 'main'`,
-        args: [],
+        sql: `SELECT id, title, category, confidence, tags, active
+              FROM knowledge WHERE branch = 'main'
+                AND (active = 1${linkedIds.length > 0 ? ` OR id IN (${linkedIds.map(() => '?').join(', ')})` : ''})`,
+        args: linkedIds,
       });
 
       const entries = result.rows.map((row) => ({
@@ -201,6 +213,7 @@ export function registerKnowledgeRoutes(app: Hono) {
         category: (row.category as string) || 'architecture',
         confidence: (row.confidence as number) || 0.5,
         tags: (() => { try { return JSON.parse((row.tags as string) || '[]'); } catch { return []; } })() as string[],
+        active: Boolean(row.active),
       }));
 
       const nodes = entries.map((e) => ({
@@ -209,16 +222,22 @@ export function registerKnowledgeRoutes(app: Hono) {
         category: e.category,
         confidence: e.confidence,
         tags: e.tags,
+        active: e.active,
       }));
 
-      const edges: { from: string; to: string; sharedCount: number; sharedTags: string[] }[] = [];
-      for (let i = 0; i < entries.length; i++) {
-        for (let j = i + 1; j < entries.length; j++) {
-          const shared = entries[i].tags.filter((t) => entries[j].tags.includes(t));
+      const edges: (
+        | { type: 'tags'; from: string; to: string; sharedCount: number; sharedTags: string[] }
+        | { type: KnowledgeLinkType; from: string; to: string }
+      )[] = [];
+      const activeEntries = entries.filter((e) => e.active);
+      for (let i = 0; i < activeEntries.length; i++) {
+        for (let j = i + 1; j < activeEntries.length; j++) {
+          const shared = activeEntries[i].tags.filter((t) => activeEntries[j].tags.includes(t));
           if (shared.length > 0) {
             edges.push({
-              from: entries[i].id,
-              to: entries[j].id,
+              type: 'tags',
+              from: activeEntries[i].id,
+              to: activeEntries[j].id,
               sharedCount: shared.length,
               sharedTags: shared,
             });
@@ -226,6 +245,11 @@ export function registerKnowledgeRoutes(app: Hono) {
         }
       }
 
+      const nodeIds = new Set(nodes.map((n) => n.id));
+      for (const link of links) {
+        if (nodeIds.has(link.from) && nodeIds.has(link.to)) edges.push(link);
+      }
+
       return c.json({ nodes, edges });
     } catch (error) {
       return c.json({ nodes: [], edges: [], error: (error as Error).message }, 500);
@@ -246,15 +270,17 @@ export function registerKnowledgeRoutes(app: Hono) {
       const namespace = c.req.query('namespace');
       const category = c.req.query('category');
       const limit = parseInt(c.req.query('limit') || '5', 10);
+      const modeParam = c.req.query('mode') as SearchMode | undefined;
+      const mode: SearchMode = modeParam && SEARCH_MODES.includes(modeParam) ? modeParam : 'vector';
 
       if (!query || query.trim().length < 2) {
         return c.html('<p class="text-gray-500 text-center py-8">Enter at least 2 characters to search</p>');
       }
 
       const client = await getClient();
-      const queryEmbedding = await embed(query, true);
-      const results = await performVectorSearch(client, queryEmbedding, {
-        namespace, category, limit, trackUsage: false,
+      const queryEmbedding = mode === 'lexical' ? null : await embedQuery(client, query);
+      const results = await performSearch(client, query, queryEmbedding, {
+        mode, namespace, category, limit, trackUsage: false,
       });
       return c.html(renderSearchResults(results));
     } catch (error) {
@@ -320,6 +346,18 @@ export function registerKnowledgeRoutes(app: Hono) {
     }
   });
 
+  // Single knowledge card (live updates replace a card in place)
+  app.get('/partials/knowledge-card/:id', async (c) => {
+    try {
+      const client = await getClient();
+      const knowledge = await getKnowledge(client, c.req.param('id'));
+      return c.html(renderKnowledgeCard(knowledge));
+    } catch (error) {
+      if (errorStatus(error) === 404) return c.html('', 404);
+      return c.html(`<div class="text-red-500 p-4">Error: ${(error as Error).message}</div>`, 500);
+    }
+  });
+
   // Knowledge modal
   app.get('/partials/knowledge-modal/:id', async (c) => {
     try {
@@ -328,7 +366,7 @@ export function registerKnowledgeRoutes(app: Hono) {
       const result = await client.execute({
         sql: `SELECT id, namespace, chunk_index, title, content,
               category, tags, citations, source, origin_ticket_id, origin_ticket_type, confidence, active, decision_scope,
-              usage_count, last_used_at, author, branch, created_at, updated_at
+              usage_count, last_used_at, author, branch, merged_into, created_at, updated_at
               FROM knowledge WHERE id = ?`,
         args: [id],
       });
@@ -338,13 +376,38 @@ export function registerKnowledgeRoutes(app: Hono) {
       }
 
       const knowledge = parseKnowledgeRow(result.rows[0] as Record<string, unknown>);
-      const knowledgeComments = await fetchComments('knowledge', id);
+      const knowledgeComments = await listComments(client, 'knowledge', id);
       return c.html(renderKnowledgeModal(knowledge, knowledgeComments));
     } catch (error) {
       return c.html(`<div class="p-6 text-red-500">Error: ${(error as Error).message}</div>`);
     }
   });
 
+  // Knowledge revision history (History tab in knowledge modal)
+  app.get('/partials/knowledge-history/:id', async (c) => {
+    try {
+      const id = c.req.param('id');
+      const client = await getClient();
+      const revisions = await getKnowledgeRevisions(client, id);
+      return c.html(renderKnowledgeHistory(id, revisions));
+    } catch (error) {
+      return c.html(`<div class="p-6 text-red-500">Error: ${(error as Error).message}</div>`);
+    }
+  });
+
+  // Duplicate review modal
+  app.get('/partials/knowledge-duplicates', async (c) => {
+    try {
+      const threshold = parseFloat(c.req.query('threshold') || '0.85');
+      const namespace = c.req.query('namespace') || undefined;
+      const client = await getClient();
+      const clusters = await findDuplicateKnowledge(client, { threshold, namespace });
+      return c.html(renderKnowledgeDuplicates(clusters, { threshold, namespace }));
+    } catch (error) {
+      return c.html(`<div class="p-6 text-red-500">Error: ${(error as Error).message}</div>`, errorStatus(error));
+    }
+  });
+
   // Health entries drilldown modal
   app.get('/partials/health-entries/:status', async (c) => {
     try {
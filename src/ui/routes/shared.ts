@@ -1,19 +1,18 @@
 import type { Client } from '@libsql/client';
-import { getClient } from '../../db/client.js';
-import { parseCommentRow } from '../../db/parsers.js';
 import { validateCitationAsync } from '../../utils/hash.js';
-import type { Comment, Citation } from '../../types.js';
+import { ValidationError, NotFoundError } from '../../errors.js';
+import type { Citation } from '../../types.js';
 import type { HealthStatus, UsageHealth, CitationHealth } from '../components/dashboard.js';
 
 export interface HealthCacheEntry { id: string; title: string; category: string; confidence: number }
 
-export async function fetchComments(parentType: string, parentId: string): Promise<Comment[]> {
-  const client = await getClient();
-  const result = await client.execute({
-    sql: 'SELECT id, parent_type, parent_id, author, text, created_at, updated_at FROM comments WHERE parent_type = ? AND parent_id = ? ORDER BY created_at ASC',
-    args: [parentType, parentId],
-  });
-  return result.rows.map(row => parseCommentRow(row as Record<string, unknown>));
+/**
+ * HTTP status for an error thrown by a service.
+ */
+export function errorStatus(error: unknown): 400 | 404 | 500 {
+  if (error instanceof ValidationError) return 400;
+  if (error instanceof NotFoundError) return 404;
+  return 500;
 }
 
 export async function classifyHealth(client: Client): Promise<{
@@ -1,11 +1,17 @@
 import type { Hono } from 'hono';
-import type { InValue } from '@libsql/client';
+import type { Client } from '@libsql/client';
 import { getClient } from '../../db/client.js';
 import { parseTicketRow } from '../../db/parsers.js';
-import { emitSSE } from '../sse.js';
-import { getGitUsername } from '../../utils/git.js';
-import { fetchComments } from './shared.js';
+import { getTicketDependencies } from '../../db/ticket-links.js';
+import { isTicketStatus } from '../../db/ticket-status.js';
 import {
+  validateTicketFields, createTicket, getTicket, listTickets, updateTicket, deleteTicket, toggleTicketPlanItem,
+} from '../../services/tickets.js';
+import { listComments } from '../../services/comments.js';
+import { errorStatus } from './shared.js';
+import type { TicketStatus } from '../../types.js';
+import {
+  renderTicketCard,
   renderKanbanView,
   renderKanbanColumns,
   renderColumnMore,
@@ -14,6 +20,38 @@ import {
   renderEditTicketModal,
 } from '../components/index.js';
 
+const KANBAN_STATUSES = ['Backlog', 'In Progress', 'In Review', 'Done'];
+const ARCHIVE_STATUSES = ['Blocked', 'Abandoned', 'Superseded'];
+const KANBAN_PAGE_SIZE = 12;
+
+// First page of every kanban column, plus the Archived column (Blocked, Abandoned, Superseded)
+async function fetchKanbanColumns(client: Client) {
+  const limit = KANBAN_PAGE_SIZE;
+  const columnData = await Promise.all(
+    KANBAN_STATUSES.map(async (status) => {
+      const result = await client.execute({
+        sql: `SELECT id, type, title, status, intent, change_class, change_class_reason, plan
+              FROM tickets WHERE status = ? ORDER BY created_at DESC LIMIT ?`,
+        args: [status, limit + 1],
+      });
+      const hasMore = result.rows.length > limit;
+      const tickets = result.rows.slice(0, limit).map((row) => parseTicketRow(row as Record<string, unknown>));
+      return { status, tickets, hasMore };
+    })
+  );
+
+  const archiveResult = await client.execute({
+    sql: `SELECT id, type, title, status, intent, change_class, change_class_reason, plan
+          FROM tickets WHERE status IN (?, ?, ?) ORDER BY created_at DESC LIMIT ?`,
+    args: [...ARCHIVE_STATUSES, limit + 1],
+  });
+  const archiveHasMore = archiveResult.rows.length > limit;
+  const archiveTickets = archiveResult.rows.slice(0, limit).map((row) => parseTicketRow(row as Record<string, unknown>));
+  columnData.push({ status: 'Archived', tickets: archiveTickets, hasMore: archiveHasMore });
+
+  return columnData;
+}
+
 export function registerTicketRoutes(app: Hono) {
 
   // ── API Routes ──────────────────────────────────────────────────
@@ -24,166 +62,71 @@ export function registerTicketRoutes(app: Hono) {
       const client = await getClient();
       const limit = parseInt(c.req.query('limit') || '20', 10) || 20;
       const offset = parseInt(c.req.query('offset') || '0', 10) || 0;
-      const status = c.req.query('status');
-
-      const conditions: string[] = [];
-      const args: InValue[] = [];
-
-      if (status) {
-        conditions.push('status = ?');
-        args.push(status);
-      }
+      const status = c.req.query('status') as TicketStatus | undefined;
 
-      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-      const result = await client.execute({
-        sql: `SELECT id, title, type, status, intent, change_class, origin_spec_id, author, created_at, updated_at
-              FROM tickets ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
-        args: [...args, limit, offset],
-      });
-      const tickets = result.rows.map((row) => parseTicketRow(row as Record<string, unknown>));
+      const tickets = await listTickets(client, { status, limit, offset });
       const hasMore = tickets.length === limit;
       return c.json({ success: true, data: tickets, pagination: { limit, offset, hasMore } });
     } catch (error) {
-      return c.json({ success: false, error: (error as Error).message }, 500);
+      return c.json({ success: false, error: (error as Error).message }, errorStatus(error));
     }
   });
 
   // Get single ticket
   app.get('/api/tickets/:id', async (c) => {
     try {
-      const id = c.req.param('id');
       const client = await getClient();
-      const result = await client.execute({
-        sql: 'SELECT * FROM tickets WHERE id = ?',
-        args: [id],
-      });
-      if (result.rows.length === 0) {
-        return c.json({ success: false, error: 'Ticket not found' }, 404);
-      }
-      const ticket = parseTicketRow(result.rows[0] as Record<string, unknown>);
+      const ticket = await getTicket(client, c.req.param('id'));
       return c.json({ success: true, data: ticket });
     } catch (error) {
-      return c.json({ success: false, error: (error as Error).message }, 500);
+      return c.json({ success: false, error: (error as Error).message }, errorStatus(error));
     }
   });
 
-  // Update ticket status
+  // Update ticket status (same rules as `ticket update --status`, transition table enforced unless force is set)
   app.patch('/api/tickets/:id/status', async (c) => {
     try {
       const id = c.req.param('id');
       const body = await c.req.parseBody();
       const newStatus = body.status as string;
+      const replacedBy = (body.replacedBy as string | undefined)?.trim() || undefined;
+      const force = body.force === 'true' || body.force === '1';
 
-      const validStatuses = ['Backlog', 'In Progress', 'In Review', 'Done', 'Blocked', 'Abandoned', 'Superseded'];
-      if (!validStatuses.includes(newStatus)) {
+      if (!isTicketStatus(newStatus)) {
         return c.json({ success: false, error: 'Invalid status' }, 400);
       }
 
       const client = await getClient();
-
-      // If setting to Done, auto-complete all plan tasks and DoD
-      if (newStatus === 'Done') {
-        const current = await client.execute({
-          sql: 'SELECT plan FROM tickets WHERE id = ?',
-          args: [id],
-        });
-
-        if (current.rows.length > 0) {
-          const row = current.rows[0] as Record<string, unknown>;
-          const plan = row.plan ? JSON.parse(row.plan as string) : null;
-
-          if (plan) {
-            plan.taskSteps = (plan.taskSteps || []).map((ts: Record<string, unknown>) => ({ ...ts, done: true }));
-            plan.dodVerification = (plan.dodVerification || []).map((dv: Record<string, unknown>) => ({ ...dv, done: true }));
-
-            await client.execute({
-              sql: `UPDATE tickets SET status = ?, plan = ?, updated_at = datetime('now') WHERE id = ?`,
-              args: [newStatus, JSON.stringify(plan), id],
-            });
-
-            emitSSE('ticket-updated');
-            return c.json({ success: true, data: { id, status: newStatus } });
-          }
-        }
-      }
-
-      await client.execute({
-        sql: `UPDATE tickets SET status = ?, updated_at = datetime('now') WHERE id = ?`,
-        args: [newStatus, id],
+      const { ticket, unblocked } = await updateTicket(client, id, {
+        status: newStatus, replacedBy, force, skipExtract: true,
       });
-
-      emitSSE('ticket-updated');
-      return c.json({ success: true, data: { id, status: newStatus } });
+      return c.json({ success: true, data: { id, status: ticket.status, unblocked: unblocked ?? [] } });
     } catch (error) {
-      return c.json({ success: false, error: (error as Error).message }, 500);
+      // A rejected transition conflicts with the ticket's current status
+      const status = errorStatus(error);
+      return c.json({ success: false, error: (error as Error).message }, status === 400 ? 409 : status);
     }
   });
 
   // Toggle task completion (operates on plan.taskSteps)
   app.patch('/api/tickets/:id/task/:index', async (c) => {
     try {
-      const id = c.req.param('id');
-      const index = parseInt(c.req.param('index'), 10);
-
       const client = await getClient();
-      const result = await client.execute({
-        sql: 'SELECT plan FROM tickets WHERE id = ?',
-        args: [id],
-      });
-
-      if (result.rows.length === 0) {
-        return c.json({ success: false, error: 'Ticket not found' }, 404);
-      }
-
-      const row = result.rows[0] as Record<string, unknown>;
-      const plan = row.plan ? JSON.parse(row.plan as string) : null;
-
-      if (plan && index >= 0 && index < (plan.taskSteps || []).length) {
-        plan.taskSteps[index].done = !plan.taskSteps[index].done;
-        await client.execute({
-          sql: `UPDATE tickets SET plan = ?, updated_at = datetime('now') WHERE id = ?`,
-          args: [JSON.stringify(plan), id],
-        });
-        emitSSE('ticket-updated');
-      }
-
+      await toggleTicketPlanItem(client, c.req.param('id'), 'task', parseInt(c.req.param('index'), 10));
       return c.json({ success: true });
     } catch (error) {
-      return c.json({ success: false, error: (error as Error).message }, 500);
+      return c.json({ success: false, error: (error as Error).message }, errorStatus(error));
     }
   });
 
   // Toggle DoD completion (operates on plan.dodVerification)
   app.patch('/api/tickets/:id/dod/:index', async (c) => {
     try {
-      const id = c.req.param('id');
-      const index = parseInt(c.req.param('index'), 10);
-
       const client = await getClient();
-      const result = await client.execute({
-        sql: 'SELECT plan FROM tickets WHERE id = ?',
-        args: [id],
-      });
-
-      if (result.rows.length === 0) {
-        return c.json({ success: false, error: 'Ticket not found' }, 404);
-      }
-
-      const row = result.rows[0] as Record<string, unknown>;
-      const plan = row.plan ? JSON.parse(row.plan as string) : null;
-
-      if (plan && index >= 0 && index < (plan.dodVerification || []).length) {
-        plan.dodVerification[index].done = !plan.dodVerification[index].done;
-        await client.execute({
-          sql: `UPDATE tickets SET plan = ?, updated_at = datetime('now') WHERE id = ?`,
-          args: [JSON.stringify(plan), id],
-        });
-        emitSSE('ticket-updated');
-      }
-
+      await toggleTicketPlanItem(client, c.req.param('id'), 'dod', parseInt(c.req.param('index'), 10));
       return c.json({ success: true });
     } catch (error) {
-      return c.json({ success: false, error: (error as Error).message }, 500);
+      return c.json({ success: false, error: (error as Error).message }, errorStatus(error));
     }
   });
 
@@ -191,88 +134,30 @@ export function registerTicketRoutes(app: Hono) {
   app.post('/api/tickets/quick', async (c) => {
     try {
       const formData = await c.req.parseBody();
-      const title = (formData.title as string)?.trim();
-      const type = (formData.type as string) || 'feature';
-      const intent = (formData.intent as string)?.trim();
-
-      if (!title) {
-        return c.html('<div class="text-red-500 p-2">Title is required</div>', 400);
-      }
-      if (!intent) {
-        return c.html('<div class="text-red-500 p-2">Intent is required</div>', 400);
-      }
-
-      const now = new Date();
-      const date = now.toISOString().slice(0, 10).replace(/-/g, '');
-      const time = now.toISOString().slice(11, 19).replace(/:/g, '');
-      const id = `TICKET-${date}-${time}-manual`;
+      const fields = validateTicketFields({
+        title: formData.title || undefined,
+        type: formData.type || undefined,
+        intent: formData.intent,
+      });
 
       const client = await getClient();
-      await client.execute({
-        sql: `INSERT INTO tickets (id, type, title, intent, status, author) VALUES (?, ?, ?, ?, 'Backlog', ?)`,
-        args: [id, type, title, intent, getGitUsername()],
-      });
+      await createTicket(client, fields);
 
       // Return refreshed kanban columns
-      const statuses = ['Backlog', 'In Progress', 'In Review', 'Done'];
-      const archiveStatuses = ['Blocked', 'Abandoned', 'Superseded'];
-      const limit = 12;
-      const columnData = await Promise.all(
-        statuses.map(async (status) => {
-          const result = await client.execute({
-            sql: `SELECT id, type, title, status, intent, change_class, change_class_reason, plan
-                  FROM tickets WHERE status = ? ORDER BY created_at DESC LIMIT ?`,
-            args: [status, limit + 1],
-          });
-          const hasMore = result.rows.length > limit;
-          const tickets = result.rows.slice(0, limit).map((row) => parseTicketRow(row as Record<string, unknown>));
-          return { status, tickets, hasMore };
-        })
-      );
-
-      // Add Archived column
-      const archiveResult = await client.execute({
-        sql: `SELECT id, type, title, status, intent, change_class, change_class_reason, plan
-              FROM tickets WHERE status IN (?, ?, ?) ORDER BY created_at DESC LIMIT ?`,
-        args: [...archiveStatuses, limit + 1],
-      });
-      const archiveHasMore = archiveResult.rows.length > limit;
-      const archiveTickets = archiveResult.rows.slice(0, limit).map((row) => parseTicketRow(row as Record<string, unknown>));
-      columnData.push({ status: 'Archived', tickets: archiveTickets, hasMore: archiveHasMore });
-
-      emitSSE('ticket-updated');
-      return c.html(renderKanbanColumns(columnData));
+      return c.html(renderKanbanColumns(await fetchKanbanColumns(client)));
     } catch (error) {
-      return c.html(`<div class="text-red-500 p-2">Error: ${(error as Error).message}</div>`, 500);
+      return c.html(`<div class="text-red-500 p-2">Error: ${(error as Error).message}</div>`, errorStatus(error));
     }
   });
 
-  // Delete ticket
+  // Delete ticket (derived knowledge is kept, without its origin ticket)
   app.delete('/api/tickets/:id', async (c) => {
     try {
-      const id = c.req.param('id');
       const client = await getClient();
-
-      // First, orphan any derived knowledge (set origin_ticket_id to NULL)
-      await client.execute({
-        sql: `UPDATE knowledge SET origin_ticket_id = NULL WHERE origin_ticket_id = ?`,
-        args: [id],
-      });
-
-      // Delete the ticket
-      const result = await client.execute({
-        sql: `DELETE FROM tickets WHERE id = ?`,
-        args: [id],
-      });
-
-      if (result.rowsAffected === 0) {
-        return c.json({ success: false, error: 'Ticket not found' }, 404);
-      }
-
-      emitSSE('ticket-updated');
+      await deleteTicket(client, c.req.param('id'));
       return c.json({ success: true });
     } catch (error) {
-      return c.json({ success: false, error: (error as Error).message }, 500);
+      return c.json({ success: false, error: (error as Error).message }, errorStatus(error));
     }
   });
 
@@ -281,43 +166,21 @@ export function registerTicketRoutes(app: Hono) {
     try {
       const id = c.req.param('id');
       const formData = await c.req.parseBody();
-      const title = (formData.title as string)?.trim();
-      const type = (formData.type as string) || 'feature';
-      const intent = (formData.intent as string)?.trim();
-
-      if (!title) {
-        return c.html('<div class="text-red-500 p-2">Title is required</div>', 400);
-      }
-      if (!intent) {
-        return c.html('<div class="text-red-500 p-2">Intent is required</div>', 400);
-      }
-
-      const client = await getClient();
-      await client.execute({
-        sql: `UPDATE tickets SET title = ?, type = ?, intent = ?, updated_at = datetime('now') WHERE id = ?`,
-        args: [title, type, intent, id],
+      const fields = validateTicketFields({
+        title: formData.title,
+        type: formData.type || undefined,
+        intent: formData.intent,
       });
 
-      // Fetch updated ticket and return detail modal
-      const result = await client.execute({
-        sql: `SELECT id, type, title, status, intent, context, constraints_use, constraints_avoid,
-              assumptions, change_class, change_class_reason,
-              origin_spec_id, plan, derived_knowledge, author, created_at, updated_at FROM tickets WHERE id = ?`,
-        args: [id],
-      });
-
-      if (result.rows.length === 0) {
-        return c.html('<div class="p-6 text-red-500">Ticket not found</div>', 404);
-      }
-
-      const ticket = parseTicketRow(result.rows[0] as Record<string, unknown>);
-      const ticketComments = await fetchComments('ticket', id);
+      const client = await getClient();
+      const { ticket } = await updateTicket(client, id, fields);
+      const ticketComments = await listComments(client, 'ticket', id);
+      const dependencies = await getTicketDependencies(client, id);
       // Trigger kanban refresh in the background
       c.header('HX-Trigger', 'refresh');
-      emitSSE('ticket-updated');
-      return c.html(renderTicketModal(ticket, ticketComments));
+      return c.html(renderTicketModal(ticket, ticketComments, dependencies));
     } catch (error) {
-      return c.html(`<div class="text-red-500 p-2">Error: ${(error as Error).message}</div>`, 500);
+      return c.html(`<div class="text-red-500 p-2">Error: ${(error as Error).message}</div>`, errorStatus(error));
     }
   });
 
@@ -332,33 +195,7 @@ export function registerTicketRoutes(app: Hono) {
   app.get('/partials/kanban-columns', async (c) => {
     try {
       const client = await getClient();
-      const statuses = ['Backlog', 'In Progress', 'In Review', 'Done'];
-      const archiveStatuses = ['Blocked', 'Abandoned', 'Superseded'];
-      const limit = 12;
-
-      const columnData = await Promise.all(
-        statuses.map(async (status) => {
-          const result = await client.execute({
-            sql: `SELECT id, type, title, status, intent, change_class, change_class_reason, plan
-                  FROM tickets WHERE status = ? ORDER BY created_at DESC LIMIT ?`,
-            args: [status, limit + 1],
-          });
-          const hasMore = result.rows.length > limit;
-          const tickets = result.rows.slice(0, limit).map((row) => parseTicketRow(row as Record<string, unknown>));
-          return { status, tickets, hasMore };
-        })
-      );
-
-      // Add Archived column (Blocked, Abandoned, Superseded)
-      const archiveResult = await client.execute({
-        sql: `SELECT id, type, title, status, intent, change_class, change_class_reason, plan
-              FROM tickets WHERE status IN (?, ?, ?) ORDER BY created_at DESC LIMIT ?`,
-        args: [...archiveStatuses, limit + 1],
-      });
-      const archiveHasMore = archiveResult.rows.length > limit;
-      const archiveTickets = archiveResult.rows.slice(0, limit).map((row) => parseTicketRow(row as Record<string, unknown>));
-      columnData.push({ status: 'Archived', tickets: archiveTickets, hasMore: archiveHasMore });
-
+      const columnData = await fetchKanbanColumns(client);
       return c.html(renderKanbanColumns(columnData));
     } catch (error) {
       return c.html(`<div class="text-red-500 p-4">Error: ${(error as Error).message}</div>`);
@@ -370,18 +207,17 @@ export function registerTicketRoutes(app: Hono) {
     try {
       const status = decodeURIComponent(c.req.param('status'));
       const offset = parseInt(c.req.query('offset') || '0', 10);
-      const limit = 12;
+      const limit = KANBAN_PAGE_SIZE;
 
       const client = await getClient();
       let result;
 
       // Handle Archived column specially (multiple statuses)
       if (status === 'Archived') {
-        const archiveStatuses = ['Blocked', 'Abandoned', 'Superseded'];
         result = await client.execute({
           sql: `SELECT id, type, title, status, intent, change_class, change_class_reason, plan
                 FROM tickets WHERE status IN (?, ?, ?) ORDER BY created_at DESC LIMIT ? OFFSET ?`,
-          args: [...archiveStatuses, limit + 1, offset],
+          args: [...ARCHIVE_STATUSES, limit + 1, offset],
         });
       } else {
         result = await client.execute({
@@ -401,6 +237,18 @@ export function registerTicketRoutes(app: Hono) {
     }
   });
 
+  // Single kanban card (live updates replace a card in place)
+  app.get('/partials/ticket-card/:id', async (c) => {
+    try {
+      const client = await getClient();
+      const ticket = await getTicket(client, c.req.param('id'));
+      return c.html(renderTicketCard(ticket, { isBacklog: ticket.status === 'Backlog' }));
+    } catch (error) {
+      if (errorStatus(error) === 404) return c.html('', 404);
+      return c.html(`<div class="text-red-500 p-4">Error: ${(error as Error).message}</div>`, 500);
+    }
+  });
+
   // Ticket modal
   app.get('/partials/ticket-modal/:id', async (c) => {
     try {
@@ -418,8 +266,9 @@ export function registerTicketRoutes(app: Hono) {
       }
 
       const ticket = parseTicketRow(result.rows[0] as Record<string, unknown>);
-      const comments = await fetchComments('ticket', id);
-      return c.html(renderTicketModal(ticket, comments));
+      const comments = await listComments(client, 'ticket', id);
+      const dependencies = await getTicketDependencies(client, id);
+      return c.html(renderTicketModal(ticket, comments, dependencies));
     } catch (error) {
       return c.html(`<div class="p-6 text-red-500">Error: ${(error as Error).message}</div>`);
     }
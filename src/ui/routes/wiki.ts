@@ -2,8 +2,8 @@ import type { Hono } from 'hono';
 import { getClient } from '../../db/client.js';
 import { scanProject } from '../../wiki/scanner.js';
 import { scanCache } from '../../wiki/cache.js';
+import { searchWikiSymbols } from '../../wiki/search.js';
 import { indexProject, indexProjectIncremental, getCoverageStats, getCitationsForFile } from '../../wiki/indexer.js';
-import type { WikiSearchHit } from '../components/index.js';
 import {
   renderWikiView,
   renderWikiTree,
@@ -112,93 +112,8 @@ export function registerWikiRoutes(app: Hono) {
       if (!q) return c.html('');
 
       const scan = await scanProject(process.cwd());
-      const hits: WikiSearchHit[] = [];
       const MAX_RESULTS = 30;
-
-      for (const file of scan.files) {
-        if (hits.length >= MAX_RESULTS) break;
-
-        // Match file path
-        if (file.relativePath.toLowerCase().includes(q)) {
-          hits.push({
-            type: 'file',
-            name: file.relativePath.split('/').pop() || file.relativePath,
-            filePath: file.relativePath,
-          });
-        }
-
-        // Match functions
-        for (const fn of file.functions) {
-          if (hits.length >= MAX_RESULTS) break;
-          if (fn.name.toLowerCase().includes(q)) {
-            hits.push({
-              type: 'function',
-              name: fn.name,
-              filePath: file.relativePath,
-              line: fn.line,
-              endLine: fn.endLine,
-              detail: fn.params.length > 0 ? `(${fn.params.join(', ')})` : undefined,
-            });
-          }
-        }
-
-        // Match classes and their methods
-        for (const cls of file.classes) {
-          if (hits.length >= MAX_RESULTS) break;
-          if (cls.name.toLowerCase().includes(q)) {
-            hits.push({
-              type: 'class',
-              name: cls.name,
-              filePath: file.relativePath,
-              line: cls.line,
-              endLine: cls.endLine,
-              detail: `${cls.methods.length} method${cls.methods.length !== 1 ? 's' : ''}`,
-            });
-          }
-          for (const method of cls.methods) {
-            if (hits.length >= MAX_RESULTS) break;
-            if (method.name.toLowerCase().includes(q)) {
-              hits.push({
-                type: 'method',
-                name: `${cls.name}.${method.name}`,
-                filePath: file.relativePath,
-                line: method.line,
-                endLine: method.endLine,
-                detail: method.params.length > 0 ? `(${method.params.join(', ')})` : undefined,
-              });
-            }
-          }
-        }
-
-        // Match constants and variables
-        for (const v of (file.variables || [])) {
-          if (hits.length >= MAX_RESULTS) break;
-          if (v.name.toLowerCase().includes(q)) {
-            hits.push({
-              type: v.kind === 'const' ? 'constant' : 'variable',
-              name: v.name,
-              filePath: file.relativePath,
-              line: v.line,
-              detail: v.kind,
-            });
-          }
-        }
-
-        // Match interfaces
-        for (const iface of (file.interfaces || [])) {
-          if (hits.length >= MAX_RESULTS) break;
-          if (iface.name.toLowerCase().includes(q)) {
-            hits.push({
-              type: 'interface',
-              name: iface.name,
-              filePath: file.relativePath,
-              line: iface.line,
-              endLine: iface.endLine,
-              detail: iface.properties.length > 0 ? `${iface.properties.length} prop${iface.properties.length !== 1 ? 's' : ''}` : undefined,
-            });
-          }
-        }
-      }
+      const hits = searchWikiSymbols(scan, q, MAX_RESULTS);
 
       return c.html(renderWikiSearchResults(hits));
     } catch (error) {
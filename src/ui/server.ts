@@ -3,17 +3,29 @@ import { readFileSync } from 'node:fs';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
 import { getHtml } from './components/index.js';
-import { createSSEStream } from './sse.js';
+import { createSSEStream, checkForChanges } from './sse.js';
+import { onChange } from '../services/events.js';
 import { registerTicketRoutes } from './routes/tickets.js';
 import { registerKnowledgeRoutes } from './routes/knowledge.js';
 import { registerSpecRoutes } from './routes/specs.js';
 import { registerCommentRoutes } from './routes/comments.js';
 import { registerWikiRoutes } from './routes/wiki.js';
 import { registerDashboardRoutes } from './routes/dashboard.js';
+import { registerApiRoutes } from './routes/api.js';
+import { accessControl } from './auth.js';
+import { VENDOR_ASSETS, isVendorAssetName, loadVendorAssets } from './vendor.js';
+import type { AccessOptions } from './auth.js';
 
-export function createApp(namespace: string): { app: Hono; version: string } {
+export function createApp(
+  namespace: string,
+  access: AccessOptions = { auth: null, readOnly: false },
+): { app: Hono; version: string } {
   const app = new Hono();
 
+  // ── Access Control ────────────────────────────────────────────
+  // Registered first so it guards every route, including static assets
+  app.use('*', accessControl(access));
+
   // ── Static Assets ─────────────────────────────────────────────
   const packageRoot = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
   const packageJson = JSON.parse(readFileSync(join(packageRoot, 'package.json'), 'utf-8'));
@@ -32,6 +44,30 @@ export function createApp(namespace: string): { app: Hono; version: string } {
     return c.body(cssContent);
   });
 
+  // Bundled front-end libraries, served only when they match their pinned hash
+  const { assets: vendorAssets, problems: vendorProblems } = loadVendorAssets(join(packageRoot, 'dist', 'ui', 'vendor'));
+  for (const problem of vendorProblems) {
+    console.warn(`Dashboard asset unavailable: ${problem}`);
+  }
+
+  app.get('/vendor/:file', (c) => {
+    const name = c.req.param('file');
+    const content = isVendorAssetName(name) ? vendorAssets.get(name) : undefined;
+    if (!isVendorAssetName(name) || content === undefined) {
+      return c.text('/* Asset not available. Run: npm run setup:vendor */', 404);
+    }
+
+    // The file name stays the same across upgrades, so revalidate by hash
+    const etag = `"${VENDOR_ASSETS[name].integrity}"`;
+    c.header('ETag', etag);
+    c.header('Cache-Control', 'public, max-age=86400');
+    if (c.req.header('If-None-Match') === etag) {
+      return c.body(null, 304);
+    }
+    c.header('Content-Type', 'text/javascript; charset=utf-8');
+    return c.body(content);
+  });
+
   app.get('/favicon.svg', (c) => {
     c.header('Content-Type', 'image/svg+xml');
     c.header('Cache-Control', 'public, max-age=86400');
@@ -50,8 +86,15 @@ export function createApp(namespace: string): { app: Hono; version: string } {
   });
 
   // ── SSE Endpoint ──────────────────────────────────────────────
-  app.get('/api/events', () => {
-    const stream = createSSEStream();
+  // Changes are read from change_log; writes through the services (by any route)
+  // are picked up immediately instead of at the next poll
+  onChange(() => checkForChanges());
+
+  app.get('/api/events', (c) => {
+    // Browsers send Last-Event-ID when they reconnect; ?lastEventId= is for other clients
+    const resumeFrom = c.req.header('Last-Event-ID') ?? c.req.query('lastEventId');
+    const lastEventId = resumeFrom !== undefined && /^\d+$/.test(resumeFrom) ? Number(resumeFrom) : undefined;
+    const stream = createSSEStream(lastEventId);
     return new Response(stream, {
       headers: {
         'Content-Type': 'text/event-stream',
@@ -62,7 +105,7 @@ export function createApp(namespace: string): { app: Hono; version: string } {
   });
 
   // ── Main HTML Shell ───────────────────────────────────────────
-  app.get('/', (c) => c.html(getHtml(namespace, version)));
+  app.get('/', (c) => c.html(getHtml(namespace, version, access.readOnly)));
 
   // ── Domain Routes ─────────────────────────────────────────────
   registerTicketRoutes(app);
@@ -72,5 +115,8 @@ export function createApp(namespace: string): { app: Hono; version: string } {
   registerWikiRoutes(app);
   registerDashboardRoutes(app);
 
+  // ── JSON API (/api/v1) ────────────────────────────────────────
+  registerApiRoutes(app, version);
+
   return { app, version };
 }
@@ -1,13 +1,28 @@
 import { EventEmitter } from 'node:events';
 import type { Client } from '@libsql/client';
+import { getChangeLogBounds, getChangesSince } from '../db/change-log.js';
+import type { ChangeLogEntry } from '../types.js';
 
-export type SSEEventType = 'ticket-updated' | 'knowledge-updated' | 'spec-updated' | 'wiki-updated';
+// 'change' carries one change_log row (its seq is the event id). 'reset' asks the
+// browser to reload every view: too many changes at once, or a resume point that
+// has already been pruned from the log.
+export type SSEEventType = 'change' | 'reset' | 'wiki-updated';
+
+interface SSEMessage {
+  type: SSEEventType;
+  id?: number;
+  data?: unknown;
+}
 
 interface SSEClient {
   id: number;
   controller: ReadableStreamDefaultController;
-  handler?: (type: SSEEventType) => void;
+  handler?: (message: SSEMessage) => void;
   keepAlive?: NodeJS.Timeout;
+  // Highest change seq sent; undefined until the client has received or resumed from one
+  lastSeq?: number;
+  // Live messages held back while missed changes are replayed
+  pending?: SSEMessage[];
 }
 
 let clientIdCounter = 0;
@@ -18,38 +33,79 @@ const eventBus = new EventEmitter();
 const pendingEvents = new Map<SSEEventType, NodeJS.Timeout>();
 const DEBOUNCE_MS = 100;
 
+// More changes than this in one poll (or replay) become a single reset
+const BATCH_LIMIT = 100;
+
 export function emitSSE(type: SSEEventType): void {
   const existing = pendingEvents.get(type);
   if (existing) clearTimeout(existing);
 
   pendingEvents.set(type, setTimeout(() => {
     pendingEvents.delete(type);
-    eventBus.emit('sse', type);
+    eventBus.emit('sse', { type } satisfies SSEMessage);
   }, DEBOUNCE_MS));
 }
 
-export function createSSEStream(): ReadableStream {
+function broadcast(message: SSEMessage): void {
+  eventBus.emit('sse', message);
+}
+
+function formatMessage(message: SSEMessage): string {
+  const id = message.id !== undefined ? `id: ${message.id}\n` : '';
+  return `${id}event: ${message.type}\ndata: ${JSON.stringify(message.data ?? {})}\n\n`;
+}
+
+function send(client: SSEClient, message: SSEMessage): void {
+  if (message.id !== undefined) {
+    // Replay and live polling can overlap; each change goes out once.
+    // A reset always goes out: it also moves a resume point that is ahead of the log.
+    if (message.type !== 'reset' && client.lastSeq !== undefined && message.id <= client.lastSeq) return;
+    client.lastSeq = message.id;
+  }
+  try {
+    client.controller.enqueue(new TextEncoder().encode(formatMessage(message)));
+  } catch {
+    removeClient(client.id);
+  }
+}
+
+/**
+ * Open an event stream. `lastEventId` (the browser's Last-Event-ID header after a
+ * reconnect) replays the changes made since then before live events resume.
+ */
+export function createSSEStream(lastEventId?: number): ReadableStream {
   let client: SSEClient;
 
   return new ReadableStream({
     start(controller) {
-      client = { id: ++clientIdCounter, controller };
+      client = { id: ++clientIdCounter, controller, lastSeq: lastEventId };
       clients.push(client);
+      // The watcher idles without clients; take the current position now
+      follower?.check();
 
       // Send initial connection event
       controller.enqueue(new TextEncoder().encode(': connected\n\n'));
 
       // Listen for events
-      const handler = (type: SSEEventType) => {
-        try {
-          controller.enqueue(new TextEncoder().encode(`event: ${type}\ndata: {}\n\n`));
-        } catch {
-          removeClient(client.id);
+      const handler = (message: SSEMessage) => {
+        if (client.pending) {
+          client.pending.push(message);
+        } else {
+          send(client, message);
         }
       };
 
       eventBus.on('sse', handler);
 
+      if (lastEventId !== undefined && watchedClient) {
+        client.pending = [];
+        replayChanges(watchedClient, client, lastEventId).finally(() => {
+          const held = client.pending ?? [];
+          client.pending = undefined;
+          for (const message of held) send(client, message);
+        });
+      }
+
       // Keep-alive every 30s
       const keepAlive = setInterval(() => {
         try {
@@ -69,6 +125,29 @@ export function createSSEStream(): ReadableStream {
   });
 }
 
+async function replayChanges(db: Client, client: SSEClient, afterSeq: number): Promise<void> {
+  try {
+    const { oldest, latest } = await getChangeLogBounds(db);
+    if (afterSeq === latest) return;
+
+    // Pruned past the resume point, or a seq from another database
+    if (afterSeq > latest || oldest > afterSeq + 1) {
+      send(client, { type: 'reset', id: latest });
+      return;
+    }
+
+    const entries = await getChangesSince(db, afterSeq, BATCH_LIMIT + 1);
+    if (entries.length > BATCH_LIMIT) {
+      send(client, { type: 'reset', id: latest });
+      return;
+    }
+    for (const entry of entries) send(client, { type: 'change', id: entry.seq, data: entry });
+  } catch (error) {
+    console.error(`Live updates: replay failed: ${(error as Error).message}`);
+    send(client, { type: 'reset' });
+  }
+}
+
 function removeClient(id: number): void {
   const index = clients.findIndex(c => c.id === id);
   if (index === -1) return;
@@ -79,72 +158,224 @@ function removeClient(id: number): void {
   clients.splice(index, 1);
 }
 
-// ============ DB CHANGE WATCHER ============
-// Polls max(updated_at) per table to detect external changes (CLI, other clients).
-// Only emits SSE when timestamps actually change — no unnecessary UI refreshes.
+// ============ CHANGE LOG FOLLOWER ============
+// Polls change_log (written by triggers, so CLI, MCP and other machines are covered)
+// for rows after the last seen seq. Also used by `superintent events --follow`.
 
 const POLL_INTERVAL_MS = 2000;
-let pollTimer: NodeJS.Timeout | null = null;
-const lastSeen: Record<string, string> = {};
-let firstPoll = true;
-
-const tableToEvent: Record<string, SSEEventType> = {
-  tickets: 'ticket-updated',
-  knowledge: 'knowledge-updated',
-  specs: 'spec-updated',
-  wiki_pages: 'wiki-updated',
-  wiki_citations: 'wiki-updated',
-};
+// While polls keep failing, onError hears about the first failure and every this many after it
+const ERROR_REPORT_EVERY = 30;
 
-export function startChangeWatcher(client: Client): void {
-  if (pollTimer) return;
+/**
+ * Count consecutive poll failures and pass the ones worth reporting to `onError`.
+ */
+function createErrorReporter(onError?: (error: Error, failures: number) => void) {
+  let failures = 0;
+  return {
+    failed: (error: unknown): void => {
+      failures++;
+      if (onError && (failures - 1) % ERROR_REPORT_EVERY === 0) {
+        onError(error instanceof Error ? error : new Error(String(error)), failures);
+      }
+    },
+    succeeded: (): void => {
+      failures = 0;
+    },
+  };
+}
 
-  pollTimer = setInterval(async () => {
-    if (clients.length === 0) return; // No connected browsers, skip
+export interface ChangeFollowerOptions {
+  // Start after this seq; defaults to the latest change when the follower starts
+  afterSeq?: number;
+  // Awaited before the next entry, so async handlers see changes in order
+  onChange: (entry: ChangeLogEntry) => void | Promise<void>;
+  // More than BATCH_LIMIT changes arrived at once; `latestSeq` is the new position.
+  // Without it every change is delivered, a page at a time.
+  onReset?: (latestSeq: number) => void;
+  // While false, polling is skipped and the position is re-seeded afterwards
+  isActive?: () => boolean;
+  // Position to re-seed from after an inactive period (default: the latest change)
+  resumeFrom?: (latestSeq: number) => number;
+  // A poll failed (database unreachable, or onChange threw); polling goes on.
+  // Called on the first failure and then every ERROR_REPORT_EVERY consecutive ones.
+  onError?: (error: Error, failures: number) => void;
+  intervalMs?: number;
+}
 
-    try {
-      // Track both updated_at AND count to catch active/deactivate/delete changes
-      const result = await client.execute({
-        sql: `SELECT
-          (SELECT MAX(updated_at) || '|' || COUNT(*) FROM tickets) AS tickets,
-          (SELECT MAX(updated_at) || '|' || COUNT(*) || '|' || SUM(active) FROM knowledge) AS knowledge,
-          (SELECT MAX(updated_at) || '|' || COUNT(*) FROM specs) AS specs,
-          (SELECT MAX(updated_at) || '|' || COUNT(*) FROM comments) AS comments,
-          (SELECT MAX(updated_at) || '|' || COUNT(*) FROM wiki_pages) AS wiki_pages,
-          (SELECT MAX(created_at) || '|' || COUNT(*) FROM wiki_citations) AS wiki_citations`,
-        args: [],
-      });
+export interface ChangeFollower {
+  // Poll now instead of waiting for the next interval
+  check: () => void;
+  stop: () => void;
+}
 
-      const row = result.rows[0] as Record<string, unknown>;
+export function followChanges(client: Client, options: ChangeFollowerOptions): ChangeFollower {
+  let position: number | null = options.afterSeq ?? null;
+  let polling = false;
+  let pollAgain = false;
+  const errors = createErrorReporter(options.onError);
+
+  const poll = async (): Promise<void> => {
+    if (options.isActive && !options.isActive()) {
+      position = null;
+      return;
+    }
+    if (polling) {
+      pollAgain = true;
+      return;
+    }
+
+    polling = true;
+    try {
+      if (position === null) {
+        const { latest } = await getChangeLogBounds(client);
+        position = options.resumeFrom ? options.resumeFrom(latest) : latest;
+      }
 
-      for (const table of ['tickets', 'knowledge', 'specs', 'comments', 'wiki_pages', 'wiki_citations']) {
-        const current = (row[table] as string) || '';
-        if (firstPoll) {
-          lastSeen[table] = current;
-        } else if (current !== lastSeen[table]) {
-          lastSeen[table] = current;
-          if (table === 'comments') {
-            emitSSE('ticket-updated');
-            emitSSE('knowledge-updated');
-            emitSSE('spec-updated');
-          } else {
-            emitSSE(tableToEvent[table]);
-          }
+      let entries = await getChangesSince(client, position, BATCH_LIMIT + 1);
+      if (entries.length > BATCH_LIMIT && options.onReset) {
+        const { latest } = await getChangeLogBounds(client);
+        position = latest;
+        options.onReset(latest);
+        return;
+      }
+      while (entries.length > 0) {
+        for (const entry of entries) {
+          position = entry.seq;
+          await options.onChange(entry);
         }
+        entries = entries.length > BATCH_LIMIT ? await getChangesSince(client, position, BATCH_LIMIT + 1) : [];
+      }
+      errors.succeeded();
+    } catch (error) {
+      errors.failed(error);
+    } finally {
+      polling = false;
+      if (pollAgain) {
+        pollAgain = false;
+        void poll();
       }
-      firstPoll = false;
-    } catch {
-      // DB might be temporarily locked; skip this cycle
     }
-  }, POLL_INTERVAL_MS);
+  };
+
+  const timer = setInterval(() => void poll(), options.intervalMs ?? POLL_INTERVAL_MS);
+  void poll();
+
+  return {
+    check: () => void poll(),
+    stop: () => clearInterval(timer),
+  };
+}
+
+// ============ WIKI FOLLOWER ============
+// Wiki tables are not in change_log (indexing rewrites them in bulk), so the index
+// is compared by page/citation counts and latest timestamps instead.
+
+export interface WikiIndexState {
+  pages: number;
+  citations: number;
+  // Latest page update, in SQLite datetime format
+  updated_at: string | null;
+}
+
+export interface WikiFollowerOptions {
+  onChange: (state: WikiIndexState) => void;
+  isActive?: () => boolean;
+  // As for followChanges
+  onError?: (error: Error, failures: number) => void;
+  intervalMs?: number;
+}
+
+export function followWikiChanges(client: Client, options: WikiFollowerOptions): ChangeFollower {
+  let lastState: string | null = null;
+  let polling = false;
+  const errors = createErrorReporter(options.onError);
+
+  const poll = async (): Promise<void> => {
+    if ((options.isActive && !options.isActive()) || polling) return;
+
+    polling = true;
+    try {
+      const result = await client.execute(`SELECT
+        (SELECT COUNT(*) FROM wiki_pages) AS pages,
+        (SELECT MAX(updated_at) FROM wiki_pages) AS updated_at,
+        (SELECT COUNT(*) FROM wiki_citations) AS citations,
+        (SELECT MAX(created_at) FROM wiki_citations) AS cited_at`);
+      const row = result.rows[0] as Record<string, unknown>;
+      const state = [row.pages, row.updated_at, row.citations, row.cited_at].join('|');
+      if (lastState !== null && state !== lastState) {
+        options.onChange({
+          pages: Number(row.pages),
+          citations: Number(row.citations),
+          updated_at: (row.updated_at as string | null) ?? null,
+        });
+      }
+      lastState = state;
+      errors.succeeded();
+    } catch (error) {
+      errors.failed(error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const timer = setInterval(() => void poll(), options.intervalMs ?? POLL_INTERVAL_MS);
+  void poll();
+
+  return {
+    check: () => void poll(),
+    stop: () => clearInterval(timer),
+  };
+}
+
+// ============ DB CHANGE WATCHER ============
+// Feeds change_log rows and wiki index changes to connected browsers.
+
+let watchedClient: Client | null = null;
+let follower: ChangeFollower | null = null;
+let wikiFollower: ChangeFollower | null = null;
+
+/**
+ * A failed poll may have skipped changes: log it and have browsers reload.
+ */
+function reportWatchError(source: string, error: Error, failures: number): void {
+  console.error(`Live updates: ${source} poll failed${failures > 1 ? ` (${failures} times in a row)` : ''}: ${error.message}`);
+  broadcast({ type: 'reset' });
+}
+
+export function startChangeWatcher(client: Client): void {
+  if (follower) return;
+  watchedClient = client;
+
+  follower = followChanges(client, {
+    onChange: (entry) => broadcast({ type: 'change', id: entry.seq, data: entry }),
+    onReset: (latestSeq) => broadcast({ type: 'reset', id: latestSeq }),
+    isActive: () => clients.length > 0, // No connected browsers, skip
+    // Start early enough for browsers that resumed from an older event
+    resumeFrom: (latestSeq) => Math.min(latestSeq, ...clients.flatMap(c => c.lastSeq ?? [])),
+    onError: (error, failures) => reportWatchError('change_log', error, failures),
+  });
+
+  wikiFollower = followWikiChanges(client, {
+    onChange: () => emitSSE('wiki-updated'),
+    isActive: () => clients.length > 0,
+    onError: (error, failures) => reportWatchError('wiki index', error, failures),
+  });
+}
+
+/**
+ * Look for new changes now, e.g. right after the dashboard itself wrote something.
+ */
+export function checkForChanges(): void {
+  follower?.check();
 }
 
 export function closeAllSSEClients(): void {
   // Stop DB change watcher
-  if (pollTimer) {
-    clearInterval(pollTimer);
-    pollTimer = null;
-  }
+  follower?.stop();
+  follower = null;
+  watchedClient = null;
+  wikiFollower?.stop();
+  wikiFollower = null;
 
   // Clear any pending debounced events
   for (const timeout of pendingEvents.values()) clearTimeout(timeout);
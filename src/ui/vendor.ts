@@ -0,0 +1,85 @@
+/**
+ * Front-end libraries bundled with the package (copied to dist/ui/vendor by
+ * `npm run setup:vendor`), so the dashboard makes no outside network requests.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+interface VendorAsset {
+  // npm package and file the asset is copied from
+  source: string;
+  // Subresource Integrity hash of the pinned version (sha384, base64)
+  integrity: string;
+}
+
+// Bump together with the devDependency version; the hash is checked at startup and by the browser
+export const VENDOR_ASSETS = {
+  'htmx.min.js': {
+    source: 'htmx.org@2.0.8/dist/htmx.min.js',
+    integrity: 'sha384-/TgkGk7p307TH7EXJDuUlgG3Ce1UVolAOFopFekQkkXihi5u/6OCvVKyz1W+idaz',
+  },
+  'marked.umd.js': {
+    source: 'marked@17.0.1/lib/marked.umd.js',
+    integrity: 'sha384-KwzR5her+zXi/Bzz4PVrBjkrjsBZy9adZtt3jA6Jgj3/hzPihRUV6HqMONpTe7Ll',
+  },
+  'purify.min.js': {
+    source: 'dompurify@3.3.1/dist/purify.min.js',
+    integrity: 'sha384-80VlBZnyAwkkqtSfg5NhPyZff6nU4K/qniLBL8Jnm4KDv6jZhLiYtJbhglg/i9ww',
+  },
+  'jspdf.umd.min.js': {
+    source: 'jspdf@4.1.0/dist/jspdf.umd.min.js',
+    integrity: 'sha384-O8uvtxpjN7zEAkrRa8Jvgy+DAGE+15nh9uzvnf3pJ8GlntgJKrgouk/qrZpfXApg',
+  },
+  'vis-network.min.js': {
+    source: 'vis-network@10.0.2/standalone/umd/vis-network.min.js',
+    integrity: 'sha384-m/pqkSdIs50f1nWlv062s9HmCAygFne+xY7uot2M8ZVijdcC+c/n97dFCfAZnKwO',
+  },
+} satisfies Record<string, VendorAsset>;
+
+export type VendorAssetName = keyof typeof VENDOR_ASSETS;
+
+export function isVendorAssetName(name: string): name is VendorAssetName {
+  return Object.prototype.hasOwnProperty.call(VENDOR_ASSETS, name);
+}
+
+export function vendorUrl(name: VendorAssetName): string {
+  return `/vendor/${name}`;
+}
+
+/**
+ * `<script>` tag for a bundled library. The browser refuses to run it if the
+ * served file does not match the pinned hash.
+ */
+export function vendorScript(name: VendorAssetName): string {
+  return `<script src="${vendorUrl(name)}" integrity="${VENDOR_ASSETS[name].integrity}"></script>`;
+}
+
+/**
+ * Read the bundled files from `dir` and verify them against their pinned hashes.
+ * Missing or modified files are reported in `problems` and left out of `assets`.
+ */
+export function loadVendorAssets(dir: string): { assets: Map<VendorAssetName, string>; problems: string[] } {
+  const assets = new Map<VendorAssetName, string>();
+  const problems: string[] = [];
+
+  for (const [name, asset] of Object.entries(VENDOR_ASSETS) as [VendorAssetName, VendorAsset][]) {
+    let content: Buffer;
+    try {
+      content = readFileSync(join(dir, name));
+    } catch {
+      problems.push(`${name} is missing. Run: npm run setup:vendor`);
+      continue;
+    }
+
+    const integrity = `sha384-${createHash('sha384').update(content).digest('base64')}`;
+    if (integrity !== asset.integrity) {
+      problems.push(`${name} does not match ${asset.source} (integrity ${integrity})`);
+      continue;
+    }
+    assets.set(name, content.toString('utf-8'));
+  }
+
+  return { assets, problems };
+}
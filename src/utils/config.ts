@@ -6,9 +6,43 @@ export interface TursoConfig {
   authToken?: string; // Optional for local file URLs
 }
 
+export type EmbeddingProviderName = 'transformers' | 'openai';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimension: number;
+  queryPrefix: string;
+  pooling?: 'cls' | 'mean'; // transformers only
+  url?: string; // openai only: base URL of an OpenAI-compatible API (…/v1)
+  apiKey?: string; // openai only
+}
+
+export interface DashboardAuthConfig {
+  token?: string;
+  basic?: { username: string; password: string };
+}
+
+export interface WebhookConfig {
+  id: string;
+  url: string;
+  // Event names; '*' matches any part ('ticket.*'), ':Status' narrows status changes ('ticket.status_changed:Done')
+  events: string[];
+  // HMAC-SHA256 key for the X-Superintent-Signature header
+  secret: string;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/bge-small-en-v1.5';
+const DEFAULT_EMBEDDING_DIMENSION = 384;
+const BGE_QUERY_PREFIX = 'Represent this sentence for searching relevant passages: ';
+const DEFAULT_OPENAI_URL = 'https://api.openai.com/v1';
+
 const CONFIG_DIR = '.superintent';
 const ENV_FILE = '.env';
 
+const EMBEDDING_CACHE_FILE = 'embeddings.db';
+const WEBHOOKS_FILE = 'webhooks.json';
+
 function getEnvPath(): string {
   return join(process.cwd(), CONFIG_DIR, ENV_FILE);
 }
@@ -39,6 +73,11 @@ function parseEnvFile(content: string): Record<string, string> {
   return result;
 }
 
+function readEnvFile(): Record<string, string> {
+  const envPath = getEnvPath();
+  return existsSync(envPath) ? parseEnvFile(readFileSync(envPath, 'utf-8')) : {};
+}
+
 function isLocalUrl(url: string): boolean {
   return url.startsWith('file:');
 }
@@ -127,6 +166,144 @@ export function configExists(): boolean {
   return false;
 }
 
+/**
+ * Load the embedding provider settings. Environment variables take priority over
+ * .superintent/.env; with nothing configured this is the bundled bge-small model.
+ *
+ *   EMBEDDING_PROVIDER      transformers (default) | openai
+ *   EMBEDDING_MODEL         model id (transformers: Hugging Face ONNX repo; openai: model name)
+ *   EMBEDDING_DIMENSION     vector size the model produces (default 384)
+ *   EMBEDDING_QUERY_PREFIX  text prepended to search queries (bge models default to their prefix)
+ *   EMBEDDING_POOLING       cls | mean (transformers; bge models default to cls, others to mean)
+ *   EMBEDDING_URL           OpenAI-compatible base URL (default https://api.openai.com/v1)
+ *   EMBEDDING_API_KEY       bearer token for EMBEDDING_URL
+ *   EMBEDDING_CACHE         on (default) | off: persistent vector cache (see getEmbeddingCachePath)
+ */
+export function loadEmbeddingConfig(): EmbeddingConfig {
+  const file = readEnvFile();
+  const get = (key: string): string | undefined => process.env[key] ?? file[key];
+
+  const provider = (get('EMBEDDING_PROVIDER') || 'transformers') as EmbeddingProviderName;
+  if (provider !== 'transformers' && provider !== 'openai') {
+    throw new Error(`Invalid EMBEDDING_PROVIDER '${provider}'. Must be one of: transformers, openai`);
+  }
+
+  const model = get('EMBEDDING_MODEL') || (provider === 'transformers' ? DEFAULT_EMBEDDING_MODEL : '');
+  if (!model) {
+    throw new Error('EMBEDDING_MODEL is required when EMBEDDING_PROVIDER=openai');
+  }
+
+  const dimensionValue = get('EMBEDDING_DIMENSION');
+  const dimension = dimensionValue ? parseInt(dimensionValue, 10) : DEFAULT_EMBEDDING_DIMENSION;
+  if (!Number.isInteger(dimension) || dimension <= 0) {
+    throw new Error(`Invalid EMBEDDING_DIMENSION '${dimensionValue}'`);
+  }
+
+  const isBge = /bge-/i.test(model);
+  const pooling = get('EMBEDDING_POOLING') || (isBge ? 'cls' : 'mean');
+  if (pooling !== 'cls' && pooling !== 'mean') {
+    throw new Error(`Invalid EMBEDDING_POOLING '${pooling}'. Must be one of: cls, mean`);
+  }
+
+  return {
+    provider,
+    model,
+    dimension,
+    queryPrefix: get('EMBEDDING_QUERY_PREFIX') ?? (isBge ? BGE_QUERY_PREFIX : ''),
+    ...(provider === 'transformers'
+      ? { pooling }
+      : { url: (get('EMBEDDING_URL') || DEFAULT_OPENAI_URL).replace(/\/+$/, ''), apiKey: get('EMBEDDING_API_KEY') }),
+  };
+}
+
+/**
+ * Load dashboard credentials. Returns null when none are configured (local-only access).
+ * Environment variables take priority over .superintent/.env.
+ *
+ *   DASHBOARD_TOKEN     shared access token (Authorization: Bearer, or ?token= once per browser)
+ *   DASHBOARD_USERNAME  basic-auth user name, requires DASHBOARD_PASSWORD
+ *   DASHBOARD_PASSWORD  basic-auth password
+ */
+export function loadDashboardAuthConfig(): DashboardAuthConfig | null {
+  const file = readEnvFile();
+  const get = (key: string): string | undefined => process.env[key] || file[key] || undefined;
+
+  const token = get('DASHBOARD_TOKEN');
+  const username = get('DASHBOARD_USERNAME');
+  const password = get('DASHBOARD_PASSWORD');
+  if (Boolean(username) !== Boolean(password)) {
+    throw new Error('DASHBOARD_USERNAME and DASHBOARD_PASSWORD must be set together');
+  }
+  if (username?.includes(':')) {
+    throw new Error('DASHBOARD_USERNAME must not contain ":"');
+  }
+
+  if (!token && !username) return null;
+  return {
+    ...(token ? { token } : {}),
+    ...(username && password ? { basic: { username, password } } : {}),
+  };
+}
+
+/**
+ * Load webhook subscriptions from .superintent/webhooks.json. Returns an empty list
+ * when the file does not exist. A secret written as "$NAME" is read from the
+ * environment or .superintent/.env, so the file itself can be committed.
+ *
+ *   {
+ *     "webhooks": [
+ *       { "id": "chat", "url": "https://…", "events": ["ticket.status_changed:Done"], "secret": "$CHAT_WEBHOOK_SECRET" }
+ *     ]
+ *   }
+ */
+export function loadWebhookConfig(): WebhookConfig[] {
+  const path = join(process.cwd(), CONFIG_DIR, WEBHOOKS_FILE);
+  if (!existsSync(path)) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid ${CONFIG_DIR}/${WEBHOOKS_FILE}: ${(error as Error).message}`, { cause: error });
+  }
+  const entries = (parsed as { webhooks?: unknown })?.webhooks;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid ${CONFIG_DIR}/${WEBHOOKS_FILE}: expected a "webhooks" array`);
+  }
+
+  const file = readEnvFile();
+  const seen = new Set<string>();
+  return entries.map((entry: Record<string, unknown>, index) => {
+    const label = typeof entry?.id === 'string' ? `webhook '${entry.id}'` : `webhook #${index + 1}`;
+    const { id, url, events, secret } = entry ?? {};
+
+    if (typeof id !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9_-]*$/.test(id)) {
+      throw new Error(`${label}: "id" must be letters, digits, '-' or '_'`);
+    }
+    if (seen.has(id)) throw new Error(`${label}: duplicate id`);
+    seen.add(id);
+
+    if (typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+      throw new Error(`${label}: "url" must be an http(s) URL`);
+    }
+    if (!Array.isArray(events) || events.length === 0 || !events.every(e => typeof e === 'string' && e)) {
+      throw new Error(`${label}: "events" must be a non-empty list of event names`);
+    }
+    if (typeof secret !== 'string' || !secret) {
+      throw new Error(`${label}: "secret" is required`);
+    }
+
+    let resolved = secret;
+    if (secret.startsWith('$')) {
+      const name = secret.slice(1);
+      resolved = process.env[name] || file[name] || '';
+      if (!resolved) throw new Error(`${label}: secret variable ${name} is not set`);
+    }
+
+    return { id, url, events: events as string[], secret: resolved };
+  });
+}
+
 /**
  * Get project namespace from CLAUDE.md "- Namespace:" line.
  * Falls back to current directory basename.
@@ -144,3 +321,23 @@ export function getProjectNamespace(): string {
 
   return process.cwd().split('/').pop() || 'global';
 }
+
+/**
+ * Every setting that changes the vectors produced (pooling and query prefix change
+ * vectors without changing the provider id). Processes embedding with the same
+ * scope produce interchangeable vectors.
+ */
+export function embeddingScope(config: EmbeddingConfig): string {
+  return JSON.stringify([`${config.provider}:${config.model}`, config.dimension, config.pooling ?? null, config.queryPrefix]);
+}
+
+/**
+ * Path of the persistent embedding cache (.superintent/embeddings.db), or null when
+ * the workspace has no .superintent directory or EMBEDDING_CACHE=off.
+ */
+export function getEmbeddingCachePath(): string | null {
+  const setting = process.env.EMBEDDING_CACHE ?? readEnvFile().EMBEDDING_CACHE;
+  if (setting === 'off') return null;
+  const dir = join(process.cwd(), CONFIG_DIR);
+  return existsSync(dir) ? join(dir, EMBEDDING_CACHE_FILE) : null;
+}
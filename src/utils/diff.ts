@@ -0,0 +1,55 @@
+/**
+ * Line-based diff (LCS) for comparing knowledge revisions.
+ */
+
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * Compute a line diff between two texts using longest common subsequence.
+ */
+export function diffLines(from: string, to: string): DiffLine[] {
+  const a = from.split('\n');
+  const b = to.split('\n');
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'remove', text: a[i] });
+      i++;
+    } else {
+      result.push({ type: 'add', text: b[j] });
+      j++;
+    }
+  }
+  while (i < n) result.push({ type: 'remove', text: a[i++] });
+  while (j < m) result.push({ type: 'add', text: b[j++] });
+
+  return result;
+}
+
+/**
+ * Render diff lines in unified style (" ", "+", "-" prefixes).
+ */
+export function formatDiff(lines: DiffLine[]): string {
+  const prefix: Record<DiffLine['type'], string> = { same: ' ', add: '+', remove: '-' };
+  return lines.map(l => `${prefix[l.type]} ${l.text}`).join('\n');
+}
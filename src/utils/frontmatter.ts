@@ -0,0 +1,52 @@
+/**
+ * Markdown front-matter in a restricted YAML form: one `key: <JSON value>` per line.
+ * JSON values are valid YAML, so files stay readable by other tools while
+ * parsing needs no YAML dependency.
+ */
+
+const FENCE = '---';
+
+/**
+ * Render fields as front-matter followed by the body. Undefined fields are left out.
+ */
+export function stringifyFrontMatter(fields: Record<string, unknown>, body: string): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `${FENCE}\n${lines.join('\n')}\n${FENCE}\n\n${body.replace(/\n*$/, '')}\n`;
+}
+
+/**
+ * Split a Markdown file into front-matter fields and body.
+ * Unquoted scalar values (hand edits like `category: pattern`) are read as strings.
+ */
+export function parseFrontMatter(text: string): { fields: Record<string, unknown>; body: string } {
+  const normalized = text.replace(/\r\n/g, '\n');
+  if (!normalized.startsWith(`${FENCE}\n`)) {
+    throw new Error('Missing front-matter (file must start with ---)');
+  }
+  const end = normalized.indexOf(`\n${FENCE}`, FENCE.length);
+  if (end === -1) {
+    throw new Error('Unterminated front-matter (no closing ---)');
+  }
+
+  const fields: Record<string, unknown> = {};
+  const header = normalized.slice(FENCE.length + 1, end);
+  for (const [i, line] of header.split('\n').entries()) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      throw new Error(`Invalid front-matter line ${i + 1}: ${line}`);
+    }
+    const key = line.slice(0, colon).trim();
+    const raw = line.slice(colon + 1).trim();
+    try {
+      fields[key] = JSON.parse(raw);
+    } catch {
+      fields[key] = raw;
+    }
+  }
+
+  const body = normalized.slice(end + FENCE.length + 1).replace(/^\n+/, '').replace(/\n+$/, '');
+  return { fields, body };
+}
@@ -1,7 +1,7 @@
 import { createHash } from 'crypto';
-import { readFileSync } from 'fs';
+import { readFileSync, realpathSync } from 'fs';
 import { readFile } from 'fs/promises';
-import { resolve } from 'path';
+import { isAbsolute, relative, resolve, sep } from 'path';
 import type { Citation } from '../types.js';
 
 /**
@@ -15,6 +15,27 @@ export function computeContentHash(content: string): string {
     .slice(0, 16);
 }
 
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== '' && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Absolute path of a cited file, or null when it lies outside the project root `cwd`
+ * (also through symlinks). Citations can come over the network API, so only files
+ * in the project may be read.
+ */
+export function resolveCitedFile(cwd: string, filePath: string): string | null {
+  const absPath = resolve(cwd, filePath);
+  if (!isInside(cwd, absPath)) return null;
+  try {
+    if (!isInside(realpathSync(cwd), realpathSync(absPath))) return null;
+  } catch {
+    // Missing file: reading it fails anyway
+  }
+  return absPath;
+}
+
 export interface CitationValidationResult {
   path: string;
   status: 'valid' | 'changed' | 'missing';
@@ -40,7 +61,8 @@ export function validateCitation(
   let fileHash = fileHashCache.get(filePath);
   if (fileHash === undefined) {
     try {
-      const absPath = resolve(cwd, filePath);
+      const absPath = resolveCitedFile(cwd, filePath);
+      if (!absPath) throw new Error('Outside the project');
       const content = readFileSync(absPath, 'utf-8');
       fileHash = computeContentHash(content);
       fileHashCache.set(filePath, fileHash);
@@ -78,7 +100,8 @@ export async function validateCitationAsync(
   let fileHash = fileHashCache.get(filePath);
   if (fileHash === undefined) {
     try {
-      const absPath = resolve(cwd, filePath);
+      const absPath = resolveCitedFile(cwd, filePath);
+      if (!absPath) throw new Error('Outside the project');
       const content = await readFile(absPath, 'utf-8');
       fileHash = computeContentHash(content);
       fileHashCache.set(filePath, fileHash);
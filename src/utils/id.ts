@@ -1,4 +1,4 @@
-type IdPrefix = 'TICKET' | 'SPEC' | 'KNOWLEDGE' | 'COMMENT' | 'WPAGE' | 'WCITE';
+export type IdPrefix = 'TICKET' | 'SPEC' | 'KNOWLEDGE' | 'COMMENT' | 'WPAGE' | 'WCITE' | 'KREV' | 'TSEV' | 'WHDL';
 
 let lastTimestamp = 0;
 let counter = 0;
@@ -0,0 +1,41 @@
+/**
+ * Time helpers for --since style options and SQLite datetime('now') values (UTC, no zone suffix).
+ */
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a relative duration ("12h", "30d", "4w") or an ISO date into the Date it refers to.
+ * Throws on anything else.
+ */
+export function parseSince(value: string, now: Date = new Date()): Date {
+  const match = value.trim().match(/^(\d+)\s*([hdw])$/i);
+  if (match) {
+    return new Date(now.getTime() - parseInt(match[1], 10) * DURATION_UNITS_MS[match[2].toLowerCase()]);
+  }
+
+  const date = new Date(value);
+  if (!isNaN(date.getTime())) {
+    return date;
+  }
+
+  throw new Error(`Invalid --since value '${value}'. Use a duration like 30d, 12h, 4w or an ISO date`);
+}
+
+/**
+ * Format a Date the way SQLite's datetime() stores it, for string comparison in queries.
+ */
+export function toSqliteDatetime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Parse a datetime() string from the database as UTC.
+ */
+export function parseSqliteDatetime(value: string): Date {
+  return new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z');
+}
@@ -0,0 +1,126 @@
+/**
+ * Matching events to subscriptions and sending one signed delivery attempt.
+ */
+
+import { createHmac } from 'crypto';
+import type { Client } from '@libsql/client';
+import { claimWebhookDelivery, getWebhookDelivery, recordWebhookAttempt } from '../db/webhooks.js';
+import type { WebhookConfig } from '../utils/config.js';
+import type { WebhookEvent, WebhookDelivery } from '../types.js';
+
+// Wait before each retry; a delivery fails for good after RETRY_DELAYS_SECONDS.length + 1 attempts
+export const RETRY_DELAYS_SECONDS = [10, 60, 300, 1800, 7200];
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// Other dispatchers leave a claimed delivery alone this long
+const LEASE_SECONDS = 60;
+// Responses are kept in last_error only as far as they help debugging
+const MAX_ERROR_BODY = 500;
+
+/**
+ * Whether any of the subscription's patterns covers the event. A pattern is an event
+ * name where '*' matches one dot-separated part ('ticket.*', '*.deleted', '*'),
+ * optionally followed by ':<status>' to match only status changes to that status.
+ */
+export function matchesEvent(patterns: string[], event: Pick<WebhookEvent, 'type' | 'data'>): boolean {
+  const parts = event.type.split('.');
+  return patterns.some((pattern) => {
+    const colon = pattern.indexOf(':');
+    const name = colon === -1 ? pattern : pattern.slice(0, colon);
+    if (colon !== -1 && event.data.to !== pattern.slice(colon + 1)) return false;
+    if (name === '*') return true;
+
+    const expected = name.split('.');
+    return expected.length === parts.length && expected.every((part, i) => part === '*' || part === parts[i]);
+  });
+}
+
+/**
+ * JSON body sent for an event. Stored with the delivery, so a redelivery sends the same bytes.
+ */
+export function buildEventPayload(event: WebhookEvent): string {
+  return JSON.stringify({
+    event: event.type,
+    seq: event.seq,
+    entity: event.entity,
+    entity_id: event.entity_id,
+    data: event.data,
+    actor: event.actor ?? null,
+    created_at: event.created_at,
+  });
+}
+
+export function buildPingPayload(webhook: WebhookConfig): string {
+  return JSON.stringify({
+    event: 'ping',
+    webhook: webhook.id,
+    events: webhook.events,
+    created_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Value of the X-Superintent-Signature header: HMAC-SHA256 of the raw body.
+ */
+export function signPayload(secret: string, payload: string): string {
+  return `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+interface SendResult {
+  ok: boolean;
+  responseStatus?: number;
+  error?: string;
+}
+
+async function send(webhook: WebhookConfig, delivery: WebhookDelivery): Promise<SendResult> {
+  try {
+    const res = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'superintent-webhooks',
+        'X-Superintent-Event': delivery.event_type,
+        'X-Superintent-Delivery': delivery.id,
+        'X-Superintent-Signature': signPayload(webhook.secret, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (res.ok) {
+      await res.body?.cancel();
+      return { ok: true, responseStatus: res.status };
+    }
+    const text = (await res.text().catch(() => '')).slice(0, MAX_ERROR_BODY);
+    return { ok: false, responseStatus: res.status, error: `HTTP ${res.status}${text ? `: ${text}` : ''}` };
+  } catch (error) {
+    const cause = (error as Error & { cause?: Error }).cause;
+    return { ok: false, error: cause?.message ?? (error as Error).message };
+  }
+}
+
+/**
+ * Make one attempt at a delivery with the subscription's current URL and secret.
+ * With `retry`, a failure is scheduled again after the next backoff delay until the
+ * attempts run out; without it (test pings, manual redelivery) it fails right away.
+ * Returns null when another dispatcher took the delivery first.
+ */
+export async function attemptDelivery(
+  client: Client,
+  delivery: WebhookDelivery,
+  webhook: WebhookConfig,
+  retry: boolean,
+): Promise<WebhookDelivery | null> {
+  if (!(await claimWebhookDelivery(client, delivery, webhook.url, LEASE_SECONDS))) return null;
+
+  const result = await send(webhook, delivery);
+  const attempts = delivery.attempts + 1;
+  const retryInSeconds = retry && !result.ok ? RETRY_DELAYS_SECONDS[attempts - 1] : undefined;
+
+  await recordWebhookAttempt(client, delivery.id, {
+    status: result.ok ? 'delivered' : retryInSeconds !== undefined ? 'pending' : 'failed',
+    responseStatus: result.responseStatus,
+    error: result.error,
+    retryInSeconds,
+  });
+  return getWebhookDelivery(client, delivery.id);
+}
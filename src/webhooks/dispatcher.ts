@@ -0,0 +1,168 @@
+/**
+ * Background webhook sender, run by the dashboard and the daemon. Polls webhook_events
+ * (written by triggers, so changes from the CLI, MCP and other machines are covered),
+ * queues a delivery for every matching subscription, then sends due deliveries.
+ *
+ * Each subscription keeps its position in the metadata table, so events made while no
+ * dispatcher was running are sent when one starts. A new subscription starts at the
+ * latest event. Several dispatchers on one database are safe: deliveries are unique
+ * per (subscription, event) and claimed before sending.
+ *
+ * A running dispatcher stamps the metadata table now and then, so commands run
+ * without one (`webhooks list`, `webhooks test`) can tell that deliveries are waiting.
+ */
+
+import type { Client } from '@libsql/client';
+import { getMetadata, setMetadata } from '../db/embedding-meta.js';
+import {
+  createWebhookDelivery,
+  getDueWebhookDeliveries,
+  getLatestWebhookEventSeq,
+  getWebhookEventsSince,
+  pruneWebhookDeliveries,
+} from '../db/webhooks.js';
+import { attemptDelivery, buildEventPayload, matchesEvent } from './delivery.js';
+import type { WebhookConfig } from '../utils/config.js';
+
+const POLL_INTERVAL_MS = 5000;
+const PAGE_SIZE = 200;
+// Delivered and failed deliveries are kept this long
+const DELIVERY_RETENTION_DAYS = 30;
+const HEARTBEAT_KEY = 'webhook_dispatcher_seen_at';
+// Stamped at most this often; a stamp older than HEARTBEAT_STALE_MS means no dispatcher runs
+const HEARTBEAT_INTERVAL_MS = 60_000;
+const HEARTBEAT_STALE_MS = 150_000;
+
+export interface WebhookDispatcherOptions {
+  intervalMs?: number;
+  // Called when a poll fails (e.g. database locked); the next poll tries again
+  onError?: (error: Error) => void;
+}
+
+export interface WebhookDispatcherStatus {
+  running: boolean;
+  // Last time a dispatcher polled (ISO), null if none ever ran on this database
+  last_seen_at: string | null;
+}
+
+export interface WebhookDispatcher {
+  // Poll now instead of waiting for the next interval
+  check: () => void;
+  stop: () => void;
+}
+
+function cursorKey(webhookId: string): string {
+  return `webhook_cursor:${webhookId}`;
+}
+
+async function queueNewEvents(client: Client, webhooks: WebhookConfig[]): Promise<void> {
+  if (webhooks.length === 0) return;
+  const cursors = new Map<string, number>();
+  let latest: number | null = null;
+  for (const webhook of webhooks) {
+    const stored = await getMetadata(client, cursorKey(webhook.id));
+    if (stored !== null) {
+      cursors.set(webhook.id, Number(stored));
+      continue;
+    }
+    latest ??= await getLatestWebhookEventSeq(client);
+    await setMetadata(client, cursorKey(webhook.id), String(latest));
+    cursors.set(webhook.id, latest);
+  }
+
+  let position = Math.min(...cursors.values());
+  for (;;) {
+    const events = await getWebhookEventsSince(client, position, PAGE_SIZE);
+    if (events.length === 0) return;
+
+    for (const event of events) {
+      for (const webhook of webhooks) {
+        if (event.seq <= cursors.get(webhook.id)! || !matchesEvent(webhook.events, event)) continue;
+        await createWebhookDelivery(client, {
+          webhookId: webhook.id,
+          eventSeq: event.seq,
+          eventType: event.type,
+          url: webhook.url,
+          payload: buildEventPayload(event),
+        });
+      }
+    }
+
+    position = events[events.length - 1].seq;
+    for (const webhook of webhooks) {
+      if (cursors.get(webhook.id)! < position) {
+        cursors.set(webhook.id, position);
+        await setMetadata(client, cursorKey(webhook.id), String(position));
+      }
+    }
+    if (events.length < PAGE_SIZE) return;
+  }
+}
+
+async function sendDueDeliveries(client: Client, webhooks: WebhookConfig[]): Promise<void> {
+  const byId = new Map(webhooks.map(webhook => [webhook.id, webhook]));
+  for (;;) {
+    const due = await getDueWebhookDeliveries(client, [...byId.keys()], PAGE_SIZE);
+    for (const delivery of due) {
+      await attemptDelivery(client, delivery, byId.get(delivery.webhook_id)!, true);
+    }
+    // Claimed deliveries are no longer due, so the next page holds only new ones
+    if (due.length < PAGE_SIZE) return;
+  }
+}
+
+export async function getWebhookDispatcherStatus(client: Client): Promise<WebhookDispatcherStatus> {
+  const seenAt = await getMetadata(client, HEARTBEAT_KEY);
+  return {
+    running: seenAt !== null && Date.now() - Date.parse(seenAt) < HEARTBEAT_STALE_MS,
+    last_seen_at: seenAt,
+  };
+}
+
+export function startWebhookDispatcher(
+  client: Client,
+  webhooks: WebhookConfig[],
+  options: WebhookDispatcherOptions = {},
+): WebhookDispatcher {
+  let polling = false;
+  let pollAgain = false;
+  let stopped = false;
+  let lastHeartbeat = 0;
+
+  const poll = async (): Promise<void> => {
+    if (stopped) return;
+    if (polling) {
+      pollAgain = true;
+      return;
+    }
+
+    polling = true;
+    try {
+      await queueNewEvents(client, webhooks);
+      await sendDueDeliveries(client, webhooks);
+      if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+        await setMetadata(client, HEARTBEAT_KEY, new Date().toISOString());
+        lastHeartbeat = Date.now();
+      }
+    } catch (error) {
+      options.onError?.(error as Error);
+    } finally {
+      polling = false;
+      if (pollAgain) {
+        pollAgain = false;
+        void poll();
+      }
+    }
+  };
+
+  const timer = setInterval(() => void poll(), options.intervalMs ?? POLL_INTERVAL_MS);
+  void pruneWebhookDeliveries(client, DELIVERY_RETENTION_DAYS).catch(() => {}).then(() => poll());
+
+  return {
+    check: () => void poll(),
+    stop: () => {
+      stopped = true;
+      clearInterval(timer);
+    },
+  };
+}
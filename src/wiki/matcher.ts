@@ -3,7 +3,7 @@
 
 import type { Client } from '@libsql/client';
 import type { ASTFileResult, ASTFunction, ASTClass } from './scanner.js';
-import { embed } from '../embed/model.js';
+import { embedBatch } from '../embed/model.js';
 import { performVectorSearch } from '../db/search.js';
 import { generateId } from '../utils/id.js';
 
@@ -110,6 +110,8 @@ export async function matchKnowledgeToFile(
 
   if (elements.length === 0 || knowledgeEntries.length === 0) return citations;
 
+  const vectorCandidates: { el: CodeElement; summary: string }[] = [];
+
   for (const el of elements) {
     // Tier 1: Tag match
     const tagMatches = tagMatch(el.name, knowledgeEntries);
@@ -145,15 +147,26 @@ export async function matchKnowledgeToFile(
       continue;
     }
 
-    // Tier 3: Vector match (expensive — only for unmatched elements)
+    // Tier 3 (vector) runs below for all unmatched elements at once
+    let source: ASTFunction | ASTClass | undefined;
+    if (el.elementKind === 'class') source = file.classes.find(c => c.name === el.name && c.line === el.line);
+    else source = file.functions.find(f => f.name === el.name && f.line === el.line);
+    if (source) vectorCandidates.push({ el, summary: buildCodeElementSummary(file, source) });
+  }
+
+  // Tier 3: Vector match (expensive — only for unmatched elements, embedded in one batch)
+  if (vectorCandidates.length === 0) return citations;
+  let summaryEmbeddings: number[][];
+  try {
+    summaryEmbeddings = await embedBatch(vectorCandidates.map(c => c.summary), true);
+  } catch {
+    // Embedding failed — skip the vector tier
+    return citations;
+  }
+
+  for (const [i, { el }] of vectorCandidates.entries()) {
     try {
-      let source: ASTFunction | ASTClass | undefined;
-      if (el.elementKind === 'class') source = file.classes.find(c => c.name === el.name && c.line === el.line);
-      else source = file.functions.find(f => f.name === el.name && f.line === el.line);
-      if (!source) continue;
-      const summary = buildCodeElementSummary(file, source);
-      const queryEmbedding = await embed(summary, true);
-      const vectorResults = await performVectorSearch(client, queryEmbedding, {
+      const vectorResults = await performVectorSearch(client, summaryEmbeddings[i], {
         limit: 3,
         minScore: 0.45,
         trackUsage: false,
@@ -0,0 +1,109 @@
+// Wiki symbol search — case-insensitive substring match over a project scan
+
+import type { WikiScanResult } from './scanner.js';
+
+export interface WikiSearchHit {
+  type: 'function' | 'class' | 'method' | 'file' | 'variable' | 'constant' | 'interface';
+  name: string;
+  filePath: string;
+  line?: number;
+  endLine?: number;
+  detail?: string;
+}
+
+/**
+ * Find files, functions, classes, methods, variables and interfaces whose name
+ * (or path, for files) contains `query`. Hits follow scan order, capped at `maxResults`.
+ */
+export function searchWikiSymbols(scan: WikiScanResult, query: string, maxResults: number): WikiSearchHit[] {
+  const q = query.trim().toLowerCase();
+  const hits: WikiSearchHit[] = [];
+  if (!q) return hits;
+
+  for (const file of scan.files) {
+    if (hits.length >= maxResults) break;
+
+    // Match file path
+    if (file.relativePath.toLowerCase().includes(q)) {
+      hits.push({
+        type: 'file',
+        name: file.relativePath.split('/').pop() || file.relativePath,
+        filePath: file.relativePath,
+      });
+    }
+
+    // Match functions
+    for (const fn of file.functions) {
+      if (hits.length >= maxResults) break;
+      if (fn.name.toLowerCase().includes(q)) {
+        hits.push({
+          type: 'function',
+          name: fn.name,
+          filePath: file.relativePath,
+          line: fn.line,
+          endLine: fn.endLine,
+          detail: fn.params.length > 0 ? `(${fn.params.join(', ')})` : undefined,
+        });
+      }
+    }
+
+    // Match classes and their methods
+    for (const cls of file.classes) {
+      if (hits.length >= maxResults) break;
+      if (cls.name.toLowerCase().includes(q)) {
+        hits.push({
+          type: 'class',
+          name: cls.name,
+          filePath: file.relativePath,
+          line: cls.line,
+          endLine: cls.endLine,
+          detail: `${cls.methods.length} method${cls.methods.length !== 1 ? 's' : ''}`,
+        });
+      }
+      for (const method of cls.methods) {
+        if (hits.length >= maxResults) break;
+        if (method.name.toLowerCase().includes(q)) {
+          hits.push({
+            type: 'method',
+            name: `${cls.name}.${method.name}`,
+            filePath: file.relativePath,
+            line: method.line,
+            endLine: method.endLine,
+            detail: method.params.length > 0 ? `(${method.params.join(', ')})` : undefined,
+          });
+        }
+      }
+    }
+
+    // Match constants and variables
+    for (const v of (file.variables || [])) {
+      if (hits.length >= maxResults) break;
+      if (v.name.toLowerCase().includes(q)) {
+        hits.push({
+          type: v.kind === 'const' ? 'constant' : 'variable',
+          name: v.name,
+          filePath: file.relativePath,
+          line: v.line,
+          detail: v.kind,
+        });
+      }
+    }
+
+    // Match interfaces
+    for (const iface of (file.interfaces || [])) {
+      if (hits.length >= maxResults) break;
+      if (iface.name.toLowerCase().includes(q)) {
+        hits.push({
+          type: 'interface',
+          name: iface.name,
+          filePath: file.relativePath,
+          line: iface.line,
+          endLine: iface.endLine,
+          detail: iface.properties.length > 0 ? `${iface.properties.length} prop${iface.properties.length !== 1 ? 's' : ''}` : undefined,
+        });
+      }
+    }
+  }
+
+  return hits;
+}